@@ -0,0 +1,149 @@
+import 'dotenv/config';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { openDb, migrate } from '../server/db/sqlite.js';
+import { installHttpCassettes } from '../server/providers/cassettes.js';
+import { createRequestScheduler } from './scheduler.js';
+
+// Shared plumbing for the agent subcommands (agent/commands/*): argv parsing, per-command
+// help and the env/DB/scheduler bootstrap every command needs.
+
+export interface CommandOption {
+  flag: string; // e.g. '--limit=<n>'
+  description: string;
+}
+
+export interface AgentCommand {
+  name: string;
+  summary: string;
+  usage: string[];
+  options: CommandOption[];
+  // Extra help text printed after the options (examples, env vars, ...).
+  notes?: string[];
+  // Resolves to the process exit code (0 when omitted).
+  run(args: ParsedArgs): Promise<number | void>;
+}
+
+export interface ParsedArgs {
+  command: string;
+  flags: Record<string, string | true>;
+  positionals: string[];
+  help: boolean;
+}
+
+// `agent <command> [--flag] [--key=value] ...`; the command defaults to `ingest` so
+// `npm run agent:run -- --limit=80` keeps working.
+export function parseArgs(argv: string[]): ParsedArgs {
+  const out: ParsedArgs = { command: '', flags: {}, positionals: [], help: false };
+  for (const raw of argv) {
+    const a = String(raw || '').trim();
+    if (!a) continue;
+    if (a === '--help' || a === '-h') out.help = true;
+    else if (a.startsWith('--')) {
+      const eq = a.indexOf('=');
+      if (eq > 2) out.flags[a.slice(2, eq)] = a.slice(eq + 1);
+      else out.flags[a.slice(2)] = true;
+    } else if (!out.command) out.command = a;
+    else out.positionals.push(a);
+  }
+  return out;
+}
+
+// Flags a command did not declare (option names are taken from `--name` / `--name=<...>`).
+export function unknownFlags(cmd: AgentCommand, args: ParsedArgs) {
+  const known = new Set(cmd.options.map((o) => o.flag.replace(/^--/, '').split(/[=[ ]/)[0]));
+  return Object.keys(args.flags).filter((k) => !known.has(k));
+}
+
+export function stringFlag(args: ParsedArgs, name: string, fallback = '') {
+  const v = args.flags[name];
+  return typeof v === 'string' ? v.trim() : fallback;
+}
+
+export function boolFlag(args: ParsedArgs, name: string) {
+  const v = args.flags[name];
+  return v === true || (typeof v === 'string' && !['0', 'false', 'no'].includes(v.toLowerCase()));
+}
+
+// Numeric flag, else the env var, else the fallback.
+export function numberFlag(args: ParsedArgs, name: string, envName: string, fallback: number) {
+  const v = Number(stringFlag(args, name));
+  if (stringFlag(args, name) && Number.isFinite(v)) return v;
+  const e = envName ? Number(process.env[envName]) : NaN;
+  if (envName && String(process.env[envName] || '').trim() && Number.isFinite(e)) return e;
+  return fallback;
+}
+
+export function listFlag(args: ParsedArgs, name: string, envName = '') {
+  return (stringFlag(args, name) || (envName ? String(process.env[envName] || '') : ''))
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function printCommandHelp(cmd: AgentCommand) {
+  const w = (s = '') => process.stdout.write(`${s}\n`);
+  w();
+  w(`agent ${cmd.name} - ${cmd.summary}`);
+  w();
+  w('Usage:');
+  for (const u of cmd.usage) w(`  ${u}`);
+  if (cmd.options.length) {
+    w();
+    w('Options:');
+    const pad = Math.max(...cmd.options.map((o) => o.flag.length)) + 2;
+    for (const o of cmd.options) w(`  ${o.flag.padEnd(pad)}${o.description}`);
+  }
+  for (const n of cmd.notes || []) w(n);
+  w();
+}
+
+export function printCommandList(commands: AgentCommand[]) {
+  const w = (s = '') => process.stdout.write(`${s}\n`);
+  w();
+  w('IndiaMovieGuide ingestion agent');
+  w();
+  w('Usage:');
+  w('  npm run agent -- <command> [options]');
+  w('  npm run agent -- <command> --help');
+  w();
+  w('Commands:');
+  for (const c of commands) w(`  ${c.name.padEnd(10)}${c.summary}`);
+  w();
+  w('Without a command the agent runs `ingest` (npm run agent:run).');
+  w('Env: DB_PATH, TMDB_API_KEY/TMDB_BEARER_TOKEN, YOUTUBE_API_KEY, OMDB_API_KEY, MOTN_API_KEY (optional)');
+  w();
+}
+
+function loadEnvFileIfPresent(filename) {
+  try {
+    const full = path.join(process.cwd(), filename);
+    if (!fs.existsSync(full)) return;
+    const content = fs.readFileSync(full, 'utf-8');
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+      const eq = line.indexOf('=');
+      if (eq <= 0) continue;
+      const key = line.slice(0, eq).trim();
+      const value = line.slice(eq + 1).trim();
+      if (!process.env[key]) process.env[key] = value;
+    }
+  } catch {
+    // ignore
+  }
+}
+
+// Env files, HTTP cassettes, migrated DB and the provider request scheduler.
+export function bootstrap() {
+  // Support either `.env` or a plain `env` file.
+  loadEnvFileIfPresent('.env');
+  loadEnvFileIfPresent('env');
+  installHttpCassettes();
+
+  const db = openDb();
+  migrate(db);
+  const scheduler = createRequestScheduler(db);
+  return { db, scheduler };
+}
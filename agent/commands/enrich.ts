@@ -0,0 +1,98 @@
+import { lowestQualityMovies, refreshQualityScores } from '../../server/db/quality.js';
+import { makeId } from '../../server/repo.js';
+import { AgentCommand, boolFlag, bootstrap, listFlag, numberFlag, stringFlag } from '../cli.js';
+import { emptyRunStats, executeRun } from '../pipeline.js';
+import { createRun, loadRunItems, markItem, markStep, saveRunStats } from '../runs.js';
+import { checkEnrichMode, enrichStepNotes } from './ingest.js';
+
+// Same id forms the admin endpoints accept: `tmdb-movie:123` or a bare TMDB id.
+function normalizeMovieIdInput(raw) {
+  const s = String(raw || '').trim();
+  if (!s) return '';
+  if (/^\d+$/.test(s)) return makeId('tmdb-movie', Number(s));
+  return s;
+}
+
+export const enrichCommand: AgentCommand = {
+  name: 'enrich',
+  summary: 'Re-run enrichment steps for specific movies already in the DB',
+  usage: [
+    'npm run agent -- enrich --movie=<id>[,<id>...] [--enrich=all|<step,...>] [--refetch] [--dry-run]',
+    'npm run agent -- enrich --movie=tmdb-movie:12345 --enrich=songs,ratings',
+    'npm run agent -- enrich --lowest=25 [--lang=Tamil] [--max-score=70]'
+  ],
+  options: [
+    { flag: '--movie=<ids>', description: 'comma-separated movie ids (tmdb-movie:123 or the bare TMDB id)' },
+    { flag: '--lowest=<n>', description: 'the n movies with the lowest completeness score (see `verify --score`)' },
+    { flag: '--lang=<name>', description: 'with --lowest: only this language' },
+    { flag: '--max-score=<0..100>', description: 'with --lowest: only movies scoring at most this (default 99)' },
+    { flag: '--enrich=<steps>', description: 'steps to run (default all steps whose provider key is set)' },
+    { flag: '--refetch', description: 'fetch and upsert the TMDB record again before enriching' },
+    { flag: '--dry-run', description: 'write nothing; print a field-level diff (implies --refetch)' }
+  ],
+  notes: [
+    ...enrichStepNotes(),
+    '',
+    'Steps keep their own guards (e.g. `songs` is skipped when a catalog tracklist exists).',
+    'The run is checkpointed like an ingest run; continue it with `npm run agent -- ingest --resume`.'
+  ],
+  async run(args) {
+    const movieIds = Array.from(new Set(listFlag(args, 'movie').map(normalizeMovieIdInput).filter(Boolean)));
+    const lowest = Math.max(0, Math.floor(numberFlag(args, 'lowest', '', 0)));
+    if (!movieIds.length && !lowest) {
+      process.stderr.write('enrich needs at least one --movie=<id> or --lowest=<n>\n');
+      return 2;
+    }
+    const enrichMode = String(stringFlag(args, 'enrich') || 'all').toLowerCase();
+    if (!checkEnrichMode(enrichMode)) return 2;
+    const dryRun = boolFlag(args, 'dry-run');
+    const refetch = dryRun || boolFlag(args, 'refetch');
+
+    const { db, scheduler } = bootstrap();
+    if (lowest) {
+      // Score against the current data so movies fixed since the last run drop out.
+      refreshQualityScores(db);
+      const picked = lowestQualityMovies(db, {
+        limit: lowest,
+        lang: stringFlag(args, 'lang'),
+        maxScore: numberFlag(args, 'max-score', '', 99)
+      });
+      for (const m of picked) {
+        process.stdout.write(`Lowest score ${String(m.score).padStart(3)}: ${m.title} (${m.id})\n`);
+        if (!movieIds.includes(m.id)) movieIds.push(m.id);
+      }
+      if (!movieIds.length) {
+        process.stdout.write('No movies below the score threshold.\n');
+        return 0;
+      }
+    }
+    const rows = [];
+    for (const id of movieIds) {
+      const row = db.prepare('SELECT id, tmdb_id, title FROM movies WHERE id = ?').get(id);
+      if (!row) process.stderr.write(`Not found: ${id}\n`);
+      else if (row.tmdb_id == null) process.stderr.write(`Not a TMDB movie (enrichment needs a TMDB id): ${id}\n`);
+      else rows.push(row);
+    }
+    if (!rows.length) return 1;
+
+    const run = createRun(
+      db,
+      { command: 'enrich', movies: rows.map((r) => r.id), enrich: enrichMode, refetch, dryRun },
+      rows.map((r) => Number(r.tmdb_id))
+    );
+    // Without --refetch the movies count as already upserted, so the pipeline goes straight
+    // to the enrichment steps.
+    if (!refetch) {
+      const byTmdbId = new Map(rows.map((r) => [Number(r.tmdb_id), r]));
+      for (const item of loadRunItems(db, run.id)) {
+        const row = byTmdbId.get(item.tmdbId);
+        markItem(db, run.id, item, { movieId: row.id, title: row.title });
+        markStep(db, run.id, item, 'upserted', 'done');
+      }
+    }
+    const stats = { ...emptyRunStats(), discovered: rows.length };
+    saveRunStats(db, run.id, stats);
+    await executeRun(db, scheduler, run, stats);
+    return 0;
+  }
+};
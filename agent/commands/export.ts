@@ -0,0 +1,88 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { hydrateMovie, hydratePerson } from '../../server/db/repository.js';
+import { nowIso } from '../../server/repo.js';
+import { AgentCommand, boolFlag, bootstrap, stringFlag } from '../cli.js';
+
+// Catalog dump in the API shapes (`hydrateMovie` / `hydratePerson`). Records are written one
+// at a time so large catalogs never sit in memory.
+
+const FORMATS = ['ndjson', 'json'];
+
+export const exportCommand: AgentCommand = {
+  name: 'export',
+  summary: 'Dump the catalog (movies + people) as NDJSON or JSON',
+  usage: ['npm run agent -- export [--format=ndjson|json] [--out=<file>|-] [--lang=Hindi] [--since=2024-01-01] [--all] [--no-persons]'],
+  options: [
+    { flag: '--format=ndjson|json', description: 'ndjson (default): one {"type": "movie"|"person", ...} record per line' },
+    { flag: '--out=<file>', description: 'output file, `-` for stdout (default .cache/catalog-export-<date>.<format>)' },
+    { flag: '--lang=<name>', description: 'only movies in this language' },
+    { flag: '--since=<date>', description: 'only movies updated on or after this date' },
+    { flag: '--all', description: 'include titles classified as non-Indian' },
+    { flag: '--no-persons', description: 'skip the people referenced by the exported movies' }
+  ],
+  async run(args) {
+    const format = stringFlag(args, 'format', 'ndjson').toLowerCase() || 'ndjson';
+    if (!FORMATS.includes(format)) {
+      process.stderr.write(`Unknown format: ${format} (expected ${FORMATS.join('|')})\n`);
+      return 2;
+    }
+    const { db } = bootstrap();
+    const lang = stringFlag(args, 'lang');
+    const since = stringFlag(args, 'since');
+    const ids = db
+      .prepare(
+        `
+        SELECT id FROM movies
+        WHERE (? = 1 OR COALESCE(is_indian, 1) = 1)
+          AND (? = '' OR lower(language) = lower(?))
+          AND (? = '' OR updated_at >= ?)
+        ORDER BY COALESCE(release_date, '') DESC, id ASC
+      `
+      )
+      .all(boolFlag(args, 'all') ? 1 : 0, lang, lang, since, since)
+      .map((r) => r.id);
+
+    const outArg = stringFlag(args, 'out');
+    const toStdout = outArg === '-';
+    const file = toStdout
+      ? ''
+      : path.resolve(outArg || path.join('.cache', `catalog-export-${nowIso().slice(0, 10)}.${format}`));
+    if (file) fs.mkdirSync(path.dirname(file), { recursive: true });
+    const fd = toStdout ? 1 : fs.openSync(file, 'w');
+    const write = (s) => fs.writeSync(fd, s);
+
+    const personIds = new Set<string>();
+    let movies = 0;
+    let persons = 0;
+    const emit = (type, record, first) => {
+      if (format === 'ndjson') write(`${JSON.stringify({ type, ...record })}\n`);
+      else write(`${first ? '' : ',\n'}    ${JSON.stringify(record)}`);
+    };
+
+    if (format === 'json') write(`{\n  "exportedAt": ${JSON.stringify(nowIso())},\n  "movies": [\n`);
+    for (const id of ids) {
+      const movie = hydrateMovie(db, id);
+      if (!movie) continue;
+      emit('movie', movie, movies === 0);
+      movies++;
+      for (const c of movie.cast || []) if (c.personId) personIds.add(c.personId);
+    }
+    if (format === 'json') write(`\n  ],\n  "persons": [\n`);
+    if (!boolFlag(args, 'no-persons')) {
+      for (const id of personIds) {
+        const person = hydratePerson(db, id);
+        if (!person) continue;
+        emit('person', person, persons === 0);
+        persons++;
+      }
+    }
+    if (format === 'json') write(`\n  ]\n}\n`);
+    if (!toStdout) {
+      fs.closeSync(fd);
+      process.stderr.write(`Exported ${movies} movie(s) and ${persons} person(s) to ${path.relative(process.cwd(), file)}\n`);
+    }
+    return 0;
+  }
+};
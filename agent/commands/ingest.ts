@@ -0,0 +1,179 @@
+import { defaultIndianLanguageCodes, tmdbDiscoverMovies } from '../../server/providers/tmdb.js';
+import { nowIso } from '../../server/repo.js';
+import { AgentCommand, boolFlag, bootstrap, listFlag, numberFlag, stringFlag } from '../cli.js';
+import { collectCrawlIds } from '../crawl.js';
+import { emptyRunStats, executeRun } from '../pipeline.js';
+import { createRun, getRun, latestIncompleteRun, markRunStatus, saveRunStats, type RunStats } from '../runs.js';
+import { enrichmentSteps, resolveEnrichSteps } from '../steps.js';
+
+const PERSONS_MODES = ['all', 'tmdb', 'none'];
+
+function iso(daysFromNow) {
+  return new Date(Date.now() + daysFromNow * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// Pull "New" and "Upcoming" candidates from TMDB (first discover page of each window).
+async function discoverNewAndUpcoming(scheduler, { langs, daysPast, daysFuture, limit }) {
+  const today = iso(0);
+  const past = iso(-daysPast);
+  const future = iso(daysFuture);
+  const discover = (label, dateGte, dateLte) =>
+    scheduler
+      .schedule('tmdb', () =>
+        tmdbDiscoverMovies({
+          dateGte,
+          dateLte,
+          sortBy: 'popularity.desc',
+          page: 1,
+          region: 'IN',
+          languages: langs,
+          voteCountGte: 0
+        })
+      )
+      .catch((err) => {
+        process.stderr.write(`Discover (${label}) failed: ${String(err?.message || err).slice(0, 200)}\n`);
+        return [];
+      });
+  const [newHits, upcomingHits] = await Promise.all([discover('new', past, today), discover('upcoming', today, future)]);
+  return Array.from(new Set([...newHits, ...upcomingHits].map((h) => h.tmdbId))).slice(0, limit);
+}
+
+// Validate `--enrich`; prints the known steps and returns false for unknown names.
+export function checkEnrichMode(enrichMode) {
+  const { unknown } = resolveEnrichSteps(enrichMode);
+  if (!unknown.length) return true;
+  const known = enrichmentSteps().map((st) => st.name).join(', ');
+  process.stderr.write(`Unknown enrichment step(s): ${unknown.join(', ')} (available: ${known})\n`);
+  return false;
+}
+
+export function enrichStepNotes() {
+  const notes = ['', 'Enrichment steps (--enrich=trailer,soundtrack,songs):'];
+  for (const step of enrichmentSteps()) {
+    const env = step.requiresEnv?.length ? ` [needs ${step.requiresEnv.join(', ')}]` : '';
+    notes.push(`  ${step.name.padEnd(18)} ${step.description}${env}`);
+  }
+  return notes;
+}
+
+async function resume(db, scheduler, runId) {
+  const run = runId ? getRun(db, runId) : latestIncompleteRun(db);
+  if (!run) {
+    process.stdout.write(runId ? `No agent run ${runId}\n` : `No incomplete agent run to resume.\n`);
+    return 0;
+  }
+  if (run.status === 'finished') {
+    process.stdout.write(`Agent run ${run.id} already finished at ${run.finishedAt}\n`);
+    return 0;
+  }
+  markRunStatus(db, run.id, 'running');
+  const stats: RunStats = { ...emptyRunStats(), ...(run.stats || {}), startedAt: run.startedAt };
+  stats.resumes = (Number(stats.resumes) || 0) + 1;
+  stats.resumedAt = nowIso();
+  process.stdout.write(`Resuming agent run ${run.id} (started ${run.startedAt})\n`);
+  await executeRun(db, scheduler, run, stats, { resumed: true });
+  return 0;
+}
+
+export const ingestCommand: AgentCommand = {
+  name: 'ingest',
+  summary: 'Discover new/upcoming titles (or crawl the back catalog), upsert them from TMDB and enrich them',
+  usage: [
+    'npm run agent -- ingest [--limit=80] [--daysPast=45] [--daysFuture=180] [--langs=hi,kn,...] [--enrich=all|tmdb|none|<step,...>] [--dry-run]',
+    'npm run agent -- ingest --mode=crawl [--window=year|month] [--from=1950] [--to=<year>] [--limit=300] [--refresh] [--reset-cursor]',
+    'npm run agent -- ingest --resume[=<runId>]'
+  ],
+  options: [
+    { flag: '--limit=<n>', description: 'titles per run (default 80, crawl 300; env AGENT_LIMIT / AGENT_CRAWL_LIMIT)' },
+    { flag: '--daysPast=<n>', description: '"New" window in days (default 45; env AGENT_DAYS_PAST)' },
+    { flag: '--daysFuture=<n>', description: '"Upcoming" window in days (default 180; env AGENT_DAYS_FUTURE)' },
+    { flag: '--langs=<codes>', description: 'TMDB original languages (default: all Indian; env AGENT_LANGS)' },
+    { flag: '--enrich=<steps>', description: 'all (default), tmdb/none, or a comma-separated step list (env AGENT_ENRICH)' },
+    { flag: '--dry-run', description: 'write nothing; print a field-level diff and save .cache/agent-dry-run-<runId>.json' },
+    { flag: '--mode=ingest|crawl', description: 'crawl walks the back catalog per language, newest window first' },
+    { flag: '--window=year|month', description: 'crawl window size (default year)' },
+    { flag: '--from=<year>', description: 'oldest crawl year (default 1950; env AGENT_CRAWL_FROM_YEAR)' },
+    { flag: '--to=<year>', description: 'newest crawl year (default: this year)' },
+    { flag: '--refresh', description: 'crawl: re-ingest titles already in the DB' },
+    { flag: '--reset-cursor', description: 'crawl: start over from the newest window' },
+    { flag: '--persons=all|tmdb|none', description: 'after the movies: profiles of their cast (all = TMDB + Wikipedia; env AGENT_PERSONS)' },
+    { flag: '--persons-limit=<n>', description: 'people per run (default 200; env AGENT_PERSONS_LIMIT)' },
+    { flag: '--persons-refresh', description: 'also re-fetch people who already have a bio and Wikipedia link' },
+    { flag: '--resume[=<runId>]', description: 'continue the last incomplete run (any command) or a specific one' }
+  ],
+  notes: enrichStepNotes(),
+  async run(args) {
+    const mode = stringFlag(args, 'mode', 'ingest') || 'ingest';
+    const crawl = mode === 'crawl';
+    if (!crawl && mode !== 'ingest') {
+      process.stderr.write(`Unknown mode: ${mode} (expected ingest|crawl)\n`);
+      return 2;
+    }
+    const enrichMode = String(stringFlag(args, 'enrich') || process.env.AGENT_ENRICH || 'all').toLowerCase();
+    if (!checkEnrichMode(enrichMode)) return 2;
+    const personsMode = String(stringFlag(args, 'persons') || process.env.AGENT_PERSONS || 'all').toLowerCase();
+    if (!PERSONS_MODES.includes(personsMode)) {
+      process.stderr.write(`Unknown persons mode: ${personsMode} (expected ${PERSONS_MODES.join('|')})\n`);
+      return 2;
+    }
+
+    const { db, scheduler } = bootstrap();
+    if (args.flags.resume) return resume(db, scheduler, typeof args.flags.resume === 'string' ? args.flags.resume : '');
+
+    const dryRun = boolFlag(args, 'dry-run');
+    const limit = numberFlag(args, 'limit', crawl ? 'AGENT_CRAWL_LIMIT' : 'AGENT_LIMIT', crawl ? 300 : 80);
+    const daysPast = numberFlag(args, 'daysPast', 'AGENT_DAYS_PAST', 45);
+    const daysFuture = numberFlag(args, 'daysFuture', 'AGENT_DAYS_FUTURE', 180);
+    const langs = listFlag(args, 'langs', 'AGENT_LANGS');
+    const tmdbLangs = langs.length ? langs : defaultIndianLanguageCodes();
+
+    let ids = [];
+    let crawlSummary = null;
+    if (crawl) {
+      const window = stringFlag(args, 'window', 'year').toLowerCase() || 'year';
+      const fromYear = numberFlag(args, 'from', 'AGENT_CRAWL_FROM_YEAR', 1950) || 1950;
+      const toYear = numberFlag(args, 'to', '', NaN);
+      const out = await collectCrawlIds(db, scheduler, {
+        langs: tmdbLangs,
+        window,
+        fromYear,
+        toYear,
+        limit,
+        refresh: boolFlag(args, 'refresh'),
+        reset: boolFlag(args, 'reset-cursor'),
+        dryRun
+      });
+      ids = out.ids;
+      crawlSummary = out.summary;
+      for (const [lang, l] of Object.entries<any>(crawlSummary.languages)) {
+        const c = l.cursor || {};
+        const at = c.done ? 'done' : `${c.start} page ${c.page}`;
+        process.stdout.write(`Crawl ${lang}: +${l.added} new over ${l.pages} page(s); cursor ${at}${l.error ? ` (error: ${l.error})` : ''}\n`);
+      }
+    } else {
+      ids = await discoverNewAndUpcoming(scheduler, { langs: tmdbLangs, daysPast, daysFuture, limit });
+    }
+
+    const run = createRun(
+      db,
+      {
+        command: 'ingest',
+        mode,
+        limit,
+        daysPast,
+        daysFuture,
+        langs: tmdbLangs,
+        enrich: enrichMode,
+        persons: personsMode,
+        personsLimit: numberFlag(args, 'persons-limit', 'AGENT_PERSONS_LIMIT', 200),
+        personsRefresh: boolFlag(args, 'persons-refresh'),
+        dryRun
+      },
+      ids
+    );
+    const stats = { ...emptyRunStats(), discovered: ids.length, ...(crawlSummary ? { crawl: crawlSummary } : {}) };
+    saveRunStats(db, run.id, stats);
+    await executeRun(db, scheduler, run, stats);
+    return 0;
+  }
+};
@@ -0,0 +1,57 @@
+import { makeId } from '../../server/repo.js';
+import { AgentCommand, boolFlag, bootstrap, listFlag, numberFlag, stringFlag } from '../cli.js';
+import { loadPersonsByIds, refreshPersons, selectPersonsToRefresh } from '../persons.js';
+
+function normalizePersonIdInput(raw) {
+  const s = String(raw || '').trim();
+  if (!s) return '';
+  if (/^\d+$/.test(s)) return makeId('tmdb-person', Number(s));
+  return s;
+}
+
+export const personsCommand: AgentCommand = {
+  name: 'persons',
+  summary: 'Ingest cast/crew profiles: TMDB bio + photo, Wikipedia summary, search keys',
+  usage: [
+    'npm run agent -- persons [--limit=100] [--lang=Hindi] [--refresh] [--no-wiki]',
+    'npm run agent -- persons --person=<id>[,<id>...]'
+  ],
+  options: [
+    { flag: '--limit=<n>', description: 'people per run (default 100; env AGENT_PERSONS_LIMIT)' },
+    { flag: '--lang=<name>', description: 'only people in movies of this language' },
+    { flag: '--person=<ids>', description: 'comma-separated person ids (tmdb-person:123 or the bare TMDB id)' },
+    { flag: '--refresh', description: 'also re-fetch people who already have a bio and Wikipedia link' },
+    { flag: '--no-wiki', description: 'skip the Wikipedia lookup' }
+  ],
+  notes: ['', 'Without --person, cast members missing a biography or Wikipedia link are picked, top billed first.'],
+  async run(args) {
+    const { db, scheduler } = bootstrap();
+    const refresh = boolFlag(args, 'refresh');
+    const ids = listFlag(args, 'person').map(normalizePersonIdInput).filter(Boolean);
+    const persons = ids.length
+      ? loadPersonsByIds(db, ids)
+      : selectPersonsToRefresh(db, {
+          limit: numberFlag(args, 'limit', 'AGENT_PERSONS_LIMIT', 100),
+          lang: stringFlag(args, 'lang'),
+          refresh
+        });
+    if (ids.length && persons.length < ids.length) {
+      process.stderr.write(`${ids.length - persons.length} person id(s) not found or without a TMDB id\n`);
+    }
+    if (!persons.length) {
+      process.stdout.write('No persons to refresh.\n');
+      return ids.length ? 1 : 0;
+    }
+
+    process.stdout.write(`Refreshing ${persons.length} person(s)\n`);
+    const stats = await refreshPersons(db, scheduler, persons, { wiki: !boolFlag(args, 'no-wiki'), refresh: refresh || ids.length > 0 });
+    process.stdout.write(
+      `Done. fetched=${stats.fetched} wikiLinked=${stats.wikiLinked} failed=${stats.failed} deferred=${stats.deferred}\n`
+    );
+    for (const [provider, p] of Object.entries<any>(scheduler.stats())) {
+      if (!p.calls) continue;
+      process.stdout.write(`  ${provider}: calls=${p.calls} retries=${p.retries} failed=${p.failed} quotaSkipped=${p.quotaSkipped}\n`);
+    }
+    return 0;
+  }
+};
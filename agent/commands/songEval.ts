@@ -0,0 +1,63 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { AgentCommand, boolFlag, stringFlag } from '../cli.js';
+import { songCandidateScore } from '../songs.js';
+
+// Offline precision check for the YouTube song matcher (agent/songs.ts) against the labeled
+// titles in agent/fixtures/song-titles.json. No DB or API key needed.
+
+const DEFAULT_FIXTURES = path.join('agent', 'fixtures', 'song-titles.json');
+
+function pct(n: number, d: number) {
+  return d ? `${((n / d) * 100).toFixed(1)}%` : 'n/a';
+}
+
+export const songEvalCommand: AgentCommand = {
+  name: 'song-eval',
+  summary: 'Measure song-matcher precision/recall per language on the labeled fixture titles',
+  usage: ['npm run agent -- song-eval [--lang=Tamil] [--fixtures=<file>] [--verbose] [--min-precision=0.9]'],
+  options: [
+    { flag: '--fixtures=<file>', description: `labeled titles (default ${DEFAULT_FIXTURES})` },
+    { flag: '--lang=<name>', description: 'only this language' },
+    { flag: '--verbose', description: 'print every misclassified title' },
+    { flag: '--min-precision=<0..1>', description: 'exit 1 when overall precision is below this' }
+  ],
+  async run(args) {
+    const file = path.resolve(stringFlag(args, 'fixtures') || DEFAULT_FIXTURES);
+    let fixtures;
+    try {
+      fixtures = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (err: any) {
+      process.stderr.write(`Cannot read fixtures ${file}: ${String(err?.message || err)}\n`);
+      return 2;
+    }
+    const only = stringFlag(args, 'lang').toLowerCase();
+    const verbose = boolFlag(args, 'verbose');
+
+    const total = { tp: 0, fp: 0, fn: 0, tn: 0 };
+    for (const [language, cases] of Object.entries<any[]>(fixtures.languages || {})) {
+      if (only && language.toLowerCase() !== only) continue;
+      const c = { tp: 0, fp: 0, fn: 0, tn: 0 };
+      const misses: string[] = [];
+      for (const fx of cases) {
+        const score = songCandidateScore({ ...fx.movie, language }, { title: fx.title, description: fx.description || '' });
+        const accepted = score >= 0;
+        const key = accepted ? (fx.expected ? 'tp' : 'fp') : fx.expected ? 'fn' : 'tn';
+        c[key]++;
+        if (key === 'fp' || key === 'fn') misses.push(`    ${key.toUpperCase()} ${fx.movie.title}: ${fx.title}${accepted ? ` (${score.toFixed(2)})` : ''}`);
+      }
+      for (const k of Object.keys(total)) total[k] += c[k];
+      process.stdout.write(
+        `${language.padEnd(10)} cases=${String(cases.length).padStart(3)}  precision=${pct(c.tp, c.tp + c.fp).padStart(6)}  recall=${pct(c.tp, c.tp + c.fn).padStart(6)}  (fp=${c.fp} fn=${c.fn})\n`
+      );
+      if (verbose && misses.length) process.stdout.write(`${misses.join('\n')}\n`);
+    }
+    const precision = total.tp + total.fp ? total.tp / (total.tp + total.fp) : 1;
+    process.stdout.write(
+      `${'All'.padEnd(10)} cases=${String(total.tp + total.fp + total.fn + total.tn).padStart(3)}  precision=${pct(total.tp, total.tp + total.fp).padStart(6)}  recall=${pct(total.tp, total.tp + total.fn).padStart(6)}\n`
+    );
+    const min = Number(stringFlag(args, 'min-precision'));
+    return Number.isFinite(min) && min > 0 && precision < min ? 1 : 0;
+  }
+};
@@ -0,0 +1,130 @@
+import { QUALITY_RULES, refreshQualityScores } from '../../server/db/quality.js';
+import { AgentCommand, boolFlag, bootstrap, listFlag, numberFlag, stringFlag } from '../cli.js';
+
+// Data-quality checks across the catalog. Each check is a query returning `(id, label)` rows
+// for the records that fail it; movie checks are the scored rules from server/db/quality.js,
+// scoped to Indian titles (and `--lang`).
+
+interface Check {
+  name: string;
+  severity: 'error' | 'warn';
+  description: string;
+  sql: string; // selects id, label; may use the :lang parameter
+}
+
+function movieCheck(name, severity, description, where): Check {
+  return {
+    name,
+    severity,
+    description,
+    sql: `
+      SELECT m.id as id, m.title as label
+      FROM movies m
+      WHERE COALESCE(m.is_indian, 1) = 1
+        AND (:lang = '' OR lower(m.language) = lower(:lang))
+        AND (${where})
+      ORDER BY COALESCE(m.release_date, '') DESC
+    `
+  };
+}
+
+const CHECKS: Check[] = [
+  ...QUALITY_RULES.map((r) => movieCheck(r.name, r.severity, r.description, r.where)),
+  {
+    name: 'orphan-cast',
+    severity: 'error',
+    description: 'cast rows pointing at a missing movie or person',
+    sql: `
+      SELECT mc.movie_id || ' / ' || mc.person_id as id, COALESCE(m.title, p.name, '') as label
+      FROM movie_cast mc
+      LEFT JOIN movies m ON m.id = mc.movie_id
+      LEFT JOIN persons p ON p.id = mc.person_id
+      WHERE (m.id IS NULL OR p.id IS NULL)
+    `
+  },
+  {
+    name: 'orphan-songs',
+    severity: 'error',
+    description: 'songs pointing at a missing movie',
+    sql: `
+      SELECT s.id as id, s.title as label
+      FROM songs s
+      WHERE NOT EXISTS (SELECT 1 FROM movies m WHERE m.id = s.movie_id)
+    `
+  },
+  {
+    name: 'persons-without-bio',
+    severity: 'warn',
+    description: 'cast members without a biography (see `agent persons`)',
+    sql: `
+      SELECT p.id as id, p.name as label
+      FROM persons p
+      WHERE trim(COALESCE(p.biography, '')) = ''
+        AND EXISTS (
+          SELECT 1 FROM movie_cast mc JOIN movies m ON m.id = mc.movie_id
+          WHERE mc.person_id = p.id AND (:lang = '' OR lower(m.language) = lower(:lang))
+        )
+      ORDER BY p.name ASC
+    `
+  }
+];
+
+function runChecks(db, { names, lang, examples }) {
+  const selected = names.length ? CHECKS.filter((c) => names.includes(c.name)) : CHECKS;
+  return selected.map((c) => {
+    const count = Number(db.prepare(`SELECT COUNT(*) as c FROM (${c.sql})`).get({ lang })?.c || 0);
+    const sample = examples > 0 && count ? db.prepare(`${c.sql} LIMIT ${Math.floor(examples)}`).all({ lang }) : [];
+    return { name: c.name, severity: c.severity, description: c.description, count, examples: sample };
+  });
+}
+
+export const verifyCommand: AgentCommand = {
+  name: 'verify',
+  summary: 'Run data-quality checks across the DB',
+  usage: ['npm run agent -- verify [--lang=Hindi] [--check=<name,...>] [--examples=3] [--json] [--strict] [--score]'],
+  options: [
+    { flag: '--lang=<name>', description: 'only movies in this language (e.g. Hindi, Tamil)' },
+    { flag: '--check=<names>', description: 'run only these checks' },
+    { flag: '--examples=<n>', description: 'failing records to list per check (default 3)' },
+    { flag: '--json', description: 'print the report as JSON' },
+    { flag: '--strict', description: 'exit 1 on warnings too (errors always exit 1)' },
+    { flag: '--score', description: 'also recompute the stored completeness scores (all movies)' }
+  ],
+  notes: ['', 'Checks:', ...CHECKS.map((c) => `  ${c.name.padEnd(20)} ${c.severity.padEnd(6)} ${c.description}`)],
+  async run(args) {
+    const names = listFlag(args, 'check');
+    const unknown = names.filter((n) => !CHECKS.some((c) => c.name === n));
+    if (unknown.length) {
+      process.stderr.write(`Unknown check(s): ${unknown.join(', ')} (available: ${CHECKS.map((c) => c.name).join(', ')})\n`);
+      return 2;
+    }
+
+    const { db } = bootstrap();
+    const lang = stringFlag(args, 'lang');
+    const results = runChecks(db, { names, lang, examples: numberFlag(args, 'examples', '', 3) });
+    const movies = Number(
+      db
+        .prepare("SELECT COUNT(*) as c FROM movies WHERE COALESCE(is_indian, 1) = 1 AND (? = '' OR lower(language) = lower(?))")
+        .get(lang, lang)?.c || 0
+    );
+
+    const scored = boolFlag(args, 'score') ? refreshQualityScores(db) : null;
+
+    if (boolFlag(args, 'json')) {
+      process.stdout.write(
+        `${JSON.stringify({ checkedAt: new Date().toISOString(), lang: lang || null, movies, scored, checks: results }, null, 2)}\n`
+      );
+    } else {
+      process.stdout.write(`Checked ${movies} movie(s)${lang ? ` in ${lang}` : ''}\n`);
+      for (const r of results) {
+        const mark = r.count ? (r.severity === 'error' ? 'FAIL' : 'warn') : ' ok ';
+        process.stdout.write(`  [${mark}] ${r.name.padEnd(20)} ${String(r.count).padStart(6)}  ${r.description}\n`);
+        for (const ex of r.examples) process.stdout.write(`           ${ex.id}  ${ex.label || ''}\n`);
+      }
+      if (scored != null) process.stdout.write(`Stored completeness scores for ${scored} movie(s)\n`);
+    }
+
+    const failing = results.filter((r) => r.count && (r.severity === 'error' || boolFlag(args, 'strict')));
+    return failing.length ? 1 : 0;
+  }
+};
@@ -0,0 +1,148 @@
+import { tmdbDiscoverPage } from '../server/providers/tmdb.js';
+import { nowIso } from '../server/repo.js';
+
+// Back-catalog crawl: walks TMDB discover one date window (year or month) at a time per
+// language, newest window first, through every page. The position is kept in `app_meta`
+// (`agent_crawl_cursor:<lang>:<window>`) so each nightly run continues where the last one
+// stopped until the oldest window has been covered.
+
+export const CRAWL_WINDOWS = ['year', 'month'];
+
+function cursorKey(lang, window) {
+  return `agent_crawl_cursor:${lang}:${window}`;
+}
+
+function pad(n) {
+  return String(n).padStart(2, '0');
+}
+
+// Window containing `start` (always the first day of a year / month).
+function windowRange(start, window) {
+  const [y, m] = start.split('-').map(Number);
+  if (window === 'month') {
+    const last = new Date(Date.UTC(y, m, 0)).getUTCDate();
+    return { gte: `${y}-${pad(m)}-01`, lte: `${y}-${pad(m)}-${pad(last)}` };
+  }
+  return { gte: `${y}-01-01`, lte: `${y}-12-31` };
+}
+
+function previousWindowStart(start, window) {
+  const [y, m] = start.split('-').map(Number);
+  if (window === 'month') return m === 1 ? `${y - 1}-12-01` : `${y}-${pad(m - 1)}-01`;
+  return `${y - 1}-01-01`;
+}
+
+function initialWindowStart(toYear, window) {
+  const now = new Date();
+  const y = Math.min(toYear, now.getUTCFullYear());
+  if (window === 'month') return y === now.getUTCFullYear() ? `${y}-${pad(now.getUTCMonth() + 1)}-01` : `${y}-12-01`;
+  return `${y}-01-01`;
+}
+
+export function loadCrawlCursor(db, lang, window) {
+  try {
+    const raw = db.prepare('SELECT value FROM app_meta WHERE key = ?').get(cursorKey(lang, window))?.value;
+    return raw ? JSON.parse(String(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveCrawlCursor(db, lang, window, cursor) {
+  db.prepare('INSERT OR REPLACE INTO app_meta(key, value, updated_at) VALUES (?, ?, ?)').run(
+    cursorKey(lang, window),
+    JSON.stringify({ ...cursor, updatedAt: nowIso() }),
+    nowIso()
+  );
+}
+
+export function resetCrawlCursors(db, langs, window) {
+  for (const lang of langs) db.prepare('DELETE FROM app_meta WHERE key = ?').run(cursorKey(lang, window));
+}
+
+// Collect up to `limit` TMDB ids that are not in the DB yet (all ids with `refresh`), split
+// evenly across languages. Languages that finish early hand their share to the others.
+// Dry runs walk from the stored cursors but never move them.
+export async function collectCrawlIds(
+  db,
+  scheduler,
+  { langs, window = 'year', fromYear = 1950, toYear, limit = 300, refresh = false, reset = false, dryRun = false }
+) {
+  const w = CRAWL_WINDOWS.includes(window) ? window : 'year';
+  const maxYear = Number.isFinite(toYear) ? toYear : new Date().getUTCFullYear();
+  const known = db.prepare('SELECT 1 FROM movies WHERE tmdb_id = ? LIMIT 1');
+  if (reset && !dryRun) resetCrawlCursors(db, langs, w);
+  const cursors = new Map();
+
+  const ids = [];
+  const seen = new Set();
+  const summary = { window: w, fromYear, pages: 0, knownSkipped: 0, languages: {} };
+
+  let active = [...langs];
+  while (ids.length < limit && active.length) {
+    const share = Math.max(1, Math.ceil((limit - ids.length) / active.length));
+    const stillActive = [];
+    let progressed = false;
+
+    for (const lang of active) {
+      if (ids.length >= limit) break;
+      let cursor = cursors.get(lang) ||
+        (!reset && loadCrawlCursor(db, lang, w)) || { start: initialWindowStart(maxYear, w), page: 1, done: false };
+      const langSummary = summary.languages[lang] || { added: 0, pages: 0, windows: [] };
+      summary.languages[lang] = langSummary;
+      let added = 0;
+
+      while (!cursor.done && added < share && ids.length < limit) {
+        const range = windowRange(cursor.start, w);
+        let res;
+        try {
+          res = await scheduler.schedule('tmdb', () =>
+            tmdbDiscoverPage({ dateGte: range.gte, dateLte: range.lte, page: cursor.page, language: lang })
+          );
+        } catch (err) {
+          // Leave the cursor where it is; the next run retries this page.
+          langSummary.error = String(err?.message || err).slice(0, 200);
+          break;
+        }
+        summary.pages++;
+        langSummary.pages++;
+        if (!langSummary.windows.includes(range.gte)) langSummary.windows.push(range.gte);
+
+        for (const hit of res.results) {
+          if (seen.has(hit.tmdbId)) continue;
+          seen.add(hit.tmdbId);
+          if (!refresh && known.get(hit.tmdbId)) {
+            summary.knownSkipped++;
+            continue;
+          }
+          ids.push(hit.tmdbId);
+          added++;
+        }
+
+        // The whole page is taken even if it overshoots the share, so the cursor never has
+        // to remember a position inside a page.
+        if (cursor.page < res.totalPages) {
+          cursor = { ...cursor, page: cursor.page + 1, totalPages: res.totalPages };
+        } else {
+          const prev = previousWindowStart(cursor.start, w);
+          cursor =
+            Number(prev.slice(0, 4)) < fromYear
+              ? { ...cursor, done: true, totalPages: res.totalPages }
+              : { start: prev, page: 1, done: false };
+        }
+        cursors.set(lang, cursor);
+        if (!dryRun) saveCrawlCursor(db, lang, w, cursor);
+      }
+
+      langSummary.added += added;
+      langSummary.cursor = cursor;
+      if (added > 0) progressed = true;
+      if (!cursor.done && !langSummary.error) stillActive.push(lang);
+    }
+
+    if (!progressed) break;
+    active = stillActive;
+  }
+
+  return { ids, summary };
+}
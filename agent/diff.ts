@@ -0,0 +1,242 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { movieFieldLocks, omdbRatingSourceKey } from '../server/db/repository.js';
+import { makeId, nowIso, statusFrom, toIsoDate } from '../server/repo.js';
+
+// Dry runs: project what `upsertMovieFromTmdb` and the enrichment steps would write onto
+// the shape `hydrateMovie` returns, then diff that against the current row field by field.
+// Nothing is written to the catalog; the diff of each movie is checkpointed on its run item
+// and the whole run is summarized into `.cache/agent-dry-run-<runId>.json`.
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+  // List fields (genres, cast, songs, ...) also report which entries come and go.
+  added?: string[];
+  removed?: string[];
+  // A non-empty value would be replaced by an empty one (usually curated data being lost).
+  cleared?: boolean;
+}
+
+export interface MovieDiff {
+  movieId: string;
+  isNew: boolean;
+  changes: FieldChange[];
+}
+
+// What an enrichment step would have written (see StepResult.preview in agent/steps.ts).
+export interface StepPreview {
+  trailerUrl?: string;
+  songs?: Array<{ title?: string; singers?: string[]; youtubeUrl?: string; durationSec?: number | null; fieldSources?: Record<string, string> }>;
+  ratings?: Array<{ source: string; value: number; scale: number; count?: number | null; url?: string }>;
+  deepLinks?: Array<{ provider: string; deepLink: string }>;
+}
+
+const SCALAR_FIELDS = ['title', 'language', 'synopsis', 'director', 'releaseDate', 'runtimeMinutes', 'status', 'poster', 'backdrop', 'trailerUrl'];
+
+// hydrateMovie only returns the top-billed cast.
+const CAST_LIMIT = 12;
+
+const LIST_FIELDS = {
+  genres: (m) => (m?.genres || []).map(String),
+  cast: (m) => (m?.cast || []).slice(0, CAST_LIMIT).map((c) => (c.character ? `${c.name} as ${c.character}` : c.name)),
+  ott: (m) => (m?.ott || []).map((o) => [o.provider, o.type, o.region].filter(Boolean).join(' / ')),
+  ottDeepLinks: (m) => (m?.ott || []).filter((o) => o.deepLink).map((o) => `${o.provider}: ${o.deepLink}`),
+  ratings: (m) => (m?.ratings || []).map((r) => `${r.source}: ${r.value}/${r.scale}`),
+  songs: (m) => (m?.songs || []).map((s) => s.title)
+};
+
+function ottKey(provider, type, region) {
+  return `${String(provider || '').toLowerCase()}|${String(type || '').toLowerCase()}|${String(region || '').toLowerCase()}`;
+}
+
+// The movie as it would look after `upsertMovieFromTmdb(db, full)`, in `hydrateMovie` shape.
+// `before` is the current hydrated row (null for new movies); songs and non-TMDB ratings
+// carry over because the TMDB upsert leaves them alone.
+export function projectMovieFromTmdb(db, full, before) {
+  const id = makeId('tmdb-movie', full.tmdbId);
+  const releaseDate = toIsoDate(full.releaseDate);
+  const hasStreaming = (full.offers || []).some((o) => o.type === 'Streaming');
+
+  const prevOtt = new Map();
+  for (const r of db
+    .prepare('SELECT provider, offer_type, region, deep_link, deep_link_source FROM ott_offers WHERE movie_id = ?')
+    .all(id)) {
+    prevOtt.set(ottKey(r.provider, r.offer_type, r.region), r);
+  }
+  const ott = (full.offers || [])
+    .map((o) => {
+      const prev = prevOtt.get(ottKey(o.provider, o.type, o.region));
+      return {
+        provider: o.provider,
+        type: o.type,
+        url: o.url || undefined,
+        deepLink: prev?.deep_link || undefined,
+        deepLinkSource: prev?.deep_link_source || '',
+        logo: o.logo || undefined,
+        region: o.region || undefined
+      };
+    })
+    .sort((a, b) => String(a.provider).localeCompare(String(b.provider)));
+
+  // Same keep rules as the upsert: locked fields (an admin-picked trailer counts), and YouTube
+  // trailers while TMDB has none.
+  const locks = movieFieldLocks(db, id);
+  const trailerSource = db.prepare('SELECT trailer_source FROM movies WHERE id = ?').get(id)?.trailer_source || '';
+  const keepTrailer = locks.has('trailerUrl') || (!full.trailerUrl && trailerSource === 'youtube');
+
+  const updateRatings = typeof full.voteAverage === 'number' && !locks.has('ratings');
+  const ratings = (before?.ratings || []).filter((r) => r.source !== 'tmdb' || !updateRatings);
+  if (updateRatings) {
+    ratings.push({
+      source: 'tmdb',
+      value: full.voteAverage,
+      scale: 10,
+      count: typeof full.voteCount === 'number' ? full.voteCount : undefined,
+      url: `https://www.themoviedb.org/movie/${full.tmdbId}`
+    });
+  }
+
+  const projected = {
+    id,
+    title: full.title,
+    language: full.language || 'Hindi',
+    synopsis: full.synopsis || '',
+    cast: (full.cast || []).map((c) => ({ name: c.name, character: c.character || '' })),
+    director: full.director || 'TBD',
+    genres: full.genres || [],
+    releaseDate: releaseDate || undefined,
+    runtimeMinutes: full.runtimeMinutes || before?.runtimeMinutes || undefined,
+    status: statusFrom(releaseDate, hasStreaming),
+    poster: full.poster || '',
+    backdrop: full.backdrop || undefined,
+    trailerUrl: (keepTrailer ? before?.trailerUrl : full.trailerUrl) || undefined,
+    ott,
+    songs: before?.songs || [],
+    ratings
+  };
+  if (before) {
+    for (const field of locks) {
+      if (field !== 'trailerUrl' && field !== 'ratings' && field in projected) projected[field] = before[field];
+    }
+  }
+  return projected;
+}
+
+// Fold an enrichment step's preview into the projection, mirroring the repository writes.
+export function applyStepPreview(projected, preview: StepPreview | undefined) {
+  if (!preview) return projected;
+  if (preview.trailerUrl) projected.trailerUrl = preview.trailerUrl;
+  if (preview.songs?.length) {
+    projected.songs = preview.songs.map((s) => ({
+      title: String(s?.title || 'Untitled').trim().slice(0, 140) || 'Untitled',
+      singers: Array.isArray(s?.singers) ? s.singers.slice(0, 12) : [],
+      youtubeUrl: s?.youtubeUrl || undefined
+    }));
+  }
+  for (const r of preview.ratings || []) {
+    if (!String(r.source || '').trim()) continue;
+    const source = omdbRatingSourceKey(r.source);
+    projected.ratings = projected.ratings.filter((x) => x.source !== source);
+    projected.ratings.push({ source, value: r.value, scale: r.scale, count: r.count ?? undefined, url: r.url || undefined });
+  }
+  for (const l of preview.deepLinks || []) {
+    const provider = String(l?.provider || '').trim().toLowerCase();
+    if (!provider || !l.deepLink) continue;
+    for (const o of projected.ott) {
+      if (o.type !== 'Streaming' || String(o.provider || '').toLowerCase() !== provider) continue;
+      if (o.deepLinkSource === 'admin' && o.deepLink) continue;
+      o.deepLink = l.deepLink;
+    }
+  }
+  return projected;
+}
+
+function scalar(v) {
+  return v == null ? '' : String(v);
+}
+
+export function diffMovie(before, after): MovieDiff {
+  const changes: FieldChange[] = [];
+  for (const field of SCALAR_FIELDS) {
+    const a = scalar(before?.[field]);
+    const b = scalar(after?.[field]);
+    if (a === b) continue;
+    changes.push({ field, before: a, after: b, ...(a && !b ? { cleared: true } : {}) });
+  }
+  for (const [field, keys] of Object.entries(LIST_FIELDS)) {
+    const a = keys(before);
+    const b = keys(after);
+    const added = b.filter((k) => !a.includes(k));
+    const removed = a.filter((k) => !b.includes(k));
+    if (!added.length && !removed.length) continue;
+    changes.push({ field, before: a, after: b, added, removed, ...(a.length && !b.length ? { cleared: true } : {}) });
+  }
+  return { movieId: after?.id || before?.id, isNew: !before, changes };
+}
+
+export function buildDryRunReport(run, items) {
+  const movies = items
+    .filter((it) => it.diff)
+    .map((it) => ({ tmdbId: it.tmdbId, movieId: it.diff.movieId, title: it.title, isNew: it.diff.isNew, changes: it.diff.changes }));
+  const fields = {};
+  for (const m of movies) {
+    if (m.isNew) continue;
+    for (const c of m.changes) {
+      const f = fields[c.field] || (fields[c.field] = { changed: 0, cleared: 0 });
+      f.changed++;
+      if (c.cleared) f.cleared++;
+    }
+  }
+  return {
+    runId: run.id,
+    generatedAt: nowIso(),
+    params: run.params,
+    summary: {
+      movies: movies.length,
+      new: movies.filter((m) => m.isNew).length,
+      changed: movies.filter((m) => !m.isNew && m.changes.length).length,
+      unchanged: movies.filter((m) => !m.isNew && !m.changes.length).length,
+      skipped: items.filter((it) => it.status === 'skipped').length,
+      failed: items.filter((it) => it.status === 'failed').length,
+      fields
+    },
+    movies
+  };
+}
+
+export function writeDryRunReport(report) {
+  const cacheDir = path.join(process.cwd(), '.cache');
+  fs.mkdirSync(cacheDir, { recursive: true });
+  const file = path.join(cacheDir, `agent-dry-run-${String(report.runId).replace(/[^a-zA-Z0-9-]+/g, '-')}.json`);
+  fs.writeFileSync(file, JSON.stringify(report, null, 2), 'utf-8');
+  return file;
+}
+
+function describeChange(c: FieldChange) {
+  if (c.added || c.removed) {
+    const parts = [c.added?.length ? `+${c.added.length}` : '', c.removed?.length ? `-${c.removed.length}` : ''].filter(Boolean);
+    return `${c.field} (${parts.join(' ')}${c.cleared ? ', cleared' : ''})`;
+  }
+  return c.cleared ? `${c.field} (cleared)` : c.field;
+}
+
+// Human-readable summary: one line per movie that would change, then totals per field.
+export function formatDryRunReport(report) {
+  const s = report.summary;
+  const lines = [
+    `Dry run ${report.runId}: ${s.movies} movie(s) - ${s.new} new, ${s.changed} would change, ${s.unchanged} unchanged (${s.skipped} skipped, ${s.failed} failed)`
+  ];
+  for (const m of report.movies) {
+    if (m.isNew) lines.push(`  + ${m.title} (tmdb:${m.tmdbId}) new, ${m.changes.length} field(s)`);
+    else if (m.changes.length) lines.push(`  ~ ${m.title} (tmdb:${m.tmdbId}): ${m.changes.map(describeChange).join(', ')}`);
+  }
+  const fields = Object.entries<any>(s.fields).sort((a, b) => b[1].changed - a[1].changed);
+  if (fields.length) {
+    lines.push('Fields that would change on existing movies:');
+    for (const [field, f] of fields) lines.push(`  ${field.padEnd(14)} ${f.changed}${f.cleared ? ` (${f.cleared} cleared)` : ''}`);
+  }
+  return lines;
+}
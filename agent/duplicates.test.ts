@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import Database from 'better-sqlite3';
+
+import { dismissDuplicatePair, findDuplicateMovies, mergeMovies } from '../server/db/duplicates.js';
+import { hydrateMovie, resolveMovieAlias, upsertMovieFromTmdb } from '../server/db/repository.js';
+import { migrate } from '../server/db/sqlite.js';
+
+function memoryDb() {
+  const db = new Database(':memory:');
+  db.exec('PRAGMA foreign_keys = ON;');
+  migrate(db);
+  return db;
+}
+
+const tmdbMovie = (tmdbId: number, title: string, extra = {}) => ({
+  tmdbId,
+  title,
+  language: 'Telugu',
+  originalLanguageCode: 'te',
+  productionCountries: ['IN'],
+  releaseDate: '2022-03-25',
+  synopsis: 'Two revolutionaries in 1920s India.',
+  director: 'S. S. Rajamouli',
+  poster: 'https://image.example/rrr.jpg',
+  backdrop: '',
+  trailerUrl: '',
+  genres: ['Action'],
+  cast: [{ tmdbId: 1, name: 'N. T. Rama Rao Jr.', character: 'Bheem' }],
+  offers: [],
+  ...extra
+});
+
+test('a re-listed title pairs with the original, which survives', () => {
+  const db = memoryDb();
+  const original = upsertMovieFromTmdb(db, tmdbMovie(579974, 'RRR'));
+  const relisted = upsertMovieFromTmdb(db, tmdbMovie(999001, 'R R R', { synopsis: '' }));
+
+  const [pair, ...rest] = findDuplicateMovies(db);
+  assert.equal(rest.length, 0);
+  assert.deepEqual([pair.a.id, pair.b.id].sort(), [original, relisted].sort());
+  assert.equal(pair.survivorId, original);
+
+  dismissDuplicatePair(db, relisted, original);
+  assert.deepEqual(findDuplicateMovies(db), []);
+});
+
+test('a merged movie redirects to the survivor and is not recreated', () => {
+  const db = memoryDb();
+  const survivor = upsertMovieFromTmdb(db, tmdbMovie(579974, 'RRR', { synopsis: '' }));
+  const duplicate = upsertMovieFromTmdb(db, tmdbMovie(999001, 'R R R', { genres: ['Drama'] }));
+
+  const { toId, moved } = mergeMovies(db, duplicate, survivor);
+  assert.equal(toId, survivor);
+  assert.equal(moved.genres, 1);
+  assert.equal(moved.cast, 0); // same person: the survivor's credit wins
+  assert.equal(resolveMovieAlias(db, duplicate), survivor);
+  assert.equal(hydrateMovie(db, duplicate), null);
+  assert.equal(hydrateMovie(db, survivor)?.synopsis, 'Two revolutionaries in 1920s India.');
+
+  // A later TMDB refresh of the merged-away entry lands on the survivor.
+  assert.equal(upsertMovieFromTmdb(db, tmdbMovie(999001, 'R R R')), survivor);
+  assert.equal(db.prepare('SELECT COUNT(*) AS n FROM movies').get().n, 1);
+  assert.deepEqual(findDuplicateMovies(db), []);
+});
+
+test('aliases follow a second merge instead of chaining', () => {
+  const db = memoryDb();
+  const a = upsertMovieFromTmdb(db, tmdbMovie(999001, 'R R R'));
+  const b = upsertMovieFromTmdb(db, tmdbMovie(999002, 'RRR'));
+  const c = upsertMovieFromTmdb(db, tmdbMovie(579974, 'RRR (Rise Roar Revolt)'));
+
+  mergeMovies(db, a, b);
+  mergeMovies(db, b, c);
+  assert.equal(resolveMovieAlias(db, a), c);
+  assert.equal(resolveMovieAlias(db, b), c);
+  assert.throws(() => mergeMovies(db, c, a), { code: 'same_movie' });
+});
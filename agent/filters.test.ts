@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { test } from 'node:test';
+
+import { installHttpCassettes } from '../server/providers/cassettes.js';
+import { tmdbGetMovieFull } from '../server/providers/tmdb.js';
+import { isLikelyIndianMovie } from './filters.js';
+
+// Synthetic TMDB payloads replayed from fixtures/cassettes; no network or API key needed.
+process.env.HTTP_CASSETTES = 'replay';
+process.env.HTTP_CASSETTE_DIR = fileURLToPath(new URL('../fixtures/cassettes', import.meta.url));
+installHttpCassettes();
+
+test('a Telugu film produced in India is ingested', async () => {
+  const full = await tmdbGetMovieFull(579974);
+  assert.equal(full.title, 'RRR');
+  assert.equal(isLikelyIndianMovie(full), true);
+});
+
+test('a Hollywood film with a Hindi dub released in India is not', async () => {
+  const full = await tmdbGetMovieFull(872585);
+  assert.equal(full.title, 'Oppenheimer');
+  assert.ok(full.languageReleases.some((r) => r.language === 'Hindi'));
+  assert.equal(isLikelyIndianMovie(full), false);
+});
+
+test('an admin override wins over the classifier', async () => {
+  const full = await tmdbGetMovieFull(872585);
+  assert.equal(isLikelyIndianMovie(full, { override: 1 }), true);
+});
@@ -0,0 +1,11 @@
+import { classifyIndianMovie } from '../server/classifier.js';
+
+// Pure decisions about what the agent ingests. Kept out of agent/index.ts (which runs the
+// CLI on import) so they can be exercised against recorded TMDB payloads.
+
+// `context` comes from `indianClassifierContext(db, full)`: the admin override and how many of
+// the cast already appear in Indian films.
+export function isLikelyIndianMovie(full, context: { indianCast?: number; override?: number | null } = {}) {
+  if (!full) return false;
+  return classifyIndianMovie(full, context).isIndian;
+}
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { nextCronTime, parseCron } from '../server/jobScheduler.js';
+
+const at = (iso: string) => Date.parse(iso);
+
+test('IST schedules land on the :30 UTC offset', () => {
+  // 05:30 IST -> 09:30 IST the same day; once that minute has passed, the next day.
+  assert.equal(nextCronTime('30 9 * * *', 'Asia/Kolkata', at('2026-01-15T00:00:00Z')), '2026-01-15T04:00:00.000Z');
+  assert.equal(nextCronTime('30 9 * * *', 'Asia/Kolkata', at('2026-01-15T04:00:00Z')), '2026-01-16T04:00:00.000Z');
+  assert.equal(nextCronTime('0 0 * * *', 'UTC', at('2026-01-15T04:00:00Z')), '2026-01-16T00:00:00.000Z');
+});
+
+test('step expressions', () => {
+  assert.deepEqual([...parseCron('0 */6 * * *').hour], [0, 6, 12, 18]);
+  assert.equal(nextCronTime('0 */6 * * *', 'Asia/Kolkata', at('2026-01-15T00:00:00Z')), '2026-01-15T00:30:00.000Z');
+  assert.equal(nextCronTime('0 */6 * * *', 'Asia/Kolkata', at('2026-01-15T00:30:00Z')), '2026-01-15T06:30:00.000Z');
+  assert.equal(nextCronTime('*/15 * * * *', 'UTC', at('2026-01-15T10:07:30Z')), '2026-01-15T10:15:00.000Z');
+});
+
+test('day-of-month edge cases', () => {
+  assert.equal(nextCronTime('0 0 29 2 *', 'UTC', at('2026-03-01T00:00:00Z')), '2028-02-29T00:00:00.000Z');
+  assert.equal(nextCronTime('0 0 29 2 *', 'Asia/Kolkata', at('2026-03-01T00:00:00Z')), '2028-02-28T18:30:00.000Z');
+  assert.equal(nextCronTime('0 0 31 * *', 'UTC', at('2026-04-01T00:00:00Z')), '2026-05-31T00:00:00.000Z');
+  assert.equal(nextCronTime('0 0 30 2 *', 'UTC', at('2026-01-01T00:00:00Z')), null);
+});
+
+test('a restricted day and weekday match either one', () => {
+  // Friday the 6th comes before the 13th.
+  assert.equal(nextCronTime('0 0 13 * 5', 'UTC', at('2026-02-01T00:00:00Z')), '2026-02-06T00:00:00.000Z');
+});
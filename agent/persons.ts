@@ -0,0 +1,124 @@
+import { updatePersonFts, updatePersonWiki, upsertPersonFromTmdb } from '../server/db/repository.js';
+import { withRevision } from '../server/db/revisions.js';
+import { tmdbGetPersonFull } from '../server/providers/tmdb.js';
+import { wikipediaSearchTitle, wikipediaSummaryByTitle } from '../server/providers/wikipedia.js';
+import { isQuotaError } from './scheduler.js';
+
+// Person backfill: TMDB profile (name, bio, photo), Wikipedia summary and search keys for the
+// people in the catalog, so person pages don't depend on lazy on-request fetches.
+
+export interface PersonRow {
+  id: string;
+  tmdbId: number;
+  name: string;
+  wikiUrl: string;
+}
+
+function toPersonRow(r): PersonRow {
+  return { id: r.id, tmdbId: Number(r.tmdb_id), name: r.name, wikiUrl: r.wiki_url || '' };
+}
+
+export function loadPersonsByIds(db, personIds: string[]): PersonRow[] {
+  const get = db.prepare('SELECT id, tmdb_id, name, wiki_url FROM persons WHERE id = ? AND tmdb_id IS NOT NULL');
+  return personIds.map((id) => get.get(id)).filter(Boolean).map(toPersonRow);
+}
+
+// Cast members still missing a biography or Wikipedia link (everyone with `refresh`), top
+// billed first, then by how many catalog movies they appear in.
+export function selectPersonsToRefresh(db, { limit = 100, lang = '', refresh = false } = {}): PersonRow[] {
+  return db
+    .prepare(
+      `
+      SELECT p.id, p.tmdb_id, p.name, p.wiki_url, MIN(mc.billing_order) as best_billing, COUNT(*) as movies
+      FROM persons p
+      JOIN movie_cast mc ON mc.person_id = p.id
+      JOIN movies m ON m.id = mc.movie_id
+      WHERE p.tmdb_id IS NOT NULL
+        AND COALESCE(m.is_indian, 1) = 1
+        AND (? = '' OR lower(m.language) = lower(?))
+        AND (? = 1 OR trim(COALESCE(p.biography, '')) = '' OR trim(COALESCE(p.wiki_url, '')) = '')
+      GROUP BY p.id
+      ORDER BY best_billing ASC, movies DESC, p.name ASC
+      LIMIT ?
+    `
+    )
+    .all(lang, lang, refresh ? 1 : 0, Math.max(1, Math.floor(limit)))
+    .map(toPersonRow);
+}
+
+// People billed in the given movies (the ones a run just upserted) who are still missing a
+// biography or Wikipedia link (everyone with `refresh`). `candidates` counts all of them
+// before `limit` is applied.
+export function selectPersonsForMovies(db, movieIds: string[], { limit = 200, refresh = false } = {}) {
+  if (!movieIds.length) return { persons: [] as PersonRow[], candidates: 0 };
+  const rows = db
+    .prepare(
+      `
+      SELECT p.id, p.tmdb_id, p.name, p.wiki_url, MIN(mc.billing_order) as best_billing, COUNT(*) as movies
+      FROM movie_cast mc
+      JOIN persons p ON p.id = mc.person_id
+      WHERE mc.movie_id IN (SELECT value FROM json_each(?))
+        AND p.tmdb_id IS NOT NULL
+        AND (? = 1 OR trim(COALESCE(p.biography, '')) = '' OR trim(COALESCE(p.wiki_url, '')) = '')
+      GROUP BY p.id
+      ORDER BY best_billing ASC, movies DESC, p.name ASC
+    `
+    )
+    .all(JSON.stringify(movieIds), refresh ? 1 : 0);
+  return { persons: rows.slice(0, Math.max(0, Math.floor(limit))).map(toPersonRow), candidates: rows.length };
+}
+
+export function emptyPersonStats() {
+  return { candidates: 0, selected: 0, fetched: 0, wikiLinked: 0, failed: 0, deferred: 0 };
+}
+
+// Fetch + store each person. Provider calls go through the request scheduler; failures are
+// counted (and passed to `onError`) and never stop the batch.
+export async function refreshPersons(
+  db,
+  scheduler,
+  persons: PersonRow[],
+  {
+    wiki = true,
+    refresh = false,
+    stats = emptyPersonStats(),
+    actor = { type: 'agent', id: 'persons' },
+    onError = (_person: PersonRow, _err: unknown) => {}
+  } = {}
+) {
+  stats.selected += persons.length;
+  const concurrency = Math.max(1, Math.min(16, Number(process.env.AGENT_CONCURRENCY || 0) || 4));
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < persons.length) {
+      const person = persons[cursor++];
+      try {
+        await withRevision(db, { entityType: 'person', entityId: person.id, action: 'agent_person', actor }, async () => {
+          const full = await scheduler.schedule('tmdb', () => tmdbGetPersonFull(person.tmdbId));
+          const personId = upsertPersonFromTmdb(db, full);
+          stats.fetched++;
+          if (wiki && (refresh || !person.wikiUrl)) {
+            const title = await scheduler.schedule('wikipedia', () => wikipediaSearchTitle(full.name, { db })).catch(() => null);
+            const summary = title
+              ? await scheduler.schedule('wikipedia', () => wikipediaSummaryByTitle(title, { db })).catch(() => null)
+              : null;
+            if (summary) {
+              updatePersonWiki(db, personId, summary);
+              stats.wikiLinked++;
+            }
+          }
+          // Also rebuilds person_search_keys.
+          updatePersonFts(db, personId);
+        });
+      } catch (err) {
+        if (isQuotaError(err)) stats.deferred++;
+        else {
+          stats.failed++;
+          onError(person, err);
+        }
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, persons.length) }, () => worker()));
+  return stats;
+}
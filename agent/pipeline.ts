@@ -0,0 +1,314 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { finishJobRun, recordJobRunError, startJobRun, updateJobRun } from '../server/db/jobRuns.js';
+import { refreshQualityScores } from '../server/db/quality.js';
+import { hydrateMovie, indianClassifierContext, resolveMovieAlias, upsertMovieFromTmdb } from '../server/db/repository.js';
+import { withRevision } from '../server/db/revisions.js';
+import { tmdbGetMovieFull } from '../server/providers/tmdb.js';
+import { makeId, nowIso } from '../server/repo.js';
+import { applyStepPreview, buildDryRunReport, diffMovie, formatDryRunReport, projectMovieFromTmdb, writeDryRunReport } from './diff.js';
+import { isLikelyIndianMovie } from './filters.js';
+import { emptyPersonStats, refreshPersons, selectPersonsForMovies } from './persons.js';
+import { finishRun, loadRunItems, markItem, markRunStatus, markStep, saveItemDiff, saveRunStats, stepIsComplete } from './runs.js';
+import { isQuotaError } from './scheduler.js';
+import { loadAgentMovie, resolveEnrichSteps } from './steps.js';
+
+// The per-movie pipeline shared by `ingest` and `enrich`: fetch + upsert from TMDB (unless
+// the run item is already upserted), then the selected enrichment steps, checkpointing every
+// step on the run (agent/runs.ts) so any run can be continued with `--resume`. Every run is
+// also recorded in the shared job history (server/db/jobRuns.js) with its per-item errors,
+// and every movie it writes gets a revision under the run id (server/db/revisions.js).
+
+export function emptyRunStats() {
+  return {
+    startedAt: nowIso(),
+    discovered: 0,
+    fetched: 0,
+    upserted: 0,
+    skippedNonIndian: 0,
+    trailerUpdated: 0,
+    songsUpserted: 0,
+    ratingsUpserted: 0,
+    errors: 0
+  };
+}
+
+function writeLastRun(stats) {
+  const cacheDir = path.join(process.cwd(), '.cache');
+  fs.mkdirSync(cacheDir, { recursive: true });
+  fs.writeFileSync(path.join(cacheDir, 'agent-last-run.json'), JSON.stringify(stats, null, 2), 'utf-8');
+}
+
+function stepStats(stats, name) {
+  stats.steps = stats.steps || {};
+  if (!stats.steps[name]) stats.steps[name] = { ran: 0, done: 0, skipped: 0, failed: 0, blocked: 0, deferred: 0, updated: 0 };
+  return stats.steps[name];
+}
+
+// Per-provider scheduler counters (calls, retries, quota skips, ...). On resume the counters
+// of the earlier attempts are kept and the current process adds to them.
+function syncProviderStats(stats, base, scheduler) {
+  const current = scheduler.stats();
+  const out = {};
+  for (const provider of new Set([...Object.keys(base || {}), ...Object.keys(current)])) {
+    const a = base?.[provider] || {};
+    const b = current[provider] || {};
+    out[provider] = {};
+    for (const k of new Set([...Object.keys(a), ...Object.keys(b)])) out[provider][k] = Number(a[k] || 0) + Number(b[k] || 0);
+  }
+  stats.providers = out;
+}
+
+// Roll per-step counters up into the summary fields the admin status page shows.
+function summarizeStepStats(stats) {
+  const updated = (name) => Number(stats.steps?.[name]?.updated || 0);
+  stats.trailerUpdated = updated('trailer');
+  stats.songsUpserted = updated('soundtrack') + updated('songs');
+  stats.ratingsUpserted = updated('ratings');
+}
+
+// Run the selected enrichment steps for one movie, checkpointing each step's state. In dry
+// runs every step runs again (nothing was written the first time) and the previews of the
+// steps that would have written something are returned.
+async function runEnrichmentSteps(db, run, item, movie, ctx) {
+  const { stats, dryRun, steps, scheduler } = ctx;
+  const stepCtx = { schedule: scheduler.schedule, dryRun };
+  const previews = [];
+  const selected = new Set(steps.map((s) => s.name));
+  for (const step of steps) {
+    if (!dryRun && stepIsComplete(item, step.name)) continue;
+    const st = stepStats(stats, step.name);
+    const blockedBy = (step.prerequisites || []).filter((p) => selected.has(p) && !stepIsComplete(item, p));
+    if (blockedBy.length) {
+      st.blocked++;
+      markStep(db, run.id, item, step.name, 'blocked');
+      continue;
+    }
+    if (!step.shouldRun(movie)) {
+      st.skipped++;
+      markStep(db, run.id, item, step.name, 'skipped');
+      continue;
+    }
+    try {
+      st.ran++;
+      const res = await step.run(db, movie, stepCtx);
+      st[res.status]++;
+      st.updated += Number(res.updated || 0);
+      if (res.preview) previews.push(res.preview);
+      markStep(db, run.id, item, step.name, res.status);
+    } catch (err) {
+      // Out of daily quota: leave the step for a later `--resume` instead of counting it as broken.
+      const state = isQuotaError(err) ? 'deferred' : 'failed';
+      st[state]++;
+      markStep(db, run.id, item, step.name, state);
+      if (state === 'failed') {
+        recordJobRunError(db, run.id, {
+          item: `tmdb:${item.tmdbId}`,
+          label: movie.title,
+          error: `${step.name}: ${String(err?.message || err || 'failed')}`
+        });
+      }
+    }
+  }
+  return previews;
+}
+
+function finishItem(db, run, item) {
+  const failedSteps = Object.entries(item.steps || {})
+    .filter(([, state]) => state === 'failed' || state === 'blocked' || state === 'deferred')
+    .map(([name]) => name);
+  markItem(db, run.id, item, {
+    status: failedSteps.length ? 'failed' : 'done',
+    error: failedSteps.length ? `failed_steps:${failedSteps.join(',')}` : null
+  });
+}
+
+// Dry run: diff the current row against what the TMDB upsert and the enrichment steps
+// would write, and checkpoint the diff on the run item instead of touching the catalog.
+async function dryRunItem(db, run, item, full, ctx) {
+  const movieId = makeId('tmdb-movie', full.tmdbId);
+  const before = hydrateMovie(db, movieId);
+  const projected = projectMovieFromTmdb(db, full, before);
+  const releaseDate = projected.releaseDate || '';
+  const movie = {
+    id: movieId,
+    tmdbId: Number(full.tmdbId),
+    title: full.title,
+    language: full.language || '',
+    releaseDate,
+    year: releaseDate ? Number(releaseDate.slice(0, 4)) || undefined : undefined,
+    trailerUrl: projected.trailerUrl || '',
+    songSource: loadAgentMovie(db, movieId)?.songSource || '',
+    streamingOffers: (full.offers || []).filter((o) => o.type === 'Streaming').length
+  };
+  for (const preview of await runEnrichmentSteps(db, run, item, movie, ctx)) applyStepPreview(projected, preview);
+
+  const diff = diffMovie(before, projected);
+  const d = ctx.stats.dryRun || (ctx.stats.dryRun = { new: 0, changed: 0, unchanged: 0 });
+  d[diff.isNew ? 'new' : diff.changes.length ? 'changed' : 'unchanged']++;
+  saveItemDiff(db, run.id, item, diff);
+  markItem(db, run.id, item, { movieId, title: full.title });
+  finishItem(db, run, item);
+  return full.title;
+}
+
+async function processItem(db, run, item, ctx) {
+  const { stats, dryRun, scheduler } = ctx;
+  const actor = { type: 'agent', id: run.id };
+
+  const resumed = !dryRun && stepIsComplete(item, 'upserted') ? loadAgentMovie(db, item.movieId) : null;
+  if (resumed) {
+    return withRevision(db, { entityType: 'movie', entityId: resumed.id, action: 'agent_enrich', actor }, async () => {
+      await runEnrichmentSteps(db, run, item, resumed, ctx);
+      finishItem(db, run, item);
+      return resumed.title;
+    });
+  }
+
+  const full = await scheduler.schedule('tmdb', () => tmdbGetMovieFull(item.tmdbId));
+  stats.fetched++;
+  markStep(db, run.id, item, 'fetched', 'done');
+  if (!isLikelyIndianMovie(full, indianClassifierContext(db, full))) {
+    stats.skippedNonIndian++;
+    markItem(db, run.id, item, { status: 'skipped', title: full.title, error: 'non_indian' });
+    return null;
+  }
+
+  if (dryRun) return dryRunItem(db, run, item, full, ctx);
+
+  const tmdbMovieId = makeId('tmdb-movie', full.tmdbId);
+  const entityId = resolveMovieAlias(db, tmdbMovieId) || tmdbMovieId;
+  return withRevision(db, { entityType: 'movie', entityId, action: 'agent_ingest', actor }, async () => {
+    const movieId = upsertMovieFromTmdb(db, full);
+    stats.upserted++;
+    markStep(db, run.id, item, 'upserted', 'done');
+    markItem(db, run.id, item, { movieId, title: full.title });
+    const movie = loadAgentMovie(db, movieId);
+    if (!movie) throw new Error(`upserted movie ${movieId} not found`);
+    await runEnrichmentSteps(db, run, item, movie, ctx);
+    finishItem(db, run, item);
+    return movie.title;
+  });
+}
+
+// Persons phase (run params `persons`: all | tmdb | none): people billed in the movies this
+// run upserted get their TMDB profile, Wikipedia summary (`all`) and search keys, capped at
+// `personsLimit`. Selection skips people who are already complete, so a resumed run simply
+// picks up whoever is left.
+async function runPersonsPhase(db, scheduler, run, items, stats) {
+  const params = run.params || {};
+  const mode = String(params.persons || 'none');
+  if (mode === 'none' || params.dryRun) return;
+  const movieIds = items.filter((it) => it.movieId && stepIsComplete(it, 'upserted')).map((it) => it.movieId);
+  const refresh = !!params.personsRefresh;
+  const limit = Number.isFinite(Number(params.personsLimit)) ? Number(params.personsLimit) : 200;
+  const { persons, candidates } = selectPersonsForMovies(db, movieIds, { limit, refresh });
+  const ps = { ...emptyPersonStats(), ...(stats.persons || {}) };
+  ps.candidates = Math.max(Number(ps.candidates) || 0, candidates);
+  stats.persons = ps;
+  if (!persons.length) return;
+  process.stdout.write(`Persons: refreshing ${persons.length} of ${candidates} incomplete profile(s)\n`);
+  await refreshPersons(db, scheduler, persons, {
+    wiki: mode === 'all',
+    refresh,
+    stats: ps,
+    actor: { type: 'agent', id: run.id },
+    onError: (person, err) =>
+      recordJobRunError(db, run.id, { item: `tmdb-person:${person.tmdbId}`, label: person.name, error: err })
+  });
+}
+
+// Work through the pending items of `run` and finish it. `resumed` keeps the provider
+// counters of the earlier attempts.
+export async function executeRun(db, scheduler, run, stats, { resumed = false } = {}) {
+  const params = run.params || {};
+  const { steps, unavailable } = resolveEnrichSteps(params.enrich || 'all');
+  if (unavailable.length && String(params.enrich || 'all') !== 'all') {
+    process.stdout.write(`Skipping steps without provider keys: ${unavailable.join(', ')}\n`);
+  }
+  const ctx = { stats, dryRun: !!params.dryRun, steps, scheduler };
+  const baseProviderStats = resumed ? stats.providers || {} : {};
+  const items = loadRunItems(db, run.id);
+  const failedCount = () => items.filter((it) => it.status === 'failed').length;
+  startJobRun(db, { id: run.id, kind: 'agent', params, startedAt: run.startedAt });
+  const checkpointStats = () => {
+    summarizeStepStats(stats);
+    syncProviderStats(stats, baseProviderStats, scheduler);
+    saveRunStats(db, run.id, stats);
+    updateJobRun(db, run.id, { stats, itemsTotal: items.length, itemsFailed: failedCount() });
+  };
+
+  // Ctrl-C / SIGTERM: keep the checkpoint so `--resume` can continue from the current movie.
+  const onSignal = (signal) => {
+    try {
+      checkpointStats();
+      markRunStatus(db, run.id, 'interrupted');
+      updateJobRun(db, run.id, { status: 'interrupted' });
+      writeLastRun({ ...stats, runId: run.id, status: 'interrupted' });
+    } catch {
+      // ignore
+    }
+    process.stdout.write(`\nInterrupted (${signal}). Resume with: npm run agent -- ingest --resume=${run.id}\n`);
+    process.exit(130);
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  // Movies are processed by a small worker pool; the scheduler keeps each provider within
+  // its own concurrency/rate limits regardless of how many movies are in flight.
+  const concurrency = Math.max(1, Math.min(16, Number(process.env.AGENT_CONCURRENCY || 0) || 4));
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < items.length) {
+      const i = cursor++;
+      const item = items[i];
+      if (item.status === 'done' || item.status === 'skipped') continue;
+      try {
+        const verb = stepIsComplete(item, 'upserted') ? 'Enriched' : 'Upserted';
+        const title = await processItem(db, run, item, ctx);
+        if (title && !ctx.dryRun) process.stdout.write(`${verb} ${i + 1}/${items.length}: ${title}\n`);
+      } catch (err) {
+        stats.errors++;
+        markItem(db, run.id, item, { status: 'failed', error: String(err?.message || err || 'failed').slice(0, 500) });
+        recordJobRunError(db, run.id, { item: `tmdb:${item.tmdbId}`, label: item.title, error: err });
+        process.stdout.write(`Skip tmdb:${item.tmdbId}\n`);
+      }
+      checkpointStats();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+  await runPersonsPhase(db, scheduler, run, items, stats);
+  if (!ctx.dryRun) refreshQualityScores(db, { movieIds: loadRunItems(db, run.id).map((it) => it.movieId) });
+
+  // Runs with failed movies stay resumable so `--resume` can retry just those.
+  const failed = failedCount();
+  const status = failed ? 'failed' : 'finished';
+  checkpointStats();
+  const finishedAt = nowIso();
+  const error = failed ? `${failed} movie(s) failed` : null;
+  finishRun(db, run.id, { status, stats, error });
+  finishJobRun(db, run.id, { status, stats, itemsTotal: items.length, itemsFailed: failed, error });
+  writeLastRun({ ...stats, runId: run.id, status, finishedAt });
+
+  if (ctx.dryRun) {
+    const report = buildDryRunReport(run, loadRunItems(db, run.id));
+    const file = writeDryRunReport(report);
+    for (const line of formatDryRunReport(report)) process.stdout.write(`${line}\n`);
+    process.stdout.write(`Report: ${path.relative(process.cwd(), file)}\n`);
+  }
+
+  process.stdout.write(`Done. upserted=${stats.upserted} skippedNonIndian=${stats.skippedNonIndian} errors=${stats.errors}\n`);
+  if (stats.persons) {
+    const ps = stats.persons;
+    process.stdout.write(
+      `  persons: fetched=${ps.fetched} wikiLinked=${ps.wikiLinked} failed=${ps.failed} deferred=${ps.deferred} (of ${ps.candidates} incomplete)\n`
+    );
+  }
+  for (const [provider, p] of Object.entries<any>(stats.providers || {})) {
+    process.stdout.write(
+      `  ${provider}: calls=${p.calls} retries=${p.retries} failed=${p.failed} quotaSkipped=${p.quotaSkipped} quotaUsed=${p.quotaUsed}\n`
+    );
+  }
+  return status;
+}
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import Database from 'better-sqlite3';
+
+import { hydrateMovie, movieFieldLocks, setMovieFieldLock, upsertMovieFromTmdb } from '../server/db/repository.js';
+import { migrate } from '../server/db/sqlite.js';
+
+function memoryDb() {
+  const db = new Database(':memory:');
+  db.exec('PRAGMA foreign_keys = ON;');
+  migrate(db);
+  return db;
+}
+
+const tmdbMovie = (extra = {}) => ({
+  tmdbId: 579974,
+  title: 'RRR',
+  language: 'Telugu',
+  originalLanguageCode: 'te',
+  productionCountries: ['IN'],
+  releaseDate: '2022-03-25',
+  synopsis: 'Two revolutionaries in 1920s India.',
+  director: 'S. S. Rajamouli',
+  poster: 'https://image.example/rrr.jpg',
+  backdrop: '',
+  trailerUrl: 'https://www.youtube.com/watch?v=tmdb0000001',
+  genres: ['Action'],
+  cast: [{ tmdbId: 1, name: 'N. T. Rama Rao Jr.', character: 'Bheem' }],
+  offers: [],
+  ...extra
+});
+
+// What an admin edit leaves behind: new values plus locks on the edited fields.
+function adminEdit(db, movieId: string) {
+  db.prepare("UPDATE movies SET title = 'RRR (Rise Roar Revolt)', synopsis = 'Admin synopsis.' WHERE id = ?").run(movieId);
+  db.prepare("UPDATE movies SET trailer_url = 'https://www.youtube.com/watch?v=admin000001', trailer_source = 'admin' WHERE id = ?").run(movieId);
+  for (const field of ['title', 'synopsis', 'cast']) setMovieFieldLock(db, movieId, field, true, 'admin');
+}
+
+test('locked fields survive a TMDB upsert, unlocked ones refresh', () => {
+  const db = memoryDb();
+  const id = upsertMovieFromTmdb(db, tmdbMovie());
+  adminEdit(db, id);
+  assert.deepEqual([...movieFieldLocks(db, id)].sort(), ['cast', 'synopsis', 'title', 'trailerUrl']);
+
+  upsertMovieFromTmdb(
+    db,
+    tmdbMovie({
+      title: 'R.R.R.',
+      synopsis: 'TMDB synopsis.',
+      director: 'Rajamouli',
+      trailerUrl: 'https://www.youtube.com/watch?v=tmdb0000002',
+      cast: [{ tmdbId: 2, name: 'Ram Charan', character: 'Raju' }]
+    })
+  );
+  const movie = hydrateMovie(db, id);
+  assert.equal(movie?.title, 'RRR (Rise Roar Revolt)');
+  assert.equal(movie?.synopsis, 'Admin synopsis.');
+  assert.equal(movie?.trailerUrl, 'https://www.youtube.com/watch?v=admin000001');
+  assert.deepEqual(movie?.cast.map((c) => c.name), ['N. T. Rama Rao Jr.']);
+  assert.equal(movie?.director, 'Rajamouli');
+});
+
+test('unlocking hands the field back to TMDB', () => {
+  const db = memoryDb();
+  const id = upsertMovieFromTmdb(db, tmdbMovie());
+  adminEdit(db, id);
+  setMovieFieldLock(db, id, 'synopsis', false);
+  setMovieFieldLock(db, id, 'trailerUrl', false);
+
+  upsertMovieFromTmdb(db, tmdbMovie({ synopsis: 'TMDB synopsis.', trailerUrl: 'https://www.youtube.com/watch?v=tmdb0000002' }));
+  const movie = hydrateMovie(db, id);
+  assert.equal(movie?.synopsis, 'TMDB synopsis.');
+  assert.equal(movie?.trailerUrl, 'https://www.youtube.com/watch?v=tmdb0000002');
+  assert.equal(movie?.title, 'RRR (Rise Roar Revolt)');
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import Database from 'better-sqlite3';
+
+import { hydrateMovie, upsertMovieFromTmdb } from '../server/db/repository.js';
+import { getRevision, listRevisions, revertRevision, withRevision } from '../server/db/revisions.js';
+import { migrate } from '../server/db/sqlite.js';
+
+function memoryDb() {
+  const db = new Database(':memory:');
+  db.exec('PRAGMA foreign_keys = ON;');
+  migrate(db);
+  return db;
+}
+
+const MOVIE_ID = 'tmdb-movie:579974';
+const AGENT = { type: 'agent', id: 'ingest' };
+const ADMIN = { type: 'admin', id: 'test' };
+
+function ingest(db) {
+  return withRevision(db, { entityType: 'movie', entityId: MOVIE_ID, action: 'agent_ingest', actor: AGENT }, () =>
+    upsertMovieFromTmdb(db, {
+      tmdbId: 579974,
+      title: 'RRR',
+      language: 'Telugu',
+      originalLanguageCode: 'te',
+      productionCountries: ['IN'],
+      releaseDate: '2022-03-25',
+      synopsis: 'Two revolutionaries in 1920s India.',
+      director: 'S. S. Rajamouli',
+      poster: '',
+      backdrop: '',
+      trailerUrl: '',
+      genres: ['Action'],
+      cast: [],
+      offers: []
+    })
+  );
+}
+
+function editSynopsis(db, synopsis: string) {
+  withRevision(db, { entityType: 'movie', entityId: MOVIE_ID, action: 'admin_update', actor: ADMIN }, () =>
+    db.prepare('UPDATE movies SET synopsis = ? WHERE id = ?').run(synopsis, MOVIE_ID)
+  );
+}
+
+test('reverting an edit restores the field and records a revert revision', () => {
+  const db = memoryDb();
+  ingest(db);
+  editSynopsis(db, 'Edited synopsis.');
+  const [edit] = listRevisions(db, 'movie', MOVIE_ID);
+  assert.equal(edit.action, 'admin_update');
+  assert.deepEqual(edit.changed, ['synopsis']);
+  assert.equal(hydrateMovie(db, MOVIE_ID)?.synopsis, 'Edited synopsis.');
+
+  const result = revertRevision(db, edit.id, { actor: ADMIN });
+  assert.equal(hydrateMovie(db, MOVIE_ID)?.synopsis, 'Two revolutionaries in 1920s India.');
+  assert.equal(result.revertOf, edit.id);
+  assert.ok(result.revisionId);
+
+  const revert = getRevision(db, result.revisionId);
+  assert.equal(revert?.action, 'revert');
+  assert.equal(revert?.revertOf, edit.id);
+  assert.deepEqual(revert?.changed, ['synopsis']);
+  assert.deepEqual(listRevisions(db, 'movie', MOVIE_ID).map((r) => r.action), ['revert', 'admin_update', 'agent_ingest']);
+});
+
+test('reverting an earlier revision undoes the later edits too', () => {
+  const db = memoryDb();
+  ingest(db);
+  editSynopsis(db, 'First edit.');
+  editSynopsis(db, 'Second edit.');
+  const [, first] = listRevisions(db, 'movie', MOVIE_ID);
+  assert.equal(first.action, 'admin_update');
+
+  revertRevision(db, first.id, { actor: ADMIN });
+  assert.equal(hydrateMovie(db, MOVIE_ID)?.synopsis, 'Two revolutionaries in 1920s India.');
+});
+
+test('reverting the ingest removes the movie; unknown revisions are not_found', () => {
+  const db = memoryDb();
+  ingest(db);
+  const [created] = listRevisions(db, 'movie', MOVIE_ID);
+  assert.deepEqual(created.changed, ['created']);
+
+  revertRevision(db, created.id, { actor: ADMIN });
+  assert.equal(hydrateMovie(db, MOVIE_ID), null);
+  assert.throws(() => revertRevision(db, 'missing', { actor: ADMIN }), { code: 'not_found' });
+});
@@ -0,0 +1,180 @@
+import { hashId, nowIso } from '../server/repo.js';
+
+// Checkpoint store for agent runs. Every movie gets a row in `agent_run_items` and each
+// pipeline step ('fetched', 'upserted', then one per enrichment step) is recorded as soon
+// as it completes, so a crashed/killed run can pick up where it stopped with `--resume`
+// instead of re-fetching and re-searching everything.
+
+const INCOMPLETE_STATUSES = ['running', 'interrupted', 'failed'];
+
+// Counters stored with a run (`stats_json`). The optional parts are added as the pipeline
+// reaches them; `resumes` / `resumedAt` by `--resume`.
+export interface RunStats {
+  startedAt: string;
+  discovered: number;
+  fetched: number;
+  upserted: number;
+  skippedNonIndian: number;
+  trailerUpdated: number;
+  songsUpserted: number;
+  ratingsUpserted: number;
+  errors: number;
+  steps?: Record<string, Record<string, number>>;
+  providers?: Record<string, Record<string, number>>;
+  persons?: Record<string, number>;
+  dryRun?: { new: number; changed: number; unchanged: number };
+  crawl?: unknown;
+  resumes?: number;
+  resumedAt?: string;
+}
+
+export interface RunItemPatch {
+  status?: string;
+  movieId?: string;
+  title?: string;
+  error?: string | null;
+}
+
+export interface FinishRunOptions {
+  status?: string;
+  stats?: RunStats;
+  error?: string | null;
+}
+
+function parseJson(raw, fallback) {
+  try {
+    return raw ? JSON.parse(String(raw)) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function rowToRun(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    status: row.status,
+    params: parseJson(row.params_json, {}),
+    stats: parseJson(row.stats_json, null),
+    error: row.error || null,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at || null
+  };
+}
+
+function rowToItem(row) {
+  return {
+    tmdbId: Number(row.tmdb_id),
+    position: Number(row.position),
+    movieId: row.movie_id || null,
+    title: row.title || null,
+    status: row.status,
+    steps: parseJson(row.steps_json, {}),
+    diff: parseJson(row.diff_json, null),
+    error: row.error || null
+  };
+}
+
+export function createRun(db, params, tmdbIds) {
+  const startedAt = nowIso();
+  const id = hashId('agent-run', `${startedAt}:${process.pid}:${Math.random()}`);
+  const insertItem = db.prepare(
+    `
+    INSERT OR IGNORE INTO agent_run_items(run_id, tmdb_id, position, status, steps_json, updated_at)
+    VALUES (?, ?, ?, 'pending', '{}', ?)
+  `
+  );
+  db.transaction(() => {
+    db.prepare(
+      `
+      INSERT INTO agent_runs(id, status, params_json, stats_json, started_at, updated_at)
+      VALUES (?, 'running', ?, NULL, ?, ?)
+    `
+    ).run(id, JSON.stringify(params || {}), startedAt, startedAt);
+    tmdbIds.forEach((tmdbId, i) => insertItem.run(id, tmdbId, i, startedAt));
+  })();
+  return getRun(db, id);
+}
+
+export function getRun(db, runId) {
+  return rowToRun(db.prepare('SELECT * FROM agent_runs WHERE id = ?').get(runId));
+}
+
+export function latestIncompleteRun(db) {
+  const placeholders = INCOMPLETE_STATUSES.map(() => '?').join(', ');
+  return rowToRun(
+    db
+      .prepare(`SELECT * FROM agent_runs WHERE status IN (${placeholders}) ORDER BY started_at DESC LIMIT 1`)
+      .get(...INCOMPLETE_STATUSES)
+  );
+}
+
+export function loadRunItems(db, runId) {
+  return db
+    .prepare('SELECT * FROM agent_run_items WHERE run_id = ? ORDER BY position ASC')
+    .all(runId)
+    .map(rowToItem);
+}
+
+// A step counts as complete once it either did its work or decided there was nothing to do.
+// Failed (and 'blocked' by a failed prerequisite) steps are retried on resume.
+export function stepIsComplete(item, step) {
+  const state = item?.steps?.[step];
+  return state === 'done' || state === 'skipped';
+}
+
+export function markRunStatus(db, runId, status) {
+  db.prepare('UPDATE agent_runs SET status = ?, updated_at = ? WHERE id = ?').run(status, nowIso(), runId);
+}
+
+export function markStep(db, runId, item, step, state) {
+  item.steps = { ...(item.steps || {}), [step]: state };
+  db.prepare('UPDATE agent_run_items SET steps_json = ?, updated_at = ? WHERE run_id = ? AND tmdb_id = ?').run(
+    JSON.stringify(item.steps),
+    nowIso(),
+    runId,
+    item.tmdbId
+  );
+}
+
+// Dry runs store what each movie would have changed (agent/diff.ts) instead of writing it.
+export function saveItemDiff(db, runId, item, diff) {
+  item.diff = diff;
+  db.prepare('UPDATE agent_run_items SET diff_json = ?, updated_at = ? WHERE run_id = ? AND tmdb_id = ?').run(
+    JSON.stringify(diff),
+    nowIso(),
+    runId,
+    item.tmdbId
+  );
+}
+
+export function markItem(db, runId, item, patch: RunItemPatch) {
+  Object.assign(item, patch || {});
+  db.prepare(
+    `
+    UPDATE agent_run_items
+    SET status = ?, movie_id = ?, title = ?, error = ?, updated_at = ?
+    WHERE run_id = ? AND tmdb_id = ?
+  `
+  ).run(item.status, item.movieId || null, item.title || null, item.error || null, nowIso(), runId, item.tmdbId);
+}
+
+export function saveRunStats(db, runId, stats) {
+  db.prepare('UPDATE agent_runs SET stats_json = ?, updated_at = ? WHERE id = ?').run(
+    JSON.stringify(stats || {}),
+    nowIso(),
+    runId
+  );
+}
+
+export function finishRun(db, runId, { status = 'finished', stats, error }: FinishRunOptions = {}) {
+  const ts = nowIso();
+  db.prepare(
+    `
+    UPDATE agent_runs
+    SET status = ?, stats_json = ?, error = ?, updated_at = ?, finished_at = ?
+    WHERE id = ?
+  `
+  ).run(status, JSON.stringify(stats || {}), error ? String(error).slice(0, 2000) : null, ts, ts, runId);
+}
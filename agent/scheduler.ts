@@ -0,0 +1,260 @@
+import { nowIso } from '../server/repo.js';
+
+// Provider-aware request scheduler for the agent: every outbound provider call goes through
+// `schedule(provider, fn)`, which enforces a per-provider concurrency cap and token bucket,
+// retries 429/5xx/network failures with exponential backoff, and spends a daily quota that
+// is persisted in `app_meta` (shared with the server's own circuit breakers).
+
+export interface ProviderLimits {
+  concurrency: number;
+  ratePerSec: number; // token bucket refill rate
+  burst: number; // bucket size
+  retries: number;
+  dailyQuota?: number; // units per UTC day (0 / undefined = unlimited)
+  quotaKey?: string; // app_meta key prefix for the per-day counter
+  circuitKey?: string; // app_meta key holding an "until" timestamp set on quota errors
+}
+
+export interface ScheduleOptions {
+  cost?: number; // quota units for this call (YouTube search.list = 100)
+  label?: string;
+}
+
+const DEFAULT_LIMITS: Record<string, ProviderLimits> = {
+  tmdb: { concurrency: 4, ratePerSec: 20, burst: 20, retries: 4 },
+  youtube: {
+    concurrency: 2,
+    ratePerSec: 2,
+    burst: 2,
+    retries: 2,
+    dailyQuota: 10000,
+    quotaKey: 'youtube_quota_units',
+    circuitKey: 'youtube_quota_until'
+  },
+  omdb: { concurrency: 2, ratePerSec: 5, burst: 5, retries: 3, dailyQuota: 1000, quotaKey: 'omdb_daily_count' },
+  itunes: { concurrency: 1, ratePerSec: 0.3, burst: 2, retries: 2 },
+  wikipedia: { concurrency: 3, ratePerSec: 5, burst: 5, retries: 3 },
+  motn: {
+    concurrency: 1,
+    ratePerSec: 1,
+    burst: 1,
+    retries: 2,
+    dailyQuota: 80,
+    quotaKey: 'motn_daily_count',
+    circuitKey: 'motn_quota_until'
+  }
+};
+
+// Quota exhaustion is not retried within a run; callers treat it as "come back tomorrow".
+export function isQuotaError(err) {
+  return err?.code === 'quota_exhausted';
+}
+
+type QuotaError = Error & { code: 'quota_exhausted'; provider: string };
+
+function quotaError(provider: string, reason: string): QuotaError {
+  return Object.assign(new Error(`${provider} quota exhausted (${reason})`), { code: 'quota_exhausted' as const, provider });
+}
+
+function envNumber(name) {
+  const raw = process.env[name];
+  if (raw == null || String(raw).trim() === '') return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function limitsFor(provider) {
+  const base = DEFAULT_LIMITS[provider] || { concurrency: 2, ratePerSec: 2, burst: 2, retries: 2 };
+  const P = provider.toUpperCase();
+  const dailyDefault =
+    provider === 'youtube'
+      ? envNumber('YOUTUBE_DAILY_QUOTA')
+      : provider === 'motn'
+        ? envNumber('MOTN_DAILY_BUDGET')
+        : undefined;
+  return {
+    ...base,
+    concurrency: Math.max(1, envNumber(`AGENT_${P}_CONCURRENCY`) ?? base.concurrency),
+    ratePerSec: Math.max(0.01, envNumber(`AGENT_${P}_RPS`) ?? base.ratePerSec),
+    dailyQuota: envNumber(`AGENT_${P}_DAILY_QUOTA`) ?? dailyDefault ?? base.dailyQuota
+  };
+}
+
+function isoDay() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function isRetryable(err) {
+  const status = Number(err?.status || 0) || 0;
+  if (status === 429 || status >= 500) return true;
+  if (status) return false;
+  // fetch() network failures / AbortSignal.timeout
+  const name = String(err?.name || '');
+  const msg = String(err?.message || '').toLowerCase();
+  return name === 'TimeoutError' || name === 'AbortError' || msg.includes('fetch failed') || msg.includes('econnreset');
+}
+
+function looksLikeQuotaExceeded(err) {
+  const status = Number(err?.status || 0) || 0;
+  if (status !== 403) return false;
+  const b = String(err?.body || err?.message || '').toLowerCase();
+  return b.includes('quota') || b.includes('exceeded');
+}
+
+function retryDelayMs(err, attempt) {
+  const retryAfter = Number(err?.retryAfter || 0);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return Math.min(60_000, retryAfter * 1000);
+  const base = Math.min(30_000, 1000 * 2 ** attempt);
+  return base + Math.floor(Math.random() * 250);
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createRequestScheduler(db) {
+  const lanes = new Map();
+  const stats = {};
+
+  const metaGet = (key) => {
+    try {
+      return db.prepare('SELECT value FROM app_meta WHERE key = ?').get(key)?.value ?? null;
+    } catch {
+      return null;
+    }
+  };
+  const metaSet = (key, value) => {
+    try {
+      db.prepare('INSERT OR REPLACE INTO app_meta(key, value, updated_at) VALUES (?, ?, ?)').run(key, String(value), nowIso());
+    } catch {
+      // ignore
+    }
+  };
+
+  const lane = (provider) => {
+    if (!lanes.has(provider)) {
+      const limits = limitsFor(provider);
+      lanes.set(provider, { limits, active: 0, waiters: [], tokens: limits.burst, refilledAt: Date.now(), quotaCounterKey: '' });
+      stats[provider] = { calls: 0, ok: 0, retries: 0, failed: 0, quotaSkipped: 0, quotaUsed: 0, throttledMs: 0 };
+    }
+    return lanes.get(provider);
+  };
+
+  // A released slot goes straight to the next waiter (`active` stays put), so a call arriving
+  // in between cannot take it and push the lane over its concurrency cap.
+  const acquireSlot = async (l) => {
+    if (l.active < l.limits.concurrency) {
+      l.active++;
+      return;
+    }
+    await new Promise((resolve) => l.waiters.push(resolve));
+  };
+  const releaseSlot = (l) => {
+    const next = l.waiters.shift();
+    if (next) next();
+    else l.active--;
+  };
+
+  const takeToken = async (l, st) => {
+    for (;;) {
+      const now = Date.now();
+      l.tokens = Math.min(l.limits.burst, l.tokens + ((now - l.refilledAt) / 1000) * l.limits.ratePerSec);
+      l.refilledAt = now;
+      if (l.tokens >= 1) {
+        l.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil(((1 - l.tokens) / l.limits.ratePerSec) * 1000);
+      st.throttledMs += waitMs;
+      await sleep(waitMs);
+    }
+  };
+
+  const quotaCounterKey = (limits) => `${limits.quotaKey}:${isoDay()}`;
+
+  const checkQuota = (provider, limits, cost) => {
+    if (limits.circuitKey) {
+      const until = Number(metaGet(limits.circuitKey) || 0);
+      if (until && Date.now() < until) throw quotaError(provider, 'circuit_open');
+    }
+    if (limits.dailyQuota && limits.quotaKey) {
+      const used = Number(metaGet(quotaCounterKey(limits)) || 0);
+      if (used + cost > limits.dailyQuota) throw quotaError(provider, 'daily_budget');
+    }
+  };
+
+  // Counters of earlier days are dropped the first time a lane spends on a new day.
+  const pruneQuotaCounters = (limits, currentKey) => {
+    try {
+      db.prepare('DELETE FROM app_meta WHERE key > ? AND key < ?').run(`${limits.quotaKey}:`, currentKey);
+    } catch {
+      // ignore
+    }
+  };
+
+  const spendQuota = (l, cost, st) => {
+    const limits = l.limits;
+    st.quotaUsed += cost;
+    if (!limits.dailyQuota || !limits.quotaKey) return;
+    const key = quotaCounterKey(limits);
+    if (l.quotaCounterKey !== key) {
+      pruneQuotaCounters(limits, key);
+      l.quotaCounterKey = key;
+    }
+    metaSet(key, Number(metaGet(key) || 0) + cost);
+  };
+
+  // Provider said "quota exceeded": stop calling it until the next UTC day.
+  const openCircuit = (limits) => {
+    if (limits.quotaKey && limits.dailyQuota) metaSet(quotaCounterKey(limits), limits.dailyQuota);
+    if (limits.circuitKey) {
+      const tomorrow = new Date();
+      tomorrow.setUTCHours(24, 0, 0, 0);
+      metaSet(limits.circuitKey, tomorrow.getTime());
+    }
+  };
+
+  async function schedule<T>(provider: string, fn: () => Promise<T>, opts: ScheduleOptions = {}): Promise<T> {
+    const l = lane(provider);
+    const st = stats[provider];
+    const cost = Math.max(0, Number(opts.cost ?? 1));
+    st.calls++;
+
+    await acquireSlot(l);
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          checkQuota(provider, l.limits, cost);
+        } catch (err) {
+          st.quotaSkipped++;
+          throw err;
+        }
+        await takeToken(l, st);
+        spendQuota(l, cost, st);
+        try {
+          const out = await fn();
+          st.ok++;
+          return out;
+        } catch (err) {
+          if (looksLikeQuotaExceeded(err)) {
+            openCircuit(l.limits);
+            st.quotaSkipped++;
+            throw quotaError(provider, 'provider_403');
+          }
+          if (attempt < l.limits.retries && isRetryable(err)) {
+            st.retries++;
+            await sleep(retryDelayMs(err, attempt));
+            continue;
+          }
+          st.failed++;
+          throw err;
+        }
+      }
+    } finally {
+      releaseSlot(l);
+    }
+  }
+
+  return {
+    schedule,
+    stats: () => JSON.parse(JSON.stringify(stats))
+  };
+}
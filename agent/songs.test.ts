@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { test } from 'node:test';
+
+import { installHttpCassettes } from '../server/providers/cassettes.js';
+import { youtubeSearch } from '../server/providers/youtube.js';
+import { scoreYoutubeSongCandidate, youtubeSearchSongsForMovie } from './songs.js';
+
+// Synthetic YouTube searches replayed from fixtures/cassettes; no network or API key needed.
+process.env.HTTP_CASSETTES = 'replay';
+process.env.HTTP_CASSETTE_DIR = fileURLToPath(new URL('../fixtures/cassettes', import.meta.url));
+installHttpCassettes();
+
+const RRR = { title: 'RRR', year: 2022, language: 'Telugu' };
+const SEARCH = { maxResults: 12, videoCategoryId: 10, relevanceLanguage: 'te', regionCode: 'IN' };
+
+test('song uploads of the movie score, trailers and other films do not', async () => {
+  const jukebox = await youtubeSearch('RRR Telugu jukebox', SEARCH);
+  const [songs, trailer] = jukebox;
+  assert.ok(scoreYoutubeSongCandidate(RRR.title, songs) > 0.5);
+  assert.equal(scoreYoutubeSongCandidate(RRR.title, trailer), -1);
+
+  const other = (await youtubeSearch('RRR Telugu movie songs', SEARCH)).find((h) => h.title.includes('Pushpa'));
+  assert.equal(scoreYoutubeSongCandidate(RRR.title, other), 0);
+});
+
+test('a native-script upload matches the acronym title', async () => {
+  const hits = await youtubeSearch('RRR 2022 Telugu songs', SEARCH);
+  const native = hits.find((h) => h.title.includes('ఆర్ఆర్ఆర్'));
+  assert.ok(scoreYoutubeSongCandidate(RRR.title, native) > 0.5);
+});
+
+test('the agent search keeps one entry per video, best matches first', async () => {
+  const songs = await youtubeSearchSongsForMovie(RRR);
+  const urls = songs.map((s) => s.youtubeUrl);
+  assert.equal(new Set(urls).size, urls.length);
+  assert.ok(songs.length > 0);
+  assert.match(songs[0].title, /Jukebox/);
+  assert.ok(songs.every((s) => !/Trailer|Pushpa/.test(s.title)));
+});
@@ -0,0 +1,200 @@
+import { youtubeSearch } from '../server/providers/youtube.js';
+import { hasNativeSongMarker, normalizeForMatch, tokenMatchScore } from '../server/transliterate.js';
+
+// YouTube song search used by the agent's `songs` enrichment step (jukebox/lyrical hits
+// for a movie title). The server keeps its own, richer matcher in server/index.js.
+
+export function normalizeText(s) {
+  return String(s || '')
+    .toLowerCase()
+    .replace(/&amp;/g, '&')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function ytLangCode(language) {
+  switch (String(language || '').toLowerCase()) {
+    case 'hindi':
+      return 'hi';
+    case 'telugu':
+      return 'te';
+    case 'tamil':
+      return 'ta';
+    case 'kannada':
+      return 'kn';
+    case 'malayalam':
+      return 'ml';
+    case 'marathi':
+      return 'mr';
+    case 'bengali':
+      return 'bn';
+    case 'punjabi':
+      return 'pa';
+    default:
+      return '';
+  }
+}
+
+// English letter names as Indic script spells them once transliterated ("RRR" is ఆర్ఆర్ఆర్,
+// "aaraaraar"; "KGF" is केजीएफ), so an acronym title matches its native-script form.
+const LETTER_NAMES: Record<string, string> = {
+  a: 'e', b: 'bi', c: 'si', d: 'di', e: 'i', f: 'ef', g: 'ji', h: 'ech', i: 'ai', j: 'je', k: 'ke', l: 'el', m: 'em',
+  n: 'en', o: 'o', p: 'pi', q: 'kyu', r: 'ar', s: 'es', t: 'ti', u: 'yu', v: 'vi', w: 'dablyu', x: 'eks', y: 'vai', z: 'jed'
+};
+
+const SEQUEL_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, i: 1, ii: 2, iii: 3, iv: 4 };
+
+function sequelNumber(word: string) {
+  if (/^[1-9]$/.test(word)) return Number(word);
+  return SEQUEL_WORDS[word] ?? null;
+}
+
+// The part of a movie title uploads actually carry: "Brahmastra Part One: Shiva" -> "brahmastra"
+// (part 1), "Baahubali 2: The Conclusion" -> "baahubali" (part 2), "K.G.F: Chapter 2" -> "kgf"
+// (part 2). `sequel` is null when the title names no part. `acronym` is set for all-caps titles.
+export function splitMovieTitle(movieTitle) {
+  const raw = String(movieTitle || '').trim();
+  const full = normalizeForMatch(raw);
+  const part = full.match(/\b(?:part|chapter|vol|volume)\s+([1-9]|one|two|three|four|i|ii|iii|iv)\b/);
+  let sequel = part ? sequelNumber(part[1]) : null;
+  let main = normalizeForMatch(raw.split(/:|\s[-–|]\s/)[0])
+    .replace(/\s+(?:part|chapter|vol|volume)\b.*$/, '')
+    // "k g f" -> "kgf"
+    .replace(/\b[a-z](?:\s[a-z]\b)+/g, (m) => m.replace(/\s/g, ''));
+  const numbered = main.match(/^(.*\S)\s+([1-9]|ii|iii|iv)$/);
+  if (numbered) {
+    main = numbered[1];
+    sequel = sequel ?? sequelNumber(numbered[2]);
+  }
+  // "Dhoom:3"
+  const afterColon = normalizeForMatch(raw.split(':')[1] || '').split(' ')[0];
+  if (sequel == null && /^(?:[1-9]|ii|iii|iv)$/.test(afterColon)) sequel = sequelNumber(afterColon);
+  const letters = raw.split(/:|\s[-–|]\s/)[0].replace(/[.\s]/g, '');
+  const acronym = /^[A-Z]{2,5}$/.test(letters) ? letters.toLowerCase() : '';
+  return { main: main || full, sequel, acronym };
+}
+
+// Sequel number an upload gives right after the title ("Baahubali 2", "KGF Chapter 2", "PS1"), or null.
+function candidateSequel(mainTokens, words) {
+  const last = mainTokens[mainTokens.length - 1];
+  if (!last) return null;
+  for (let i = 0; i < words.length; i++) {
+    const w = words[i];
+    const glued = w.match(/^([a-z]+)([1-9])$/);
+    if (glued && tokenMatchScore(last, glued[1]) >= 1) return Number(glued[2]);
+    if (tokenMatchScore(last, w) < 1) continue;
+    const labeled = ['part', 'chapter', 'vol', 'volume'].includes(words[i + 1]);
+    const next = words[labeled ? i + 2 : i + 1];
+    const n = next ? sequelNumber(next) : null;
+    // A bare "one" / "i" after the title is more likely a word than a part number.
+    if (n != null && (labeled || /^(?:[1-9]|ii|iii|iv)$/.test(next))) return n;
+  }
+  return null;
+}
+
+function titleTokenScore(token: string, hay: string, acronym: string) {
+  const plain = tokenMatchScore(token, hay);
+  if (plain || !acronym || token !== acronym) return plain;
+  const spelled = Array.from(acronym, (c) => LETTER_NAMES[c] || c).join('');
+  return tokenMatchScore(spelled, hay);
+}
+
+// Titles are compared after transliteration (server/transliterate.js), so native-script
+// lyrical videos score like romanized ones. Only the main title is scored (uploads rarely carry
+// a subtitle such as "Part One: Shiva"); an upload naming a different part of the franchise is
+// rejected.
+export function scoreYoutubeSongCandidate(movieTitle, item) {
+  const title = normalizeForMatch(item?.title);
+  const desc = normalizeForMatch(item?.description);
+  const hay = `${title} ${desc}`.trim();
+
+  const bad = ['trailer', 'teaser', 'reaction', 'review', 'scene', 'interview', 'full movie'];
+  if (bad.some((w) => hay.includes(w))) return -1;
+
+  const { main, sequel, acronym } = splitMovieTitle(movieTitle);
+  const tokens = main
+    .split(/\s+/g)
+    .filter((t) => t.length >= 3 && !['the', 'and', 'for', 'from', 'with', 'movie', 'film'].includes(t));
+  const uniq = Array.from(new Set(tokens));
+  // A one-word main title still identifies the film when the full title is longer.
+  const single = uniq.length <= 1 && main === normalizeForMatch(movieTitle);
+  const matched = uniq.reduce((sum, t) => sum + titleTokenScore(t, hay, acronym), 0);
+  const base = uniq.length ? matched / uniq.length : 0;
+
+  const other = candidateSequel(uniq, title.split(/\s+/g).filter(Boolean));
+  if (matched && other != null && other !== (sequel ?? 1)) return -1;
+
+  const songSignal = hasSongSignal(hay);
+  let bonus = 0;
+  if (hay.includes('jukebox') || hay.includes('full album') || hay.includes('audio jukebox')) bonus += 0.25;
+  if (hay.includes('lyric') || hay.includes('lyrical') || hay.includes('audio')) bonus += 0.15;
+  if (hay.includes('song') || hay.includes('songs') || hasNativeSongMarker(hay)) bonus += 0.05;
+
+  if (!matched) return 0;
+  if (single && !songSignal) return 0;
+
+  return base + bonus;
+}
+
+function hasSongSignal(hay) {
+  return (
+    hay.includes('song') || hay.includes('jukebox') || hay.includes('audio') || hay.includes('lyric') || hasNativeSongMarker(hay)
+  );
+}
+
+// The acceptance rule of `youtubeSearchSongsForMovie` for one hit: its score, or -1 when it
+// does not qualify. Also used by `npm run agent -- song-eval` to measure precision.
+export function songCandidateScore({ title, year, language }, item) {
+  const movieTitle = String(title || '').trim();
+  const lang = String(language || '').trim();
+  const wordCount = normalizeForMatch(movieTitle).split(/\s+/g).filter(Boolean).length;
+  const threshold = wordCount <= 1 ? 0.55 : 0.38;
+  const s = scoreYoutubeSongCandidate(movieTitle, item);
+  const hay = `${normalizeForMatch(item?.title)} ${normalizeForMatch(item?.description)}`.trim();
+  const langToken = normalizeText(lang);
+  const okDisambiguator = (langToken && tokenMatchScore(langToken, hay) > 0) || (year && hay.includes(String(year)));
+  if (wordCount <= 1 && !(okDisambiguator && hasSongSignal(hay))) return -1;
+  return s >= threshold ? s : -1;
+}
+
+export async function youtubeSearchSongsForMovie({ title, year, language }, search = youtubeSearch) {
+  const movieTitle = String(title || '').trim();
+  if (!movieTitle) return [];
+  const y = year ? String(year) : '';
+  const lang = String(language || '').trim();
+  const langToken = lang ? `${lang} ` : '';
+
+  const queries = [
+    `${movieTitle} ${langToken}jukebox`.trim(),
+    `${movieTitle} ${y} ${langToken}songs`.trim(),
+    `${movieTitle} ${langToken}movie songs`.trim(),
+    `${movieTitle} ${langToken}lyrical`.trim()
+  ].filter(Boolean);
+  const all = [];
+  const rel = ytLangCode(lang);
+  for (const q of queries) {
+    const hits = await search(q, {
+      maxResults: 12,
+      videoCategoryId: 10,
+      relevanceLanguage: rel || undefined,
+      regionCode: 'IN'
+    }).catch((err) => {
+      // Out of quota: stop here so the step is retried later instead of storing a partial list.
+      if (err?.code === 'quota_exhausted') throw err;
+      return [];
+    });
+    all.push(...hits);
+  }
+  const byUrl = new Map();
+  for (const h of all) {
+    const url = String(h?.youtubeUrl || '');
+    if (!url) continue;
+    if (!byUrl.has(url)) byUrl.set(url, h);
+  }
+  return Array.from(byUrl.values())
+    .map((h) => ({ h, s: songCandidateScore({ title: movieTitle, year, language: lang }, h) }))
+    .filter((x) => x.s >= 0)
+    .sort((a, b) => b.s - a.s)
+    .slice(0, 12)
+    .map(({ h }) => ({ title: h.title, singers: [h.channel].filter(Boolean), youtubeUrl: h.youtubeUrl }));
+}
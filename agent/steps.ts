@@ -0,0 +1,294 @@
+import {
+  replaceSongsForMovie,
+  replaceSongsFromYoutube,
+  updateMovieTrailer,
+  updateOttDeepLinks,
+  upsertRatingsFromOmdb
+} from '../server/db/repository.js';
+import { itunesFindSoundtrackForMovie } from '../server/providers/itunes.js';
+import { motnGetDeepLinksForTmdbMovie } from '../server/providers/motn.js';
+import { omdbByTitle } from '../server/providers/omdb.js';
+import { wikipediaLeadByTitle, wikipediaSoundtrackTracksByTitle } from '../server/providers/wikipedia.js';
+import { youtubeSearch } from '../server/providers/youtube.js';
+import { hashId, nowIso } from '../server/repo.js';
+import { matchSoundtrackVideos, reconcileSoundtrack, soundtrackSong } from '../server/soundtrack.js';
+import { findTrailerCandidates } from '../server/trailers.js';
+import type { StepPreview } from './diff.js';
+import { normalizeText, youtubeSearchSongsForMovie, ytLangCode } from './songs.js';
+
+// Enrichment steps run after a movie has been upserted from TMDB. Each step is registered
+// by name so runs can pick them with `--enrich=trailer,songs,...`; the run checkpoint
+// (agent/runs.ts) records one state per step name.
+
+export interface AgentMovie {
+  id: string;
+  tmdbId: number | null;
+  title: string;
+  language: string;
+  releaseDate: string;
+  year?: number;
+  trailerUrl: string;
+  songSource: string; // source of the stored tracklist ('' when the movie has no songs)
+  streamingOffers: number;
+}
+
+export interface StepResult {
+  status: 'done' | 'skipped';
+  updated?: number;
+  note?: string;
+  // Dry runs: what the step would have written (nothing is written).
+  preview?: StepPreview;
+}
+
+export interface StepContext {
+  // Provider-aware request scheduler (agent/scheduler.ts); all provider calls go through it.
+  schedule<T>(provider: string, fn: () => Promise<T>, opts?: { cost?: number }): Promise<T>;
+  // Providers are still called, but steps return a preview instead of writing.
+  dryRun?: boolean;
+}
+
+export interface EnrichmentStep {
+  name: string;
+  description: string;
+  // Steps that must complete for a movie before this one runs (only when also selected).
+  prerequisites: string[];
+  // Env vars the provider needs; steps missing one are left out of `--enrich=all`.
+  requiresEnv?: string[];
+  shouldRun(movie: AgentMovie): boolean;
+  run(db: any, movie: AgentMovie, ctx: StepContext): Promise<StepResult>;
+}
+
+// YouTube Data API: search.list costs 100 quota units per call (10k/day by default).
+const YOUTUBE_SEARCH_COST = 100;
+
+// Tracklists from these sources are definitive; the YouTube jukebox search only fills gaps.
+const CATALOG_SONG_SOURCES = ['soundtrack', 'itunes', 'wikipedia', 'admin'];
+
+const registry = new Map<string, EnrichmentStep>();
+
+export function registerEnrichmentStep(step: EnrichmentStep) {
+  if (!step?.name) throw new Error('enrichment step needs a name');
+  registry.set(step.name, step);
+}
+
+export function enrichmentSteps(): EnrichmentStep[] {
+  return Array.from(registry.values());
+}
+
+export function stepIsAvailable(step: EnrichmentStep) {
+  return (step.requiresEnv || []).every((k) => !!String(process.env[k] || '').trim());
+}
+
+// Resolve an `--enrich` value into an ordered step list.
+// 'all' = every registered step whose provider key is configured; 'tmdb' / 'none' = no enrichment.
+export function resolveEnrichSteps(mode: string) {
+  const m = String(mode || 'all').trim().toLowerCase();
+  if (m === 'tmdb' || m === 'none' || !m) return { steps: [], unknown: [], unavailable: [] };
+
+  const names = m === 'all' ? enrichmentSteps().map((s) => s.name) : m.split(',').map((s) => s.trim()).filter(Boolean);
+  const unknown = names.filter((n) => !registry.has(n));
+  const picked = names.filter((n) => registry.has(n)).map((n) => registry.get(n) as EnrichmentStep);
+  const unavailable = picked.filter((s) => !stepIsAvailable(s)).map((s) => s.name);
+  const selected = picked.filter((s) => stepIsAvailable(s));
+
+  // Order by prerequisites (stable w.r.t. registration order).
+  const chosen = new Set(selected.map((s) => s.name));
+  const ordered: EnrichmentStep[] = [];
+  const visiting = new Set<string>();
+  const visit = (step: EnrichmentStep) => {
+    if (ordered.includes(step) || visiting.has(step.name)) return;
+    visiting.add(step.name);
+    for (const p of step.prerequisites || []) {
+      if (chosen.has(p)) visit(registry.get(p) as EnrichmentStep);
+    }
+    visiting.delete(step.name);
+    ordered.push(step);
+  };
+  for (const step of enrichmentSteps()) if (chosen.has(step.name)) visit(step);
+
+  return { steps: ordered, unknown, unavailable };
+}
+
+export function loadAgentMovie(db, movieId): AgentMovie | null {
+  if (!movieId) return null;
+  const row = db
+    .prepare('SELECT id, tmdb_id, title, language, release_date, trailer_url FROM movies WHERE id = ?')
+    .get(movieId);
+  if (!row) return null;
+  const songSource =
+    db.prepare('SELECT source FROM songs WHERE movie_id = ? ORDER BY created_at DESC LIMIT 1').get(movieId)?.source || '';
+  const streamingOffers =
+    db.prepare("SELECT COUNT(*) as c FROM ott_offers WHERE movie_id = ? AND offer_type = 'Streaming'").get(movieId)?.c || 0;
+  const releaseDate = row.release_date || '';
+  return {
+    id: row.id,
+    tmdbId: row.tmdb_id != null ? Number(row.tmdb_id) : null,
+    title: row.title,
+    language: row.language || '',
+    releaseDate,
+    year: releaseDate ? Number(String(releaseDate).slice(0, 4)) || undefined : undefined,
+    trailerUrl: row.trailer_url || '',
+    songSource: String(songSource || ''),
+    streamingOffers: Number(streamingOffers) || 0
+  };
+}
+
+function addMovieAttribution(db, movieId, provider, providerId, url) {
+  if (!url) return;
+  db.prepare(
+    'INSERT OR IGNORE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).run(hashId('attr', `${movieId}:${provider}`), 'movie', movieId, provider, String(providerId || ''), url, nowIso());
+}
+
+// Same guard the server uses: ambiguous titles ("Champion") must not pull another film's page.
+function wikiLeadMatchesMovie(extract, movie: AgentMovie) {
+  const l = normalizeText(extract || '');
+  const langToken = normalizeText(movie.language);
+  const okLang =
+    !langToken ||
+    l.includes(`${langToken} language`) ||
+    l.includes(`${langToken}-language`) ||
+    l.includes(` ${langToken} film`);
+  const okYear = !movie.year || l.includes(String(movie.year));
+  return okLang && okYear;
+}
+
+registerEnrichmentStep({
+  name: 'trailer',
+  description: 'Ranked YouTube trailer search when TMDB has no trailer (low-confidence matches are not used)',
+  prerequisites: [],
+  requiresEnv: ['YOUTUBE_API_KEY'],
+  shouldRun: (movie) => !movie.trailerUrl,
+  async run(db, movie, ctx) {
+    const relevanceLanguage = ytLangCode(movie.language);
+    const search = (q, opts) =>
+      ctx.schedule('youtube', () => youtubeSearch(q, { ...opts, relevanceLanguage }), { cost: YOUTUBE_SEARCH_COST });
+    const { best, candidates } = await findTrailerCandidates(movie, search);
+    if (!candidates.length) return { status: 'skipped', note: 'no_hits' };
+    if (!best) {
+      // Keep the runner-ups for the admin editor, but do not publish a guess.
+      if (!ctx.dryRun) updateMovieTrailer(db, movie.id, { candidates });
+      return { status: 'skipped', note: `low_confidence (${candidates[0].score})` };
+    }
+    movie.trailerUrl = best.youtubeUrl;
+    if (ctx.dryRun) return { status: 'done', updated: 1, preview: { trailerUrl: best.youtubeUrl } };
+    updateMovieTrailer(db, movie.id, { url: best.youtubeUrl, source: 'youtube', confidence: best.score, candidates });
+    return { status: 'done', updated: 1 };
+  }
+});
+
+// Wikipedia soundtrack section, verified against the article lead (language + year).
+async function findWikiSoundtrack(db, movie: AgentMovie, ctx: StepContext) {
+  const y = movie.year ? String(movie.year) : '';
+  const candidates = Array.from(
+    new Set(
+      [
+        y ? `${movie.title} (${y} film)` : '',
+        y && movie.language ? `${movie.title} (${y} ${movie.language} film)` : '',
+        y ? `${movie.title} (${y} Indian film)` : '',
+        `${movie.title} (film)`
+      ].filter(Boolean)
+    )
+  );
+  for (const t of candidates) {
+    const wiki = await ctx
+      .schedule('wikipedia', () => wikipediaSoundtrackTracksByTitle(t, { lang: 'en', db }))
+      .catch(() => null);
+    if (!wiki || !Array.isArray(wiki.tracks) || wiki.tracks.length < 2) continue;
+    const lead = await ctx.schedule('wikipedia', () => wikipediaLeadByTitle(wiki.title, { lang: 'en', db })).catch(() => null);
+    if (wikiLeadMatchesMovie(lead?.extract, movie)) return wiki;
+  }
+  return null;
+}
+
+registerEnrichmentStep({
+  name: 'soundtrack',
+  description: 'Album tracklist from iTunes + Wikipedia, reconciled per track (singers, lengths), with a YouTube video per track',
+  prerequisites: [],
+  shouldRun: (movie) => !CATALOG_SONG_SOURCES.includes(movie.songSource),
+  async run(db, movie, ctx) {
+    const itunes = await ctx.schedule('itunes', () =>
+      itunesFindSoundtrackForMovie({ title: movie.title, year: movie.year, language: movie.language })
+    );
+    const wiki = await findWikiSoundtrack(db, movie, ctx);
+    let tracks = reconcileSoundtrack({ itunes: itunes?.tracks || [], wikipedia: wiki?.trackDetails || [] }).slice(0, 20);
+    if (tracks.length < 2) return { status: 'skipped', note: 'no_album' };
+
+    // The tracklist is stored even when YouTube is unavailable; links can be added by hand.
+    let note = '';
+    if (String(process.env.YOUTUBE_API_KEY || '').trim()) {
+      const relevanceLanguage = ytLangCode(movie.language);
+      const search = (q, opts) =>
+        ctx.schedule('youtube', () => youtubeSearch(q, { ...opts, relevanceLanguage }), { cost: YOUTUBE_SEARCH_COST });
+      const matched = await matchSoundtrackVideos(movie, tracks, search);
+      tracks = matched.tracks;
+      if (matched.error) note = `youtube: ${String(matched.error?.code || matched.error?.message || matched.error)}`;
+    }
+    const linked = tracks.filter((t) => t.youtubeUrl).length;
+    note = [`${linked}/${tracks.length} linked`, note].filter(Boolean).join('; ');
+
+    const songs = tracks.map((t) => ({
+      ...soundtrackSong(t),
+      sourceUrl: t.sourceUrl || wiki?.url || '',
+      attributionProvider: t.sourceUrl ? 'itunes' : 'wikipedia'
+    }));
+    movie.songSource = 'soundtrack';
+    if (ctx.dryRun) return { status: 'done', updated: songs.length, note, preview: { songs } };
+    replaceSongsForMovie(db, movie.id, songs, { source: 'soundtrack', platform: 'YouTube' });
+    if (itunes) addMovieAttribution(db, movie.id, 'itunes', itunes.albumId, itunes.albumUrl);
+    if (wiki) addMovieAttribution(db, movie.id, 'wikipedia', wiki.title, wiki.url);
+    return { status: 'done', updated: songs.length, note };
+  }
+});
+
+registerEnrichmentStep({
+  name: 'songs',
+  description: 'YouTube jukebox/lyrical search (only when no catalog tracklist was found)',
+  prerequisites: ['soundtrack'],
+  requiresEnv: ['YOUTUBE_API_KEY'],
+  shouldRun: (movie) => !CATALOG_SONG_SOURCES.includes(movie.songSource),
+  async run(db, movie, ctx) {
+    const search = (q, opts) => ctx.schedule('youtube', () => youtubeSearch(q, opts), { cost: YOUTUBE_SEARCH_COST });
+    const songs = await youtubeSearchSongsForMovie(
+      { title: movie.title, year: movie.year, language: movie.language },
+      search
+    );
+    if (!songs?.length) return { status: 'skipped', note: 'no_hits' };
+    movie.songSource = 'youtube';
+    if (ctx.dryRun) return { status: 'done', updated: songs.length, preview: { songs } };
+    replaceSongsFromYoutube(db, movie.id, songs);
+    return { status: 'done', updated: songs.length };
+  }
+});
+
+registerEnrichmentStep({
+  name: 'ratings',
+  description: 'OMDb ratings (IMDb, Rotten Tomatoes, Metacritic)',
+  prerequisites: [],
+  requiresEnv: ['OMDB_API_KEY'],
+  shouldRun: () => true,
+  async run(db, movie, ctx) {
+    const omdb = await ctx.schedule('omdb', () => omdbByTitle(movie.title, movie.year));
+    const n = omdb?.ratings?.length || 0;
+    if (ctx.dryRun) return n ? { status: 'done', updated: n, preview: { ratings: omdb.ratings } } : { status: 'skipped', note: 'no_ratings' };
+    upsertRatingsFromOmdb(db, movie.id, omdb);
+    return n ? { status: 'done', updated: n } : { status: 'skipped', note: 'no_ratings' };
+  }
+});
+
+registerEnrichmentStep({
+  name: 'motn-deeplinks',
+  description: 'Movie of the Night deep links for streaming offers',
+  prerequisites: [],
+  requiresEnv: ['MOTN_API_KEY'],
+  shouldRun: (movie) => !!movie.tmdbId && movie.streamingOffers > 0,
+  async run(db, movie, ctx) {
+    const country = String(process.env.MOTN_COUNTRY || 'in').trim().toLowerCase() || 'in';
+    const rows = await ctx.schedule('motn', () => motnGetDeepLinksForTmdbMovie(movie.tmdbId, { country }));
+    if (ctx.dryRun) {
+      return rows?.length ? { status: 'done', updated: rows.length, preview: { deepLinks: rows } } : { status: 'skipped', note: 'no_links' };
+    }
+    const updated = updateOttDeepLinks(db, movie.id, rows, 'motn');
+    return updated ? { status: 'done', updated } : { status: 'skipped', note: 'no_matching_offers' };
+  }
+});
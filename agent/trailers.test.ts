@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { findTrailerCandidates, rankTrailerCandidates, scoreTrailerCandidate } from '../server/trailers.js';
+
+const KANTARA = { title: 'Kantara', year: 2022, language: 'Kannada' };
+
+// The studio's upload is the Hindi dub; the re-upload has every marker the scorer rewards.
+const OFFICIAL = {
+  youtubeUrl: 'https://www.youtube.com/watch?v=official0001',
+  title: 'Kantara Hindi Trailer',
+  channel: 'Hombale Films',
+  publishedAt: '2022-10-04T06:30:00Z'
+};
+const REUPLOAD = {
+  youtubeUrl: 'https://www.youtube.com/watch?v=reupload0001',
+  title: 'Kantara Official Trailer | Kannada | Rishab Shetty',
+  channel: 'Movie Clips HD',
+  description: 'Watch the official trailer',
+  publishedAt: '2022-09-10T04:00:00Z'
+};
+
+test('on its own the re-upload outscores the official upload', () => {
+  const official = scoreTrailerCandidate(KANTARA, OFFICIAL);
+  const reupload = scoreTrailerCandidate(KANTARA, REUPLOAD);
+  assert.equal(official.official, true);
+  assert.equal(reupload.official, false);
+  assert.ok(reupload.score > official.score);
+  assert.ok(reupload.score >= 0.7);
+});
+
+test('an official upload ranks first and re-uploads stay below the threshold', () => {
+  const [best, runnerUp] = rankTrailerCandidates(KANTARA, [REUPLOAD, OFFICIAL], { minConfidence: 0.7 });
+  assert.equal(best.youtubeUrl, OFFICIAL.youtubeUrl);
+  assert.ok(best.score >= 0.7);
+  assert.equal(runnerUp.youtubeUrl, REUPLOAD.youtubeUrl);
+  assert.equal(runnerUp.score, 0.69);
+  assert.ok(runnerUp.reasons.includes('not official channel'));
+});
+
+test('without an official upload the re-upload keeps its score', () => {
+  const [only] = rankTrailerCandidates(KANTARA, [REUPLOAD], { minConfidence: 0.7 });
+  assert.equal(only.score, scoreTrailerCandidate(KANTARA, REUPLOAD).score);
+  assert.ok(!only.reasons.includes('not official channel'));
+});
+
+test('the search picks the official upload and stops after the first query', async () => {
+  const queries: string[] = [];
+  const search = async (q: string) => {
+    queries.push(q);
+    return [REUPLOAD, OFFICIAL];
+  };
+  const { best, candidates } = await findTrailerCandidates(KANTARA, search, { minConfidence: 0.7 });
+  assert.equal(best?.youtubeUrl, OFFICIAL.youtubeUrl);
+  assert.equal(candidates.length, 2);
+  assert.deepEqual(queries, ['Kantara official trailer']);
+});
@@ -0,0 +1,61 @@
+import { INDIAN_LANGUAGES_LOWER } from './repo.js';
+
+// Indian-film classifier for TMDB records. Country of production, origin, production
+// companies, languages, cast and release regions each add (or take away) weight, so a
+// Hollywood film with a Hindi dub does not pass on its language alone and an English-language
+// Indian co-production is not missed. The verdict and its reasons are stored on the movie
+// (`movies.is_indian`, `indian_classification_json`); an admin override always wins. Used by
+// the agent's ingest filter, the server's on-demand ingest and `upsertMovieFromTmdb`.
+
+// ISO 639-1 codes of Indian languages (TMDB `original_language` / `spoken_languages`).
+const INDIAN_LANGUAGE_CODES = ['hi', 'ta', 'te', 'kn', 'ml', 'mr', 'bn', 'pa', 'gu', 'or', 'as', 'ur', 'kok', 'bho', 'sa', 'tcy'];
+
+export const INDIAN_THRESHOLD = 1.5;
+
+function isIndianLanguage(value) {
+  const v = String(value || '').trim().toLowerCase();
+  return !!v && (INDIAN_LANGUAGE_CODES.includes(v) || INDIAN_LANGUAGES_LOWER.includes(v));
+}
+
+function codes(list) {
+  return Array.isArray(list) ? list.map((c) => String(c || '').toUpperCase()).filter(Boolean) : [];
+}
+
+// `context.indianCast`: cast members already credited in Indian films in our DB (TMDB has no
+// nationality on credits). `context.override`: the admin's 1/0, or null.
+// Returns `{ isIndian, verdict, score, reasons, override }`: `verdict` is the classifier's own
+// answer, `isIndian` the one that applies.
+export function classifyIndianMovie(full, { indianCast = 0, override = null } = {}) {
+  const reasons = [];
+  let score = 0;
+  const add = (weight, reason) => {
+    score += weight;
+    reasons.push(`${weight > 0 ? '+' : ''}${weight} ${reason}`);
+  };
+
+  const countries = codes(full?.productionCountries);
+  const origin = codes(full?.originCountry);
+  const companies = Array.isArray(full?.productionCompanies) ? full.productionCompanies : [];
+  const indianCompanies = companies.filter((c) => String(c?.originCountry || '').toUpperCase() === 'IN');
+  const spoken = Array.isArray(full?.spokenLanguages) ? full.spokenLanguages : [];
+  const releaseRegions = codes(full?.releaseRegions);
+
+  if (countries.includes('IN')) add(2, 'produced in India');
+  if (origin.includes('IN')) add(1.5, 'origin country India');
+  if (indianCompanies.length) add(1.5, `Indian production company (${indianCompanies[0].name || 'unnamed'})`);
+  if (isIndianLanguage(full?.originalLanguageCode || full?.language)) add(1.5, `original language ${full?.language || full?.originalLanguageCode}`);
+  if (spoken.some(isIndianLanguage)) add(0.5, 'Indian language spoken');
+  if (indianCast > 0) add(Math.min(1.5, 0.5 * indianCast), `${indianCast} cast member(s) from Indian films`);
+  if (releaseRegions.includes('IN')) add(0.25, 'released in India');
+
+  // Known to be made elsewhere: a dub or an Indian-language title alone must not carry it.
+  const foreignOnly = (list) => list.length && !list.includes('IN');
+  if (foreignOnly(countries) && (!origin.length || foreignOnly(origin)) && !indianCompanies.length) {
+    add(-1.5, `produced outside India (${countries.join(', ')})`);
+  }
+
+  score = Math.round(score * 100) / 100;
+  const verdict = score >= INDIAN_THRESHOLD;
+  const o = override === 0 || override === 1 ? override : null;
+  return { isIndian: o == null ? verdict : o === 1, verdict, score, reasons, override: o };
+}
@@ -0,0 +1,217 @@
+import { makeId, nowIso, toSlug } from '../repo.js';
+import { hydrateMoviesForBrowse } from './repository.js';
+
+// Franchises: TMDB collections (KGF, Baahubali, Pushpa, ...) seeded from a movie's
+// `belongs_to_collection`, and cinematic universes an admin curates (LCU, Spy Universe). Both are
+// `collections` rows with `collection_movies` links. Release order comes from the movies'
+// release dates; the story (chronological) order uses `chrono_order` where an admin set one and
+// falls back to release order. Only Indian-listed movies are shown.
+
+function collectionError(code, message) {
+  return Object.assign(new Error(message), { code });
+}
+
+function uniqueSlug(db, base, suffix) {
+  const slug = base || `collection-${suffix}`;
+  return db.prepare('SELECT 1 FROM collections WHERE slug = ?').get(slug) ? `${slug}-${suffix}` : slug;
+}
+
+// Upsert a TMDB collection (`{ tmdbId, name, poster, backdrop, overview? }`). Returns its id.
+export function upsertTmdbCollection(db, c) {
+  const id = makeId('tmdb-collection', c.tmdbId);
+  const ts = nowIso();
+  const existing = db.prepare('SELECT slug FROM collections WHERE id = ?').get(id);
+  const slug = existing?.slug || uniqueSlug(db, toSlug(c.name), c.tmdbId);
+  db.prepare(
+    `
+    INSERT INTO collections (id, tmdb_id, slug, name, kind, overview, poster, backdrop, created_at, updated_at)
+    VALUES (?, ?, ?, ?, 'collection', ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name=excluded.name,
+      overview=COALESCE(excluded.overview, collections.overview),
+      poster=CASE WHEN excluded.poster != '' THEN excluded.poster ELSE collections.poster END,
+      backdrop=CASE WHEN excluded.backdrop != '' THEN excluded.backdrop ELSE collections.backdrop END,
+      updated_at=excluded.updated_at
+  `
+  ).run(id, c.tmdbId, slug, c.name || `Collection ${c.tmdbId}`, c.overview ?? null, c.poster || '', c.backdrop || '', ts, ts);
+  return id;
+}
+
+// Called from `upsertMovieFromTmdb` with the movie's TMDB collection (null: none). Admin links and
+// a chronological position set on the TMDB link are kept.
+export function syncTmdbCollection(db, movieId, collection) {
+  const keep = collection?.tmdbId ? upsertTmdbCollection(db, collection) : '';
+  db.prepare("DELETE FROM collection_movies WHERE movie_id = ? AND source = 'tmdb' AND collection_id != ?").run(movieId, keep);
+  if (!keep) return;
+  db.prepare(
+    "INSERT OR IGNORE INTO collection_movies(collection_id, movie_id, chrono_order, source, created_at) VALUES (?, ?, NULL, 'tmdb', ?)"
+  ).run(keep, movieId, nowIso());
+}
+
+export function markCollectionPartsFetched(db, collectionId) {
+  db.prepare('UPDATE collections SET parts_fetched_at = ? WHERE id = ?').run(nowIso(), collectionId);
+}
+
+// Create or edit an admin universe. A slug that belongs to a TMDB collection is refused.
+export function saveUniverse(db, { name, slug, overview } = {}) {
+  const label = String(name || '').trim();
+  if (!label) throw collectionError('invalid_name', 'name is required');
+  const s = toSlug(slug || label);
+  if (!s) throw collectionError('invalid_slug', 'slug is empty');
+  const existing = db.prepare('SELECT kind FROM collections WHERE slug = ?').get(s);
+  if (existing && existing.kind !== 'universe') throw collectionError('slug_taken', `slug is used by a TMDB collection: ${s}`);
+  const ts = nowIso();
+  db.prepare(
+    `
+    INSERT INTO collections (id, slug, name, kind, overview, created_at, updated_at)
+    VALUES (?, ?, ?, 'universe', ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET name=excluded.name, overview=excluded.overview, updated_at=excluded.updated_at
+  `
+  ).run(`universe:${s}`, s, label, String(overview || '').trim() || null, ts, ts);
+  return s;
+}
+
+export function deleteUniverse(db, slug) {
+  const c = db.prepare('SELECT id, kind FROM collections WHERE slug = ?').get(String(slug || ''));
+  if (!c) throw collectionError('not_found', `collection not found: ${slug}`);
+  if (c.kind !== 'universe') throw collectionError('not_universe', 'TMDB collections follow TMDB and cannot be deleted');
+  db.prepare('DELETE FROM collections WHERE id = ?').run(c.id);
+}
+
+// Add a movie to a collection, or set its chronological position (`chronoOrder`, 1-based; null
+// follows release order).
+export function setCollectionMovie(db, slug, movieId, { chronoOrder = null } = {}) {
+  const c = db.prepare('SELECT id FROM collections WHERE slug = ?').get(String(slug || ''));
+  if (!c) throw collectionError('not_found', `collection not found: ${slug}`);
+  if (!db.prepare('SELECT 1 FROM movies WHERE id = ?').get(movieId)) throw collectionError('movie_not_found', `movie not found: ${movieId}`);
+  const order = Number.isInteger(chronoOrder) && chronoOrder > 0 ? chronoOrder : null;
+  db.prepare(
+    `
+    INSERT INTO collection_movies(collection_id, movie_id, chrono_order, source, created_at)
+    VALUES (?, ?, ?, 'admin', ?)
+    ON CONFLICT(collection_id, movie_id) DO UPDATE SET chrono_order=excluded.chrono_order
+  `
+  ).run(c.id, movieId, order, nowIso());
+}
+
+export function removeCollectionMovie(db, slug, movieId) {
+  const c = db.prepare('SELECT id FROM collections WHERE slug = ?').get(String(slug || ''));
+  if (!c) return false;
+  return db.prepare('DELETE FROM collection_movies WHERE collection_id = ? AND movie_id = ?').run(c.id, movieId).changes > 0;
+}
+
+// Members in release order (undated titles last) with their chronological rank.
+function orderedMembers(db, collectionId) {
+  const rows = db
+    .prepare(
+      `
+      SELECT m.id, m.title, m.release_date, m.poster, cm.chrono_order
+      FROM collection_movies cm
+      JOIN movies m ON m.id = cm.movie_id
+      WHERE cm.collection_id = ? AND COALESCE(m.is_indian, 1) = 1
+    `
+    )
+    .all(collectionId);
+  rows.sort((a, b) => {
+    if (!a.release_date || !b.release_date) return a.release_date ? -1 : b.release_date ? 1 : a.title.localeCompare(b.title);
+    return a.release_date.localeCompare(b.release_date) || a.title.localeCompare(b.title);
+  });
+  const chronological = rows
+    .map((r, i) => ({ id: r.id, key: r.chrono_order ?? i + 1, i }))
+    .sort((a, b) => a.key - b.key || a.i - b.i)
+    .map((r) => r.id);
+  return { rows, chronological, hasChronology: rows.some((r) => r.chrono_order != null) };
+}
+
+// Franchises a movie belongs to, for the movie page strip: position in release order with the
+// previous and next titles. Collections with only this movie listed are left out unless `all`
+// (admin editor).
+export function movieCollections(db, movieId, { all = false } = {}) {
+  const stub = (r) => (r ? { id: r.id, title: r.title, releaseDate: r.release_date || undefined, poster: r.poster || undefined } : undefined);
+  return db
+    .prepare(
+      `
+      SELECT c.id, c.slug, c.name, c.kind, cm.chrono_order, cm.source
+      FROM collection_movies cm
+      JOIN collections c ON c.id = cm.collection_id
+      WHERE cm.movie_id = ?
+      ORDER BY c.kind ASC, c.name ASC
+    `
+    )
+    .all(movieId)
+    .map((c) => {
+      const { rows } = orderedMembers(db, c.id);
+      const i = rows.findIndex((r) => r.id === movieId);
+      return {
+        slug: c.slug,
+        name: c.name,
+        kind: c.kind,
+        position: i + 1,
+        total: rows.length,
+        chronoOrder: c.chrono_order ?? undefined,
+        source: c.source || undefined,
+        prev: i > 0 ? stub(rows[i - 1]) : undefined,
+        next: i >= 0 ? stub(rows[i + 1]) : undefined
+      };
+    })
+    .filter((c) => all || (c.total > 1 && c.position > 0));
+}
+
+export function collectionBySlug(db, slug) {
+  return db.prepare('SELECT * FROM collections WHERE slug = ?').get(String(slug || '').toLowerCase()) || null;
+}
+
+// A collection page: movies in release order plus the ids in chronological order.
+export function hydrateCollection(db, slug) {
+  const c = collectionBySlug(db, slug);
+  if (!c) return null;
+  const { rows, chronological, hasChronology } = orderedMembers(db, c.id);
+  return {
+    id: c.id,
+    tmdbId: c.tmdb_id || undefined,
+    slug: c.slug,
+    name: c.name,
+    kind: c.kind,
+    overview: c.overview || '',
+    poster: c.poster || undefined,
+    backdrop: c.backdrop || undefined,
+    movies: hydrateMoviesForBrowse(db, rows.map((r) => r.id)),
+    chronological,
+    hasChronology
+  };
+}
+
+// Admin picker: every collection with its member count.
+export function listCollections(db) {
+  return db
+    .prepare(
+      `
+      SELECT c.slug, c.name, c.kind, COUNT(cm.movie_id) as movie_count
+      FROM collections c
+      LEFT JOIN collection_movies cm ON cm.collection_id = c.id
+      GROUP BY c.id
+      ORDER BY c.kind DESC, c.name ASC
+    `
+    )
+    .all()
+    .map((r) => ({ slug: r.slug, name: r.name, kind: r.kind, movieCount: r.movie_count }));
+}
+
+// Collections with at least two Indian titles (sitemap).
+export function listCollectionSlugs(db, { limit = 200 } = {}) {
+  return db
+    .prepare(
+      `
+      SELECT c.slug, c.updated_at, COUNT(*) as movie_count
+      FROM collections c
+      JOIN collection_movies cm ON cm.collection_id = c.id
+      JOIN movies m ON m.id = cm.movie_id
+      WHERE COALESCE(m.is_indian, 1) = 1
+      GROUP BY c.id
+      HAVING COUNT(*) >= 2
+      ORDER BY COUNT(*) DESC, c.slug ASC
+      LIMIT ?
+    `
+    )
+    .all(limit);
+}
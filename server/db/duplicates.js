@@ -0,0 +1,340 @@
+import { nowIso, soundex } from '../repo.js';
+import { normalizeForMatch, romanKey } from '../transliterate.js';
+import { resolveMovieAlias, updateMovieFts } from './repository.js';
+import { recordMergedVersions } from './versions.js';
+
+// Duplicate movies: the same film ingested twice under different ids (TMDB's own duplicate
+// entries, approved user submissions, on-demand search) with slightly different titles.
+// Candidates are blocked on title keys (norm, romanized, soundex + year) and scored on title, release
+// year, language and shared cast; an admin merges a pair into the surviving id, which moves
+// every dependent row and leaves an `id_aliases` redirect (docs/ID_NORMALIZATION.md). A dubbed
+// release ingested as its own movie (same year and cast, other language) is a candidate too;
+// merging it records it as a language version of the survivor (server/db/versions.js).
+
+// Blocks bigger than this are generic titles ("Love", "2") and would only produce noise.
+const MAX_BLOCK = 25;
+
+function yearOf(releaseDate) {
+  const y = Number(String(releaseDate || '').slice(0, 4));
+  return Number.isFinite(y) && y > 1800 ? y : null;
+}
+
+// Romanized title key: "K.G.F: Chapter 2", "KGF Chapter 2" and "के.जी.एफ़ चैप्टर 2" agree.
+function romanTitleKey(title) {
+  return normalizeForMatch(title)
+    .split(/\s+/g)
+    .filter(Boolean)
+    .map(romanKey)
+    .join('');
+}
+
+function pairKey(a, b) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function castByMovie(db, ids) {
+  const out = new Map();
+  for (let i = 0; i < ids.length; i += 500) {
+    const chunk = ids.slice(i, i + 500);
+    const ph = chunk.map(() => '?').join(',');
+    for (const r of db.prepare(`SELECT movie_id, person_id FROM movie_cast WHERE movie_id IN (${ph})`).all(...chunk)) {
+      if (!out.has(r.movie_id)) out.set(r.movie_id, new Set());
+      out.get(r.movie_id).add(r.person_id);
+    }
+  }
+  return out;
+}
+
+// Score one candidate pair. Returns `{ score, reasons }`; score is 0..1.
+export function scoreDuplicatePair(a, b, castA = new Set(), castB = new Set()) {
+  const reasons = [];
+  let score = 0;
+
+  const normA = String(a.title_norm || '');
+  const normB = String(b.title_norm || '');
+  if (normA && normA === normB) {
+    score += 0.45;
+    reasons.push('same title');
+  } else if (romanTitleKey(a.title) && romanTitleKey(a.title) === romanTitleKey(b.title)) {
+    score += 0.4;
+    reasons.push('same title (romanized)');
+  } else if (normA.length >= 4 && normB.length >= 4 && (normA.includes(normB) || normB.includes(normA))) {
+    score += 0.3;
+    reasons.push('title contains the other');
+  } else if (a.title_soundex && a.title_soundex === b.title_soundex) {
+    score += 0.2;
+    reasons.push('title sounds alike');
+  } else {
+    return { score: 0, reasons: ['title differs'] };
+  }
+
+  const ya = yearOf(a.release_date);
+  const yb = yearOf(b.release_date);
+  if (ya && yb) {
+    if (ya === yb) {
+      score += 0.2;
+      reasons.push('same year');
+    } else if (Math.abs(ya - yb) === 1) {
+      score += 0.1;
+      reasons.push('year ±1');
+    } else {
+      score -= 0.4;
+      reasons.push(`years ${ya}/${yb}`);
+    }
+  }
+
+  const shared = Array.from(castA).filter((p) => castB.has(p)).length;
+  const la = String(a.language || '').toLowerCase();
+  const lb = String(b.language || '').toLowerCase();
+  if (la && lb) {
+    if (la === lb) {
+      score += 0.15;
+      reasons.push('same language');
+    } else if (shared >= 2 && ya && ya === yb) {
+      // Same film, same year, other language: most likely a dub.
+      reasons.push(`languages ${a.language}/${b.language} (dubbed version?)`);
+    } else {
+      score -= 0.25;
+      reasons.push(`languages ${a.language}/${b.language}`);
+    }
+  }
+
+  if (shared) {
+    score += Math.min(0.3, 0.1 * shared);
+    reasons.push(`${shared} shared cast`);
+  } else if (castA.size >= 3 && castB.size >= 3) {
+    score -= 0.15;
+    reasons.push('no shared cast');
+  }
+
+  return { score: Math.max(0, Math.min(1, Math.round(score * 1000) / 1000)), reasons };
+}
+
+function movieSummary(db, row) {
+  const count = (table) => db.prepare(`SELECT COUNT(*) as c FROM ${table} WHERE movie_id = ?`).get(row.id)?.c || 0;
+  return {
+    id: row.id,
+    tmdbId: row.tmdb_id != null ? Number(row.tmdb_id) : null,
+    title: row.title,
+    year: yearOf(row.release_date),
+    language: row.language || '',
+    poster: row.poster || '',
+    hasSynopsis: !!String(row.synopsis || '').trim(),
+    cast: count('movie_cast'),
+    songs: count('songs'),
+    ott: count('ott_offers'),
+    ratings: count('ratings'),
+    userReviews: count('user_reviews'),
+    favorites: count('user_favorites') + count('user_watchlist'),
+    createdAt: row.created_at
+  };
+}
+
+// Keep the TMDB-backed id (canonical policy), then the richer row, then the older one.
+export function pickSurvivor(a, b) {
+  if (!!a.tmdbId !== !!b.tmdbId) return a.tmdbId ? a : b;
+  const weight = (m) => m.cast + m.songs + m.ott + m.ratings + m.userReviews + m.favorites + (m.hasSynopsis ? 3 : 0) + (m.poster ? 2 : 0);
+  if (weight(a) !== weight(b)) return weight(a) > weight(b) ? a : b;
+  return String(a.createdAt || '') <= String(b.createdAt || '') ? a : b;
+}
+
+// Candidate pairs, best first: `{ a, b, score, reasons, survivorId }` with a movie summary on each side.
+export function findDuplicateMovies(db, { limit = 50, minScore = 0.6 } = {}) {
+  const rows = db
+    .prepare('SELECT id, tmdb_id, title, title_norm, title_soundex, language, release_date, poster, synopsis, created_at FROM movies')
+    .all();
+  const dismissed = new Set(
+    db.prepare('SELECT id_a, id_b FROM movie_duplicate_dismissals').all().map((r) => pairKey(r.id_a, r.id_b))
+  );
+
+  const blocks = new Map();
+  const addTo = (key, row) => {
+    if (!blocks.has(key)) blocks.set(key, []);
+    blocks.get(key).push(row);
+  };
+  for (const r of rows) {
+    const y = yearOf(r.release_date);
+    if (r.title_norm) addTo(`n:${r.title_norm}`, r);
+    const rk = romanTitleKey(r.title);
+    if (rk) addTo(`r:${rk}`, r);
+    // Subtitled releases: "Pushpa 2" / "Pushpa 2: The Rule".
+    const lead = normalizeForMatch(r.title).split(/\s+/g).filter(Boolean).slice(0, 2).map(romanKey).join(' ');
+    if (lead && y) addTo(`l:${lead}:${y}`, r);
+    const sx = r.title_soundex || soundex(r.title);
+    if (sx && y) {
+      addTo(`s:${sx}:${y}`, r);
+      addTo(`s:${sx}:${y + 1}:prev`, r); // pairs with the next year's block below
+    }
+  }
+
+  const pairs = new Map();
+  const consider = (list) => {
+    if (list.length < 2 || list.length > MAX_BLOCK) return;
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const key = pairKey(list[i].id, list[j].id);
+        if (list[i].id === list[j].id || dismissed.has(key) || pairs.has(key)) continue;
+        pairs.set(key, [list[i], list[j]]);
+      }
+    }
+  };
+  for (const [key, list] of blocks) {
+    if (key.endsWith(':prev')) {
+      const next = blocks.get(key.slice(0, -':prev'.length)) || [];
+      consider([...list, ...next]);
+    } else {
+      consider(list);
+    }
+  }
+  if (!pairs.size) return [];
+
+  const ids = Array.from(new Set(Array.from(pairs.values()).flat().map((r) => r.id)));
+  const cast = castByMovie(db, ids);
+  const scored = [];
+  for (const [a, b] of pairs.values()) {
+    const { score, reasons } = scoreDuplicatePair(a, b, cast.get(a.id), cast.get(b.id));
+    if (score >= minScore) scored.push({ a, b, score, reasons });
+  }
+  scored.sort((x, y) => y.score - x.score);
+
+  return scored.slice(0, limit).map(({ a, b, score, reasons }) => {
+    const sa = movieSummary(db, a);
+    const sb = movieSummary(db, b);
+    return { a: sa, b: sb, score, reasons, survivorId: pickSurvivor(sa, sb).id };
+  });
+}
+
+export function dismissDuplicatePair(db, idA, idB, { actor = '' } = {}) {
+  const [a, b] = String(idA) < String(idB) ? [idA, idB] : [idB, idA];
+  db.prepare('INSERT OR IGNORE INTO movie_duplicate_dismissals(id_a, id_b, created_by, created_at) VALUES (?, ?, ?, ?)').run(
+    String(a),
+    String(b),
+    String(actor || ''),
+    nowIso()
+  );
+}
+
+function mergeError(code, message) {
+  const err = new Error(message);
+  err.code = code;
+  return err;
+}
+
+// Merge `fromId` into `toId`: dependent rows move to the survivor (where the survivor already has
+// the same genre / cast member / song / offer / rating / list entry, its own row wins), empty
+// survivor fields are filled from the duplicate, and `fromId` becomes an alias of `toId`.
+// Returns the number of rows moved per table.
+export function mergeMovies(db, fromId, toId, { actor = '', reason = 'duplicate_merge' } = {}) {
+  const from = String(fromId || '').trim();
+  const to = resolveMovieAlias(db, toId) || String(toId || '').trim();
+  if (!from || !to || from === to) throw mergeError('same_movie', 'cannot merge a movie into itself');
+  const src = db.prepare('SELECT * FROM movies WHERE id = ?').get(from);
+  const dst = db.prepare('SELECT * FROM movies WHERE id = ?').get(to);
+  if (!src || !dst) throw mergeError('not_found', `movie not found: ${!src ? from : to}`);
+
+  const moved = {};
+  const ts = nowIso();
+  const run = (sql, ...params) => db.prepare(sql).run(...params).changes;
+
+  db.transaction(() => {
+    // A duplicate in another language is a dub of the survivor; read its offers before they move.
+    recordMergedVersions(db, src, dst);
+    moved.genres = run('INSERT OR IGNORE INTO movie_genres(movie_id, genre) SELECT ?, genre FROM movie_genres WHERE movie_id = ?', to, from);
+    moved.cast = run(
+      'INSERT OR IGNORE INTO movie_cast(movie_id, person_id, character, billing_order) SELECT ?, person_id, character, billing_order FROM movie_cast WHERE movie_id = ?',
+      to,
+      from
+    );
+    moved.crew = run(
+      'INSERT OR IGNORE INTO movie_crew(movie_id, person_id, department, job, credit_order) SELECT ?, person_id, department, job, credit_order FROM movie_crew WHERE movie_id = ?',
+      to,
+      from
+    );
+    moved.studios = run(
+      'INSERT OR IGNORE INTO movie_studios(movie_id, studio_id, credit_order) SELECT ?, studio_id, credit_order FROM movie_studios WHERE movie_id = ?',
+      to,
+      from
+    );
+    moved.collections = run(
+      'INSERT OR IGNORE INTO collection_movies(collection_id, movie_id, chrono_order, source, created_at) SELECT collection_id, ?, chrono_order, source, created_at FROM collection_movies WHERE movie_id = ?',
+      to,
+      from
+    );
+
+    // Songs and offers: only the ones the survivor does not already list.
+    const songTitles = new Set(
+      db.prepare('SELECT title FROM songs WHERE movie_id = ?').all(to).map((r) => normalizeForMatch(r.title))
+    );
+    moved.songs = 0;
+    for (const s of db.prepare('SELECT id, title FROM songs WHERE movie_id = ?').all(from)) {
+      if (songTitles.has(normalizeForMatch(s.title))) {
+        run("DELETE FROM attributions WHERE entity_type = 'song' AND entity_id = ?", s.id);
+        continue;
+      }
+      moved.songs += run('UPDATE songs SET movie_id = ? WHERE id = ?', to, s.id);
+    }
+    moved.ott = run(
+      `UPDATE ott_offers SET movie_id = ? WHERE movie_id = ? AND NOT EXISTS (
+         SELECT 1 FROM ott_offers o WHERE o.movie_id = ? AND o.provider = ott_offers.provider
+           AND o.offer_type = ott_offers.offer_type AND COALESCE(o.region, '') = COALESCE(ott_offers.region, '')
+       )`,
+      to,
+      from,
+      to
+    );
+    moved.ratings = run('UPDATE OR IGNORE ratings SET movie_id = ? WHERE movie_id = ?', to, from);
+    moved.reviews = run('UPDATE reviews SET movie_id = ? WHERE movie_id = ?', to, from);
+    moved.userReviews = run('UPDATE user_reviews SET movie_id = ? WHERE movie_id = ?', to, from);
+    moved.favorites = run('UPDATE OR IGNORE user_favorites SET movie_id = ? WHERE movie_id = ?', to, from);
+    moved.watchlist = run('UPDATE OR IGNORE user_watchlist SET movie_id = ? WHERE movie_id = ?', to, from);
+    moved.attributions = run("UPDATE attributions SET entity_id = ? WHERE entity_type = 'movie' AND entity_id = ?", to, from);
+
+    // Best value wins: fill what the survivor is missing.
+    run(
+      `UPDATE movies SET
+         synopsis = COALESCE(NULLIF(synopsis, ''), ?),
+         director = COALESCE(NULLIF(director, ''), ?),
+         language = COALESCE(NULLIF(language, ''), ?),
+         release_date = COALESCE(NULLIF(release_date, ''), ?),
+         poster = COALESCE(NULLIF(poster, ''), ?),
+         backdrop = COALESCE(NULLIF(backdrop, ''), ?),
+         trailer_url = COALESCE(NULLIF(trailer_url, ''), ?),
+         trailer_source = CASE WHEN COALESCE(trailer_url, '') = '' THEN ? ELSE trailer_source END,
+         updated_at = ?
+       WHERE id = ?`,
+      src.synopsis || null,
+      src.director || null,
+      src.language || null,
+      src.release_date || null,
+      src.poster || null,
+      src.backdrop || null,
+      src.trailer_url || null,
+      src.trailer_source || null,
+      ts,
+      to
+    );
+
+    // Featured picks point at the survivor.
+    run("UPDATE app_meta SET value = ?, updated_at = ? WHERE key LIKE 'featured_movie:%' AND value = ?", to, ts, from);
+
+    // Leftovers (duplicate genres, cast, offers, ratings, list entries) cascade with the row.
+    run('DELETE FROM movies WHERE id = ?', from);
+    run("DELETE FROM search_index WHERE entity_id = ? AND entity_type = 'movie'", from);
+    run("DELETE FROM field_locks WHERE entity_type = 'movie' AND entity_id = ?", from);
+
+    // Earlier aliases of the duplicate follow it, so redirects never chain.
+    run('UPDATE id_aliases SET to_id = ? WHERE to_id = ?', to, from);
+    run(
+      'INSERT OR REPLACE INTO id_aliases(from_id, to_id, reason, created_by, created_at) VALUES (?, ?, ?, ?, ?)',
+      from,
+      to,
+      String(reason || 'duplicate_merge').slice(0, 40),
+      String(actor || ''),
+      ts
+    );
+    run('DELETE FROM movie_duplicate_dismissals WHERE id_a = ? OR id_b = ?', from, from);
+  })();
+
+  updateMovieFts(db, to);
+  return { fromId: from, toId: to, moved };
+}
@@ -0,0 +1,146 @@
+import { nowIso } from '../repo.js';
+
+// Run history for the long-running jobs: agent runs (agent/pipeline.ts), admin-triggered
+// backfills and OTT refreshes (server/index.js). One row per run with its parameters and
+// final stats, plus the per-item errors it hit, so the admin panel can compare runs.
+
+export const JOB_KINDS = ['agent', 'backfill', 'ott-refresh'];
+
+// Keep a runaway run (e.g. a provider outage) from filling the table; items_failed still counts everything.
+const MAX_ERRORS_PER_RUN = 500;
+
+function parseJson(raw, fallback) {
+  try {
+    return raw ? JSON.parse(String(raw)) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function rowToJobRun(row) {
+  if (!row) return null;
+  const itemsTotal = Number(row.items_total || 0);
+  const itemsFailed = Number(row.items_failed || 0);
+  const end = row.finished_at || (row.status === 'running' ? null : row.updated_at);
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    params: parseJson(row.params_json, {}),
+    stats: parseJson(row.stats_json, null),
+    itemsTotal,
+    itemsFailed,
+    errorRate: itemsTotal ? itemsFailed / itemsTotal : 0,
+    error: row.error || null,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at || null,
+    durationMs: end ? Math.max(0, Date.parse(end) - Date.parse(row.started_at)) || 0 : null
+  };
+}
+
+// Start (or, for a resumed agent run, restart) a run. Returns the run id.
+export function startJobRun(db, { id, kind, params, startedAt }) {
+  const ts = nowIso();
+  db.prepare(
+    `
+    INSERT INTO job_runs(id, kind, status, params_json, started_at, updated_at)
+    VALUES (?, ?, 'running', ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      status='running',
+      error=NULL,
+      finished_at=NULL,
+      updated_at=excluded.updated_at
+  `
+  ).run(id, kind, JSON.stringify(params || {}), startedAt || ts, ts);
+  return id;
+}
+
+export function updateJobRun(db, id, { status, stats, itemsTotal, itemsFailed } = {}) {
+  db.prepare(
+    `
+    UPDATE job_runs
+    SET status = COALESCE(?, status),
+        stats_json = COALESCE(?, stats_json),
+        items_total = COALESCE(?, items_total),
+        items_failed = COALESCE(?, items_failed),
+        updated_at = ?
+    WHERE id = ?
+  `
+  ).run(
+    status || null,
+    stats ? JSON.stringify(stats) : null,
+    Number.isFinite(itemsTotal) ? itemsTotal : null,
+    Number.isFinite(itemsFailed) ? itemsFailed : null,
+    nowIso(),
+    id
+  );
+}
+
+export function finishJobRun(db, id, { status, stats, itemsTotal, itemsFailed, error } = {}) {
+  updateJobRun(db, id, { status: status || 'finished', stats, itemsTotal, itemsFailed });
+  const ts = nowIso();
+  db.prepare('UPDATE job_runs SET error = ?, finished_at = ?, updated_at = ? WHERE id = ?').run(
+    error ? String(error).slice(0, 2000) : null,
+    ts,
+    ts,
+    id
+  );
+}
+
+export function recordJobRunError(db, id, { item, label, error }) {
+  db.prepare(
+    `
+    INSERT INTO job_run_errors(run_id, item, label, error, created_at)
+    SELECT ?, ?, ?, ?, ?
+    WHERE (SELECT COUNT(*) FROM job_run_errors WHERE run_id = ?) < ?
+  `
+  ).run(
+    id,
+    String(item || ''),
+    label ? String(label).slice(0, 300) : null,
+    String(error?.message || error || 'failed').slice(0, 500),
+    nowIso(),
+    id,
+    MAX_ERRORS_PER_RUN
+  );
+}
+
+// Runs of `kinds` still marked running belong to a process that is gone (server restart).
+export function interruptStaleJobRuns(db, kinds) {
+  const placeholders = kinds.map(() => '?').join(', ');
+  return db
+    .prepare(`UPDATE job_runs SET status = 'interrupted', updated_at = ? WHERE status = 'running' AND kind IN (${placeholders})`)
+    .run(nowIso(), ...kinds).changes;
+}
+
+export function listJobRuns(db, { kind = '', status = '', since = '', until = '', limit = 50, offset = 0 } = {}) {
+  const where = `
+    WHERE (? = '' OR kind = ?)
+      AND (? = '' OR status = ?)
+      AND (? = '' OR started_at >= ?)
+      AND (? = '' OR started_at < ?)
+  `;
+  const args = [kind, kind, status, status, since, since, until, until];
+  const total = Number(db.prepare(`SELECT COUNT(*) as c FROM job_runs ${where}`).get(...args)?.c || 0);
+  const runs = db
+    .prepare(`SELECT * FROM job_runs ${where} ORDER BY started_at DESC LIMIT ? OFFSET ?`)
+    .all(...args, Math.max(1, Math.min(500, Math.floor(limit) || 50)), Math.max(0, Math.floor(offset) || 0))
+    .map(rowToJobRun);
+  return { total, runs };
+}
+
+export function getJobRun(db, id, { errorsLimit = 200 } = {}) {
+  const run = rowToJobRun(db.prepare('SELECT * FROM job_runs WHERE id = ?').get(id));
+  if (!run) return null;
+  const errors = db
+    .prepare('SELECT item, label, error, created_at FROM job_run_errors WHERE run_id = ? ORDER BY id ASC LIMIT ?')
+    .all(id, Math.max(1, Math.floor(errorsLimit) || 200))
+    .map((r) => ({ item: r.item, label: r.label || null, error: r.error, at: r.created_at }));
+  const errorCount = Number(db.prepare('SELECT COUNT(*) as c FROM job_run_errors WHERE run_id = ?').get(id)?.c || 0);
+  return { ...run, errors, errorCount };
+}
+
+export function latestJobRun(db, kind) {
+  return rowToJobRun(db.prepare('SELECT * FROM job_runs WHERE kind = ? ORDER BY started_at DESC LIMIT 1').get(kind));
+}
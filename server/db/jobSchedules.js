@@ -0,0 +1,131 @@
+import { hashId, nowIso } from '../repo.js';
+
+// Stored schedules for the in-process job scheduler (server/jobScheduler.js). `running_since`
+// doubles as the overlap lock: a schedule is claimed by setting it and released when its
+// run ends, so a slow run is never started twice.
+
+function parseJson(raw, fallback) {
+  try {
+    return raw ? JSON.parse(String(raw)) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function rowToSchedule(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    cron: row.cron,
+    timezone: row.timezone,
+    params: parseJson(row.params_json, {}),
+    enabled: !!row.enabled,
+    nextRunAt: row.next_run_at || null,
+    runningSince: row.running_since || null,
+    lastStartedAt: row.last_started_at || null,
+    lastFinishedAt: row.last_finished_at || null,
+    lastStatus: row.last_status || null,
+    lastError: row.last_error || null,
+    lastRunId: row.last_run_id || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export function listSchedules(db) {
+  return db.prepare('SELECT * FROM job_schedules ORDER BY created_at ASC').all().map(rowToSchedule);
+}
+
+export function getSchedule(db, id) {
+  return rowToSchedule(db.prepare('SELECT * FROM job_schedules WHERE id = ?').get(id));
+}
+
+export function dueSchedules(db, now) {
+  return db
+    .prepare('SELECT * FROM job_schedules WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at ASC')
+    .all(now)
+    .map(rowToSchedule);
+}
+
+// Insert or update; `nextRunAt` is computed by the caller from the cron expression.
+export function saveSchedule(db, { id, name, kind, cron, timezone, params, enabled, nextRunAt }) {
+  const ts = nowIso();
+  const scheduleId = id || hashId('schedule', `${kind}:${name}:${ts}:${Math.random()}`);
+  db.prepare(
+    `
+    INSERT INTO job_schedules(id, name, kind, cron, timezone, params_json, enabled, next_run_at, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name=excluded.name,
+      kind=excluded.kind,
+      cron=excluded.cron,
+      timezone=excluded.timezone,
+      params_json=excluded.params_json,
+      enabled=excluded.enabled,
+      next_run_at=excluded.next_run_at,
+      updated_at=excluded.updated_at
+  `
+  ).run(scheduleId, name, kind, cron, timezone, JSON.stringify(params || {}), enabled ? 1 : 0, nextRunAt || null, ts, ts);
+  return getSchedule(db, scheduleId);
+}
+
+export function setScheduleEnabled(db, id, enabled, nextRunAt) {
+  return (
+    db
+      .prepare('UPDATE job_schedules SET enabled = ?, next_run_at = ?, updated_at = ? WHERE id = ?')
+      .run(enabled ? 1 : 0, enabled ? nextRunAt || null : null, nowIso(), id).changes > 0
+  );
+}
+
+export function deleteSchedule(db, id) {
+  return db.prepare('DELETE FROM job_schedules WHERE id = ?').run(id).changes > 0;
+}
+
+// Take the overlap lock. Returns false when the previous run of this schedule is still going.
+// `nextRunAt` (undefined for a manual trigger) moves the schedule on either way.
+export function claimSchedule(db, id, { nextRunAt } = {}) {
+  const ts = nowIso();
+  const claimed =
+    db
+      .prepare(
+        `
+        UPDATE job_schedules
+        SET running_since = ?, last_started_at = ?, next_run_at = COALESCE(?, next_run_at), updated_at = ?
+        WHERE id = ? AND running_since IS NULL
+      `
+      )
+      .run(ts, ts, nextRunAt || null, ts, id).changes > 0;
+  if (!claimed && nextRunAt) {
+    db.prepare('UPDATE job_schedules SET next_run_at = ?, updated_at = ? WHERE id = ?').run(nextRunAt, ts, id);
+  }
+  return claimed;
+}
+
+export function releaseSchedule(db, id, { status, error, runId }) {
+  const ts = nowIso();
+  db.prepare(
+    `
+    UPDATE job_schedules
+    SET running_since = NULL, last_finished_at = ?, last_status = ?, last_error = ?, last_run_id = COALESCE(?, last_run_id), updated_at = ?
+    WHERE id = ?
+  `
+  ).run(ts, status, error ? String(error).slice(0, 500) : null, runId || null, ts, id);
+}
+
+// Record a scheduled tick that did not start (overlap, or the job is busy elsewhere).
+export function markScheduleSkipped(db, id, reason) {
+  db.prepare("UPDATE job_schedules SET last_status = 'skipped', last_error = ?, updated_at = ? WHERE id = ?").run(
+    String(reason || '').slice(0, 500),
+    nowIso(),
+    id
+  );
+}
+
+// Locks held by a process that is gone (server restart).
+export function releaseStaleScheduleLocks(db) {
+  return db
+    .prepare("UPDATE job_schedules SET running_since = NULL, last_status = 'interrupted', updated_at = ? WHERE running_since IS NOT NULL")
+    .run(nowIso()).changes;
+}
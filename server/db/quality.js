@@ -0,0 +1,212 @@
+import { nowIso } from '../repo.js';
+
+// Data-quality rules for movies. Each rule is a SQL condition over `movies m` that is true when
+// the movie FAILS it, with a weight; a movie's completeness score is the share of rule weight
+// it passes (0..100), stored in `movie_quality`. Used by `agent verify`, the admin quality
+// report and `agent enrich --lowest=<n>` (worst-scored movies first).
+
+export const QUALITY_RULES = [
+  {
+    name: 'missing-synopsis',
+    severity: 'warn',
+    weight: 3,
+    description: 'synopsis shorter than 12 characters',
+    where: "length(trim(COALESCE(m.synopsis, ''))) < 12"
+  },
+  { name: 'missing-poster', severity: 'warn', weight: 3, description: 'no poster', where: "trim(COALESCE(m.poster, '')) = ''" },
+  {
+    name: 'missing-artwork',
+    severity: 'warn',
+    weight: 1,
+    description: 'neither poster nor backdrop',
+    where: "trim(COALESCE(m.poster, '')) = '' AND trim(COALESCE(m.backdrop, '')) = ''"
+  },
+  {
+    name: 'runtime-out-of-range',
+    severity: 'warn',
+    weight: 1,
+    description: 'runtime under 40 or over 300 minutes',
+    where: 'm.runtime_minutes IS NOT NULL AND (m.runtime_minutes < 40 OR m.runtime_minutes > 300)'
+  },
+  {
+    name: 'no-cast',
+    severity: 'warn',
+    weight: 3,
+    description: 'no cast rows',
+    where: 'NOT EXISTS (SELECT 1 FROM movie_cast mc WHERE mc.movie_id = m.id)'
+  },
+  { name: 'no-director', severity: 'warn', weight: 2, description: 'director missing or TBD', where: "trim(COALESCE(m.director, '')) IN ('', 'TBD')" },
+  {
+    name: 'no-genres',
+    severity: 'warn',
+    weight: 1,
+    description: 'no genres',
+    where: 'NOT EXISTS (SELECT 1 FROM movie_genres g WHERE g.movie_id = m.id)'
+  },
+  { name: 'no-trailer', severity: 'warn', weight: 2, description: 'no trailer URL', where: "trim(COALESCE(m.trailer_url, '')) = ''" },
+  {
+    name: 'stale-upcoming',
+    severity: 'warn',
+    weight: 2,
+    description: 'status Upcoming but the release date has passed',
+    where: "m.status = 'Upcoming' AND COALESCE(m.release_date, '') != '' AND m.release_date < date('now')"
+  },
+  {
+    name: 'no-songs',
+    severity: 'warn',
+    weight: 1,
+    description: 'released but no songs',
+    where:
+      "COALESCE(m.release_date, '') != '' AND m.release_date <= date('now') AND NOT EXISTS (SELECT 1 FROM songs s WHERE s.movie_id = m.id)"
+  },
+  {
+    name: 'songs-without-links',
+    severity: 'warn',
+    weight: 2,
+    description: 'songs but none with a YouTube link',
+    where:
+      "EXISTS (SELECT 1 FROM songs s WHERE s.movie_id = m.id) AND NOT EXISTS (SELECT 1 FROM songs s WHERE s.movie_id = m.id AND COALESCE(s.youtube_url, '') != '')"
+  },
+  {
+    name: 'songs-missing-links',
+    severity: 'warn',
+    weight: 1,
+    description: 'some songs without a YouTube link',
+    where: "EXISTS (SELECT 1 FROM songs s WHERE s.movie_id = m.id AND COALESCE(s.youtube_url, '') = '')"
+  },
+  {
+    name: 'stale-ott',
+    severity: 'warn',
+    weight: 1,
+    description: 'OTT offers last refreshed more than 30 days ago',
+    // created_at is rewritten on every OTT refresh; ISO strings compare in time order.
+    where:
+      "EXISTS (SELECT 1 FROM ott_offers o WHERE o.movie_id = m.id) AND (SELECT MAX(o.created_at) FROM ott_offers o WHERE o.movie_id = m.id) < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-30 days')"
+  },
+  {
+    name: 'not-searchable',
+    severity: 'error',
+    weight: 1,
+    description: 'missing from the full-text search index',
+    where: "NOT EXISTS (SELECT 1 FROM search_index si WHERE si.entity_id = m.id AND si.entity_type = 'movie')"
+  }
+];
+
+const TOTAL_WEIGHT = QUALITY_RULES.reduce((sum, r) => sum + r.weight, 0);
+
+export function qualityRule(name) {
+  return QUALITY_RULES.find((r) => r.name === name) || null;
+}
+
+function parseFailed(raw) {
+  try {
+    const v = JSON.parse(String(raw || '[]'));
+    return Array.isArray(v) ? v : [];
+  } catch {
+    return [];
+  }
+}
+
+// Recompute and store scores for `movieIds` (default: every movie). Returns the number scored.
+export function refreshQualityScores(db, { movieIds = null } = {}) {
+  const ids = movieIds ? Array.from(new Set(movieIds.filter(Boolean).map(String))) : null;
+  if (ids && !ids.length) return 0;
+  const scope = ids ? `AND m.id IN (SELECT value FROM json_each(?))` : '';
+  const params = ids ? [JSON.stringify(ids)] : [];
+
+  const failed = new Map();
+  for (const rule of QUALITY_RULES) {
+    for (const r of db.prepare(`SELECT m.id as id FROM movies m WHERE (${rule.where}) ${scope}`).all(...params)) {
+      if (!failed.has(r.id)) failed.set(r.id, []);
+      failed.get(r.id).push(rule.name);
+    }
+  }
+
+  const movies = db.prepare(`SELECT m.id as id FROM movies m WHERE 1 = 1 ${scope}`).all(...params);
+  const ts = nowIso();
+  const upsert = db.prepare(
+    `INSERT INTO movie_quality(movie_id, score, failed_json, checked_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(movie_id) DO UPDATE SET score = excluded.score, failed_json = excluded.failed_json, checked_at = excluded.checked_at`
+  );
+  db.transaction(() => {
+    for (const m of movies) {
+      const names = failed.get(m.id) || [];
+      const lost = names.reduce((sum, n) => sum + (qualityRule(n)?.weight || 0), 0);
+      upsert.run(m.id, Math.round(100 * (1 - lost / TOTAL_WEIGHT)), JSON.stringify(names), ts);
+    }
+  })();
+  if (!ids) db.prepare("INSERT OR REPLACE INTO app_meta(key, value, updated_at) VALUES ('quality_scored_at', ?, ?)").run(ts, ts);
+  return movies.length;
+}
+
+// Scored Indian movies, lowest first. Filters: `lang`, `status`, `rule` (only movies failing it)
+// and `maxScore`. Returns `{ total, movies, rules }` where `rules` counts failures per rule.
+export function qualityReport(db, { lang = '', status = '', rule = '', maxScore = 100, limit = 60, offset = 0 } = {}) {
+  const where = `
+    FROM movie_quality q
+    JOIN movies m ON m.id = q.movie_id
+    WHERE COALESCE(m.is_indian, 1) = 1
+      AND (:lang = '' OR lower(m.language) = lower(:lang))
+      AND (:status = '' OR lower(m.status) = lower(:status))
+      AND (:rule = '' OR EXISTS (SELECT 1 FROM json_each(q.failed_json) f WHERE f.value = :rule))
+      AND q.score <= :maxScore
+  `;
+  const params = { lang: String(lang || ''), status: String(status || ''), rule: String(rule || ''), maxScore: Number(maxScore) };
+  const total = Number(db.prepare(`SELECT COUNT(*) as c ${where}`).get(params)?.c || 0);
+  const movies = db
+    .prepare(
+      `SELECT m.id, m.tmdb_id, m.title, m.language, m.status, m.release_date, m.poster, q.score, q.failed_json, q.checked_at
+       ${where}
+       ORDER BY q.score ASC, COALESCE(m.release_date, '') DESC
+       LIMIT :limit OFFSET :offset`
+    )
+    .all({ ...params, limit: Math.floor(limit), offset: Math.floor(offset) })
+    .map((r) => ({
+      id: r.id,
+      tmdbId: r.tmdb_id || undefined,
+      title: r.title,
+      language: r.language || '',
+      status: r.status || '',
+      releaseDate: r.release_date || '',
+      poster: r.poster || '',
+      score: Number(r.score),
+      failed: parseFailed(r.failed_json),
+      checkedAt: r.checked_at
+    }));
+
+  const counts = new Map(
+    db
+      .prepare(
+        `SELECT f.value as name, COUNT(*) as c
+         FROM movie_quality q JOIN movies m ON m.id = q.movie_id, json_each(q.failed_json) f
+         WHERE COALESCE(m.is_indian, 1) = 1 AND (:lang = '' OR lower(m.language) = lower(:lang))
+           AND (:status = '' OR lower(m.status) = lower(:status))
+         GROUP BY f.value`
+      )
+      .all(params)
+      .map((r) => [r.name, Number(r.c)])
+  );
+  const rules = QUALITY_RULES.map((r) => ({
+    name: r.name,
+    severity: r.severity,
+    weight: r.weight,
+    description: r.description,
+    count: counts.get(r.name) || 0
+  }));
+  return { total, movies, rules };
+}
+
+// Ids of the lowest-scored Indian movies with a TMDB id (what the agent can re-enrich).
+export function lowestQualityMovies(db, { limit = 20, lang = '', maxScore = 99 } = {}) {
+  return db
+    .prepare(
+      `SELECT m.id, m.tmdb_id, m.title, q.score
+       FROM movie_quality q JOIN movies m ON m.id = q.movie_id
+       WHERE COALESCE(m.is_indian, 1) = 1 AND m.tmdb_id IS NOT NULL
+         AND (? = '' OR lower(m.language) = lower(?))
+         AND q.score <= ?
+       ORDER BY q.score ASC, COALESCE(m.release_date, '') DESC
+       LIMIT ?`
+    )
+    .all(String(lang || ''), String(lang || ''), Number(maxScore), Math.max(1, Math.floor(limit)));
+}
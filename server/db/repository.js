@@ -1,5 +1,4 @@
 import {
-  INDIAN_LANGUAGES_LOWER,
   buildPersonSearchKeys,
   hashId,
   makeId,
@@ -10,8 +9,148 @@ import {
   toIsoDate
 } from '../repo.js';
 
+import { classifyIndianMovie } from '../classifier.js';
+import { movieCollections, syncTmdbCollection } from './collections.js';
+import { movieStudios, syncMovieStudios } from './studios.js';
+import { movieVersions, movieVersionsByMovie, syncTmdbVersions } from './versions.js';
+
+// A TMDB refresh keeps an admin-picked trailer, and a YouTube-ranked one while TMDB still has none.
+const TRAILER_KEEP_SQL =
+  "movies.trailer_source = 'admin' OR (COALESCE(excluded.trailer_url, '') = '' AND movies.trailer_source = 'youtube')";
+
+// Canonical id for a movie id that was merged into another one (server/db/duplicates.js), else null.
+export function resolveMovieAlias(db, id) {
+  if (!id) return null;
+  return db.prepare('SELECT to_id FROM id_aliases WHERE from_id = ?').get(String(id))?.to_id || null;
+}
+
+// How many of the top-billed TMDB cast already appear in Indian films (other than `excludeMovieId`).
+export function countIndianCast(db, cast, excludeMovieId = '') {
+  const castIds = (cast || []).slice(0, 8).map((c) => Number(c.tmdbId)).filter(Number.isFinite);
+  if (!castIds.length) return 0;
+  return Number(
+    db
+      .prepare(
+        `SELECT COUNT(DISTINCT p.tmdb_id) as c
+         FROM persons p
+         JOIN movie_cast mc ON mc.person_id = p.id
+         JOIN movies m ON m.id = mc.movie_id
+         WHERE p.tmdb_id IN (SELECT value FROM json_each(?)) AND m.id != ? AND m.is_indian = 1`
+      )
+      .get(JSON.stringify(castIds), excludeMovieId)?.c || 0
+  );
+}
+
+// What `classifyIndianMovie` needs from the DB: the admin override for this TMDB id and how
+// many of its top-billed cast already appear in Indian films.
+export function indianClassifierContext(db, tmdbMovie) {
+  const id = makeId('tmdb-movie', tmdbMovie?.tmdbId);
+  const row = db.prepare('SELECT is_indian_override FROM movies WHERE id = ?').get(id);
+  const indianCast = countIndianCast(db, tmdbMovie?.cast, id);
+  const override = row?.is_indian_override;
+  return { indianCast, override: override === 0 || override === 1 ? override : null };
+}
+
+export function classifyTmdbMovie(db, tmdbMovie) {
+  return classifyIndianMovie(tmdbMovie, indianClassifierContext(db, tmdbMovie));
+}
+
+// Admin override of the Indian-film verdict (1 / 0), or null to go back to the classifier's.
+export function setIndianOverride(db, movieId, value) {
+  const override = value === true || value === 1 ? 1 : value === false || value === 0 ? 0 : null;
+  db.prepare(
+    `UPDATE movies SET
+       is_indian_override = ?,
+       is_indian = COALESCE(?, json_extract(indian_classification_json, '$.verdict'), is_indian),
+       updated_at = ?
+     WHERE id = ?`
+  ).run(override, override, nowIso(), movieId);
+}
+
+// Movie fields an admin can lock (keys as in `/api/admin/movies/:id/update`, plus the lists).
+export const LOCKABLE_MOVIE_FIELDS = [
+  'title',
+  'language',
+  'synopsis',
+  'director',
+  'releaseDate',
+  'status',
+  'trailerUrl',
+  'poster',
+  'backdrop',
+  'genres',
+  'cast',
+  'crew',
+  'songs',
+  'ratings'
+];
+
+// Locked fields of a movie. A trailer the admin picked (trailer_source 'admin') counts as locked.
+export function movieFieldLocks(db, movieId) {
+  const locks = new Set(
+    db
+      .prepare("SELECT field FROM field_locks WHERE entity_type = 'movie' AND entity_id = ?")
+      .all(String(movieId || ''))
+      .map((r) => r.field)
+  );
+  const trailer = db.prepare('SELECT trailer_source FROM movies WHERE id = ?').get(String(movieId || ''));
+  if (trailer?.trailer_source === 'admin') locks.add('trailerUrl');
+  return locks;
+}
+
+export function setMovieFieldLock(db, movieId, field, locked, actor = '') {
+  if (!LOCKABLE_MOVIE_FIELDS.includes(field)) throw new Error(`unknown lockable field: ${field}`);
+  if (locked) {
+    db.prepare(
+      "INSERT OR IGNORE INTO field_locks(entity_type, entity_id, field, locked_by, created_at) VALUES ('movie', ?, ?, ?, ?)"
+    ).run(movieId, field, String(actor || ''), nowIso());
+    return;
+  }
+  db.prepare("DELETE FROM field_locks WHERE entity_type = 'movie' AND entity_id = ? AND field = ?").run(movieId, field);
+  // An unlocked admin trailer is treated like a YouTube pick: kept until TMDB lists one.
+  if (field === 'trailerUrl') db.prepare("UPDATE movies SET trailer_source = 'youtube' WHERE id = ? AND trailer_source = 'admin'").run(movieId);
+}
+
+// Upsert a TMDB cast or crew credit (`{ tmdbId, name, profileImage }`) as a person; keeps the
+// stored biography and wiki link. Returns the person id.
+export function upsertCastPerson(db, c) {
+  const personId = makeId('tmdb-person', c.tmdbId);
+  const ts = nowIso();
+  db.prepare(
+    `
+    INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
+    VALUES (
+      ?, ?, ?, ?, ?,
+      COALESCE((SELECT biography FROM persons WHERE id = ?), ''),
+      COALESCE((SELECT wiki_url FROM persons WHERE id = ?), ''),
+      COALESCE(?, COALESCE((SELECT profile_image FROM persons WHERE id = ?), '')),
+      ?, ?
+    )
+    ON CONFLICT(id) DO UPDATE SET
+      name=excluded.name,
+      name_soundex=excluded.name_soundex,
+      first_name_soundex=excluded.first_name_soundex,
+      profile_image=CASE WHEN excluded.profile_image != '' THEN excluded.profile_image ELSE persons.profile_image END,
+      updated_at=excluded.updated_at
+  `
+  ).run(personId, c.tmdbId, c.name, soundex(c.name), soundex(c.name.trim().split(/\s+/)[0] || c.name), personId, personId, c.profileImage || '', personId, ts, ts);
+  upsertPersonSearchKeys(db, personId, c.name);
+
+  db.prepare(
+    'INSERT OR IGNORE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).run(hashId('attr', `${personId}:tmdb`), 'person', personId, 'tmdb', String(c.tmdbId), '', ts);
+  return personId;
+}
+
 export function upsertMovieFromTmdb(db, tmdbMovie) {
   const id = makeId('tmdb-movie', tmdbMovie.tmdbId);
+  // A merged-away TMDB entry is not recreated; callers carry on with the surviving movie.
+  const canonicalId = resolveMovieAlias(db, id);
+  if (canonicalId) return canonicalId;
+  const locks = movieFieldLocks(db, id);
+  // Locked columns keep their stored value.
+  const col = (field, column, value = `excluded.${column}`) => `${column}=${locks.has(field) ? `movies.${column}` : value}`;
+  const trailerKeep = locks.has('trailerUrl') ? '1' : TRAILER_KEEP_SQL;
   const createdAt = nowIso();
   const updatedAt = createdAt;
   const releaseDate = toIsoDate(tmdbMovie.releaseDate);
@@ -20,35 +159,35 @@ export function upsertMovieFromTmdb(db, tmdbMovie) {
   const titleSoundex = soundex(tmdbMovie.title);
   const titleNorm = normalizeForSearch(tmdbMovie.title);
   const productionCountriesJson = JSON.stringify(tmdbMovie.productionCountries || []);
-  const isIndian =
-    Array.isArray(tmdbMovie.productionCountries) && tmdbMovie.productionCountries.includes('IN')
-      ? 1
-      : INDIAN_LANGUAGES_LOWER.includes(String(tmdbMovie.language || '').toLowerCase())
-        ? 1
-        : 0;
+  const indian = classifyTmdbMovie(db, tmdbMovie);
+  const classificationJson = JSON.stringify({ verdict: indian.verdict, score: indian.score, reasons: indian.reasons });
 
   db.prepare(
     `
     INSERT INTO movies (
-      id, tmdb_id, title, title_soundex, title_norm, language, is_indian, production_countries_json, synopsis, director, release_date, status,
-      poster, backdrop, trailer_url, created_at, updated_at
+      id, tmdb_id, title, title_soundex, title_norm, language, is_indian, indian_classification_json, production_countries_json, synopsis, director,
+      release_date, status, runtime_minutes, poster, backdrop, trailer_url, trailer_source, trailer_confidence, created_at, updated_at
     ) VALUES (
-      ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+      ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
     )
     ON CONFLICT(id) DO UPDATE SET
-      title=excluded.title,
-      title_soundex=excluded.title_soundex,
-      title_norm=excluded.title_norm,
-      language=excluded.language,
-      is_indian=excluded.is_indian,
+      ${col('title', 'title')},
+      ${col('title', 'title_soundex')},
+      ${col('title', 'title_norm')},
+      ${col('language', 'language')},
+      is_indian=COALESCE(movies.is_indian_override, excluded.is_indian),
+      indian_classification_json=excluded.indian_classification_json,
       production_countries_json=excluded.production_countries_json,
-      synopsis=excluded.synopsis,
-      director=excluded.director,
-      release_date=excluded.release_date,
-      status=excluded.status,
-      poster=excluded.poster,
-      backdrop=excluded.backdrop,
-      trailer_url=excluded.trailer_url,
+      ${col('synopsis', 'synopsis')},
+      ${col('director', 'director')},
+      ${col('releaseDate', 'release_date')},
+      ${col('status', 'status')},
+      runtime_minutes=COALESCE(excluded.runtime_minutes, movies.runtime_minutes),
+      ${col('poster', 'poster')},
+      ${col('backdrop', 'backdrop')},
+      trailer_url=CASE WHEN ${trailerKeep} THEN movies.trailer_url ELSE excluded.trailer_url END,
+      trailer_source=CASE WHEN ${trailerKeep} THEN movies.trailer_source ELSE excluded.trailer_source END,
+      trailer_confidence=CASE WHEN ${trailerKeep} THEN movies.trailer_confidence ELSE excluded.trailer_confidence END,
       updated_at=excluded.updated_at
   `
   ).run(
@@ -58,58 +197,51 @@ export function upsertMovieFromTmdb(db, tmdbMovie) {
     titleSoundex,
     titleNorm,
     tmdbMovie.language,
-    isIndian,
+    indian.isIndian ? 1 : 0,
+    classificationJson,
     productionCountriesJson,
     tmdbMovie.synopsis,
     tmdbMovie.director,
     releaseDate,
     status,
+    tmdbMovie.runtimeMinutes || null,
     tmdbMovie.poster,
     tmdbMovie.backdrop,
     tmdbMovie.trailerUrl,
+    tmdbMovie.trailerUrl ? 'tmdb' : null,
+    tmdbMovie.trailerUrl ? 1 : null,
     createdAt,
     updatedAt
   );
 
   // genres
-  db.prepare('DELETE FROM movie_genres WHERE movie_id = ?').run(id);
-  for (const g of tmdbMovie.genres || []) {
-    db.prepare('INSERT OR IGNORE INTO movie_genres(movie_id, genre) VALUES (?, ?)').run(id, g);
+  if (!locks.has('genres')) {
+    db.prepare('DELETE FROM movie_genres WHERE movie_id = ?').run(id);
+    for (const g of tmdbMovie.genres || []) {
+      db.prepare('INSERT OR IGNORE INTO movie_genres(movie_id, genre) VALUES (?, ?)').run(id, g);
+    }
   }
 
   // cast
-  db.prepare('DELETE FROM movie_cast WHERE movie_id = ?').run(id);
+  if (!locks.has('cast')) db.prepare('DELETE FROM movie_cast WHERE movie_id = ?').run(id);
   let order = 0;
-  for (const c of tmdbMovie.cast || []) {
-    const personId = makeId('tmdb-person', c.tmdbId);
-    const ts = nowIso();
-    db.prepare(
-      `
-      INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
-      VALUES (
-        ?, ?, ?, ?, ?,
-        COALESCE((SELECT biography FROM persons WHERE id = ?), ''),
-        COALESCE((SELECT wiki_url FROM persons WHERE id = ?), ''),
-        COALESCE(?, COALESCE((SELECT profile_image FROM persons WHERE id = ?), '')),
-        ?, ?
-      )
-      ON CONFLICT(id) DO UPDATE SET
-        name=excluded.name,
-        name_soundex=excluded.name_soundex,
-        first_name_soundex=excluded.first_name_soundex,
-        profile_image=CASE WHEN excluded.profile_image != '' THEN excluded.profile_image ELSE persons.profile_image END,
-        updated_at=excluded.updated_at
-    `
-    ).run(personId, c.tmdbId, c.name, soundex(c.name), soundex(c.name.trim().split(/\s+/)[0] || c.name), personId, personId, c.profileImage || '', personId, ts, ts);
-    upsertPersonSearchKeys(db, personId, c.name);
-
+  for (const c of locks.has('cast') ? [] : tmdbMovie.cast || []) {
+    const personId = upsertCastPerson(db, c);
     db.prepare(
       'INSERT OR REPLACE INTO movie_cast(movie_id, person_id, character, billing_order) VALUES (?, ?, ?, ?)'
     ).run(id, personId, c.character || '', order++);
+  }
 
-    db.prepare(
-      'INSERT OR IGNORE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-    ).run(hashId('attr', `${personId}:tmdb`), 'person', personId, 'tmdb', String(c.tmdbId), '', ts);
+  // crew (music director, cinematographer, ...); payloads without a crew list leave it alone
+  if (!locks.has('crew') && Array.isArray(tmdbMovie.crew)) {
+    db.prepare('DELETE FROM movie_crew WHERE movie_id = ?').run(id);
+    let crewOrder = 0;
+    for (const c of tmdbMovie.crew) {
+      const personId = upsertCastPerson(db, c);
+      db.prepare(
+        'INSERT OR IGNORE INTO movie_crew(movie_id, person_id, department, job, credit_order) VALUES (?, ?, ?, ?, ?)'
+      ).run(id, personId, c.department, c.job, crewOrder++);
+    }
   }
 
   // OTT offers
@@ -168,8 +300,24 @@ export function upsertMovieFromTmdb(db, tmdbMovie) {
     nowIso()
   );
 
+  // Dubbed / simultaneous language releases
+  if (Array.isArray(tmdbMovie.languageReleases)) {
+    const storedLanguage = db.prepare('SELECT language FROM movies WHERE id = ?').get(id)?.language;
+    syncTmdbVersions(db, id, tmdbMovie.languageReleases, storedLanguage);
+  }
+
+  // Production houses (only TMDB payloads that carry company ids)
+  if (Array.isArray(tmdbMovie.productionCompanies) && tmdbMovie.productionCompanies.some((c) => c?.tmdbId)) {
+    syncMovieStudios(db, id, tmdbMovie.productionCompanies);
+  }
+
+  // Franchise (TMDB collection; payloads from before collections carry no `collection` key)
+  if ('collection' in tmdbMovie) {
+    syncTmdbCollection(db, id, tmdbMovie.collection);
+  }
+
   // Ratings (TMDB vote average)
-  if (typeof tmdbMovie.voteAverage === 'number') {
+  if (typeof tmdbMovie.voteAverage === 'number' && !locks.has('ratings')) {
     const rid = hashId('rating', `${id}:tmdb`);
     db.prepare(
       `
@@ -216,6 +364,33 @@ export function upsertMovieFromTmdb(db, tmdbMovie) {
   return id;
 }
 
+// Store a trailer pick (or, with no `url`, just the ranked candidates) from server/trailers.js.
+export function updateMovieTrailer(db, movieId, { url, source, confidence, candidates } = {}) {
+  // A locked trailer still gets fresh candidates for the editor.
+  if (url && movieFieldLocks(db, movieId).has('trailerUrl')) url = '';
+  db.prepare(
+    `
+    UPDATE movies
+    SET trailer_url = CASE WHEN ? != '' THEN ? ELSE trailer_url END,
+        trailer_source = CASE WHEN ? != '' THEN ? ELSE trailer_source END,
+        trailer_confidence = CASE WHEN ? != '' THEN ? ELSE trailer_confidence END,
+        trailer_candidates_json = COALESCE(?, trailer_candidates_json),
+        updated_at = ?
+    WHERE id = ?
+  `
+  ).run(
+    url || '',
+    url || '',
+    url || '',
+    source || null,
+    url || '',
+    Number.isFinite(confidence) ? confidence : null,
+    Array.isArray(candidates) ? JSON.stringify(candidates) : null,
+    nowIso(),
+    movieId
+  );
+}
+
 // Update the FTS entry for a movie. Call after every upsert (genres must already be in DB).
 export function updateMovieFts(db, movieId) {
   try {
@@ -248,8 +423,15 @@ export function updatePersonFts(db, personId) {
   }
 }
 
+// Key an OMDb rating source is stored under ('IMDb' -> 'imdb').
+export function omdbRatingSourceKey(source) {
+  const s = String(source || '').trim();
+  return s.toLowerCase().includes('imdb') ? 'imdb' : s.toLowerCase().replace(/\\s+/g, '');
+}
+
 export function upsertRatingsFromOmdb(db, movieId, omdb) {
   if (!omdb || !Array.isArray(omdb.ratings)) return;
+  if (movieFieldLocks(db, movieId).has('ratings')) return;
   const ts = nowIso();
   for (const r of omdb.ratings) {
     const source = String(r.source || '').trim();
@@ -263,7 +445,7 @@ export function upsertRatingsFromOmdb(db, movieId, omdb) {
     ).run(
       id,
       movieId,
-      source.toLowerCase().includes('imdb') ? 'imdb' : source.toLowerCase().replace(/\\s+/g, ''),
+      omdbRatingSourceKey(source),
       r.value,
       r.scale,
       typeof r.count === 'number' ? r.count : null,
@@ -273,7 +455,36 @@ export function upsertRatingsFromOmdb(db, movieId, omdb) {
   }
 }
 
+// Attach provider deep links (e.g. Movie of the Night) to existing streaming offers.
+// Admin-curated deep links are never overwritten.
+export function updateOttDeepLinks(db, movieId, links, source = 'motn') {
+  const ts = nowIso();
+  let updated = 0;
+  for (const r of links || []) {
+    const provider = String(r?.provider || '').trim();
+    const deepLink = String(r?.deepLink || '').trim();
+    if (!provider || !deepLink) continue;
+    const res = db
+      .prepare(
+        `
+        UPDATE ott_offers
+        SET deep_link = ?,
+            deep_link_source = ?,
+            deep_link_verified_at = ?
+        WHERE movie_id = ?
+          AND offer_type = 'Streaming'
+          AND lower(provider) = lower(?)
+          AND NOT (COALESCE(deep_link_source, '') = 'admin' AND COALESCE(deep_link, '') != '')
+      `
+      )
+      .run(deepLink, source, ts, movieId, provider);
+    if (res?.changes) updated += res.changes;
+  }
+  return updated;
+}
+
 export function upsertSongsFromYoutube(db, movieId, songs) {
+  if (movieFieldLocks(db, movieId).has('songs')) return;
   const ts = nowIso();
   for (const s of songs || []) {
     const id = hashId('song', `${movieId}:${s.youtubeUrl || s.title}`);
@@ -291,11 +502,21 @@ export function upsertSongsFromYoutube(db, movieId, songs) {
   }
 }
 
+// Album order first (rows written before `track_no` existed sort last, newest first).
+const SONG_ORDER_SQL = 'track_no IS NULL, track_no ASC, created_at DESC';
+
+function formatDuration(sec) {
+  const n = Number(sec) || 0;
+  if (n <= 0) return undefined;
+  return `${Math.floor(n / 60)}:${String(n % 60).padStart(2, '0')}`;
+}
+
 export function replaceSongsFromYoutube(db, movieId, songs) {
   replaceSongsForMovie(db, movieId, songs, { source: 'youtube', platform: 'YouTube' });
 }
 
 export function clearSongsForMovie(db, movieId) {
+  if (movieFieldLocks(db, movieId).has('songs')) return;
   const existing = db.prepare('SELECT id FROM songs WHERE movie_id = ?').all(movieId).map((r) => r.id);
   if (existing.length) {
     const ph = existing.map(() => '?').join(',');
@@ -305,8 +526,9 @@ export function clearSongsForMovie(db, movieId) {
 }
 
 export function replaceSongsForMovie(db, movieId, songs, meta = {}) {
-  // Keep existing songs if we didn't find anything useful.
+  // Keep existing songs if we didn't find anything useful, or if an admin locked the tracklist.
   if (!Array.isArray(songs) || songs.length === 0) return;
+  if (movieFieldLocks(db, movieId).has('songs')) return;
 
   const source = String(meta.source || 'youtube').slice(0, 40);
   const platform = String(meta.platform || 'YouTube').slice(0, 40);
@@ -320,21 +542,24 @@ export function replaceSongsForMovie(db, movieId, songs, meta = {}) {
   clearSongsForMovie(db, movieId);
 
   const ts = nowIso();
-  for (const s of songs) {
+  for (const [i, s] of songs.entries()) {
     const title = String(s?.title || 'Untitled').trim().slice(0, 140) || 'Untitled';
     const youtubeUrl = s?.youtubeUrl ? String(s.youtubeUrl).slice(0, 400) : '';
     const singers = Array.isArray(s?.singers) ? s.singers.slice(0, 12).map((x) => String(x).slice(0, 80)) : [];
     const sourceUrl = s?.sourceUrl ? String(s.sourceUrl).slice(0, 400) : defaultSourceUrl;
     const sourceProviderId = s?.sourceProviderId ? String(s.sourceProviderId).slice(0, 80) : '';
+    const trackNo = Number(s?.trackNo) > 0 ? Math.floor(Number(s.trackNo)) : i + 1;
+    const durationSec = Number(s?.durationSec) > 0 ? Math.round(Number(s.durationSec)) : null;
+    const fieldSources = s?.fieldSources && typeof s.fieldSources === 'object' ? JSON.stringify(s.fieldSources) : null;
     const id = hashId('song', `${movieId}:${source}:${title.toLowerCase()}`);
 
     db.prepare(
       `
       INSERT OR REPLACE INTO songs(
-        id, movie_id, title, singers_json, youtube_url, platform, source, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        id, movie_id, title, singers_json, youtube_url, platform, source, track_no, duration_sec, field_sources_json, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `
-    ).run(id, movieId, title, JSON.stringify(singers), youtubeUrl, platform, source, ts);
+    ).run(id, movieId, title, JSON.stringify(singers), youtubeUrl, platform, source, trackNo, durationSec, fieldSources, ts);
 
     if (youtubeUrl) {
       db.prepare(
@@ -343,9 +568,11 @@ export function replaceSongsForMovie(db, movieId, songs, meta = {}) {
     }
 
     if (sourceUrl) {
+      // Reconciled tracklists mix providers; a song can name its own.
+      const provider = s?.attributionProvider ? String(s.attributionProvider).slice(0, 40) : attributionProvider;
       db.prepare(
         'INSERT OR IGNORE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-      ).run(hashId('attr', `${id}:${attributionProvider}`), 'song', id, attributionProvider, sourceProviderId, sourceUrl, ts);
+      ).run(hashId('attr', `${id}:${provider}`), 'song', id, provider, sourceProviderId, sourceUrl, ts);
     }
   }
 }
@@ -362,6 +589,40 @@ export function upsertPersonSearchKeys(db, personId, name) {
   }
 }
 
+// Upsert a person from `tmdbGetPersonFull`. An empty TMDB biography or photo never replaces
+// what is already stored (e.g. a Wikipedia extract).
+export function upsertPersonFromTmdb(db, full) {
+  const personId = makeId('tmdb-person', full.tmdbId);
+  const ts = nowIso();
+  db.prepare(
+    `
+    INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name=excluded.name,
+      name_soundex=excluded.name_soundex,
+      first_name_soundex=excluded.first_name_soundex,
+      biography=CASE WHEN excluded.biography != '' THEN excluded.biography ELSE persons.biography END,
+      profile_image=CASE WHEN excluded.profile_image != '' THEN excluded.profile_image ELSE persons.profile_image END,
+      updated_at=excluded.updated_at
+  `
+  ).run(
+    personId,
+    full.tmdbId,
+    full.name,
+    soundex(full.name),
+    soundex(full.name.trim().split(/\s+/)[0] || full.name),
+    full.biography || '',
+    full.profileImage || '',
+    ts,
+    ts
+  );
+  db.prepare(
+    'INSERT OR IGNORE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).run(hashId('attr', `${personId}:tmdb`), 'person', personId, 'tmdb', String(full.tmdbId), '', ts);
+  return personId;
+}
+
 export function updatePersonWiki(db, personId, wiki) {
   if (!wiki) return;
   db.prepare('UPDATE persons SET biography = COALESCE(?, biography), wiki_url = COALESCE(?, wiki_url), profile_image = COALESCE(?, profile_image), updated_at = ? WHERE id = ?')
@@ -547,15 +808,37 @@ export function hydrateMovie(db, movieId) {
       profileImage: r.profile_image || undefined
     }));
 
+  const crew = db
+    .prepare(
+      `
+      SELECT p.id as person_id, p.tmdb_id, p.name, p.profile_image, mc.department, mc.job
+      FROM movie_crew mc
+      JOIN persons p ON p.id = mc.person_id
+      WHERE mc.movie_id = ?
+      ORDER BY mc.credit_order ASC
+    `
+    )
+    .all(movieId)
+    .map((r) => ({
+      personId: r.person_id,
+      name: r.name,
+      department: r.department,
+      job: r.job,
+      tmdbId: r.tmdb_id || undefined,
+      profileImage: r.profile_image || undefined
+    }));
+
   const songs = db
-    .prepare('SELECT * FROM songs WHERE movie_id = ? ORDER BY created_at DESC LIMIT 20')
+    .prepare(`SELECT * FROM songs WHERE movie_id = ? ORDER BY ${SONG_ORDER_SQL} LIMIT 20`)
     .all(movieId)
     .map((s) => ({
       id: s.id,
       title: s.title,
       singers: JSON.parse(s.singers_json || '[]'),
       youtubeUrl: s.youtube_url || undefined,
-      platform: s.platform || undefined
+      platform: s.platform || undefined,
+      duration: formatDuration(s.duration_sec),
+      fieldSources: s.field_sources_json ? JSON.parse(s.field_sources_json) : undefined
     }));
 
   const ott = db
@@ -614,11 +897,12 @@ export function hydrateMovie(db, movieId) {
     language: m.language || 'Hindi',
     synopsis: m.synopsis || '',
     cast,
+    crew,
     director: m.director || 'TBD',
-    writers: [],
+    writers: Array.from(new Set(crew.filter((c) => c.department === 'Writing').map((c) => c.name))),
     genres,
     themes: [],
-    runtimeMinutes: undefined,
+    runtimeMinutes: m.runtime_minutes || undefined,
     releaseDate: m.release_date || undefined,
     status: m.status || 'Announced',
     poster: m.poster || '',
@@ -628,6 +912,9 @@ export function hydrateMovie(db, movieId) {
     trailerUrl: m.trailer_url || undefined,
     ott,
     ottLastVerifiedAt: ottLastVerifiedAt || undefined,
+    versions: movieVersions(db, m),
+    studios: movieStudios(db, movieId),
+    collections: movieCollections(db, movieId),
     songs,
     ratings,
     reviews,
@@ -675,8 +962,8 @@ export function hydrateMoviesForBrowse(db, ids) {
 
   const songRows = db
     .prepare(
-      `SELECT movie_id, id, title, singers_json, youtube_url
-       FROM songs WHERE movie_id IN (${ph}) ORDER BY movie_id, created_at DESC`
+      `SELECT movie_id, id, title, singers_json, youtube_url, duration_sec
+       FROM songs WHERE movie_id IN (${ph}) ORDER BY movie_id, ${SONG_ORDER_SQL}`
     )
     .all(...ids);
 
@@ -712,9 +999,17 @@ export function hydrateMoviesForBrowse(db, ids) {
   for (const r of songRows) {
     const arr = (songsByMovie[r.movie_id] ??= []);
     if (arr.length < 20)
-      arr.push({ id: r.id, title: r.title, singers: JSON.parse(r.singers_json || '[]'), youtubeUrl: r.youtube_url || undefined });
+      arr.push({
+        id: r.id,
+        title: r.title,
+        singers: JSON.parse(r.singers_json || '[]'),
+        youtubeUrl: r.youtube_url || undefined,
+        duration: formatDuration(r.duration_sec)
+      });
   }
 
+  const versionsByMovie = movieVersionsByMovie(db, movies);
+
   const movieById = Object.create(null);
   for (const m of movies) movieById[m.id] = m;
 
@@ -749,6 +1044,7 @@ export function hydrateMoviesForBrowse(db, ids) {
       trailerUrl: undefined,
       ott: ottEntry.offers,
       ottLastVerifiedAt: ottEntry.lastVerifiedAt || undefined,
+      versions: versionsByMovie.get(id) || [],
       songs: songsByMovie[id] || [],
       ratings: [],
       reviews: [],
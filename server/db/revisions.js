@@ -0,0 +1,401 @@
+import crypto from 'node:crypto';
+
+import { nowIso } from '../repo.js';
+import { updateMovieFts, updatePersonFts } from './repository.js';
+import { updateSeriesFts } from './series.js';
+
+// Append-only edit history of catalog records. Every write path (admin editor, approved
+// submissions, agent runs, the server's on-demand enrichment) runs inside `withRevision`,
+// which snapshots the record before and after and stores one `revisions` row when anything
+// changed. A movie snapshot covers the `movies` row, genres, cast, crew, studios, franchise links, songs (with
+// their attributions), OTT offers and language versions; a person snapshot the `persons` row; a series snapshot the
+// `series` row, genres, season list and OTT offers (episodes and season cast are refetched from
+// TMDB, not versioned). Timestamps that every refresh rewrites are left out so no-op refreshes
+// leave no history.
+
+function tableColumns(db, table) {
+  return new Set(db.prepare(`PRAGMA table_info(${table})`).all().map((r) => r.name));
+}
+
+function omit(row, keys) {
+  const out = { ...row };
+  for (const k of keys) delete out[k];
+  return out;
+}
+
+function movieSnapshot(db, id) {
+  const row = db.prepare('SELECT * FROM movies WHERE id = ?').get(id);
+  if (!row) return null;
+  const songs = db.prepare('SELECT * FROM songs WHERE movie_id = ? ORDER BY id').all(id);
+  const songIds = songs.map((s) => s.id);
+  return {
+    movie: omit(row, ['updated_at']),
+    genres: db.prepare('SELECT genre FROM movie_genres WHERE movie_id = ? ORDER BY genre').all(id).map((r) => r.genre),
+    cast: db
+      .prepare('SELECT person_id, character, billing_order FROM movie_cast WHERE movie_id = ? ORDER BY billing_order, person_id')
+      .all(id),
+    crew: db
+      .prepare('SELECT person_id, department, job, credit_order FROM movie_crew WHERE movie_id = ? ORDER BY credit_order, person_id, job')
+      .all(id),
+    studios: db
+      .prepare('SELECT studio_id, credit_order FROM movie_studios WHERE movie_id = ? ORDER BY credit_order, studio_id')
+      .all(id),
+    collections: db
+      .prepare('SELECT collection_id, chrono_order, source FROM collection_movies WHERE movie_id = ? ORDER BY collection_id')
+      .all(id),
+    songs: songs.map((s) => omit(s, ['created_at'])),
+    songAttributions: songIds.length
+      ? db
+          .prepare(
+            `SELECT id, entity_id, provider, provider_id, url FROM attributions
+             WHERE entity_type = 'song' AND entity_id IN (SELECT value FROM json_each(?))
+             ORDER BY id`
+          )
+          .all(JSON.stringify(songIds))
+      : [],
+    ott: db
+      .prepare('SELECT * FROM ott_offers WHERE movie_id = ? ORDER BY id')
+      .all(id)
+      .map((o) => omit(o, ['created_at'])),
+    versions: db
+      .prepare('SELECT * FROM movie_versions WHERE movie_id = ? ORDER BY language')
+      .all(id)
+      .map((v) => omit(v, ['created_at', 'updated_at']))
+  };
+}
+
+function personSnapshot(db, id) {
+  const row = db.prepare('SELECT * FROM persons WHERE id = ?').get(id);
+  return row ? { person: omit(row, ['updated_at']) } : null;
+}
+
+function seriesSnapshot(db, id) {
+  const row = db.prepare('SELECT * FROM series WHERE id = ?').get(id);
+  if (!row) return null;
+  return {
+    series: omit(row, ['updated_at']),
+    genres: db.prepare('SELECT genre FROM series_genres WHERE series_id = ? ORDER BY genre').all(id).map((r) => r.genre),
+    seasons: db
+      .prepare('SELECT * FROM seasons WHERE series_id = ? ORDER BY season_number')
+      .all(id)
+      .map((r) => omit(r, ['episodes_fetched_at'])),
+    ott: db
+      .prepare('SELECT * FROM series_ott_offers WHERE series_id = ? ORDER BY id')
+      .all(id)
+      .map((o) => omit(o, ['created_at']))
+  };
+}
+
+export function snapshotEntity(db, entityType, entityId) {
+  if (entityType === 'movie') return movieSnapshot(db, entityId);
+  if (entityType === 'person') return personSnapshot(db, entityId);
+  if (entityType === 'series') return seriesSnapshot(db, entityId);
+  throw new Error(`unknown revision entity: ${entityType}`);
+}
+
+// Changed field names: row columns one by one, list parts (genres, cast, ...) as a whole.
+function changedFields(before, after) {
+  if (!before && !after) return [];
+  if (!before) return ['created'];
+  if (!after) return ['deleted'];
+  const same = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  const changed = [];
+  for (const part of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const a = before[part];
+    const b = after[part];
+    if (part === 'movie' || part === 'person' || part === 'series') {
+      for (const col of new Set([...Object.keys(a || {}), ...Object.keys(b || {})])) {
+        if (!same(a?.[col], b?.[col])) changed.push(col);
+      }
+    } else if (!same(a, b)) {
+      changed.push(part);
+    }
+  }
+  return changed;
+}
+
+// Store one revision; returns its id, or null when the snapshots are identical.
+export function recordRevision(db, { entityType, entityId, action, actor, before, after, revertOf = null }) {
+  const changed = changedFields(before, after);
+  if (!changed.length) return null;
+  const id = crypto.randomBytes(16).toString('hex');
+  db.prepare(
+    `INSERT INTO revisions(id, entity_type, entity_id, action, actor_type, actor_id, revert_of, changed_json, before_json, after_json, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    entityType,
+    String(entityId),
+    String(action || 'update').slice(0, 40),
+    String(actor?.type || 'system').slice(0, 20),
+    actor?.id != null ? String(actor.id).slice(0, 120) : null,
+    revertOf,
+    JSON.stringify(changed),
+    before ? JSON.stringify(before) : null,
+    after ? JSON.stringify(after) : null,
+    nowIso()
+  );
+  return id;
+}
+
+// Run `fn` (sync or async) and record what it changed on the entity. `actor` is
+// `{ type: 'admin' | 'agent' | 'submission' | 'system', id }`.
+export function withRevision(db, { entityType, entityId, action, actor, revertOf = null }, fn) {
+  const before = snapshotEntity(db, entityType, entityId);
+  const record = () => {
+    try {
+      const after = snapshotEntity(db, entityType, entityId);
+      recordRevision(db, { entityType, entityId, action, actor, before, after, revertOf });
+    } catch {
+      // History is best-effort; never fail the write for it.
+    }
+  };
+  let out;
+  try {
+    out = fn();
+  } catch (err) {
+    record();
+    throw err;
+  }
+  if (out && typeof out.then === 'function') {
+    return out.then(
+      (v) => {
+        record();
+        return v;
+      },
+      (err) => {
+        record();
+        throw err;
+      }
+    );
+  }
+  record();
+  return out;
+}
+
+function parseJson(raw) {
+  try {
+    return raw ? JSON.parse(String(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toRevision(r, { withSnapshots = false } = {}) {
+  const out = {
+    id: r.id,
+    entityType: r.entity_type,
+    entityId: r.entity_id,
+    action: r.action,
+    actorType: r.actor_type,
+    actorId: r.actor_id || '',
+    revertOf: r.revert_of || null,
+    changed: parseJson(r.changed_json) || [],
+    createdAt: r.created_at
+  };
+  if (withSnapshots) Object.assign(out, { before: parseJson(r.before_json), after: parseJson(r.after_json) });
+  return out;
+}
+
+// Newest first, without the snapshots.
+export function listRevisions(db, entityType, entityId, { limit = 50, offset = 0 } = {}) {
+  return db
+    .prepare(
+      `SELECT id, entity_type, entity_id, action, actor_type, actor_id, revert_of, changed_json, created_at
+       FROM revisions WHERE entity_type = ? AND entity_id = ?
+       ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`
+    )
+    .all(entityType, String(entityId), Math.floor(limit), Math.floor(offset))
+    .map((r) => toRevision(r));
+}
+
+export function getRevision(db, id) {
+  const row = db.prepare('SELECT * FROM revisions WHERE id = ?').get(String(id || ''));
+  return row ? toRevision(row, { withSnapshots: true }) : null;
+}
+
+function writeRow(db, table, row, { columns, replace = false } = {}) {
+  const cols = Object.keys(row).filter((k) => columns.has(k));
+  db.prepare(
+    `INSERT ${replace ? 'OR REPLACE ' : ''}INTO ${table}(${cols.join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`
+  ).run(...cols.map((k) => row[k]));
+}
+
+function restoreMovie(db, id, snap) {
+  if (!snap) {
+    // The revision created the movie: undoing it removes the movie (lists cascade).
+    db.prepare('DELETE FROM movies WHERE id = ?').run(id);
+    db.prepare("DELETE FROM search_index WHERE entity_id = ? AND entity_type = 'movie'").run(id);
+    return;
+  }
+  const ts = nowIso();
+  const movieCols = tableColumns(db, 'movies');
+  const fields = Object.keys(snap.movie || {}).filter((k) => k !== 'id' && movieCols.has(k));
+  if (db.prepare('SELECT 1 FROM movies WHERE id = ?').get(id)) {
+    db.prepare(`UPDATE movies SET ${fields.map((k) => `${k} = ?`).join(', ')}, updated_at = ? WHERE id = ?`).run(
+      ...fields.map((k) => snap.movie[k]),
+      ts,
+      id
+    );
+  } else {
+    writeRow(db, 'movies', { ...snap.movie, id, updated_at: ts }, { columns: movieCols });
+  }
+  // A movie brought back from a merge is served under its own id again.
+  db.prepare('DELETE FROM id_aliases WHERE from_id = ?').run(id);
+
+  db.prepare('DELETE FROM movie_genres WHERE movie_id = ?').run(id);
+  for (const g of snap.genres || []) db.prepare('INSERT OR IGNORE INTO movie_genres(movie_id, genre) VALUES (?, ?)').run(id, g);
+
+  db.prepare('DELETE FROM movie_cast WHERE movie_id = ?').run(id);
+  for (const c of snap.cast || []) {
+    db.prepare(
+      `INSERT OR IGNORE INTO movie_cast(movie_id, person_id, character, billing_order)
+       SELECT ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM persons WHERE id = ?)`
+    ).run(id, c.person_id, c.character, c.billing_order, c.person_id);
+  }
+
+  // Snapshots from before crew credits, studios or franchises existed have no `crew` / `studios` /
+  // `collections` part.
+  if (snap.crew) {
+    db.prepare('DELETE FROM movie_crew WHERE movie_id = ?').run(id);
+    for (const c of snap.crew) {
+      db.prepare(
+        `INSERT OR IGNORE INTO movie_crew(movie_id, person_id, department, job, credit_order)
+         SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM persons WHERE id = ?)`
+      ).run(id, c.person_id, c.department, c.job, c.credit_order, c.person_id);
+    }
+  }
+
+  if (snap.studios) {
+    db.prepare('DELETE FROM movie_studios WHERE movie_id = ?').run(id);
+    for (const s of snap.studios) {
+      db.prepare(
+        `INSERT OR IGNORE INTO movie_studios(movie_id, studio_id, credit_order)
+         SELECT ?, ?, ? WHERE EXISTS (SELECT 1 FROM studios WHERE id = ?)`
+      ).run(id, s.studio_id, s.credit_order, s.studio_id);
+    }
+  }
+
+  if (snap.collections) {
+    db.prepare('DELETE FROM collection_movies WHERE movie_id = ?').run(id);
+    for (const c of snap.collections) {
+      db.prepare(
+        `INSERT OR IGNORE INTO collection_movies(collection_id, movie_id, chrono_order, source, created_at)
+         SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM collections WHERE id = ?)`
+      ).run(c.collection_id, id, c.chrono_order, c.source, ts, c.collection_id);
+    }
+  }
+
+  const current = db.prepare('SELECT id FROM songs WHERE movie_id = ?').all(id).map((r) => r.id);
+  if (current.length) {
+    db.prepare("DELETE FROM attributions WHERE entity_type = 'song' AND entity_id IN (SELECT value FROM json_each(?))").run(
+      JSON.stringify(current)
+    );
+  }
+  db.prepare('DELETE FROM songs WHERE movie_id = ?').run(id);
+  const songCols = tableColumns(db, 'songs');
+  for (const s of snap.songs || []) writeRow(db, 'songs', { ...s, movie_id: id, created_at: ts }, { columns: songCols, replace: true });
+  const attrCols = tableColumns(db, 'attributions');
+  for (const a of snap.songAttributions || []) {
+    writeRow(db, 'attributions', { ...a, entity_type: 'song', created_at: ts }, { columns: attrCols, replace: true });
+  }
+
+  db.prepare('DELETE FROM ott_offers WHERE movie_id = ?').run(id);
+  const ottCols = tableColumns(db, 'ott_offers');
+  for (const o of snap.ott || []) writeRow(db, 'ott_offers', { ...o, movie_id: id, created_at: ts }, { columns: ottCols, replace: true });
+
+  // Snapshots from before language versions existed have no `versions` part.
+  if (snap.versions) {
+    db.prepare('DELETE FROM movie_versions WHERE movie_id = ?').run(id);
+    const versionCols = tableColumns(db, 'movie_versions');
+    for (const v of snap.versions) {
+      writeRow(db, 'movie_versions', { ...v, movie_id: id, created_at: ts, updated_at: ts }, { columns: versionCols });
+    }
+  }
+
+  updateMovieFts(db, id);
+}
+
+function restorePerson(db, id, snap) {
+  const ts = nowIso();
+  const cols = tableColumns(db, 'persons');
+  const fields = Object.keys(snap.person || {}).filter((k) => k !== 'id' && cols.has(k));
+  if (db.prepare('SELECT 1 FROM persons WHERE id = ?').get(id)) {
+    db.prepare(`UPDATE persons SET ${fields.map((k) => `${k} = ?`).join(', ')}, updated_at = ? WHERE id = ?`).run(
+      ...fields.map((k) => snap.person[k]),
+      ts,
+      id
+    );
+  } else {
+    writeRow(db, 'persons', { ...snap.person, id, updated_at: ts }, { columns: cols });
+  }
+  updatePersonFts(db, id);
+}
+
+function restoreSeries(db, id, snap) {
+  if (!snap) {
+    // The revision created the series: undoing it removes it with its seasons and episodes.
+    db.prepare('DELETE FROM series WHERE id = ?').run(id);
+    updateSeriesFts(db, id);
+    return;
+  }
+  const ts = nowIso();
+  const cols = tableColumns(db, 'series');
+  const fields = Object.keys(snap.series || {}).filter((k) => k !== 'id' && cols.has(k));
+  if (db.prepare('SELECT 1 FROM series WHERE id = ?').get(id)) {
+    db.prepare(`UPDATE series SET ${fields.map((k) => `${k} = ?`).join(', ')}, updated_at = ? WHERE id = ?`).run(
+      ...fields.map((k) => snap.series[k]),
+      ts,
+      id
+    );
+  } else {
+    writeRow(db, 'series', { ...snap.series, id, updated_at: ts }, { columns: cols });
+  }
+
+  db.prepare('DELETE FROM series_genres WHERE series_id = ?').run(id);
+  for (const g of snap.genres || []) db.prepare('INSERT OR IGNORE INTO series_genres(series_id, genre) VALUES (?, ?)').run(id, g);
+
+  // Seasons missing from the snapshot go (with their episodes); the others keep their episodes.
+  const keep = (snap.seasons || []).map((r) => r.id);
+  db.prepare('DELETE FROM seasons WHERE series_id = ? AND id NOT IN (SELECT value FROM json_each(?))').run(id, JSON.stringify(keep));
+  const seasonCols = tableColumns(db, 'seasons');
+  for (const r of snap.seasons || []) {
+    const seasonFields = Object.keys(r).filter((k) => k !== 'id' && seasonCols.has(k));
+    if (db.prepare('SELECT 1 FROM seasons WHERE id = ?').get(r.id)) {
+      db.prepare(`UPDATE seasons SET ${seasonFields.map((k) => `${k} = ?`).join(', ')} WHERE id = ?`).run(
+        ...seasonFields.map((k) => r[k]),
+        r.id
+      );
+    } else {
+      writeRow(db, 'seasons', { ...r, series_id: id }, { columns: seasonCols });
+    }
+  }
+
+  db.prepare('DELETE FROM series_ott_offers WHERE series_id = ?').run(id);
+  const ottCols = tableColumns(db, 'series_ott_offers');
+  for (const o of snap.ott || []) {
+    writeRow(db, 'series_ott_offers', { ...o, series_id: id, created_at: ts }, { columns: ottCols, replace: true });
+  }
+
+  updateSeriesFts(db, id);
+}
+
+const RESTORERS = { movie: restoreMovie, person: restorePerson, series: restoreSeries };
+
+// Put the record back the way it was before revision `id` (later edits included) and record
+// that as a new 'revert' revision. Errors carry `code`: 'not_found' | 'cannot_revert'.
+export function revertRevision(db, id, { actor } = {}) {
+  const rev = getRevision(db, id);
+  if (!rev) throw Object.assign(new Error('revision not found'), { code: 'not_found' });
+  // Persons are referenced from cast lists and submissions; a created person is not deleted.
+  if (rev.entityType === 'person' && !rev.before) {
+    throw Object.assign(new Error('cannot revert the creation of a person'), { code: 'cannot_revert' });
+  }
+  const restore = RESTORERS[rev.entityType];
+  if (!restore) throw Object.assign(new Error(`cannot revert a ${rev.entityType}`), { code: 'cannot_revert' });
+  withRevision(db, { entityType: rev.entityType, entityId: rev.entityId, action: 'revert', actor, revertOf: rev.id }, () =>
+    db.transaction(() => restore(db, rev.entityId, rev.before))()
+  );
+  const revisionId = db.prepare('SELECT id FROM revisions WHERE revert_of = ? ORDER BY rowid DESC LIMIT 1').get(rev.id)?.id;
+  return { entityType: rev.entityType, entityId: rev.entityId, revertOf: rev.id, revisionId: revisionId || null };
+}
@@ -0,0 +1,386 @@
+import { hashId, makeId, normalizeForSearch, nowIso, soundex, toIsoDate } from '../repo.js';
+import { classifyIndianMovie } from '../classifier.js';
+import { countIndianCast, upsertCastPerson } from './repository.js';
+
+// TV series as catalog entities: a `series` row (TMDB `tmdb-tv:<id>`), its seasons, the
+// episodes and cast of each season, and the series' OTT offers. `upsertSeriesFromTmdb` stores
+// a series with its season list; episodes and the season cast come per season from
+// `upsertSeasonFromTmdb`, so a long-running show can be loaded one season at a time. Series
+// share the persons table and the FTS index (entity_type 'series') with movies.
+
+export function seasonId(seriesId, seasonNumber) {
+  return `${seriesId}:s${Number(seasonNumber) || 0}`;
+}
+
+// The Indian-film classifier applied to a `tmdbGetTvFull` series (same signals as a movie).
+export function classifyTmdbSeries(db, full) {
+  return classifyIndianMovie(full, { indianCast: countIndianCast(db, full?.cast) });
+}
+
+// Upsert a series from `tmdbGetTvFull`. Returns the series id.
+export function upsertSeriesFromTmdb(db, full) {
+  const id = makeId('tmdb-tv', full.tmdbId);
+  const ts = nowIso();
+  const indian = classifyTmdbSeries(db, full);
+  const classificationJson = JSON.stringify({ verdict: indian.verdict, score: indian.score, reasons: indian.reasons });
+
+  db.prepare(
+    `
+    INSERT INTO series (
+      id, tmdb_id, title, title_norm, language, synopsis, creators_json, networks_json, first_air_date, last_air_date,
+      status, season_count, episode_count, poster, backdrop, trailer_url, rating, rating_count, is_indian,
+      indian_classification_json, production_countries_json, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      title=excluded.title,
+      title_norm=excluded.title_norm,
+      language=excluded.language,
+      synopsis=CASE WHEN excluded.synopsis != '' THEN excluded.synopsis ELSE series.synopsis END,
+      creators_json=excluded.creators_json,
+      networks_json=excluded.networks_json,
+      first_air_date=excluded.first_air_date,
+      last_air_date=excluded.last_air_date,
+      status=excluded.status,
+      season_count=excluded.season_count,
+      episode_count=excluded.episode_count,
+      poster=CASE WHEN excluded.poster != '' THEN excluded.poster ELSE series.poster END,
+      backdrop=CASE WHEN excluded.backdrop != '' THEN excluded.backdrop ELSE series.backdrop END,
+      trailer_url=CASE WHEN excluded.trailer_url != '' THEN excluded.trailer_url ELSE series.trailer_url END,
+      rating=COALESCE(excluded.rating, series.rating),
+      rating_count=COALESCE(excluded.rating_count, series.rating_count),
+      is_indian=excluded.is_indian,
+      indian_classification_json=excluded.indian_classification_json,
+      production_countries_json=excluded.production_countries_json,
+      updated_at=excluded.updated_at
+  `
+  ).run(
+    id,
+    full.tmdbId,
+    full.title,
+    normalizeForSearch(full.title),
+    full.language,
+    full.synopsis || '',
+    JSON.stringify(full.creators || []),
+    JSON.stringify(full.networks || []),
+    toIsoDate(full.firstAirDate),
+    toIsoDate(full.lastAirDate),
+    full.status || '',
+    full.seasonCount || null,
+    full.episodeCount || null,
+    full.poster || '',
+    full.backdrop || '',
+    full.trailerUrl || '',
+    typeof full.voteAverage === 'number' ? full.voteAverage : null,
+    typeof full.voteCount === 'number' ? full.voteCount : null,
+    indian.isIndian ? 1 : 0,
+    classificationJson,
+    JSON.stringify(full.productionCountries || []),
+    ts,
+    ts
+  );
+
+  db.prepare('DELETE FROM series_genres WHERE series_id = ?').run(id);
+  for (const g of full.genres || []) {
+    db.prepare('INSERT OR IGNORE INTO series_genres(series_id, genre) VALUES (?, ?)').run(id, g);
+  }
+
+  // Season list. Episodes and cast of a season already loaded are kept.
+  for (const s of full.seasons || []) {
+    db.prepare(
+      `
+      INSERT INTO seasons (id, series_id, season_number, name, synopsis, air_date, episode_count, poster)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name=excluded.name,
+        synopsis=CASE WHEN excluded.synopsis != '' THEN excluded.synopsis ELSE seasons.synopsis END,
+        air_date=excluded.air_date,
+        episode_count=excluded.episode_count,
+        poster=CASE WHEN excluded.poster != '' THEN excluded.poster ELSE seasons.poster END
+    `
+    ).run(seasonId(id, s.seasonNumber), id, s.seasonNumber, s.name || '', s.synopsis || '', toIsoDate(s.airDate), s.episodeCount || null, s.poster || '');
+  }
+
+  replaceSeriesOttOffers(db, id, full.offers || []);
+
+  db.prepare(
+    'INSERT OR IGNORE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).run(hashId('attr', `${id}:tmdb`), 'series', id, 'tmdb', String(full.tmdbId), `https://www.themoviedb.org/tv/${full.tmdbId}`, ts);
+
+  updateSeriesFts(db, id);
+  return id;
+}
+
+export function replaceSeriesOttOffers(db, seriesId, offers, { source = 'tmdb' } = {}) {
+  db.prepare('DELETE FROM series_ott_offers WHERE series_id = ?').run(seriesId);
+  const ts = nowIso();
+  for (const o of offers || []) {
+    if (!o?.provider) continue;
+    db.prepare(
+      `INSERT OR REPLACE INTO series_ott_offers(id, series_id, provider, offer_type, url, logo, region, source, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      hashId('ott', `${seriesId}:${o.provider}:${o.type}:${o.region || ''}`),
+      seriesId,
+      o.provider,
+      o.type || 'Streaming',
+      o.url || '',
+      o.logo || '',
+      o.region || '',
+      source,
+      ts
+    );
+  }
+}
+
+// Store the episodes and cast of one season from `tmdbGetTvSeason`. Returns the season id.
+export function upsertSeasonFromTmdb(db, seriesId, season) {
+  const id = seasonId(seriesId, season.seasonNumber);
+  const ts = nowIso();
+  db.prepare(
+    `
+    INSERT INTO seasons (id, series_id, season_number, name, synopsis, air_date, episode_count, poster, episodes_fetched_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name=excluded.name,
+      synopsis=CASE WHEN excluded.synopsis != '' THEN excluded.synopsis ELSE seasons.synopsis END,
+      air_date=excluded.air_date,
+      episode_count=excluded.episode_count,
+      poster=CASE WHEN excluded.poster != '' THEN excluded.poster ELSE seasons.poster END,
+      episodes_fetched_at=excluded.episodes_fetched_at
+  `
+  ).run(
+    id,
+    seriesId,
+    season.seasonNumber,
+    season.name || '',
+    season.synopsis || '',
+    toIsoDate(season.airDate),
+    (season.episodes || []).length || null,
+    season.poster || '',
+    ts
+  );
+
+  db.prepare('DELETE FROM episodes WHERE season_id = ?').run(id);
+  for (const e of season.episodes || []) {
+    db.prepare(
+      `INSERT OR REPLACE INTO episodes(id, season_id, episode_number, title, synopsis, air_date, runtime_minutes, still)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(`${id}:e${e.episodeNumber}`, id, e.episodeNumber, e.title || '', e.synopsis || '', toIsoDate(e.airDate), e.runtimeMinutes || null, e.still || '');
+  }
+
+  db.prepare('DELETE FROM season_cast WHERE season_id = ?').run(id);
+  let order = 0;
+  for (const c of season.cast || []) {
+    if (!c?.tmdbId || !c.name) continue;
+    const personId = upsertCastPerson(db, c);
+    db.prepare(
+      'INSERT OR REPLACE INTO season_cast(season_id, person_id, character, episode_count, billing_order) VALUES (?, ?, ?, ?, ?)'
+    ).run(id, personId, c.character || '', c.episodeCount || null, order++);
+  }
+  return id;
+}
+
+// Season numbers whose episodes have not been loaded yet (specials last).
+export function seasonsMissingEpisodes(db, seriesId) {
+  return db
+    .prepare(
+      `SELECT season_number FROM seasons WHERE series_id = ? AND episodes_fetched_at IS NULL
+       ORDER BY season_number = 0, season_number DESC`
+    )
+    .all(seriesId)
+    .map((r) => r.season_number);
+}
+
+export function updateSeriesFts(db, seriesId) {
+  try {
+    const s = db.prepare('SELECT title, synopsis, language, is_indian FROM series WHERE id = ?').get(seriesId);
+    db.prepare('DELETE FROM search_index WHERE entity_id = ? AND entity_type = ?').run(seriesId, 'series');
+    if (!s || s.is_indian === 0) return;
+    const genres = db.prepare('SELECT genre FROM series_genres WHERE series_id = ?').all(seriesId).map((r) => r.genre).join(' ');
+    const sxTokens = (s.title || '').split(/\s+/).filter((t) => t.length >= 2).map((t) => soundex(t)).filter((sx) => sx && sx !== '0000').join(' ');
+    const body = [s.synopsis, s.language, genres, sxTokens].filter(Boolean).join(' ').slice(0, 1200);
+    db.prepare('INSERT INTO search_index(entity_id, entity_type, title, body) VALUES (?, ?, ?, ?)').run(seriesId, 'series', s.title || '', body);
+  } catch {
+    // FTS update is best-effort; never block a write for it.
+  }
+}
+
+// Indian series matching `q` in the FTS index, best first.
+export function searchSeriesLocal(db, q, limit = 8) {
+  const cleaned = String(q || '').replace(/["*()^:+\-]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+  const tokens = cleaned.split(' ').filter((t) => t.length >= 2);
+  if (!tokens.length) return [];
+  const queries = [tokens.join(' '), tokens.map((t) => `${t}*`).join(' ')];
+  for (const ftsQuery of queries) {
+    try {
+      const ids = db
+        .prepare(
+          `SELECT si.entity_id as id FROM search_index si
+           JOIN series s ON s.id = si.entity_id
+           WHERE search_index MATCH ? AND si.entity_type = 'series' AND COALESCE(s.is_indian, 1) = 1
+           ORDER BY bm25(search_index, 0, 0, 10, 1)
+           LIMIT ?`
+        )
+        .all(ftsQuery, limit)
+        .map((r) => r.id);
+      if (ids.length) return ids.map((id) => hydrateSeries(db, id)).filter(Boolean);
+    } catch {
+      // Malformed FTS query — try the next one.
+    }
+  }
+  return [];
+}
+
+function parseList(raw) {
+  try {
+    const v = raw ? JSON.parse(String(raw)) : [];
+    return Array.isArray(v) ? v : [];
+  } catch {
+    return [];
+  }
+}
+
+function castMember(r) {
+  return {
+    personId: r.person_id,
+    name: r.name,
+    role: 'Actor',
+    character: r.character || '',
+    tmdbId: r.tmdb_id || undefined,
+    profileUrl: r.wiki_url || undefined,
+    profileImage: r.profile_image || undefined
+  };
+}
+
+function seriesOffers(db, seriesId) {
+  return db
+    .prepare('SELECT * FROM series_ott_offers WHERE series_id = ? ORDER BY provider ASC')
+    .all(seriesId)
+    .map((o) => ({
+      provider: o.provider,
+      type: o.offer_type,
+      url: o.url || undefined,
+      logo: o.logo || undefined,
+      region: o.region || undefined
+    }));
+}
+
+// Series payload: the series row, its seasons (without episodes), OTT offers and the cast
+// across seasons (most seasons first, then billing).
+export function hydrateSeries(db, seriesId) {
+  const s = db.prepare('SELECT * FROM series WHERE id = ?').get(seriesId);
+  if (!s) return null;
+
+  const genres = db.prepare('SELECT genre FROM series_genres WHERE series_id = ?').all(seriesId).map((r) => r.genre);
+  const seasons = db
+    .prepare('SELECT * FROM seasons WHERE series_id = ? ORDER BY season_number = 0, season_number ASC')
+    .all(seriesId)
+    .map((r) => ({
+      seasonNumber: r.season_number,
+      name: r.name || `Season ${r.season_number}`,
+      synopsis: r.synopsis || '',
+      airDate: r.air_date || undefined,
+      episodeCount: r.episode_count || 0,
+      poster: r.poster || undefined
+    }));
+  const cast = db
+    .prepare(
+      `
+      SELECT p.id as person_id, p.tmdb_id, p.name, p.wiki_url, p.profile_image,
+             MAX(sc.character) as character, COUNT(*) as season_count, MIN(sc.billing_order) as billing
+      FROM season_cast sc
+      JOIN seasons se ON se.id = sc.season_id
+      JOIN persons p ON p.id = sc.person_id
+      WHERE se.series_id = ?
+      GROUP BY p.id
+      ORDER BY season_count DESC, billing ASC
+      LIMIT 18
+    `
+    )
+    .all(seriesId)
+    .map(castMember);
+  const ott = seriesOffers(db, seriesId);
+  const ottLastVerifiedAt = db.prepare('SELECT MAX(created_at) as t FROM series_ott_offers WHERE series_id = ?').get(seriesId)?.t;
+  const sources = db
+    .prepare('SELECT provider, url FROM attributions WHERE entity_type = ? AND entity_id = ?')
+    .all('series', seriesId)
+    .map((a) => a.provider + (a.url ? `:${a.url}` : ''));
+
+  return {
+    id: s.id,
+    tmdbId: s.tmdb_id || undefined,
+    title: s.title,
+    language: s.language || 'Hindi',
+    synopsis: s.synopsis || '',
+    creators: parseList(s.creators_json),
+    networks: parseList(s.networks_json),
+    genres,
+    firstAirDate: s.first_air_date || undefined,
+    lastAirDate: s.last_air_date || undefined,
+    status: s.status || undefined,
+    seasonCount: s.season_count || seasons.filter((x) => x.seasonNumber > 0).length,
+    episodeCount: s.episode_count || undefined,
+    poster: s.poster || '',
+    backdrop: s.backdrop || undefined,
+    trailerUrl: s.trailer_url || undefined,
+    rating: typeof s.rating === 'number' && s.rating > 0 ? s.rating : undefined,
+    seasons,
+    cast,
+    ott,
+    ottLastVerifiedAt: ottLastVerifiedAt || undefined,
+    sources
+  };
+}
+
+// One season with its episodes and cast, plus the series fields a season page shows.
+export function hydrateSeason(db, seriesId, seasonNumber) {
+  const id = seasonId(seriesId, seasonNumber);
+  const r = db.prepare('SELECT * FROM seasons WHERE id = ?').get(id);
+  const s = r ? db.prepare('SELECT id, tmdb_id, title, language, poster, backdrop FROM series WHERE id = ?').get(seriesId) : null;
+  if (!r || !s) return null;
+
+  const episodes = db
+    .prepare('SELECT * FROM episodes WHERE season_id = ? ORDER BY episode_number ASC')
+    .all(id)
+    .map((e) => ({
+      episodeNumber: e.episode_number,
+      title: e.title || `Episode ${e.episode_number}`,
+      synopsis: e.synopsis || '',
+      airDate: e.air_date || undefined,
+      runtimeMinutes: e.runtime_minutes || undefined,
+      still: e.still || undefined
+    }));
+  const cast = db
+    .prepare(
+      `
+      SELECT p.id as person_id, p.tmdb_id, p.name, p.wiki_url, p.profile_image, sc.character
+      FROM season_cast sc
+      JOIN persons p ON p.id = sc.person_id
+      WHERE sc.season_id = ?
+      ORDER BY sc.billing_order ASC
+    `
+    )
+    .all(id)
+    .map(castMember);
+  const seasonNumbers = db
+    .prepare('SELECT season_number FROM seasons WHERE series_id = ? ORDER BY season_number = 0, season_number ASC')
+    .all(seriesId)
+    .map((x) => x.season_number);
+
+  return {
+    seriesId: s.id,
+    seriesTmdbId: s.tmdb_id || undefined,
+    seriesTitle: s.title,
+    language: s.language || 'Hindi',
+    seasonNumber: r.season_number,
+    name: r.name || `Season ${r.season_number}`,
+    synopsis: r.synopsis || '',
+    airDate: r.air_date || undefined,
+    episodeCount: r.episode_count || episodes.length,
+    poster: r.poster || s.poster || '',
+    backdrop: s.backdrop || undefined,
+    episodes,
+    cast,
+    seasonNumbers
+  };
+}
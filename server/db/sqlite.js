@@ -132,6 +132,16 @@ export function migrate(db) {
     );
     CREATE INDEX IF NOT EXISTS idx_attr_entity ON attributions(entity_type, entity_id);
 
+    -- Admin-curated fields that provider upserts must not overwrite
+    CREATE TABLE IF NOT EXISTS field_locks (
+      entity_type TEXT NOT NULL, -- 'movie'
+      entity_id TEXT NOT NULL,
+      field TEXT NOT NULL,       -- 'title' | 'synopsis' | 'poster' | 'songs' | 'ratings' | ... (LOCKABLE_MOVIE_FIELDS)
+      locked_by TEXT,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (entity_type, entity_id, field)
+    );
+
     CREATE TABLE IF NOT EXISTS ratings (
       id TEXT PRIMARY KEY,
       movie_id TEXT NOT NULL,
@@ -272,6 +282,304 @@ export function migrate(db) {
     );
     CREATE INDEX IF NOT EXISTS idx_user_person_submissions_status ON user_person_submissions(status);
     CREATE INDEX IF NOT EXISTS idx_user_person_submissions_user ON user_person_submissions(user_id);
+
+    -- Agent ingestion runs (checkpointed per movie + step so a crashed run can be resumed)
+    CREATE TABLE IF NOT EXISTS agent_runs (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL, -- 'running' | 'interrupted' | 'failed' | 'finished'
+      params_json TEXT NOT NULL,
+      stats_json TEXT,
+      error TEXT,
+      started_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      finished_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_agent_runs_status ON agent_runs(status, started_at);
+
+    CREATE TABLE IF NOT EXISTS agent_run_items (
+      run_id TEXT NOT NULL,
+      tmdb_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      movie_id TEXT,
+      title TEXT,
+      status TEXT NOT NULL, -- 'pending' | 'done' | 'skipped' | 'failed'
+      steps_json TEXT NOT NULL, -- { "fetched": "done", "trailer": "skipped", ... }
+      diff_json TEXT, -- dry runs: field-level changes the run would have written
+      error TEXT,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (run_id, tmdb_id),
+      FOREIGN KEY (run_id) REFERENCES agent_runs(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_agent_run_items_run ON agent_run_items(run_id, position);
+
+    -- Run history for long-running jobs (agent runs, admin backfills, OTT refreshes)
+    CREATE TABLE IF NOT EXISTS job_runs (
+      id TEXT PRIMARY KEY, -- agent runs reuse their agent_runs id
+      kind TEXT NOT NULL, -- 'agent' | 'backfill' | 'ott-refresh'
+      status TEXT NOT NULL, -- 'running' | 'interrupted' | 'failed' | 'finished' | 'cancelled' | 'error'
+      params_json TEXT NOT NULL,
+      stats_json TEXT,
+      items_total INTEGER NOT NULL DEFAULT 0,
+      items_failed INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      started_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      finished_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_job_runs_kind ON job_runs(kind, started_at);
+    CREATE INDEX IF NOT EXISTS idx_job_runs_started ON job_runs(started_at);
+
+    CREATE TABLE IF NOT EXISTS job_run_errors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id TEXT NOT NULL,
+      item TEXT NOT NULL, -- e.g. 'tmdb:12345', 'tmdb-person:678', a language
+      label TEXT,
+      error TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES job_runs(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_job_run_errors_run ON job_run_errors(run_id, id);
+
+    -- Recurring jobs for the in-process scheduler (cron in the schedule's timezone)
+    CREATE TABLE IF NOT EXISTS job_schedules (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL, -- job_runs.kind
+      cron TEXT NOT NULL, -- 'min hour day month weekday' or @hourly/@daily/@weekly/@monthly
+      timezone TEXT NOT NULL, -- IANA, e.g. 'Asia/Kolkata'
+      params_json TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1, -- 0 = paused
+      next_run_at TEXT,
+      running_since TEXT, -- overlap lock
+      last_started_at TEXT,
+      last_finished_at TEXT,
+      last_status TEXT,
+      last_error TEXT,
+      last_run_id TEXT, -- job_runs.id
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_job_schedules_due ON job_schedules(enabled, next_run_at);
+
+    -- Merged duplicates: requests for from_id are served as to_id (docs/ID_NORMALIZATION.md)
+    CREATE TABLE IF NOT EXISTS id_aliases (
+      from_id TEXT PRIMARY KEY,
+      to_id TEXT NOT NULL,
+      reason TEXT, -- 'duplicate_merge', ...
+      created_by TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_id_aliases_to ON id_aliases(to_id);
+
+    -- Duplicate candidates an admin marked as different films (id_a < id_b)
+    CREATE TABLE IF NOT EXISTS movie_duplicate_dismissals (
+      id_a TEXT NOT NULL,
+      id_b TEXT NOT NULL,
+      created_by TEXT,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (id_a, id_b)
+    );
+
+    -- Completeness score per movie from the data-quality rules (server/db/quality.js)
+    CREATE TABLE IF NOT EXISTS movie_quality (
+      movie_id TEXT PRIMARY KEY,
+      score INTEGER NOT NULL, -- 0..100
+      failed_json TEXT NOT NULL, -- names of the failing rules
+      checked_at TEXT NOT NULL,
+      FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_movie_quality_score ON movie_quality(score);
+
+    -- Append-only edit history of movies, persons and series (server/db/revisions.js)
+    CREATE TABLE IF NOT EXISTS revisions (
+      id TEXT PRIMARY KEY,
+      entity_type TEXT NOT NULL, -- 'movie' | 'person' | 'series'
+      entity_id TEXT NOT NULL,
+      action TEXT NOT NULL, -- 'agent_ingest' | 'enrich' | 'admin_update' | 'revert' | ...
+      actor_type TEXT NOT NULL, -- 'admin' | 'agent' | 'submission' | 'system'
+      actor_id TEXT, -- admin token, agent run id, submission id, ...
+      revert_of TEXT, -- revisions.id this one reverted
+      changed_json TEXT NOT NULL, -- names of the fields that changed
+      before_json TEXT, -- snapshot; NULL when the record did not exist
+      after_json TEXT, -- snapshot; NULL when the record was deleted
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_revisions_entity ON revisions(entity_type, entity_id, created_at);
+
+    -- TV series with their seasons, episodes, per-season cast and OTT offers (server/db/series.js)
+    CREATE TABLE IF NOT EXISTS series (
+      id TEXT PRIMARY KEY, -- 'tmdb-tv:<id>'
+      tmdb_id INTEGER,
+      title TEXT NOT NULL,
+      title_norm TEXT,
+      language TEXT,
+      synopsis TEXT,
+      creators_json TEXT,
+      networks_json TEXT,
+      first_air_date TEXT,
+      last_air_date TEXT,
+      status TEXT, -- TMDB's: 'Returning Series' | 'Ended' | 'Canceled' | 'In Production' | 'Planned' | ...
+      season_count INTEGER,
+      episode_count INTEGER,
+      poster TEXT,
+      backdrop TEXT,
+      trailer_url TEXT,
+      rating REAL, -- TMDB vote average (0..10)
+      rating_count INTEGER,
+      is_indian INTEGER DEFAULT 1,
+      indian_classification_json TEXT,
+      production_countries_json TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_series_tmdb ON series(tmdb_id);
+    CREATE INDEX IF NOT EXISTS idx_series_first_air ON series(first_air_date);
+
+    CREATE TABLE IF NOT EXISTS series_genres (
+      series_id TEXT NOT NULL,
+      genre TEXT NOT NULL,
+      PRIMARY KEY (series_id, genre),
+      FOREIGN KEY (series_id) REFERENCES series(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS seasons (
+      id TEXT PRIMARY KEY, -- '<series id>:s<number>'
+      series_id TEXT NOT NULL,
+      season_number INTEGER NOT NULL, -- 0 = specials
+      name TEXT,
+      synopsis TEXT,
+      air_date TEXT,
+      episode_count INTEGER,
+      poster TEXT,
+      episodes_fetched_at TEXT, -- NULL until the episodes and cast of the season were loaded
+      UNIQUE (series_id, season_number),
+      FOREIGN KEY (series_id) REFERENCES series(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_seasons_series ON seasons(series_id, season_number);
+
+    CREATE TABLE IF NOT EXISTS episodes (
+      id TEXT PRIMARY KEY, -- '<season id>:e<number>'
+      season_id TEXT NOT NULL,
+      episode_number INTEGER NOT NULL,
+      title TEXT,
+      synopsis TEXT,
+      air_date TEXT,
+      runtime_minutes INTEGER,
+      still TEXT,
+      UNIQUE (season_id, episode_number),
+      FOREIGN KEY (season_id) REFERENCES seasons(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS season_cast (
+      season_id TEXT NOT NULL,
+      person_id TEXT NOT NULL,
+      character TEXT,
+      episode_count INTEGER,
+      billing_order INTEGER,
+      PRIMARY KEY (season_id, person_id),
+      FOREIGN KEY (season_id) REFERENCES seasons(id) ON DELETE CASCADE,
+      FOREIGN KEY (person_id) REFERENCES persons(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_season_cast_person ON season_cast(person_id);
+
+    CREATE TABLE IF NOT EXISTS series_ott_offers (
+      id TEXT PRIMARY KEY,
+      series_id TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      offer_type TEXT NOT NULL,
+      url TEXT,
+      logo TEXT,
+      region TEXT,
+      source TEXT,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (series_id) REFERENCES series(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_series_ott_series ON series_ott_offers(series_id);
+
+    -- Dubbed / simultaneous language releases of a film; the original is the movies row.
+    -- ott_providers_json lists which of the movie's offer providers carry this audio
+    -- (NULL when not known).
+    CREATE TABLE IF NOT EXISTS movie_versions (
+      movie_id TEXT NOT NULL,
+      language TEXT NOT NULL,
+      title TEXT,
+      release_date TEXT,
+      ott_providers_json TEXT,
+      source TEXT,                     -- 'tmdb' | 'admin' | 'merge'
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (movie_id, language),
+      FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_movie_versions_language ON movie_versions(language);
+
+    -- Crew credits beyond the cast list. department groups jobs for display
+    -- ('Directing', 'Writing', 'Music', 'Camera', 'Editing', 'Production', 'Choreography', 'Action');
+    -- job is the normalized credit ('Music Director', 'Lyricist', 'Cinematographer', ...).
+    CREATE TABLE IF NOT EXISTS movie_crew (
+      movie_id TEXT NOT NULL,
+      person_id TEXT NOT NULL,
+      department TEXT NOT NULL,
+      job TEXT NOT NULL,
+      credit_order INTEGER,
+      PRIMARY KEY (movie_id, person_id, job),
+      FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE,
+      FOREIGN KEY (person_id) REFERENCES persons(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_movie_crew_movie ON movie_crew(movie_id);
+    CREATE INDEX IF NOT EXISTS idx_movie_crew_person ON movie_crew(person_id);
+
+    -- Production houses / banners (TMDB production companies), browsable at /studio/:slug.
+    CREATE TABLE IF NOT EXISTS studios (
+      id TEXT PRIMARY KEY,             -- 'tmdb-company:<id>'
+      tmdb_id INTEGER,
+      slug TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      logo TEXT,
+      origin_country TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS movie_studios (
+      movie_id TEXT NOT NULL,
+      studio_id TEXT NOT NULL,
+      credit_order INTEGER,
+      PRIMARY KEY (movie_id, studio_id),
+      FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE,
+      FOREIGN KEY (studio_id) REFERENCES studios(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_movie_studios_studio ON movie_studios(studio_id);
+
+    -- Franchises: TMDB collections ('tmdb-collection:<id>', kind 'collection') and
+    -- admin-curated cinematic universes ('universe:<slug>', kind 'universe').
+    CREATE TABLE IF NOT EXISTS collections (
+      id TEXT PRIMARY KEY,
+      tmdb_id INTEGER,
+      slug TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL,              -- 'collection' | 'universe'
+      overview TEXT,
+      poster TEXT,
+      backdrop TEXT,
+      parts_fetched_at TEXT,           -- TMDB collections: when the other parts were last ingested
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    -- Release order comes from movies.release_date; chrono_order (story order) is set by admins
+    -- and falls back to release order.
+    CREATE TABLE IF NOT EXISTS collection_movies (
+      collection_id TEXT NOT NULL,
+      movie_id TEXT NOT NULL,
+      chrono_order INTEGER,
+      source TEXT,                     -- 'tmdb' | 'admin'
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (collection_id, movie_id),
+      FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+      FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_collection_movies_movie ON collection_movies(movie_id);
   `);
 
   // Lightweight schema evolution without a full migration framework.
@@ -296,6 +604,28 @@ export function migrate(db) {
   if (!hasColumn('movies', 'production_countries_json')) {
     db.exec('ALTER TABLE movies ADD COLUMN production_countries_json TEXT');
   }
+  // Indian-film classifier verdict, score and reasons (server/classifier.js); an admin
+  // override (1 / 0) always decides is_indian.
+  if (!hasColumn('movies', 'indian_classification_json')) {
+    db.exec('ALTER TABLE movies ADD COLUMN indian_classification_json TEXT');
+  }
+  if (!hasColumn('movies', 'is_indian_override')) {
+    db.exec('ALTER TABLE movies ADD COLUMN is_indian_override INTEGER');
+  }
+  if (!hasColumn('movies', 'runtime_minutes')) {
+    db.exec('ALTER TABLE movies ADD COLUMN runtime_minutes INTEGER');
+  }
+  // Where trailer_url came from ('tmdb' | 'youtube' | 'admin'), the ranking confidence and the
+  // ranked YouTube candidates (server/trailers.js) the admin can swap to.
+  if (!hasColumn('movies', 'trailer_source')) {
+    db.exec('ALTER TABLE movies ADD COLUMN trailer_source TEXT');
+  }
+  if (!hasColumn('movies', 'trailer_confidence')) {
+    db.exec('ALTER TABLE movies ADD COLUMN trailer_confidence REAL');
+  }
+  if (!hasColumn('movies', 'trailer_candidates_json')) {
+    db.exec('ALTER TABLE movies ADD COLUMN trailer_candidates_json TEXT');
+  }
   if (!hasColumn('persons', 'name_soundex')) {
     db.exec('ALTER TABLE persons ADD COLUMN name_soundex TEXT');
   }
@@ -320,6 +650,22 @@ export function migrate(db) {
     db.exec('ALTER TABLE ott_offers ADD COLUMN deep_link_verified_at TEXT');
   }
 
+  if (!hasColumn('agent_run_items', 'diff_json')) {
+    db.exec('ALTER TABLE agent_run_items ADD COLUMN diff_json TEXT');
+  }
+
+  // Reconciled soundtracks (server/soundtrack.js): album order, track length, and which
+  // provider supplied each field.
+  if (!hasColumn('songs', 'track_no')) {
+    db.exec('ALTER TABLE songs ADD COLUMN track_no INTEGER');
+  }
+  if (!hasColumn('songs', 'duration_sec')) {
+    db.exec('ALTER TABLE songs ADD COLUMN duration_sec INTEGER');
+  }
+  if (!hasColumn('songs', 'field_sources_json')) {
+    db.exec('ALTER TABLE songs ADD COLUMN field_sources_json TEXT');
+  }
+
   db.exec('CREATE INDEX IF NOT EXISTS idx_movies_is_indian ON movies(is_indian)');
   db.exec('CREATE INDEX IF NOT EXISTS idx_movies_title_soundex ON movies(title_soundex)');
   db.exec('CREATE INDEX IF NOT EXISTS idx_movies_title_norm ON movies(title_norm)');
@@ -371,6 +717,13 @@ export function migrate(db) {
           const body = [(p.biography || '').slice(0, 500), sxBody(p.name)].filter(Boolean).join(' ');
           insertFts.run(p.id, 'person', p.name || '', body);
         }
+        const getSeriesGenres = db.prepare('SELECT genre FROM series_genres WHERE series_id = ?');
+        const series = db.prepare('SELECT id, title, synopsis, language FROM series WHERE COALESCE(is_indian, 1) = 1').all();
+        for (const s of series) {
+          const genres = getSeriesGenres.all(s.id).map((r) => r.genre).join(' ');
+          const body = [s.synopsis, s.language, genres, sxBody(s.title)].filter(Boolean).join(' ').slice(0, 1200);
+          insertFts.run(s.id, 'series', s.title || '', body);
+        }
         db.prepare("INSERT OR REPLACE INTO app_meta(key, value, updated_at) VALUES ('fts_v', ?, ?)")
           .run(FTS_VERSION, new Date().toISOString());
       })();
@@ -0,0 +1,131 @@
+import { makeId, nowIso, toSlug } from '../repo.js';
+import { hydrateMoviesForBrowse } from './repository.js';
+
+// Production houses and banners (Yash Raj Films, Hombale Films, Mythri, ...): a `studios` row per
+// TMDB production company (`tmdb-company:<id>`) and `movie_studios` links in TMDB's credit order.
+// A studio is addressed by a slug of its name (`/studio/yash-raj-films`); the slug is fixed when
+// the studio is first stored, and a second company with the same name gets its TMDB id appended.
+
+// Upsert a TMDB production company (`{ tmdbId, name, logo, originCountry }`). Returns the studio
+// id, or null for companies without a TMDB id or name.
+export function upsertStudio(db, company) {
+  const tmdbId = Number(company?.tmdbId);
+  const name = String(company?.name || '').trim();
+  if (!Number.isFinite(tmdbId) || tmdbId <= 0 || !name) return null;
+  const id = makeId('tmdb-company', tmdbId);
+  const ts = nowIso();
+  const existing = db.prepare('SELECT slug FROM studios WHERE id = ?').get(id);
+  let slug = existing?.slug || toSlug(name) || `studio-${tmdbId}`;
+  if (!existing && db.prepare('SELECT 1 FROM studios WHERE slug = ?').get(slug)) slug = `${slug}-${tmdbId}`;
+  db.prepare(
+    `
+    INSERT INTO studios (id, tmdb_id, slug, name, logo, origin_country, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name=excluded.name,
+      logo=CASE WHEN excluded.logo != '' THEN excluded.logo ELSE studios.logo END,
+      origin_country=excluded.origin_country,
+      updated_at=excluded.updated_at
+  `
+  ).run(id, tmdbId, slug, name, company.logo || '', company.originCountry || '', ts, ts);
+  return id;
+}
+
+// Replace a movie's studio links with `companies` (`productionCompanies` from `tmdbGetMovieFull`).
+export function syncMovieStudios(db, movieId, companies) {
+  db.prepare('DELETE FROM movie_studios WHERE movie_id = ?').run(movieId);
+  let order = 0;
+  for (const c of companies || []) {
+    const studioId = upsertStudio(db, c);
+    if (!studioId) continue;
+    db.prepare('INSERT OR IGNORE INTO movie_studios(movie_id, studio_id, credit_order) VALUES (?, ?, ?)').run(
+      movieId,
+      studioId,
+      order++
+    );
+  }
+}
+
+// Studios credited on one movie, in credit order: `{ slug, name, logo }`.
+export function movieStudios(db, movieId) {
+  return db
+    .prepare(
+      `
+      SELECT s.slug, s.name, s.logo
+      FROM movie_studios ms
+      JOIN studios s ON s.id = ms.studio_id
+      WHERE ms.movie_id = ?
+      ORDER BY ms.credit_order ASC
+    `
+    )
+    .all(movieId)
+    .map((s) => ({ slug: s.slug, name: s.name, logo: s.logo || undefined }));
+}
+
+// A studio page: the banner, its Indian filmography newest first (released titles), the upcoming
+// slate soonest first, and a language breakdown over both.
+export function hydrateStudio(db, slug, { limit = 120 } = {}) {
+  const s = db.prepare('SELECT * FROM studios WHERE slug = ?').get(String(slug || '').toLowerCase());
+  if (!s) return null;
+  const rows = db
+    .prepare(
+      `
+      SELECT m.id, m.language, m.release_date, m.status
+      FROM movie_studios ms
+      JOIN movies m ON m.id = ms.movie_id
+      WHERE ms.studio_id = ? AND COALESCE(m.is_indian, 1) = 1
+    `
+    )
+    .all(s.id);
+  const isUpcoming = (r) => r.status === 'Upcoming' || r.status === 'Announced';
+  const byDate = (dir) => (a, b) => {
+    const ad = a.release_date || '';
+    const bd = b.release_date || '';
+    if (!ad || !bd) return ad ? -1 : bd ? 1 : 0;
+    return dir * ad.localeCompare(bd);
+  };
+  const released = rows.filter((r) => !isUpcoming(r)).sort(byDate(-1));
+  const upcoming = rows.filter(isUpcoming).sort(byDate(1));
+
+  const languageCounts = new Map();
+  for (const r of rows) {
+    const language = r.language || 'Hindi';
+    languageCounts.set(language, (languageCounts.get(language) || 0) + 1);
+  }
+
+  const hydrate = (list) => hydrateMoviesForBrowse(db, list.slice(0, limit).map((r) => r.id)).filter(Boolean);
+
+  return {
+    id: s.id,
+    tmdbId: s.tmdb_id || undefined,
+    slug: s.slug,
+    name: s.name,
+    logo: s.logo || undefined,
+    originCountry: s.origin_country || undefined,
+    movieCount: rows.length,
+    languages: Array.from(languageCounts, ([language, count]) => ({ language, count })).sort(
+      (a, b) => b.count - a.count || a.language.localeCompare(b.language)
+    ),
+    upcoming: hydrate(upcoming),
+    filmography: hydrate(released)
+  };
+}
+
+// Studios with at least `minMovies` Indian titles, busiest first (sitemap).
+export function listStudioSlugs(db, { minMovies = 2, limit = 200 } = {}) {
+  return db
+    .prepare(
+      `
+      SELECT s.slug, s.updated_at, COUNT(*) as c
+      FROM studios s
+      JOIN movie_studios ms ON ms.studio_id = s.id
+      JOIN movies m ON m.id = ms.movie_id
+      WHERE COALESCE(m.is_indian, 1) = 1
+      GROUP BY s.id
+      HAVING c >= ?
+      ORDER BY c DESC, s.slug ASC
+      LIMIT ?
+    `
+    )
+    .all(minMovies, limit);
+}
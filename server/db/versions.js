@@ -0,0 +1,170 @@
+import { nowIso, toIsoDate } from '../repo.js';
+
+// Language versions of a movie: a pan-India film released in Telugu, Hindi, Tamil, ... is one
+// `movies` row (its original language) with one `movie_versions` row per dubbed or simultaneous
+// release, each with its own title, release date and — when known — the providers streaming
+// that audio. TMDB-derived rows (`source = 'tmdb'`) are replaced on every refresh; rows an
+// admin entered or a language merge recorded (`admin`, `merge`) are left alone.
+
+// 'hindi' / 'HINDI' -> 'Hindi', the casing `movies.language` uses.
+export function normalizeVersionLanguage(language) {
+  const s = String(language || '').trim();
+  return s ? s.charAt(0).toUpperCase() + s.slice(1).toLowerCase() : '';
+}
+
+function versionError(code, message) {
+  return Object.assign(new Error(message), { code });
+}
+
+function parseProviders(json) {
+  if (json == null) return undefined;
+  try {
+    const list = JSON.parse(json);
+    return Array.isArray(list) ? list.map(String) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toVersion(r) {
+  return {
+    language: r.language,
+    title: r.title || '',
+    releaseDate: r.release_date || undefined,
+    original: false,
+    ottProviders: parseProviders(r.ott_providers_json),
+    source: r.source || undefined
+  };
+}
+
+// Replace the TMDB-derived versions of a movie with `releases` (`languageReleases` from
+// `tmdbGetMovieFull`). The original language is never stored as a version.
+export function syncTmdbVersions(db, movieId, releases, originalLanguage) {
+  const original = normalizeVersionLanguage(originalLanguage);
+  const ts = nowIso();
+  const keep = [];
+  for (const r of releases || []) {
+    const language = normalizeVersionLanguage(r.language);
+    if (!language || language === original) continue;
+    keep.push(language);
+    db.prepare(
+      `
+      INSERT INTO movie_versions(movie_id, language, title, release_date, source, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'tmdb', ?, ?)
+      ON CONFLICT(movie_id, language) DO UPDATE SET
+        title=excluded.title,
+        release_date=excluded.release_date,
+        updated_at=excluded.updated_at
+      WHERE movie_versions.source = 'tmdb'
+    `
+    ).run(movieId, language, String(r.title || '').trim() || null, toIsoDate(r.releaseDate), ts, ts);
+  }
+  db.prepare(
+    `DELETE FROM movie_versions
+     WHERE movie_id = ? AND source = 'tmdb'
+       AND (language NOT IN (SELECT value FROM json_each(?)) OR lower(language) = lower(?))`
+  ).run(movieId, JSON.stringify(keep), original);
+}
+
+// Add or edit one version (admin). `ottProviders`: provider names, or null for "not known".
+export function setMovieVersion(db, movieId, { language, title, releaseDate, ottProviders } = {}, { source = 'admin' } = {}) {
+  const movie = db.prepare('SELECT language FROM movies WHERE id = ?').get(movieId);
+  if (!movie) throw versionError('not_found', `movie not found: ${movieId}`);
+  const lang = normalizeVersionLanguage(language);
+  if (!lang) throw versionError('invalid_language', 'language is required');
+  if (lang === normalizeVersionLanguage(movie.language)) {
+    throw versionError('original_language', `${lang} is the movie's original language`);
+  }
+  const providers = Array.isArray(ottProviders)
+    ? JSON.stringify(Array.from(new Set(ottProviders.map((p) => String(p || '').trim()).filter(Boolean))))
+    : null;
+  const ts = nowIso();
+  db.prepare(
+    `
+    INSERT INTO movie_versions(movie_id, language, title, release_date, ott_providers_json, source, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(movie_id, language) DO UPDATE SET
+      title=excluded.title,
+      release_date=excluded.release_date,
+      ott_providers_json=excluded.ott_providers_json,
+      source=excluded.source,
+      updated_at=excluded.updated_at
+  `
+  ).run(movieId, lang, String(title || '').trim() || null, toIsoDate(releaseDate), providers, source, ts, ts);
+  return lang;
+}
+
+export function removeMovieVersion(db, movieId, language) {
+  return (
+    db
+      .prepare('DELETE FROM movie_versions WHERE movie_id = ? AND lower(language) = lower(?)')
+      .run(movieId, normalizeVersionLanguage(language)).changes > 0
+  );
+}
+
+// Called from `mergeMovies` inside its transaction: a duplicate in another language becomes a
+// version of the survivor (with the providers it was streaming on), and its own versions move
+// along.
+export function recordMergedVersions(db, src, dst) {
+  const ts = nowIso();
+  const original = normalizeVersionLanguage(dst.language);
+  const srcLanguage = normalizeVersionLanguage(src.language);
+  if (srcLanguage && original && srcLanguage !== original) {
+    const providers = db
+      .prepare("SELECT DISTINCT provider FROM ott_offers WHERE movie_id = ? AND offer_type = 'Streaming' ORDER BY provider")
+      .all(src.id)
+      .map((r) => r.provider);
+    db.prepare(
+      `
+      INSERT INTO movie_versions(movie_id, language, title, release_date, ott_providers_json, source, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'merge', ?, ?)
+      ON CONFLICT(movie_id, language) DO UPDATE SET
+        title=COALESCE(movie_versions.title, excluded.title),
+        release_date=COALESCE(movie_versions.release_date, excluded.release_date),
+        ott_providers_json=COALESCE(movie_versions.ott_providers_json, excluded.ott_providers_json),
+        source=CASE WHEN movie_versions.source = 'tmdb' THEN 'merge' ELSE movie_versions.source END,
+        updated_at=excluded.updated_at
+    `
+    ).run(dst.id, srcLanguage, src.title || null, src.release_date || null, providers.length ? JSON.stringify(providers) : null, ts, ts);
+  }
+  db.prepare(
+    `
+    INSERT OR IGNORE INTO movie_versions(movie_id, language, title, release_date, ott_providers_json, source, created_at, updated_at)
+    SELECT ?, language, title, release_date, ott_providers_json, source, created_at, ?
+    FROM movie_versions
+    WHERE movie_id = ? AND lower(language) != lower(?)
+  `
+  ).run(dst.id, ts, src.id, original);
+}
+
+// Versions of one movie, original first: `{ language, title, releaseDate, original, ottProviders, source }`.
+// The original entry mirrors the movie row; `ottProviders` is omitted when not known.
+export function movieVersions(db, movie) {
+  const rows = db.prepare('SELECT * FROM movie_versions WHERE movie_id = ? ORDER BY language ASC').all(movie.id);
+  if (!rows.length) return [];
+  return [
+    { language: movie.language || 'Hindi', title: movie.title, releaseDate: movie.release_date || undefined, original: true },
+    ...rows.map(toVersion)
+  ];
+}
+
+// Batch variant for list views: Map of movie id -> versions (same shape), only for movies that have any.
+export function movieVersionsByMovie(db, movies) {
+  const out = new Map();
+  const ids = movies.map((m) => m.id);
+  if (!ids.length) return out;
+  const rows = db
+    .prepare('SELECT * FROM movie_versions WHERE movie_id IN (SELECT value FROM json_each(?)) ORDER BY language ASC')
+    .all(JSON.stringify(ids));
+  const byId = new Map(movies.map((m) => [m.id, m]));
+  for (const r of rows) {
+    if (!out.has(r.movie_id)) {
+      const m = byId.get(r.movie_id);
+      out.set(r.movie_id, [
+        { language: m.language || 'Hindi', title: m.title, releaseDate: m.release_date || undefined, original: true }
+      ]);
+    }
+    out.get(r.movie_id).push(toVersion(r));
+  }
+  return out;
+}
@@ -7,26 +7,86 @@ import crypto from 'node:crypto';
 
 import { openDb, migrate, resolveDbPath } from './db/sqlite.js';
 import {
+  finishJobRun,
+  getJobRun,
+  interruptStaleJobRuns,
+  JOB_KINDS,
+  latestJobRun,
+  listJobRuns,
+  recordJobRunError,
+  startJobRun,
+  updateJobRun
+} from './db/jobRuns.js';
+import { dismissDuplicatePair, findDuplicateMovies, mergeMovies } from './db/duplicates.js';
+import { movieVersions, removeMovieVersion, setMovieVersion } from './db/versions.js';
+import { QUALITY_RULES, qualityReport, qualityRule, refreshQualityScores } from './db/quality.js';
+import { getRevision, listRevisions, revertRevision, withRevision } from './db/revisions.js';
+import {
+  classifyTmdbSeries,
+  hydrateSeason,
+  hydrateSeries,
+  searchSeriesLocal,
+  seasonsMissingEpisodes,
+  upsertSeasonFromTmdb,
+  upsertSeriesFromTmdb
+} from './db/series.js';
+import { hydrateStudio, listStudioSlugs } from './db/studios.js';
+import {
+  collectionBySlug,
+  deleteUniverse,
+  hydrateCollection,
+  listCollections,
+  listCollectionSlugs,
+  markCollectionPartsFetched,
+  movieCollections,
+  removeCollectionMovie,
+  saveUniverse,
+  setCollectionMovie,
+  upsertTmdbCollection
+} from './db/collections.js';
+import { deleteSchedule, getSchedule, listSchedules, saveSchedule, setScheduleEnabled } from './db/jobSchedules.js';
+import {
+  AGENT_SCHEDULE_COMMANDS,
+  createJobScheduler,
+  DEFAULT_SCHEDULE_TZ,
+  isValidTimezone,
+  jobBusyError,
+  nextCronTime,
+  normalizeScheduleParams
+} from './jobScheduler.js';
+import {
+  classifyTmdbMovie,
   hydrateMovie,
   hydrateMoviesForBrowse,
   hydratePerson,
+  LOCKABLE_MOVIE_FIELDS,
+  movieFieldLocks,
   searchLocal,
+  setMovieFieldLock,
   upsertMovieFromTmdb,
   upsertRatingsFromOmdb,
   updatePersonFts,
   replaceSongsFromYoutube,
   replaceSongsForMovie,
+  resolveMovieAlias,
+  setIndianOverride,
+  updateOttDeepLinks,
   clearSongsForMovie,
+  updateMovieTrailer,
   updatePersonWiki
 } from './db/repository.js';
 import {
   defaultIndianLanguageCodes,
   tmdbDiscoverMovies,
+  tmdbGetCollection,
   tmdbGetMovieFull,
   tmdbGetMovieOffers,
   tmdbGetPersonFull,
+  tmdbGetTvFull,
+  tmdbGetTvSeason,
   tmdbSearchMovie,
-  tmdbSearchPerson
+  tmdbSearchPerson,
+  tmdbSearchTv
 } from './providers/tmdb.js';
 import { youtubeSearchCached } from './providers/youtube.js';
 import {
@@ -38,7 +98,7 @@ import {
 } from './providers/wikipedia.js';
 import { itunesFindSoundtrackForMovie } from './providers/itunes.js';
 import { motnGetDeepLinksForTmdbMovie } from './providers/motn.js';
-import { hashId, INDIAN_LANGUAGES_LOWER, makeId, normalizeForSearch, nowIso, soundex, statusFrom } from './repo.js';
+import { hashId, makeId, normalizeForSearch, nowIso, soundex, statusFrom } from './repo.js';
 import { omdbByTitle } from './providers/omdb.js';
 import {
   clearSessionCookie,
@@ -56,6 +116,10 @@ import {
   verifyCaptcha,
   consumePasswordReset
 } from './auth.js';
+import { installHttpCassettes } from './providers/cassettes.js';
+import { findTrailerCandidates } from './trailers.js';
+import { reconcileSoundtrack, soundtrackSong } from './soundtrack.js';
+import { countTokenMatches, hasNativeSongMarker, normalizeForMatch, tokenMatchScore } from './transliterate.js';
 
 const PORT = Number(process.env.PORT || 8787);
 const app = express();
@@ -101,8 +165,14 @@ function loadEnvFileIfPresent(filename) {
 loadEnvFileIfPresent('env');
 loadEnvFileIfPresent('.env');
 
+// Offline dev: HTTP_CASSETTES=record|replay serves provider calls from fixtures/cassettes. Installed
+// after the env files so their cassette settings apply and replay placeholders never shadow real keys.
+installHttpCassettes();
+
 const db = openDb();
 migrate(db);
+// Backfill / OTT refresh jobs run in-process; any still "running" were cut off by a restart.
+interruptStaleJobRuns(db, ['backfill', 'ott-refresh']);
 
 function metaGet(key) {
   try {
@@ -203,28 +273,7 @@ async function enrichOttDeepLinksForMovie(movieId, tmdbId, { country = 'in', for
   try {
     motnBumpDailyCount();
     const rows = await motnGetDeepLinksForTmdbMovie(tmdbId, { country });
-    const ts = nowIso();
-    let updated = 0;
-    for (const r of rows || []) {
-      const provider = String(r.provider || '').trim();
-      const deepLink = String(r.deepLink || '').trim();
-      if (!provider || !deepLink) continue;
-      const res = db
-        .prepare(
-          `
-          UPDATE ott_offers
-          SET deep_link = ?,
-              deep_link_source = ?,
-              deep_link_verified_at = ?
-          WHERE movie_id = ?
-            AND offer_type = 'Streaming'
-            AND lower(provider) = lower(?)
-            AND NOT (COALESCE(deep_link_source, '') = 'admin' AND COALESCE(deep_link, '') != '')
-        `
-        )
-        .run(deepLink, 'motn', ts, movieId, provider);
-      if (res?.changes) updated += res.changes;
-    }
+    const updated = updateOttDeepLinks(db, movieId, rows, 'motn');
     if (debug) console.log('[motn] deeplinks updated', { movieId, tmdbId, updated, got: rows?.length || 0 });
     return { ok: true, updated, got: rows?.length || 0 };
   } catch (e) {
@@ -289,7 +338,9 @@ function clampText(s, max) {
   return t.slice(0, Math.max(0, max - 1)).trimEnd() + '…';
 }
 
+// Acting and crew credits, one row per movie (`job` lists the crew jobs, e.g. "Music Director").
 function personSeoFilmographyRows(personId, limit = 30) {
+  const id = String(personId || '');
   return db
     .prepare(
       `
@@ -298,10 +349,15 @@ function personSeoFilmographyRows(personId, limit = 30) {
         m.tmdb_id as tmdb_id,
         m.title as title,
         m.release_date as release_date,
-        mc.character as character
-      FROM movie_cast mc
-      JOIN movies m ON m.id = mc.movie_id
-      WHERE mc.person_id = ?
+        MAX(c.character) as character,
+        GROUP_CONCAT(c.job, ', ') as job
+      FROM (
+        SELECT movie_id, character, NULL as job FROM movie_cast WHERE person_id = ?
+        UNION ALL
+        SELECT movie_id, NULL as character, job FROM movie_crew WHERE person_id = ?
+      ) c
+      JOIN movies m ON m.id = c.movie_id
+      GROUP BY m.id
       ORDER BY
         CASE WHEN COALESCE(m.release_date, '') = '' THEN 1 ELSE 0 END ASC,
         COALESCE(m.release_date, '0000-00-00') DESC,
@@ -309,7 +365,7 @@ function personSeoFilmographyRows(personId, limit = 30) {
       LIMIT ?
     `
     )
-    .all(String(personId || ''), Math.max(1, Math.min(100, Number(limit) || 30)));
+    .all(id, id, Math.max(1, Math.min(100, Number(limit) || 30)));
 }
 
 async function personSeoFilmographyRowsWithFallback(personId, tmdbId, limit = 30) {
@@ -324,7 +380,8 @@ async function personSeoFilmographyRowsWithFallback(personId, tmdbId, limit = 30
       tmdb_id: typeof f?.tmdbId === 'number' ? f.tmdbId : null,
       title: String(f?.title || '').trim(),
       release_date: String(f?.releaseDate || '').trim(),
-      character: String(f?.character || '').trim()
+      character: String(f?.character || '').trim(),
+      job: f?.department && f.department !== 'Acting' ? String(f.job || '') : ''
     }));
   } catch {
     return localRows;
@@ -488,6 +545,7 @@ function computeInitialData(req) {
       return {
         _route: 'streaming', _key: `streaming:${streamingSlugMatch[1]}`,
         movies: hydrateMoviesForBrowse(db, ids),
+        series: streamingSeriesIds({ lang, region: 'IN' }).map((id) => hydrateSeries(db, id)).filter(Boolean),
         page: 1, pageSize: PAGE_SIZE, total, hasMore: total > PAGE_SIZE,
         providers: providerRows.map((r) => ({ provider: r.provider, count: Number(r.count || 0) })),
         filters: { lang, provider: null, genre: null, region: 'IN' },
@@ -531,6 +589,33 @@ function computeInitialData(req) {
       return { _route: 'person', _key: raw, person };
     }
 
+    // /series/:id (seasons load their episodes client-side)
+    const seriesMatch = path.match(/^\/series\/([^/]+)$/);
+    if (seriesMatch) {
+      const raw = decodeURIComponent(seriesMatch[1]);
+      const series = hydrateSeries(db, normalizeSeriesIdInput(raw));
+      if (!series) return null;
+      return { _route: 'series', _key: raw, series };
+    }
+
+    // /studio/:slug
+    const studioMatch = path.match(/^\/studio\/([^/]+)$/);
+    if (studioMatch) {
+      const raw = decodeURIComponent(studioMatch[1]);
+      const studio = hydrateStudio(db, raw);
+      if (!studio) return null;
+      return { _route: 'studio', _key: raw, studio };
+    }
+
+    // /collection/:slug (TMDB parts not yet stored are ingested on the client's API call)
+    const collectionMatch = path.match(/^\/collection\/([^/]+)$/);
+    if (collectionMatch) {
+      const raw = decodeURIComponent(collectionMatch[1]);
+      const collection = hydrateCollection(db, raw);
+      if (!collection) return null;
+      return { _route: 'collection', _key: raw, collection };
+    }
+
     return null;
   } catch {
     return null;
@@ -1148,6 +1233,29 @@ async function seoForPath(req, canonical, siteUrl) {
       const castSection = castLinks
         ? `<section aria-label="Cast"><h2 style="margin:0 0 8px;font-size:18px;">Cast</h2><ul style="margin:0;padding-left:18px;">${castLinks}</ul></section>`
         : '';
+      const crewLinks = (m.crew || [])
+        .slice(0, 12)
+        .filter((c) => c?.name)
+        .map((c) => {
+          const href = c?.tmdbId ? `/person/${encodeURIComponent(String(c.tmdbId))}` : '';
+          const label = escapeHtml(String(c.name || ''));
+          const job = ` <span style="color:#94a3b8;">(${escapeHtml(String(c.job || ''))})</span>`;
+          return href
+            ? `<li style="margin:0 0 4px;"><a href="${escapeAttr(href)}">${label}</a>${job}</li>`
+            : `<li style="margin:0 0 4px;">${label}${job}</li>`;
+        })
+        .join('');
+      const crewSection = crewLinks
+        ? `<section aria-label="Crew" style="margin-top:12px;"><h2 style="margin:0 0 8px;font-size:18px;">Crew</h2><ul style="margin:0;padding-left:18px;">${crewLinks}</ul></section>`
+        : '';
+      const crewPersons = (job) =>
+        (m.crew || [])
+          .filter((c) => c.job === job)
+          .map((c) => ({
+            '@type': 'Person',
+            name: c.name,
+            url: c?.tmdbId ? `${siteUrl}/person/${encodeURIComponent(String(c.tmdbId))}` : undefined
+          }));
       const ottLinks = (m.ott || [])
         .slice(0, 8)
         .filter((o) => o?.provider)
@@ -1174,11 +1282,34 @@ async function seoForPath(req, canonical, siteUrl) {
       const songsSection = songLinks
         ? `<section aria-label="Songs" style="margin-top:12px;"><h2 style="margin:0 0 8px;font-size:18px;">Songs</h2><ul style="margin:0;padding-left:18px;">${songLinks}</ul></section>`
         : '';
+      const dubs = (m.versions || []).filter((v) => !v.original);
+      const versionsLine = dubs.length
+        ? `<p style="margin:0 0 10px;color:#94a3b8;">Original language: ${escapeHtml(m.language)} · Also released in ${dubs
+            .map((v) => escapeHtml(v.title && v.title !== m.title ? `${v.language} (${v.title})` : v.language))
+            .join(', ')}</p>`
+        : '';
+      const studiosLine = (m.studios || []).length
+        ? `<p style="margin:0 0 10px;color:#94a3b8;">Produced by ${m.studios
+            .map((st) => `<a href="${escapeAttr(`/studio/${encodeURIComponent(st.slug)}`)}">${escapeHtml(st.name)}</a>`)
+            .join(', ')}</p>`
+        : '';
+      const collectionsLine = (m.collections || [])
+        .map(
+          (c) =>
+            `<p style="margin:0 0 10px;color:#94a3b8;">Part ${c.position} of ${c.total} in the <a href="${escapeAttr(
+              `/collection/${encodeURIComponent(c.slug)}`
+            )}">${escapeHtml(c.name)}</a> ${c.kind === 'universe' ? 'universe' : 'franchise'}</p>`
+        )
+        .join('');
       const pre =
         `<div style="padding:16px 20px;">` +
         `<h1 style="margin:0 0 8px;font-size:24px;">${escapeHtml(m.title)}</h1>` +
         `<p style="margin:0 0 10px;color:#cbd5e1;">${escapeHtml(desc)}</p>` +
+        versionsLine +
+        studiosLine +
+        collectionsLine +
         castSection +
+        crewSection +
         ottSection +
         songsSection +
         `</div>`;
@@ -1208,6 +1339,14 @@ async function seoForPath(req, canonical, siteUrl) {
                   name: m.director
                 }
               ]
+            : undefined,
+          musicBy: crewPersons('Music Director').length ? crewPersons('Music Director') : undefined,
+          producer: crewPersons('Producer').length ? crewPersons('Producer') : undefined,
+          productionCompany: (m.studios || []).length
+            ? m.studios.map((st) => ({ '@type': 'Organization', name: st.name, url: `${siteUrl}/studio/${encodeURIComponent(st.slug)}` }))
+            : undefined,
+          isPartOf: (m.collections || []).length
+            ? m.collections.map((c) => ({ '@type': 'CreativeWorkSeries', name: c.name, url: `${siteUrl}/collection/${encodeURIComponent(c.slug)}` }))
             : undefined
         },
         null,
@@ -1251,7 +1390,8 @@ async function seoForPath(req, canonical, siteUrl) {
               const year = String(f.release_date || '').slice(0, 4);
               const suffix = [
                 year ? `(${escapeHtml(year)})` : '',
-                f.character ? `as ${escapeHtml(String(f.character))}` : ''
+                f.character ? `as ${escapeHtml(String(f.character))}` : '',
+                f.job ? escapeHtml(String(f.job)) : ''
               ]
                 .filter(Boolean)
                 .join(' · ');
@@ -1310,6 +1450,214 @@ async function seoForPath(req, canonical, siteUrl) {
     }
   }
 
+  // Series page
+  const seriesMatch = path.match(/^\/series\/([^/]+)$/);
+  if (seriesMatch) {
+    const raw = decodeURIComponent(seriesMatch[1]);
+    const s = hydrateSeries(db, normalizeSeriesIdInput(raw));
+    if (s) {
+      const year = s.firstAirDate ? String(s.firstAirDate).slice(0, 4) : '';
+      const title = `${s.title}${year ? ` (TV series ${year})` : ' (TV series)'} — IndiaMovieGuide`;
+      const desc = clampText(s.synopsis || `Seasons, cast and where to watch ${s.title} on IndiaMovieGuide.`, 180);
+      const img = absUrl(s.backdrop || s.poster || ogDefault, siteUrl);
+      const seasonLinks = (s.seasons || [])
+        .map((season) => {
+          const href = `/series/${encodeURIComponent(String(s.tmdbId || s.id))}/season/${season.seasonNumber}`;
+          const count = season.episodeCount ? ` <span style="color:#94a3b8;">(${season.episodeCount} episodes)</span>` : '';
+          return `<li style="margin:0 0 4px;"><a href="${escapeAttr(href)}">${escapeHtml(season.name || `Season ${season.seasonNumber}`)}</a>${count}</li>`;
+        })
+        .join('');
+      const seasonsSection = seasonLinks
+        ? `<section aria-label="Seasons"><h2 style="margin:0 0 8px;font-size:18px;">Seasons</h2><ul style="margin:0;padding-left:18px;">${seasonLinks}</ul></section>`
+        : '';
+      const castLinks = (s.cast || [])
+        .slice(0, 8)
+        .filter((c) => c?.name)
+        .map((c) => {
+          const href = c?.tmdbId ? `/person/${encodeURIComponent(String(c.tmdbId))}` : '';
+          const label = escapeHtml(String(c.name || ''));
+          return href ? `<li style="margin:0 0 4px;"><a href="${escapeAttr(href)}">${label}</a></li>` : `<li style="margin:0 0 4px;">${label}</li>`;
+        })
+        .join('');
+      const castSection = castLinks
+        ? `<section aria-label="Cast" style="margin-top:12px;"><h2 style="margin:0 0 8px;font-size:18px;">Cast</h2><ul style="margin:0;padding-left:18px;">${castLinks}</ul></section>`
+        : '';
+      const pre =
+        `<div style="padding:16px 20px;">` +
+        `<h1 style="margin:0 0 8px;font-size:24px;">${escapeHtml(s.title)}</h1>` +
+        `<p style="margin:0 0 10px;color:#cbd5e1;">${escapeHtml(desc)}</p>` +
+        seasonsSection +
+        castSection +
+        `</div>`;
+      const json = JSON.stringify(
+        {
+          '@context': 'https://schema.org',
+          '@type': 'TVSeries',
+          name: s.title,
+          url: canonical,
+          description: clampText(s.synopsis || '', 420),
+          inLanguage: s.language || undefined,
+          startDate: s.firstAirDate || undefined,
+          endDate: s.status === 'Ended' && s.lastAirDate ? s.lastAirDate : undefined,
+          numberOfSeasons: s.seasonCount || undefined,
+          numberOfEpisodes: s.episodeCount || undefined,
+          image: [s.backdrop || '', s.poster || ''].filter(Boolean),
+          actor: (s.cast || [])
+            .slice(0, 8)
+            .map((c) => ({
+              '@type': 'Person',
+              name: c.name,
+              url: c?.tmdbId ? `${siteUrl}/person/${encodeURIComponent(String(c.tmdbId))}` : undefined
+            }))
+            .filter((x) => x.name),
+          containsSeason: (s.seasons || []).map((season) => ({
+            '@type': 'TVSeason',
+            seasonNumber: season.seasonNumber,
+            name: season.name || undefined,
+            numberOfEpisodes: season.episodeCount || undefined,
+            url: `${siteUrl}/series/${encodeURIComponent(String(s.tmdbId || s.id))}/season/${season.seasonNumber}`
+          }))
+        },
+        null,
+        0
+      );
+      return {
+        title,
+        description: desc,
+        ogType: 'video.tv_show',
+        ogImage: img,
+        robots: noIndex ? 'noindex,nofollow' : 'index,follow',
+        jsonLd: json,
+        prerender: pre
+      };
+    }
+  }
+
+  // Studio page
+  const studioMatch = path.match(/^\/studio\/([^/]+)$/);
+  if (studioMatch) {
+    const st = hydrateStudio(db, decodeURIComponent(studioMatch[1]), { limit: 36 });
+    if (st) {
+      const title = `${st.name} — Movies & upcoming releases · IndiaMovieGuide`;
+      const languages = st.languages.map((l) => l.language).slice(0, 4).join(', ');
+      const desc = clampText(
+        `${st.name} filmography: ${st.movieCount} film${st.movieCount === 1 ? '' : 's'}${languages ? ` in ${languages}` : ''}, upcoming releases and where to watch.`,
+        180
+      );
+      const img = absUrl(st.logo || ogDefault, siteUrl);
+      const movieItems = (list) =>
+        list
+          .map((mv) => {
+            const href = `/movie/${encodeURIComponent(String(mv.id).startsWith('tmdb-movie:') ? String(mv.id).split(':')[1] : mv.id)}`;
+            const year = String(mv.releaseDate || '').slice(0, 4);
+            return `<li style="margin:0 0 4px;"><a href="${escapeAttr(href)}">${escapeHtml(mv.title)}</a>${year ? ` <span style="color:#94a3b8;">(${escapeHtml(year)})</span>` : ''}</li>`;
+          })
+          .join('');
+      const section = (label, list) =>
+        list.length
+          ? `<section aria-label="${escapeAttr(label)}" style="margin-top:12px;"><h2 style="margin:0 0 8px;font-size:18px;">${escapeHtml(label)}</h2><ul style="margin:0;padding-left:18px;">${movieItems(list)}</ul></section>`
+          : '';
+      const pre =
+        `<div style="padding:16px 20px;">` +
+        `<h1 style="margin:0 0 8px;font-size:24px;">${escapeHtml(st.name)}</h1>` +
+        `<p style="margin:0 0 10px;color:#cbd5e1;">${escapeHtml(desc)}</p>` +
+        section('Upcoming', st.upcoming) +
+        section('Filmography', st.filmography) +
+        `</div>`;
+      const json = JSON.stringify(
+        {
+          '@context': 'https://schema.org',
+          '@type': 'Organization',
+          name: st.name,
+          url: canonical,
+          logo: st.logo || undefined,
+          subjectOf: st.filmography.slice(0, 24).map((mv) => ({
+            '@type': 'Movie',
+            name: mv.title,
+            datePublished: mv.releaseDate || undefined
+          }))
+        },
+        null,
+        0
+      );
+      return {
+        title,
+        description: desc,
+        ogType: 'website',
+        ogImage: img,
+        robots: noIndex ? 'noindex,nofollow' : 'index,follow',
+        jsonLd: json,
+        prerender: pre
+      };
+    }
+  }
+
+  // Collection (franchise / universe) page
+  const collectionMatch = path.match(/^\/collection\/([^/]+)$/);
+  if (collectionMatch) {
+    const col = hydrateCollection(db, decodeURIComponent(collectionMatch[1]));
+    if (col) {
+      const noun = col.kind === 'universe' ? 'universe' : 'franchise';
+      const title = `${col.name} — All movies in order · IndiaMovieGuide`;
+      const desc = clampText(
+        col.overview ||
+          `Every ${col.name} movie in release order${col.hasChronology ? ' and story order' : ''}: ${col.movies.length} film${
+            col.movies.length === 1 ? '' : 's'
+          } in the ${noun}, with where to watch.`,
+        180
+      );
+      const img = absUrl(col.backdrop || col.poster || col.movies[0]?.poster || ogDefault, siteUrl);
+      const movieHref = (mv) =>
+        `/movie/${encodeURIComponent(String(mv.id).startsWith('tmdb-movie:') ? String(mv.id).split(':')[1] : mv.id)}`;
+      const byId = new Map(col.movies.map((mv) => [mv.id, mv]));
+      const list = (label, movies) =>
+        `<section aria-label="${escapeAttr(label)}" style="margin-top:12px;"><h2 style="margin:0 0 8px;font-size:18px;">${escapeHtml(
+          label
+        )}</h2><ol style="margin:0;padding-left:18px;">${movies
+          .map((mv) => {
+            const year = String(mv.releaseDate || '').slice(0, 4);
+            return `<li style="margin:0 0 4px;"><a href="${escapeAttr(movieHref(mv))}">${escapeHtml(mv.title)}</a>${
+              year ? ` <span style="color:#94a3b8;">(${escapeHtml(year)})</span>` : ''
+            }</li>`;
+          })
+          .join('')}</ol></section>`;
+      const pre =
+        `<div style="padding:16px 20px;">` +
+        `<h1 style="margin:0 0 8px;font-size:24px;">${escapeHtml(col.name)}</h1>` +
+        `<p style="margin:0 0 10px;color:#cbd5e1;">${escapeHtml(desc)}</p>` +
+        (col.movies.length ? list('Release order', col.movies) : '') +
+        (col.hasChronology ? list('Chronological order', col.chronological.map((id) => byId.get(id)).filter(Boolean)) : '') +
+        `</div>`;
+      const json = JSON.stringify(
+        {
+          '@context': 'https://schema.org',
+          '@type': 'CreativeWorkSeries',
+          name: col.name,
+          url: canonical,
+          description: clampText(col.overview || '', 420) || undefined,
+          image: img,
+          hasPart: col.movies.map((mv) => ({
+            '@type': 'Movie',
+            name: mv.title,
+            url: `${siteUrl}${movieHref(mv)}`,
+            datePublished: mv.releaseDate || undefined
+          }))
+        },
+        null,
+        0
+      );
+      return {
+        title,
+        description: desc,
+        ogType: 'website',
+        ogImage: img,
+        robots: noIndex || col.movies.length < 2 ? 'noindex,nofollow' : 'index,follow',
+        jsonLd: json,
+        prerender: pre
+      };
+    }
+  }
+
   // Static pages
   if (path === '/about') {
     return {
@@ -1450,10 +1798,10 @@ const LANG_TO_TMDB = {
 
 const SUPPORTED_LANGUAGES = Object.keys(LANG_TO_TMDB);
 
+// Weighted classifier (server/classifier.js); an admin override on an existing row wins.
 function isLikelyIndianMovie(full) {
   if (!full) return false;
-  if (Array.isArray(full.productionCountries) && full.productionCountries.includes('IN')) return true;
-  return INDIAN_LANGUAGES_LOWER.includes(String(full.language || '').toLowerCase());
+  return classifyTmdbMovie(db, full).isIndian;
 }
 
 async function seedLanguageIfSparse(langName, opts = {}) {
@@ -1616,24 +1964,26 @@ async function seedLanguageIfSparse(langName, opts = {}) {
 
   const ids = Array.from(new Set([...recentHits, ...upcomingHits].map((h) => h.tmdbId))).slice(0, maxIds);
   let wrote = 0;
+  let errors = 0;
   const cancelRef = opts?.cancelRef;
   for (const tmdbId of ids) {
     if (cancelRef?.cancelled) break;
     try {
       const full = await tmdbGetMovieFull(tmdbId);
-      upsertMovieFromTmdb(db, full);
+      withTmdbMovieRevision(full.tmdbId, 'seed', () => upsertMovieFromTmdb(db, full));
       wrote++;
-    } catch {
-      // ignore
+    } catch (e) {
+      errors++;
+      opts?.onError?.({ item: `tmdb:${tmdbId}`, label: langName, error: e });
     }
   }
 
   if (wrote > 0) metaSet(langKey, String(Date.now()));
   if (cursorKey) metaSet(cursorKey, String((cursor || 0) + 1));
-  return { lang: langName, attempted: ids.length, wrote, window: windowInfo, strategy };
+  return { lang: langName, attempted: ids.length, wrote, errors, window: windowInfo, strategy };
 }
 
-async function seedAllLanguages({ force = false, overrides = undefined, cancelRef = undefined } = {}) {
+async function seedAllLanguages({ force = false, overrides = undefined, cancelRef = undefined, onError = undefined } = {}) {
   const key = 'last_all_languages_seed_at';
   const ttlMs = 12 * 60 * 60 * 1000;
   const last = metaGetNumber(key);
@@ -1643,10 +1993,11 @@ async function seedAllLanguages({ force = false, overrides = undefined, cancelRe
   for (const lang of SUPPORTED_LANGUAGES) {
     if (cancelRef?.cancelled) break;
     try {
-      const r = await seedLanguageIfSparse(lang, { force, overrides, cancelRef });
+      const r = await seedLanguageIfSparse(lang, { force, overrides, cancelRef, onError });
       results.push(r || { lang, attempted: 0, wrote: 0 });
-    } catch {
+    } catch (e) {
       results.push({ lang, attempted: 0, wrote: 0, error: true });
+      onError?.({ item: lang, label: lang, error: e });
     }
   }
 
@@ -1655,7 +2006,14 @@ async function seedAllLanguages({ force = false, overrides = undefined, cancelRe
   return { skipped: false, results };
 }
 
-async function enrichMovieIfNeeded(movieId, opts = {}) {
+// Every on-demand refresh lands in the movie's history (`opts.actor`, default the server).
+function enrichMovieIfNeeded(movieId, opts = {}) {
+  return withRevision(db, { entityType: 'movie', entityId: movieId, action: 'enrich', actor: opts?.actor || SERVER_ACTOR }, () =>
+    refreshMovieFromProviders(movieId, opts)
+  );
+}
+
+async function refreshMovieFromProviders(movieId, opts = {}) {
   const debugSongs = process.env.DEBUG_SONGS === '1' || opts?.debug === true;
   const slog = (...args) => {
     if (!debugSongs) return;
@@ -1793,6 +2151,7 @@ async function enrichMovieIfNeeded(movieId, opts = {}) {
     // Extracted helper so we can refresh songs without a full TMDB fetch when appropriate.
     const refreshSongsIfNeeded = async (full) => {
       if (!(forceSongs || needsSongsRefresh)) return;
+      if (movieFieldLocks(db, movieId).has('songs')) return;
       if (!forceSongs && (!canAutoRefreshSongs || !canAttemptSongs)) return;
 
       // Mark attempt up front so repeated page visits don't hammer providers.
@@ -1829,10 +2188,12 @@ async function enrichMovieIfNeeded(movieId, opts = {}) {
       const itunes = await itunesFindSoundtrackForMovie({ title: full.title, year, language: full.language }).catch(() => null);
       if (itunes?.tracks?.length) {
         if (debugSongs) slog('itunes found', { tracks: itunes.tracks.length, albumUrl: !!itunes.albumUrl });
-        const trackTitles = itunes.tracks.map((t) => t.title).filter(Boolean);
+        // Alternate versions fold into one track; lengths and per-field sources are kept.
+        const tracks = reconcileSoundtrack({ itunes: itunes.tracks });
+        const trackTitles = tracks.map((t) => t.title);
         const trackArtists = {};
-        for (const t of itunes.tracks) {
-          if (t?.title && t?.artist) trackArtists[t.title] = t.artist;
+        for (const t of tracks) {
+          if (t.singers.length) trackArtists[t.title] = t.singers.join(', ');
         }
         const trackMap = await youtubeMatchVideosForTracklist({
           movieTitle: full.title,
@@ -1843,12 +2204,9 @@ async function enrichMovieIfNeeded(movieId, opts = {}) {
           mode: ytMode
         }).catch(() => new Map());
 
-        const songs = itunes.tracks.slice(0, 20).map((t) => ({
-          title: t.title,
-          singers: t.artist ? [t.artist] : [],
-          youtubeUrl: trackMap.get(t.title) || '',
-          sourceUrl: t.url || itunes.albumUrl || '',
-          sourceProviderId: t.providerId || ''
+        const songs = tracks.slice(0, 20).map((t) => ({
+          ...soundtrackSong(t, trackMap.get(t.title) || ''),
+          sourceUrl: t.sourceUrl || itunes.albumUrl || ''
         }));
 
         const linkedCount = songs.filter((s) => !!s.youtubeUrl).length;
@@ -1950,19 +2308,7 @@ async function enrichMovieIfNeeded(movieId, opts = {}) {
 
       if (useWiki) {
         if (debugSongs) slog('wikipedia tracklist found', { tracks: wiki.tracks.length, wikiUrl: wiki.url || '' });
-        const trackMap = await youtubeMatchVideosForTracklist({
-          movieTitle: full.title,
-          language: full.language,
-          year,
-          tracks: wiki.tracks,
-          mode: ytMode
-        }).catch(() => new Map());
-
-        const songs = wiki.tracks.slice(0, 20).map((t) => ({
-          title: t,
-          singers: [],
-          youtubeUrl: trackMap.get(t) || ''
-        }));
+        const songs = await wikipediaSongsWithVideos(wiki, { movieTitle: full.title, language: full.language, year, mode: ytMode });
         const linkedCount = songs.filter((s) => !!s.youtubeUrl).length;
         // Only store Wikipedia tracklists when we can map enough playable links; otherwise fall back
         // to a YouTube-first playlist for better end-user experience.
@@ -2115,17 +2461,7 @@ async function enrichMovieIfNeeded(movieId, opts = {}) {
       });
     }
 
-    if (!full.trailerUrl) {
-      const yt = await youtubeSearchCached(db, `${full.title} official trailer`).catch(() => []);
-      const trailerUrl = yt[0]?.youtubeUrl || '';
-      if (trailerUrl) {
-        db.prepare('UPDATE movies SET trailer_url = ?, updated_at = ? WHERE id = ?').run(
-          trailerUrl,
-          nowIso(),
-          movieId
-        );
-      }
-    }
+    await refreshTrailerIfMissing(movieId, full);
 
     await refreshSongsIfNeeded(full);
 
@@ -2192,6 +2528,101 @@ function ytLangCode(language) {
   }
 }
 
+// TMDB had no trailer (and none is stored yet): rank YouTube hits (server/trailers.js) and only
+// publish a confident one; the candidates are kept either way for the admin editor.
+async function refreshTrailerIfMissing(movieId, full) {
+  if (full?.trailerUrl) return;
+  const row = db.prepare('SELECT trailer_url FROM movies WHERE id = ?').get(movieId);
+  if (!row || row.trailer_url) return;
+  const relevanceLanguage = ytLangCode(full.language);
+  const year = full.releaseDate ? Number(String(full.releaseDate).slice(0, 4)) || null : null;
+  const { best, candidates } = await findTrailerCandidates({ title: full.title, year, language: full.language }, (q, opts) =>
+    youtubeSearchCached(db, q, { ...opts, relevanceLanguage })
+  );
+  if (!candidates.length) return;
+  if (best) updateMovieTrailer(db, movieId, { url: best.youtubeUrl, source: 'youtube', confidence: best.score, candidates });
+  else updateMovieTrailer(db, movieId, { candidates });
+}
+
+// Revision actors (server/db/revisions.js) for writes the server makes on its own and for admins.
+const SERVER_ACTOR = { type: 'system', id: 'server' };
+const adminActor = (token) => ({ type: 'admin', id: token });
+
+function adminMovieRevision(token, movieId, action, fn) {
+  return withRevision(db, { entityType: 'movie', entityId: movieId, action, actor: adminActor(token) }, fn);
+}
+
+// Run a write path for a TMDB movie (sync or async) inside a revision of the movie it lands on.
+function withTmdbMovieRevision(tmdbId, action, fn, actor = SERVER_ACTOR) {
+  const id = makeId('tmdb-movie', tmdbId);
+  return withRevision(db, { entityType: 'movie', entityId: resolveMovieAlias(db, id) || id, action, actor }, fn);
+}
+
+function withPersonRevision(personId, action, fn, actor = SERVER_ACTOR) {
+  return withRevision(db, { entityType: 'person', entityId: personId, action, actor }, fn);
+}
+
+function withSeriesRevision(seriesId, action, fn, actor = SERVER_ACTOR) {
+  return withRevision(db, { entityType: 'series', entityId: seriesId, action, actor }, fn);
+}
+
+// Seasons loaded per series ingest; older seasons load when their page is opened.
+const SERIES_INGEST_SEASONS = 4;
+
+// Fetch a TMDB series and store it with the episodes and cast of its latest seasons. With
+// `indianOnly` (search paths) a series the classifier rejects is not stored; returns its id or null.
+async function ingestSeriesFromTmdb(tmdbId, { action = 'ingest', indianOnly = false, actor = SERVER_ACTOR } = {}) {
+  const full = await tmdbGetTvFull(tmdbId);
+  if (indianOnly && !classifyTmdbSeries(db, full).isIndian) return null;
+  const seriesId = makeId('tmdb-tv', full.tmdbId);
+  await withSeriesRevision(
+    seriesId,
+    action,
+    async () => {
+      upsertSeriesFromTmdb(db, full);
+      const pending = seasonsMissingEpisodes(db, seriesId).filter((n) => n > 0).slice(0, SERIES_INGEST_SEASONS);
+      for (const n of pending) {
+        try {
+          upsertSeasonFromTmdb(db, seriesId, await tmdbGetTvSeason(full.tmdbId, n));
+        } catch {
+          // The season page retries it.
+        }
+      }
+    },
+    actor
+  );
+  return seriesId;
+}
+
+// Series id from a URL segment: a TMDB TV id or a stored id.
+function normalizeSeriesIdInput(raw) {
+  const v = String(raw || '').trim();
+  if (/^\d+$/.test(v)) return makeId('tmdb-tv', Number(v));
+  return v;
+}
+
+function trailerCandidatesFor(movieId) {
+  const raw = db.prepare('SELECT trailer_candidates_json FROM movies WHERE id = ?').get(movieId)?.trailer_candidates_json;
+  try {
+    const list = raw ? JSON.parse(String(raw)) : [];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+// An admin-set trailer is never replaced by TMDB or YouTube ranking; its confidence is the
+// candidate's score when it was one of the ranked hits.
+function setAdminTrailer(movieId, url) {
+  const match = url ? trailerCandidatesFor(movieId).find((c) => c?.youtubeUrl === url) : null;
+  db.prepare("UPDATE movies SET trailer_url = ?, trailer_source = 'admin', trailer_confidence = ?, updated_at = ? WHERE id = ?").run(
+    url,
+    typeof match?.score === 'number' ? match.score : null,
+    nowIso(),
+    movieId
+  );
+}
+
 function hintTokensFromNames(names) {
   const tokens = [];
   for (const n of names || []) {
@@ -2206,8 +2637,9 @@ function hintTokensFromNames(names) {
 }
 
 function scoreYoutubeSongCandidate({ title: movieTitle, year, language, hints }, item) {
-  const title = normalizeText(item?.title);
-  const desc = normalizeText(item?.description);
+  // Transliterated, so native-script titles (Devanagari, Tamil, ...) match romanized ones.
+  const title = normalizeForMatch(item?.title);
+  const desc = normalizeForMatch(item?.description);
   const hay = `${title} ${desc}`.trim();
 
   // Hard excludes: very often irrelevant.
@@ -2227,31 +2659,32 @@ function scoreYoutubeSongCandidate({ title: movieTitle, year, language, hints },
   ];
   if (bad.some((w) => hay.includes(w))) return -1;
 
-  const tokens = normalizeText(movieTitle)
+  const tokens = normalizeForMatch(movieTitle)
     .split(/\s+/g)
     .filter((t) => t.length >= 3 && !['the', 'and', 'for', 'from', 'with', 'movie', 'film'].includes(t));
   const uniq = Array.from(new Set(tokens));
-  const matched = uniq.filter((t) => hay.includes(t)).length;
+  const matched = countTokenMatches(uniq, hay);
   const base = uniq.length ? matched / uniq.length : 0;
 
   let bonus = 0;
   const langToken = normalizeText(language);
-  if (langToken && hay.includes(langToken)) bonus += 0.2;
+  const hasLang = !!(langToken && tokenMatchScore(langToken, hay) > 0);
+  if (hasLang) bonus += 0.2;
   if (year && hay.includes(String(year))) bonus += 0.12;
   if (hay.includes('jukebox') || hay.includes('full album') || hay.includes('audio jukebox')) bonus += 0.25;
   if (hay.includes('lyric') || hay.includes('lyrical') || hay.includes('audio')) bonus += 0.15;
-  if (hay.includes('song') || hay.includes('songs')) bonus += 0.05;
+  if (hay.includes('song') || hay.includes('songs') || hasNativeSongMarker(hay)) bonus += 0.05;
 
   // Single-word titles are ambiguous ("Champion", "Hero", ...).
   // Require stronger evidence: language/year/cast-hint plus "song-like" keywords.
   if (uniq.length <= 1) {
-    const hasSongSignals = hay.includes('song') || hay.includes('songs') || hay.includes('jukebox') || hay.includes('audio');
-    const hasLang = !!(langToken && hay.includes(langToken));
+    const hasSongSignals =
+      hay.includes('song') || hay.includes('songs') || hay.includes('jukebox') || hay.includes('audio') || hasNativeSongMarker(hay);
     const hasYear = !!(year && hay.includes(String(year)));
     const hs = Array.isArray(hints) ? hints : [];
     const hasHint = hs.some((t) => t && hay.includes(String(t)));
     const hasDisambiguator = hasLang || hasYear || hasHint;
-    if (!(hasSongSignals && hasDisambiguator && matched >= 1)) return 0;
+    if (!(hasSongSignals && hasDisambiguator && matched > 0)) return 0;
   }
 
   return base + bonus;
@@ -2352,7 +2785,7 @@ async function youtubeSearchSongsForMovie({ title, year, language, hints }) {
 }
 
 function tokenize(s) {
-  return normalizeText(s)
+  return normalizeForMatch(s)
     .split(/\s+/g)
     .filter((t) => t.length >= 3 && !['the', 'and', 'for', 'from', 'with', 'movie', 'film', 'song', 'songs'].includes(t));
 }
@@ -2360,7 +2793,7 @@ function tokenize(s) {
 function tokenizeTrackTitle(s) {
   // Track titles often contain short words ("Tu", "O", "Aa") that matter. Keep 2+ chars,
   // but exclude common English glue words to reduce noise.
-  return normalizeText(s)
+  return normalizeForMatch(s)
     .split(/\s+/g)
     .filter(
       (t) =>
@@ -2409,18 +2842,18 @@ function isBadMusicHit(hay) {
 }
 
 function scoreYoutubeTrackMatch({ movieTitle, language, year, trackTitle, artist, mode }, item) {
-  const hay = `${normalizeText(item?.title)} ${normalizeText(item?.description)}`.trim();
+  const hay = `${normalizeForMatch(item?.title)} ${normalizeForMatch(item?.description)}`.trim();
   if (!hay) return -1;
   if (isBadMusicHit(hay)) return -1;
 
   const trackTokens = tokenizeTrackTitle(trackTitle);
   if (!trackTokens.length) return -1;
 
-  const matchedTrack = trackTokens.filter((t) => hay.includes(t)).length;
+  const matchedTrack = countTokenMatches(trackTokens, hay);
   const trackScore = matchedTrack / trackTokens.length;
 
   const movieTokens = tokenize(movieTitle);
-  const matchedMovie = movieTokens.filter((t) => hay.includes(t)).length;
+  const matchedMovie = countTokenMatches(movieTokens, hay);
   const movieScore = movieTokens.length ? matchedMovie / movieTokens.length : 0;
 
   const artistTokens = tokenize(artist || '');
@@ -2446,6 +2879,25 @@ function scoreYoutubeTrackMatch({ movieTitle, language, year, trackTitle, artist
   return trackScore * 0.65 + Math.max(movieScore, artistScore) * 0.3 + bonus;
 }
 
+// A Wikipedia tracklist as song rows: reconciled (singers, lengths, alternate versions folded)
+// and matched to YouTube videos.
+async function wikipediaSongsWithVideos(wiki, { movieTitle, language, year, mode }) {
+  const tracks = reconcileSoundtrack({ wikipedia: wiki?.trackDetails || [] }).slice(0, 20);
+  const trackArtists = {};
+  for (const t of tracks) {
+    if (t.singers.length) trackArtists[t.title] = t.singers.join(', ');
+  }
+  const trackMap = await youtubeMatchVideosForTracklist({
+    movieTitle,
+    language,
+    year,
+    tracks: tracks.map((t) => t.title),
+    trackArtists,
+    mode
+  }).catch(() => new Map());
+  return tracks.map((t) => soundtrackSong(t, trackMap.get(t.title) || ''));
+}
+
 async function youtubeMatchVideosForTracklist({ movieTitle, language, year, tracks, trackArtists, mode }) {
   const rel = ytLangCode(language);
   const q1 = `${movieTitle} ${language ? `${language} ` : ''}songs`.trim();
@@ -2529,9 +2981,9 @@ async function youtubeMatchVideosForTracklist({ movieTitle, language, year, trac
     // Best-effort fallback: if scoring couldn't confidently choose, still prefer the top hit,
     // but only when the hit includes at least one track token to avoid totally unrelated results.
     if (!out.get(t) && mode === 'bestEffort' && hits[0]?.youtubeUrl) {
-      const hay = normalizeText(hits[0]?.title);
+      const hay = normalizeForMatch(hits[0]?.title);
       const tt = tokenizeTrackTitle(t);
-      const ok = tt.some((tok) => hay.includes(tok));
+      const ok = tt.some((tok) => tokenMatchScore(tok, hay) > 0);
       if (ok) out.set(t, hits[0].youtubeUrl);
     }
   }
@@ -2762,6 +3214,18 @@ function ottRefreshStateSave(state) {
   }
 }
 
+// Mirror a backfill / OTT refresh job state into its job_runs row (run history).
+function jobRunSave(runId, state, { finished = false } = {}) {
+  try {
+    const stats = { totals: state.totals, results: state.results, cancelled: !!state.cancelled };
+    const patch = { status: state.status, stats, itemsTotal: state.totals.attempted, itemsFailed: state.totals.errors };
+    if (finished) finishJobRun(db, runId, { ...patch, error: state.error || null });
+    else updateJobRun(db, runId, patch);
+  } catch {
+    // ignore
+  }
+}
+
 function normalizeOttRefreshOverrides(raw) {
   const o = raw && typeof raw === 'object' ? raw : {};
   const num = (v) => (v == null ? null : Number(v));
@@ -2856,13 +3320,16 @@ async function refreshOttForLanguage(langName, opts = {}) {
       if (!Number.isFinite(tmdbId)) return;
       const offersRes = await tmdbGetMovieOffers(tmdbId, { region }).catch(() => null);
       const offers = offersRes?.offers || [];
-      replaceOttOffersForMovie(r.id, offers, { source: 'tmdb' });
+      withRevision(db, { entityType: 'movie', entityId: r.id, action: 'ott_refresh', actor: SERVER_ACTOR }, () =>
+        replaceOttOffersForMovie(r.id, offers, { source: 'tmdb' })
+      );
       // Mark best-effort success (even if 0 offers; that clears stale entries).
       metaSet(`last_ott_auto_attempt_at:${r.id}`, String(Date.now()));
       metaSet(`last_ott_auto_success_at:${r.id}`, String(Date.now()));
       wrote++;
-    } catch {
+    } catch (e) {
       errors++;
+      opts.onError?.({ item: r.id, label: lang, error: e });
     }
   };
 
@@ -2886,7 +3353,16 @@ async function startOttRefresh({ scope, lang, overrides } = {}) {
   const langs = safeScope === 'language' ? [safeLang || 'Hindi'] : SUPPORTED_LANGUAGES.slice();
 
   ottRefreshJob.cancelRef = { cancelled: false };
+  const startedAt = nowIso();
+  const runId = startJobRun(db, {
+    id: hashId('job-run', `ott-refresh:${startedAt}:${Math.random()}`),
+    kind: 'ott-refresh',
+    params: { scope: safeScope, lang: safeScope === 'language' ? safeLang : null, overrides: o },
+    startedAt
+  });
+  const onError = (e) => recordJobRunError(db, runId, e);
   const state = {
+    runId,
     status: 'running',
     scope: safeScope,
     lang: safeScope === 'language' ? safeLang : null,
@@ -2911,7 +3387,8 @@ async function startOttRefresh({ scope, lang, overrides } = {}) {
           concurrency: o.concurrency || undefined,
           staleHours: o.staleHours || undefined,
           onlyStale: o.onlyStale !== false,
-          cancelRef: ottRefreshJob.cancelRef
+          cancelRef: ottRefreshJob.cancelRef,
+          onError
         });
         state.results.push(r);
         state.totals.attempted += r.attempted || 0;
@@ -2919,17 +3396,20 @@ async function startOttRefresh({ scope, lang, overrides } = {}) {
         state.totals.errors += r.errors || 0;
         state.updatedAt = nowIso();
         ottRefreshStateSave(state);
+        jobRunSave(runId, state);
       }
       if (ottRefreshJob.cancelRef.cancelled) state.cancelled = true;
       state.status = state.cancelled ? 'cancelled' : 'finished';
       state.finishedAt = nowIso();
       state.updatedAt = nowIso();
       ottRefreshStateSave(state);
+      jobRunSave(runId, state, { finished: true });
     } catch (e) {
       state.status = 'error';
       state.error = String(e?.message || e || 'ott_refresh_failed');
       state.updatedAt = nowIso();
       ottRefreshStateSave(state);
+      jobRunSave(runId, state, { finished: true });
     } finally {
       ottRefreshJob.inFlight = null;
     }
@@ -2970,7 +3450,16 @@ async function startBackfill({ scope, lang, force, overrides } = {}) {
   const o = normalizeBackfillOverrides(overrides);
 
   backfillJob.cancelRef = { cancelled: false };
+  const startedAt = nowIso();
+  const runId = startJobRun(db, {
+    id: hashId('job-run', `backfill:${startedAt}:${Math.random()}`),
+    kind: 'backfill',
+    params: { scope: safeScope, lang: safeScope === 'language' ? safeLang : null, force: effectiveForce, overrides: o },
+    startedAt
+  });
+  const onError = (e) => recordJobRunError(db, runId, e);
   const state = {
+    runId,
     status: 'running',
     scope: safeScope,
     lang: safeScope === 'language' ? safeLang : null,
@@ -2995,29 +3484,33 @@ async function startBackfill({ scope, lang, force, overrides } = {}) {
           state.updatedAt = nowIso();
           state.error = 'unsupported_lang';
           backfillStateSave(state);
+          jobRunSave(runId, state, { finished: true });
           return;
         }
         const r = await seedLanguageIfSparse(safeLang, {
           force: effectiveForce,
           overrides: o,
-          cancelRef: backfillJob.cancelRef
+          cancelRef: backfillJob.cancelRef,
+          onError
         });
         const rr = r || { lang: safeLang, attempted: 0, wrote: 0 };
         state.results.push(rr);
         state.totals.attempted += rr.attempted || 0;
         state.totals.wrote += rr.wrote || 0;
+        state.totals.errors += rr.errors || 0;
       } else {
         const r = await seedAllLanguages({
           force: effectiveForce,
           overrides: o,
-          cancelRef: backfillJob.cancelRef
+          cancelRef: backfillJob.cancelRef,
+          onError
         });
         const results = Array.isArray(r?.results) ? r.results : [];
         state.results = results;
         for (const x of results) {
           state.totals.attempted += x?.attempted || 0;
           state.totals.wrote += x?.wrote || 0;
-          if (x?.error) state.totals.errors += 1;
+          state.totals.errors += x?.error ? 1 : x?.errors || 0;
         }
       }
 
@@ -3026,12 +3519,14 @@ async function startBackfill({ scope, lang, force, overrides } = {}) {
       state.updatedAt = nowIso();
       state.finishedAt = nowIso();
       backfillStateSave(state);
+      jobRunSave(runId, state, { finished: true });
     } catch (e) {
       state.status = 'error';
       state.updatedAt = nowIso();
       state.finishedAt = nowIso();
       state.error = String(e?.message || e || 'backfill_failed');
       backfillStateSave(state);
+      jobRunSave(runId, state, { finished: true });
     } finally {
       backfillJob.inFlight = null;
     }
@@ -3040,6 +3535,38 @@ async function startBackfill({ scope, lang, force, overrides } = {}) {
   return state;
 }
 
+// Scheduled backfills / OTT refreshes reuse the admin-triggered jobs (one of each in flight).
+async function runScheduledBackfill(params) {
+  if (backfillJob.inFlight) throw jobBusyError('a backfill is already running');
+  const state = await startBackfill(params);
+  await backfillJob.inFlight;
+  return { runId: state.runId, status: state.status, error: state.error || null };
+}
+
+async function runScheduledOttRefresh(params) {
+  if (ottRefreshJob.inFlight) throw jobBusyError('an OTT refresh is already running');
+  const state = await startOttRefresh(params);
+  await ottRefreshJob.inFlight;
+  return { runId: state.runId, status: state.status, error: state.error || null };
+}
+
+const jobScheduler = createJobScheduler(db, {
+  runners: { backfill: runScheduledBackfill, 'ott-refresh': runScheduledOttRefresh }
+});
+
+// First start: add the two schedules most installs want, paused until an admin resumes them.
+if (!metaGet('job_schedules_seeded')) {
+  if (!listSchedules(db).length) {
+    const defaults = [
+      { name: 'Agent ingest (daily 03:00 IST)', kind: 'agent', cron: '0 3 * * *', params: { args: ['ingest'] } },
+      { name: 'OTT refresh: Hindi (every 6h)', kind: 'ott-refresh', cron: '0 */6 * * *', params: { scope: 'language', lang: 'Hindi' } }
+    ];
+    for (const d of defaults) saveSchedule(db, { ...d, timezone: 'Asia/Kolkata', enabled: false, nextRunAt: null });
+  }
+  metaSet('job_schedules_seeded', nowIso());
+}
+if (String(process.env.JOB_SCHEDULER || '').toLowerCase() !== 'off') jobScheduler.start();
+
 function requireAdmin(req, res) {
   const token = String(req.headers['x-admin-token'] || '').trim();
   if (!token) {
@@ -3123,7 +3650,7 @@ async function seedHomeFromProviders({ force = false } = {}) {
         if (!tmdbId) return;
         try {
           const full = await tmdbGetMovieFull(tmdbId);
-          upsertMovieFromTmdb(db, full);
+          withTmdbMovieRevision(full.tmdbId, 'seed', () => upsertMovieFromTmdb(db, full));
         } catch {
           // ignore
         }
@@ -3162,31 +3689,26 @@ async function seedIfEmpty() {
     try {
       const hits = await tmdbSearchMovie(title);
       if (!hits.length) continue;
-      const full = await tmdbGetMovieFull(hits[0].tmdbId);
-      const movieId = upsertMovieFromTmdb(db, full);
-      const year = full.releaseDate ? Number(String(full.releaseDate).slice(0, 4)) : null;
-      const wiki = await wikipediaTracklistForMovie({
-        title: full.title,
-        year,
-        language: full.language,
-        castNames: (full.cast || []).slice(0, 2).map((c) => c?.name).filter(Boolean)
-      }).catch(() => null);
-      if (wiki?.tracks?.length) {
-        const ytMode = tokenize(full.title).length <= 1 ? 'strict' : 'bestEffort';
-        const trackMap = await youtubeMatchVideosForTracklist({
-          movieTitle: full.title,
-          language: full.language,
+      await withTmdbMovieRevision(hits[0].tmdbId, 'seed', async () => {
+        const full = await tmdbGetMovieFull(hits[0].tmdbId);
+        const movieId = upsertMovieFromTmdb(db, full);
+        const year = full.releaseDate ? Number(String(full.releaseDate).slice(0, 4)) : null;
+        const wiki = await wikipediaTracklistForMovie({
+          title: full.title,
           year,
-          tracks: wiki.tracks,
-          mode: ytMode
-        }).catch(() => new Map());
-        const songs = wiki.tracks.slice(0, 20).map((t) => ({ title: t, singers: [], youtubeUrl: trackMap.get(t) || '' }));
-        replaceSongsForMovie(db, movieId, songs, { source: 'wikipedia', platform: 'YouTube', wikiUrl: wiki.url || '' });
-      } else {
-        const hints = hintTokensFromNames((full.cast || []).slice(0, 8).map((c) => c?.name).filter(Boolean));
-        const songs = await youtubeSearchSongsForMovie({ title: full.title, year, language: full.language, hints }).catch(() => []);
-        replaceSongsFromYoutube(db, movieId, songs);
-      }
+          language: full.language,
+          castNames: (full.cast || []).slice(0, 2).map((c) => c?.name).filter(Boolean)
+        }).catch(() => null);
+        if (wiki?.tracks?.length) {
+          const ytMode = tokenize(full.title).length <= 1 ? 'strict' : 'bestEffort';
+          const songs = await wikipediaSongsWithVideos(wiki, { movieTitle: full.title, language: full.language, year, mode: ytMode });
+          replaceSongsForMovie(db, movieId, songs, { source: 'wikipedia', platform: 'YouTube', wikiUrl: wiki.url || '' });
+        } else {
+          const hints = hintTokensFromNames((full.cast || []).slice(0, 8).map((c) => c?.name).filter(Boolean));
+          const songs = await youtubeSearchSongsForMovie({ title: full.title, year, language: full.language, hints }).catch(() => []);
+          replaceSongsFromYoutube(db, movieId, songs);
+        }
+      });
     } catch {
       // ignore; still allow server start
     }
@@ -3328,9 +3850,9 @@ app.post('/api/me/profile', (req, res) => {
 function normalizeMovieId(raw) {
   const s = String(raw || '').trim();
   if (!s) return '';
-  if (s.includes(':')) return s;
-  if (/^\d+$/.test(s)) return makeId('tmdb-movie', Number(s));
-  return s;
+  const id = s.includes(':') ? s : /^\d+$/.test(s) ? makeId('tmdb-movie', Number(s)) : s;
+  // Merged duplicates: lists and reviews follow the surviving movie.
+  return resolveMovieAlias(db, id) || id;
 }
 
 async function requireCaptchaForWrite(req, res) {
@@ -3715,29 +4237,31 @@ app.get('/api/spotlight', async (req, res) => {
 
       const personId = makeId('tmdb-person', hit.tmdbId);
       const ts = nowIso();
-      db.prepare(
+      withPersonRevision(personId, 'spotlight', () =>
+        db.prepare(
+          `
+          INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, COALESCE((SELECT biography FROM persons WHERE id = ?), ''), COALESCE((SELECT wiki_url FROM persons WHERE id = ?), ''), COALESCE(?, COALESCE((SELECT profile_image FROM persons WHERE id = ?), '')), ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            name=excluded.name,
+            name_soundex=excluded.name_soundex,
+            first_name_soundex=excluded.first_name_soundex,
+            profile_image=CASE WHEN excluded.profile_image != '' THEN excluded.profile_image ELSE persons.profile_image END,
+            updated_at=excluded.updated_at
         `
-        INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, COALESCE((SELECT biography FROM persons WHERE id = ?), ''), COALESCE((SELECT wiki_url FROM persons WHERE id = ?), ''), COALESCE(?, COALESCE((SELECT profile_image FROM persons WHERE id = ?), '')), ?, ?)
-        ON CONFLICT(id) DO UPDATE SET
-          name=excluded.name,
-          name_soundex=excluded.name_soundex,
-          first_name_soundex=excluded.first_name_soundex,
-          profile_image=CASE WHEN excluded.profile_image != '' THEN excluded.profile_image ELSE persons.profile_image END,
-          updated_at=excluded.updated_at
-      `
-      ).run(
-        personId,
-        hit.tmdbId,
-        hit.name,
-        soundex(hit.name),
-        soundex(hit.name.trim().split(/\s+/)[0] || hit.name),
-        personId,
-        personId,
-        hit.profileImage || '',
-        personId,
-        ts,
-        ts
+        ).run(
+          personId,
+          hit.tmdbId,
+          hit.name,
+          soundex(hit.name),
+          soundex(hit.name.trim().split(/\s+/)[0] || hit.name),
+          personId,
+          personId,
+          hit.profileImage || '',
+          personId,
+          ts,
+          ts
+        )
       );
 
       persons.push({ tmdbId: hit.tmdbId, name: hit.name, profileImage: hit.profileImage });
@@ -3836,11 +4360,15 @@ app.get('/api/admin/status', (req, res) => {
     languageSeeds[l] = ms ? new Date(ms).toISOString() : null;
   }
 
+  // Latest agent run from the run history; older installs only have the cache file.
   let agentLastRun = null;
   try {
-    const p = path.join(process.cwd(), '.cache', 'agent-last-run.json');
-    if (fs.existsSync(p)) {
-      agentLastRun = JSON.parse(fs.readFileSync(p, 'utf-8'));
+    const last = latestJobRun(db, 'agent');
+    if (last) {
+      agentLastRun = { ...(last.stats || {}), runId: last.id, status: last.status, finishedAt: last.finishedAt };
+    } else {
+      const p = path.join(process.cwd(), '.cache', 'agent-last-run.json');
+      if (fs.existsSync(p)) agentLastRun = JSON.parse(fs.readFileSync(p, 'utf-8'));
     }
   } catch {
     agentLastRun = null;
@@ -3993,31 +4521,135 @@ app.post('/api/admin/ott-refresh/cancel', (req, res) => {
   res.json({ ok: true, cancelled: true });
 });
 
-app.get('/api/admin/moderation', (req, res) => {
+// Run history: agent runs, backfills and OTT refreshes (newest first).
+app.get('/api/admin/job-runs', (req, res) => {
   const token = requireAdmin(req, res);
   if (!token) return;
+  const kind = String(req.query.kind || '').trim();
+  if (kind && !JOB_KINDS.includes(kind)) return res.status(400).json({ error: 'invalid_kind' });
+  const out = listJobRuns(db, {
+    kind,
+    status: String(req.query.status || '').trim(),
+    since: String(req.query.since || '').trim(),
+    until: String(req.query.until || '').trim(),
+    limit: Number(req.query.limit || 50),
+    offset: Number(req.query.offset || 0)
+  });
+  res.json({ now: nowIso(), kinds: JOB_KINDS, ...out });
+});
 
-  const submissions = db
-    .prepare(
-      `
-      SELECT s.id, s.kind, s.title, s.language, s.payload_json, s.created_at, u.email, u.display_name
-      FROM user_submissions s
-      JOIN users u ON u.id = s.user_id
-      WHERE s.status = 'pending'
-      ORDER BY s.created_at ASC
-      LIMIT 200
-    `
-    )
-    .all()
-    .map((r) => {
-      let payload = null;
-      try {
-        payload = r.payload_json ? JSON.parse(String(r.payload_json)) : null;
-      } catch {
-        payload = null;
-      }
-      return {
-        id: r.id,
+app.get('/api/admin/job-runs/:id', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const run = getJobRun(db, String(req.params.id || ''), { errorsLimit: Number(req.query.errors || 200) });
+  if (!run) return res.status(404).json({ error: 'not_found' });
+  res.json({ run });
+});
+
+// Recurring job schedules (server/jobScheduler.js).
+app.get('/api/admin/schedules', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  res.json({
+    now: nowIso(),
+    kinds: JOB_KINDS,
+    agentCommands: AGENT_SCHEDULE_COMMANDS,
+    defaultTimezone: DEFAULT_SCHEDULE_TZ,
+    schedulerEnabled: String(process.env.JOB_SCHEDULER || '').toLowerCase() !== 'off',
+    schedules: listSchedules(db).map((s) => ({ ...s, running: jobScheduler.isRunning(s.id) }))
+  });
+});
+
+app.post('/api/admin/schedules', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const body = req.body?.schedule || {};
+  const id = String(body.id || '').trim();
+  if (id && !getSchedule(db, id)) return res.status(404).json({ error: 'not_found' });
+  const name = String(body.name || '').trim().slice(0, 120);
+  const kind = String(body.kind || '').trim();
+  const cron = String(body.cron || '').trim();
+  const timezone = String(body.timezone || '').trim() || DEFAULT_SCHEDULE_TZ;
+  if (!name) return res.status(400).json({ error: 'missing_name' });
+  if (!JOB_KINDS.includes(kind)) return res.status(400).json({ error: 'invalid_kind' });
+  if (!isValidTimezone(timezone)) return res.status(400).json({ error: 'invalid_timezone' });
+  let params;
+  let nextRunAt;
+  try {
+    params = normalizeScheduleParams(kind, body.params);
+  } catch (e) {
+    return res.status(400).json({ error: 'invalid_params', message: String(e?.message || e) });
+  }
+  try {
+    nextRunAt = nextCronTime(cron, timezone);
+  } catch (e) {
+    return res.status(400).json({ error: 'invalid_cron', message: String(e?.message || e) });
+  }
+  if (!nextRunAt) return res.status(400).json({ error: 'invalid_cron', message: 'cron never matches' });
+  const enabled = body.enabled !== false;
+  const schedule = saveSchedule(db, { id, name, kind, cron, timezone, params, enabled, nextRunAt: enabled ? nextRunAt : null });
+  res.json({ ok: true, schedule });
+});
+
+app.post('/api/admin/schedules/:id/pause', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  if (!setScheduleEnabled(db, String(req.params.id || ''), false)) return res.status(404).json({ error: 'not_found' });
+  res.json({ ok: true, schedule: getSchedule(db, String(req.params.id)) });
+});
+
+app.post('/api/admin/schedules/:id/resume', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const s = getSchedule(db, String(req.params.id || ''));
+  if (!s) return res.status(404).json({ error: 'not_found' });
+  setScheduleEnabled(db, s.id, true, nextCronTime(s.cron, s.timezone));
+  res.json({ ok: true, schedule: getSchedule(db, s.id) });
+});
+
+app.post('/api/admin/schedules/:id/run', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const r = jobScheduler.trigger(String(req.params.id || ''));
+  if (r.error === 'not_found') return res.status(404).json(r);
+  if (r.error) return res.status(409).json(r);
+  res.json({ ok: true, schedule: getSchedule(db, String(req.params.id)) });
+});
+
+app.post('/api/admin/schedules/:id/delete', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const id = String(req.params.id || '');
+  if (jobScheduler.isRunning(id)) return res.status(409).json({ error: 'already_running' });
+  if (!deleteSchedule(db, id)) return res.status(404).json({ error: 'not_found' });
+  res.json({ ok: true });
+});
+
+app.get('/api/admin/moderation', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const submissions = db
+    .prepare(
+      `
+      SELECT s.id, s.kind, s.title, s.language, s.payload_json, s.created_at, u.email, u.display_name
+      FROM user_submissions s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.status = 'pending'
+      ORDER BY s.created_at ASC
+      LIMIT 200
+    `
+    )
+    .all()
+    .map((r) => {
+      let payload = null;
+      try {
+        payload = r.payload_json ? JSON.parse(String(r.payload_json)) : null;
+      } catch {
+        payload = null;
+      }
+      return {
+        id: r.id,
         kind: r.kind,
         title: r.title,
         language: r.language || '',
@@ -4146,80 +4778,90 @@ app.post('/api/admin/person-submissions/:id/approve', (req, res) => {
 
   const personId = row.person_id || hashId('user-person', row.id);
   const ts = nowIso();
-  db.exec('BEGIN');
-  try {
-    db.prepare(
-      `
-      INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, filmography_json, created_at, updated_at)
-      VALUES (?, NULL, ?, ?, ?, ?, '', ?, ?, ?, ?)
-      ON CONFLICT(id) DO UPDATE SET
-        name=excluded.name,
-        name_soundex=excluded.name_soundex,
-        first_name_soundex=excluded.first_name_soundex,
-        biography=excluded.biography,
-        profile_image=CASE WHEN excluded.profile_image != '' THEN excluded.profile_image ELSE persons.profile_image END,
-        filmography_json=COALESCE(excluded.filmography_json, persons.filmography_json),
-        updated_at=excluded.updated_at
-    `
-    ).run(
-      personId,
-      row.name,
-      soundex(row.name),
-      soundex(row.name.trim().split(/\s+/)[0] || row.name),
-      row.biography || '',
-      row.profile_image || '',
-      row.filmography_json || '[]',
-      ts,
-      ts
-    );
-
-    db.prepare(
-      `
-      UPDATE user_person_submissions
-      SET status = 'approved', person_id = ?, reviewed_at = ?, reviewed_by = ?, review_note = ?
-      WHERE id = ?
-    `
-    ).run(personId, ts, token, String(req.body?.note || '').slice(0, 400), id);
+  // The approval is recorded in the person's history under the submission.
+  const approved = withPersonRevision(
+    personId,
+    'submission_approved',
+    () => {
+      db.exec('BEGIN');
+      try {
+        db.prepare(
+          `
+          INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, filmography_json, created_at, updated_at)
+          VALUES (?, NULL, ?, ?, ?, ?, '', ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            name=excluded.name,
+            name_soundex=excluded.name_soundex,
+            first_name_soundex=excluded.first_name_soundex,
+            biography=excluded.biography,
+            profile_image=CASE WHEN excluded.profile_image != '' THEN excluded.profile_image ELSE persons.profile_image END,
+            filmography_json=COALESCE(excluded.filmography_json, persons.filmography_json),
+            updated_at=excluded.updated_at
+        `
+        ).run(
+          personId,
+          row.name,
+          soundex(row.name),
+          soundex(row.name.trim().split(/\s+/)[0] || row.name),
+          row.biography || '',
+          row.profile_image || '',
+          row.filmography_json || '[]',
+          ts,
+          ts
+        );
 
-    // Best-effort: any pending submissions referencing this person submission now point at the approved person record.
-    const affected = db
-      .prepare(
+        db.prepare(
+          `
+          UPDATE user_person_submissions
+          SET status = 'approved', person_id = ?, reviewed_at = ?, reviewed_by = ?, review_note = ?
+          WHERE id = ?
         `
-        SELECT id, payload_json
-        FROM user_submissions
-        WHERE status = 'pending' AND payload_json LIKE ?
-      `
-      )
-      .all(`%${id}%`);
-    for (const s of affected) {
-      try {
-        const payload = s.payload_json ? JSON.parse(String(s.payload_json)) : null;
-        if (!payload || !Array.isArray(payload.cast)) continue;
-        let changed = false;
-        const cast = payload.cast.map((c) => {
-          if (c?.type === 'person_submission' && c?.personSubmissionId === id) {
-            changed = true;
-            return { ...c, type: 'existing', personId };
+        ).run(personId, ts, token, String(req.body?.note || '').slice(0, 400), id);
+
+        // Best-effort: any pending submissions referencing this person submission now point at the approved person record.
+        const affected = db
+          .prepare(
+            `
+            SELECT id, payload_json
+            FROM user_submissions
+            WHERE status = 'pending' AND payload_json LIKE ?
+          `
+          )
+          .all(`%${id}%`);
+        for (const s of affected) {
+          try {
+            const payload = s.payload_json ? JSON.parse(String(s.payload_json)) : null;
+            if (!payload || !Array.isArray(payload.cast)) continue;
+            let changed = false;
+            const cast = payload.cast.map((c) => {
+              if (c?.type === 'person_submission' && c?.personSubmissionId === id) {
+                changed = true;
+                return { ...c, type: 'existing', personId };
+              }
+              return c;
+            });
+            if (!changed) continue;
+            payload.cast = cast;
+            db.prepare('UPDATE user_submissions SET payload_json = ? WHERE id = ?').run(JSON.stringify(payload), s.id);
+          } catch {
+            // ignore
           }
-          return c;
-        });
-        if (!changed) continue;
-        payload.cast = cast;
-        db.prepare('UPDATE user_submissions SET payload_json = ? WHERE id = ?').run(JSON.stringify(payload), s.id);
-      } catch {
-        // ignore
-      }
-    }
+        }
 
-    db.prepare(
-      'INSERT OR IGNORE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-    ).run(hashId('attr', `${personId}:user`), 'person', personId, 'user', row.user_id, '', ts);
+        db.prepare(
+          'INSERT OR IGNORE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+        ).run(hashId('attr', `${personId}:user`), 'person', personId, 'user', row.user_id, '', ts);
 
-    db.exec('COMMIT');
-  } catch (e) {
-    db.exec('ROLLBACK');
-    return res.status(500).json({ error: 'approve_failed' });
-  }
+        db.exec('COMMIT');
+        return true;
+      } catch {
+        db.exec('ROLLBACK');
+        return false;
+      }
+    },
+    { type: 'submission', id }
+  );
+  if (!approved) return res.status(500).json({ error: 'approve_failed' });
   res.json({ ok: true, personId });
 });
 
@@ -4247,7 +4889,7 @@ app.get('/api/admin/movies/:id', async (req, res) => {
     if (Number.isFinite(tmdbId)) {
       try {
         const full = await tmdbGetMovieFull(tmdbId);
-        movieId = upsertMovieFromTmdb(db, full);
+        movieId = withTmdbMovieRevision(tmdbId, 'ingest', () => upsertMovieFromTmdb(db, full), adminActor(token));
         movie = hydrateMovie(db, movieId);
       } catch {
         // ignore
@@ -4257,7 +4899,10 @@ app.get('/api/admin/movies/:id', async (req, res) => {
   if (!movie) return res.status(404).json({ error: 'not_found' });
 
   const songs = db
-    .prepare('SELECT id, title, singers_json, youtube_url, platform, source, created_at FROM songs WHERE movie_id = ? ORDER BY created_at DESC')
+    .prepare(
+      `SELECT id, title, singers_json, youtube_url, platform, source, duration_sec, field_sources_json, created_at
+       FROM songs WHERE movie_id = ? ORDER BY track_no IS NULL, track_no ASC, created_at DESC`
+    )
     .all(movieId)
     .map((s) => {
       let singers = [];
@@ -4273,6 +4918,8 @@ app.get('/api/admin/movies/:id', async (req, res) => {
         youtubeUrl: s.youtube_url || '',
         platform: s.platform || 'YouTube',
         source: s.source || '',
+        durationSec: s.duration_sec || null,
+        fieldSources: s.field_sources_json ? JSON.parse(String(s.field_sources_json)) : null,
         createdAt: s.created_at
       };
     });
@@ -4326,7 +4973,245 @@ app.get('/api/admin/movies/:id', async (req, res) => {
       createdAt: o.created_at
     }));
 
-  res.json({ movieId, movie, songs, cast, ottOffers });
+  const trailerRow = db.prepare('SELECT trailer_url, trailer_source, trailer_confidence FROM movies WHERE id = ?').get(movieId);
+  const trailer = {
+    url: trailerRow?.trailer_url || '',
+    source: trailerRow?.trailer_source || '',
+    confidence: typeof trailerRow?.trailer_confidence === 'number' ? trailerRow.trailer_confidence : null,
+    candidates: trailerCandidatesFor(movieId)
+  };
+
+  const indianRow = db
+    .prepare('SELECT is_indian, is_indian_override, indian_classification_json FROM movies WHERE id = ?')
+    .get(movieId);
+  let classification = null;
+  try {
+    classification = indianRow?.indian_classification_json ? JSON.parse(String(indianRow.indian_classification_json)) : null;
+  } catch {
+    classification = null;
+  }
+  const indian = {
+    isIndian: indianRow?.is_indian !== 0,
+    override: indianRow?.is_indian_override === 0 || indianRow?.is_indian_override === 1 ? indianRow.is_indian_override === 1 : null,
+    verdict: typeof classification?.verdict === 'boolean' ? classification.verdict : null,
+    score: typeof classification?.score === 'number' ? classification.score : null,
+    reasons: Array.isArray(classification?.reasons) ? classification.reasons : []
+  };
+
+  const locks = Array.from(movieFieldLocks(db, movieId));
+
+  res.json({ movieId, movie, songs, cast, ottOffers, trailer, indian, locks });
+});
+
+// Lock (or unlock) one field so provider refreshes leave the admin's value alone.
+app.post('/api/admin/movies/:id/locks', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const movieId = normalizeMovieIdInput(req.params.id);
+  const row = db.prepare('SELECT id FROM movies WHERE id = ?').get(movieId);
+  if (!row) return res.status(404).json({ error: 'not_found' });
+
+  const field = String(req.body?.field || '').trim();
+  if (!LOCKABLE_MOVIE_FIELDS.includes(field)) return res.status(400).json({ error: 'invalid_field' });
+  if (typeof req.body?.locked !== 'boolean') return res.status(400).json({ error: 'invalid_locked' });
+  setMovieFieldLock(db, movieId, field, req.body.locked, token);
+  res.json({ ok: true, locks: Array.from(movieFieldLocks(db, movieId)) });
+});
+
+// Pin the Indian-film verdict (true / false) so re-ingests keep it; null hands it back to the classifier.
+app.post('/api/admin/movies/:id/indian', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const movieId = normalizeMovieIdInput(req.params.id);
+  const row = db.prepare('SELECT id FROM movies WHERE id = ?').get(movieId);
+  if (!row) return res.status(404).json({ error: 'not_found' });
+
+  const value = req.body?.override;
+  if (value !== true && value !== false && value !== null) return res.status(400).json({ error: 'invalid_override' });
+  adminMovieRevision(token, movieId, 'admin_indian', () => setIndianOverride(db, movieId, value));
+  res.json({ ok: true });
+});
+
+// Swap the trailer (usually to one of the ranked candidates); an empty URL removes it.
+app.post('/api/admin/movies/:id/trailer', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const movieId = normalizeMovieIdInput(req.params.id);
+  const row = db.prepare('SELECT id FROM movies WHERE id = ?').get(movieId);
+  if (!row) return res.status(404).json({ error: 'not_found' });
+
+  const youtubeUrl = String(req.body?.youtubeUrl || '').trim().slice(0, 400);
+  if (youtubeUrl && !(youtubeUrl.startsWith('https://') || youtubeUrl.startsWith('http://'))) {
+    return res.status(400).json({ error: 'invalid_url' });
+  }
+  adminMovieRevision(token, movieId, 'admin_trailer', () => setAdminTrailer(movieId, youtubeUrl));
+  res.json({ ok: true });
+});
+
+// Add or edit a dubbed / simultaneous language release. `ottProviders`: provider names carrying
+// that audio, or null when not known.
+app.post('/api/admin/movies/:id/versions', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const movieId = normalizeMovieIdInput(req.params.id);
+  const ottProviders = req.body?.ottProviders;
+  if (ottProviders != null && !Array.isArray(ottProviders)) return res.status(400).json({ error: 'invalid_ott_providers' });
+  try {
+    adminMovieRevision(token, movieId, 'admin_version', () =>
+      setMovieVersion(db, movieId, {
+        language: String(req.body?.language || '').slice(0, 40),
+        title: String(req.body?.title || '').slice(0, 300),
+        releaseDate: String(req.body?.releaseDate || '').slice(0, 40),
+        ottProviders: ottProviders ? ottProviders.slice(0, 20).map((p) => String(p || '').slice(0, 80)) : null
+      })
+    );
+  } catch (err) {
+    if (err?.code === 'not_found') return res.status(404).json({ error: 'not_found' });
+    if (err?.code === 'invalid_language' || err?.code === 'original_language') {
+      return res.status(400).json({ error: err.code, message: err.message });
+    }
+    throw err;
+  }
+  res.json({ ok: true, versions: movieVersions(db, db.prepare('SELECT * FROM movies WHERE id = ?').get(movieId)) });
+});
+
+app.post('/api/admin/movies/:id/versions/:language/delete', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const movieId = normalizeMovieIdInput(req.params.id);
+  const row = db.prepare('SELECT * FROM movies WHERE id = ?').get(movieId);
+  if (!row) return res.status(404).json({ error: 'not_found' });
+  const removed = adminMovieRevision(token, movieId, 'admin_version', () => removeMovieVersion(db, movieId, req.params.language));
+  if (!removed) return res.status(404).json({ error: 'version_not_found' });
+  res.json({ ok: true, versions: movieVersions(db, row) });
+});
+
+// Fold a dubbed release that was ingested as its own movie into this one: the other movie is
+// merged away (redirecting to this one) and becomes a language version.
+app.post('/api/admin/movies/:id/versions/link', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const toId = normalizeMovieIdInput(req.params.id);
+  const fromId = normalizeMovieIdInput(req.body?.movieId);
+  if (!fromId) return res.status(400).json({ error: 'missing_ids' });
+  try {
+    const result = adminMovieRevision(token, fromId, 'merge', () =>
+      adminMovieRevision(token, toId, 'merge', () =>
+        mergeMovies(db, fromId, toId, { actor: token, reason: 'dubbed_version' })
+      )
+    );
+    res.json({ ok: true, ...result, movie: hydrateMovie(db, result.toId) });
+  } catch (err) {
+    if (err?.code === 'not_found') return res.status(404).json({ error: 'not_found', message: err.message });
+    if (err?.code === 'same_movie') return res.status(400).json({ error: 'same_movie' });
+    res.status(500).json({ error: 'merge_failed', message: String(err?.message || err) });
+  }
+});
+
+// Franchises and universes for the movie editor's picker.
+app.get('/api/admin/collections', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  res.json({ collections: listCollections(db) });
+});
+
+// Create or rename an admin-curated universe (TMDB collections follow TMDB).
+app.post('/api/admin/collections', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  try {
+    const slug = saveUniverse(db, {
+      name: String(req.body?.name || '').slice(0, 120),
+      slug: String(req.body?.slug || '').slice(0, 120),
+      overview: String(req.body?.overview || '').slice(0, 2000)
+    });
+    res.json({ ok: true, slug, collections: listCollections(db) });
+  } catch (err) {
+    if (err?.code === 'invalid_name' || err?.code === 'invalid_slug' || err?.code === 'slug_taken') {
+      return res.status(400).json({ error: err.code, message: err.message });
+    }
+    throw err;
+  }
+});
+
+app.post('/api/admin/collections/:slug/delete', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  try {
+    deleteUniverse(db, req.params.slug);
+  } catch (err) {
+    if (err?.code === 'not_found') return res.status(404).json({ error: 'not_found' });
+    if (err?.code === 'not_universe') return res.status(400).json({ error: err.code, message: err.message });
+    throw err;
+  }
+  res.json({ ok: true, collections: listCollections(db) });
+});
+
+// Every franchise / universe link of one movie, including ones where it is the only title listed.
+app.get('/api/admin/movies/:id/collections', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const movieId = normalizeMovieIdInput(req.params.id);
+  if (!db.prepare('SELECT 1 FROM movies WHERE id = ?').get(movieId)) return res.status(404).json({ error: 'not_found' });
+  res.json({ collections: movieCollections(db, movieId, { all: true }) });
+});
+
+// Add a movie to a franchise / universe, or set its place in story order (`chronoOrder`, 1-based;
+// null follows release order).
+app.post('/api/admin/movies/:id/collections', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const movieId = normalizeMovieIdInput(req.params.id);
+  const chronoOrder = req.body?.chronoOrder == null || req.body.chronoOrder === '' ? null : Number(req.body.chronoOrder);
+  if (chronoOrder != null && !(Number.isInteger(chronoOrder) && chronoOrder > 0)) {
+    return res.status(400).json({ error: 'invalid_chrono_order' });
+  }
+  try {
+    adminMovieRevision(token, movieId, 'admin_collection', () =>
+      setCollectionMovie(db, String(req.body?.slug || ''), movieId, { chronoOrder })
+    );
+  } catch (err) {
+    if (err?.code === 'movie_not_found') return res.status(404).json({ error: 'not_found' });
+    if (err?.code === 'not_found') return res.status(404).json({ error: 'collection_not_found' });
+    throw err;
+  }
+  res.json({ ok: true, collections: movieCollections(db, movieId, { all: true }) });
+});
+
+app.post('/api/admin/movies/:id/collections/:slug/delete', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const movieId = normalizeMovieIdInput(req.params.id);
+  if (!db.prepare('SELECT 1 FROM movies WHERE id = ?').get(movieId)) return res.status(404).json({ error: 'not_found' });
+  const removed = adminMovieRevision(token, movieId, 'admin_collection', () => removeCollectionMovie(db, req.params.slug, movieId));
+  if (!removed) return res.status(404).json({ error: 'collection_not_found' });
+  res.json({ ok: true, collections: movieCollections(db, movieId, { all: true }) });
+});
+
+// Re-run the YouTube ranking and store fresh candidates; the current trailer is left alone.
+app.post('/api/admin/movies/:id/trailer/candidates', async (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+
+  const movieId = normalizeMovieIdInput(req.params.id);
+  const row = db.prepare('SELECT title, language, release_date FROM movies WHERE id = ?').get(movieId);
+  if (!row) return res.status(404).json({ error: 'not_found' });
+
+  const year = row.release_date ? Number(String(row.release_date).slice(0, 4)) || null : null;
+  const relevanceLanguage = ytLangCode(row.language);
+  const { candidates } = await findTrailerCandidates({ title: row.title, year, language: row.language }, (q, opts) =>
+    youtubeSearchCached(db, q, { ...opts, relevanceLanguage })
+  );
+  if (candidates.length) adminMovieRevision(token, movieId, 'admin_trailer', () => updateMovieTrailer(db, movieId, { candidates }));
+  res.json({ ok: true, candidates });
 });
 
 app.post('/api/admin/movies/:id/ott/:ottId/deeplink', (req, res) => {
@@ -4346,27 +5231,29 @@ app.post('/api/admin/movies/:id/ott/:ottId/deeplink', (req, res) => {
   const row = db.prepare('SELECT id FROM ott_offers WHERE id = ? AND movie_id = ?').get(ottId, movieId);
   if (!row) return res.status(404).json({ error: 'not_found' });
 
-  if (!deepLink) {
-    db.prepare(
+  adminMovieRevision(token, movieId, 'admin_deeplink', () => {
+    if (!deepLink) {
+      db.prepare(
+        `
+        UPDATE ott_offers
+        SET deep_link = NULL,
+            deep_link_source = NULL,
+            deep_link_verified_at = NULL
+        WHERE id = ? AND movie_id = ?
       `
-      UPDATE ott_offers
-      SET deep_link = NULL,
-          deep_link_source = NULL,
-          deep_link_verified_at = NULL
-      WHERE id = ? AND movie_id = ?
-    `
-    ).run(ottId, movieId);
-  } else {
-    db.prepare(
+      ).run(ottId, movieId);
+    } else {
+      db.prepare(
+        `
+        UPDATE ott_offers
+        SET deep_link = ?,
+            deep_link_source = 'admin',
+            deep_link_verified_at = ?
+        WHERE id = ? AND movie_id = ?
       `
-      UPDATE ott_offers
-      SET deep_link = ?,
-          deep_link_source = 'admin',
-          deep_link_verified_at = ?
-      WHERE id = ? AND movie_id = ?
-    `
-    ).run(deepLink, nowIso(), ottId, movieId);
-  }
+      ).run(deepLink, nowIso(), ottId, movieId);
+    }
+  });
 
   res.json({ ok: true });
 });
@@ -4376,7 +5263,9 @@ app.post('/api/admin/movies/:id/update', (req, res) => {
   if (!token) return;
 
   const movieId = normalizeMovieIdInput(req.params.id);
-  const existing = db.prepare('SELECT id FROM movies WHERE id = ?').get(movieId);
+  const existing = db
+    .prepare('SELECT id, title, language, synopsis, director, release_date, status, trailer_url, poster, backdrop FROM movies WHERE id = ?')
+    .get(movieId);
   if (!existing) return res.status(404).json({ error: 'not_found' });
 
   const pick = (k, max) => (Object.prototype.hasOwnProperty.call(req.body || {}, k) ? String(req.body?.[k] ?? '').slice(0, max) : null);
@@ -4392,54 +5281,75 @@ app.post('/api/admin/movies/:id/update', (req, res) => {
   const titleSoundex = title != null ? soundex(title) : null;
   const titleNorm = title != null ? normalizeForSearch(title) : null;
 
-  const ts = nowIso();
-  db.prepare(
+  adminMovieRevision(token, movieId, 'admin_update', () => {
+    const ts = nowIso();
+    db.prepare(
+      `
+      UPDATE movies SET
+        title = CASE WHEN ? IS NULL THEN title ELSE ? END,
+        title_soundex = CASE WHEN ? IS NULL THEN title_soundex ELSE ? END,
+        title_norm = CASE WHEN ? IS NULL THEN title_norm ELSE ? END,
+        language = CASE WHEN ? IS NULL THEN language ELSE ? END,
+        synopsis = CASE WHEN ? IS NULL THEN synopsis ELSE ? END,
+        director = CASE WHEN ? IS NULL THEN director ELSE ? END,
+        release_date = CASE WHEN ? IS NULL THEN release_date ELSE ? END,
+        status = CASE WHEN ? IS NULL THEN status ELSE ? END,
+        trailer_url = CASE WHEN ? IS NULL THEN trailer_url ELSE ? END,
+        poster = CASE WHEN ? IS NULL THEN poster ELSE ? END,
+        backdrop = CASE WHEN ? IS NULL THEN backdrop ELSE ? END,
+        updated_at = ?
+      WHERE id = ?
     `
-    UPDATE movies SET
-      title = CASE WHEN ? IS NULL THEN title ELSE ? END,
-      title_soundex = CASE WHEN ? IS NULL THEN title_soundex ELSE ? END,
-      title_norm = CASE WHEN ? IS NULL THEN title_norm ELSE ? END,
-      language = CASE WHEN ? IS NULL THEN language ELSE ? END,
-      synopsis = CASE WHEN ? IS NULL THEN synopsis ELSE ? END,
-      director = CASE WHEN ? IS NULL THEN director ELSE ? END,
-      release_date = CASE WHEN ? IS NULL THEN release_date ELSE ? END,
-      status = CASE WHEN ? IS NULL THEN status ELSE ? END,
-      trailer_url = CASE WHEN ? IS NULL THEN trailer_url ELSE ? END,
-      poster = CASE WHEN ? IS NULL THEN poster ELSE ? END,
-      backdrop = CASE WHEN ? IS NULL THEN backdrop ELSE ? END,
-      updated_at = ?
-    WHERE id = ?
-  `
-  ).run(
-    title, title,
-    titleSoundex, titleSoundex,
-    titleNorm, titleNorm,
-    language, language,
-    synopsis, synopsis,
-    director, director,
-    releaseDate, releaseDate,
-    status, status,
-    trailerUrl, trailerUrl,
-    poster, poster,
-    backdrop, backdrop,
-    ts,
-    movieId
-  );
+    ).run(
+      title, title,
+      titleSoundex, titleSoundex,
+      titleNorm, titleNorm,
+      language, language,
+      synopsis, synopsis,
+      director, director,
+      releaseDate, releaseDate,
+      status, status,
+      trailerUrl, trailerUrl,
+      poster, poster,
+      backdrop, backdrop,
+      ts,
+      movieId
+    );
+    if (trailerUrl != null && trailerUrl !== (existing.trailer_url || '')) setAdminTrailer(movieId, trailerUrl);
+
+    // Edited fields are locked so the next TMDB refresh does not undo them.
+    const edited = {
+      title: [title, existing.title],
+      language: [language, existing.language],
+      synopsis: [synopsis, existing.synopsis],
+      director: [director, existing.director],
+      releaseDate: [releaseDate, existing.release_date],
+      status: [status, existing.status],
+      poster: [poster, existing.poster],
+      backdrop: [backdrop, existing.backdrop]
+    };
+    for (const [field, [next, prev]] of Object.entries(edited)) {
+      if (next != null && next !== (prev || '')) setMovieFieldLock(db, movieId, field, true, token);
+    }
 
-  if (Array.isArray(req.body?.genres)) {
-    db.exec('BEGIN');
-    try {
-      db.prepare('DELETE FROM movie_genres WHERE movie_id = ?').run(movieId);
-      for (const g of req.body.genres) {
-        const genre = String(g || '').trim().slice(0, 60);
-        if (!genre) continue;
-        db.prepare('INSERT OR IGNORE INTO movie_genres(movie_id, genre) VALUES (?, ?)').run(movieId, genre);
+    if (Array.isArray(req.body?.genres)) {
+      const before = db.prepare('SELECT genre FROM movie_genres WHERE movie_id = ? ORDER BY genre').all(movieId).map((r) => r.genre);
+      db.exec('BEGIN');
+      try {
+        db.prepare('DELETE FROM movie_genres WHERE movie_id = ?').run(movieId);
+        for (const g of req.body.genres) {
+          const genre = String(g || '').trim().slice(0, 60);
+          if (!genre) continue;
+          db.prepare('INSERT OR IGNORE INTO movie_genres(movie_id, genre) VALUES (?, ?)').run(movieId, genre);
+        }
+        db.exec('COMMIT');
+      } catch {
+        try { db.exec('ROLLBACK'); } catch { /* ignore */ }
       }
-      db.exec('COMMIT');
-    } catch {
-      try { db.exec('ROLLBACK'); } catch { /* ignore */ }
+      const after = db.prepare('SELECT genre FROM movie_genres WHERE movie_id = ? ORDER BY genre').all(movieId).map((r) => r.genre);
+      if (after.join('|') !== before.join('|')) setMovieFieldLock(db, movieId, 'genres', true, token);
     }
-  }
+  });
 
   res.json({ ok: true });
 });
@@ -4577,6 +5487,8 @@ app.get('/api/admin/movies-search', (req, res) => {
 
 // List incomplete movies for admin cleanup (e.g. upcoming missing synopsis/cast/artwork).
 // NOTE: keep path non-overlapping with `/api/admin/movies/:id`.
+const INCOMPLETE_RULES = ['missing-synopsis', 'missing-artwork', 'no-cast'];
+
 app.get('/api/admin/movies-incomplete', (req, res) => {
   const token = requireAdmin(req, res);
   if (!token) return;
@@ -4604,11 +5516,7 @@ app.get('/api/admin/movies-incomplete', (req, res) => {
       WHERE COALESCE(m.is_indian, 1) = 1
         AND (? = '' OR lower(m.language) = lower(?))
         AND (? = '' OR lower(m.status) = lower(?))
-        AND (
-          length(trim(COALESCE(m.synopsis, ''))) < 12
-          OR (trim(COALESCE(m.poster, '')) = '' AND trim(COALESCE(m.backdrop, '')) = '')
-          OR (SELECT COUNT(*) FROM movie_cast mc WHERE mc.movie_id = m.id) = 0
-        )
+        AND (${INCOMPLETE_RULES.map((name) => `(${qualityRule(name).where})`).join(' OR ')})
       ORDER BY
         CASE WHEN m.release_date IS NULL OR m.release_date = '' THEN 1 ELSE 0 END,
         COALESCE(m.release_date, '9999-99-99') ASC,
@@ -4640,6 +5548,113 @@ app.get('/api/admin/movies-incomplete', (req, res) => {
   res.json({ now: nowIso(), status, lang: lang || null, movies: rows });
 });
 
+// --- Data quality ---
+// Stored scores older than this are recomputed when the report is opened.
+const QUALITY_TTL_MS = 60 * 60 * 1000;
+
+app.get('/api/admin/quality', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const scoredAt = metaGet('quality_scored_at')?.value || '';
+  if (!scoredAt || Date.now() - Date.parse(scoredAt) > QUALITY_TTL_MS) refreshQualityScores(db);
+
+  const rule = String(req.query.rule || '').trim();
+  if (rule && !qualityRule(rule)) return res.status(400).json({ error: 'unknown_rule', rules: QUALITY_RULES.map((r) => r.name) });
+  const maxScore = req.query.maxScore ? Math.max(0, Math.min(100, Number(req.query.maxScore))) : 100;
+  const report = qualityReport(db, {
+    lang: String(req.query.lang || '').trim(),
+    status: String(req.query.status || '').trim(),
+    rule,
+    maxScore: Number.isFinite(maxScore) ? maxScore : 100,
+    limit: Math.max(1, Math.min(200, Number(req.query.limit || 60) || 60)),
+    offset: Math.max(0, Number(req.query.offset || 0) || 0)
+  });
+  res.json({ now: nowIso(), scoredAt: metaGet('quality_scored_at')?.value || null, ...report });
+});
+
+app.post('/api/admin/quality/refresh', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const scored = refreshQualityScores(db);
+  res.json({ ok: true, scored, scoredAt: metaGet('quality_scored_at')?.value || null });
+});
+
+// --- Duplicate movies ---
+app.get('/api/admin/duplicates', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const limit = Math.max(1, Math.min(200, Number(req.query.limit || 50) || 50));
+  const minScore = Math.max(0, Math.min(1, Number(req.query.minScore || 0.6) || 0.6));
+  res.json({ now: nowIso(), pairs: findDuplicateMovies(db, { limit, minScore }) });
+});
+
+app.post('/api/admin/duplicates/merge', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const fromId = normalizeMovieIdInput(req.body?.fromId);
+  const toId = normalizeMovieIdInput(req.body?.toId);
+  if (!fromId || !toId) return res.status(400).json({ error: 'missing_ids' });
+  try {
+    // Both sides get a revision, so either can be brought back from the timeline.
+    const result = adminMovieRevision(token, fromId, 'merge', () =>
+      adminMovieRevision(token, toId, 'merge', () => mergeMovies(db, fromId, toId, { actor: token }))
+    );
+    res.json({ ok: true, ...result, movie: hydrateMovie(db, result.toId) });
+  } catch (err) {
+    if (err?.code === 'not_found') return res.status(404).json({ error: 'not_found', message: err.message });
+    if (err?.code === 'same_movie') return res.status(400).json({ error: 'same_movie' });
+    res.status(500).json({ error: 'merge_failed', message: String(err?.message || err) });
+  }
+});
+
+app.post('/api/admin/duplicates/dismiss', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const a = normalizeMovieIdInput(req.body?.a);
+  const b = normalizeMovieIdInput(req.body?.b);
+  if (!a || !b || a === b) return res.status(400).json({ error: 'missing_ids' });
+  dismissDuplicatePair(db, a, b, { actor: token });
+  res.json({ ok: true });
+});
+
+// Edit history of a movie or person, newest first (snapshots via /api/admin/revisions/:id).
+app.get('/api/admin/revisions', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const entityType = String(req.query.entityType || 'movie');
+  if (!['movie', 'person', 'series'].includes(entityType)) return res.status(400).json({ error: 'invalid_entity_type' });
+  const rawId = String(req.query.entityId || '').trim();
+  const entityId =
+    entityType === 'movie' ? normalizeMovieIdInput(rawId) : entityType === 'series' ? normalizeSeriesIdInput(rawId) : rawId;
+  if (!entityId) return res.status(400).json({ error: 'missing_entity_id' });
+  const limit = Math.max(1, Math.min(200, Number(req.query.limit || 50) || 50));
+  const offset = Math.max(0, Number(req.query.offset || 0) || 0);
+  res.json({ entityType, entityId, revisions: listRevisions(db, entityType, entityId, { limit, offset }) });
+});
+
+app.get('/api/admin/revisions/:id', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  const revision = getRevision(db, req.params.id);
+  if (!revision) return res.status(404).json({ error: 'not_found' });
+  res.json({ revision });
+});
+
+// Put the record back the way it was before this revision; the revert is itself a revision.
+app.post('/api/admin/revisions/:id/revert', (req, res) => {
+  const token = requireAdmin(req, res);
+  if (!token) return;
+  try {
+    const result = revertRevision(db, req.params.id, { actor: adminActor(token) });
+    if (result.entityType === 'movie') refreshQualityScores(db, { movieIds: [result.entityId] });
+    res.json({ ok: true, ...result });
+  } catch (err) {
+    if (err?.code === 'not_found') return res.status(404).json({ error: 'not_found' });
+    if (err?.code === 'cannot_revert') return res.status(400).json({ error: 'cannot_revert', message: err.message });
+    res.status(500).json({ error: 'revert_failed', message: String(err?.message || err) });
+  }
+});
+
 app.post('/api/admin/movies/:id/refresh', async (req, res) => {
   const token = requireAdmin(req, res);
   if (!token) return;
@@ -4650,7 +5665,7 @@ app.post('/api/admin/movies/:id/refresh', async (req, res) => {
 
   const forceSongs = req.body?.forceSongs === true;
   try {
-    await enrichMovieIfNeeded(movieId, { forceFull: true, forceSongs });
+    await enrichMovieIfNeeded(movieId, { forceFull: true, forceSongs, actor: adminActor(token) });
   } catch {
     // ignore
   }
@@ -4680,19 +5695,25 @@ app.post('/api/admin/movies/:id/cast/add', async (req, res) => {
       try {
         const full = await tmdbGetPersonFull(tmdbPersonId);
         const ts = nowIso();
-        db.prepare(
-          `
-          INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?)
-          ON CONFLICT(id) DO UPDATE SET
-            name=excluded.name,
-            name_soundex=excluded.name_soundex,
-            first_name_soundex=excluded.first_name_soundex,
-            biography=excluded.biography,
-            profile_image=excluded.profile_image,
-            updated_at=excluded.updated_at
-        `
-        ).run(personId, full.tmdbId, full.name, soundex(full.name), soundex(full.name.trim().split(/\s+/)[0] || full.name), full.biography || '', full.profileImage || '', ts, ts);
+        withPersonRevision(
+          personId,
+          'ingest',
+          () =>
+            db.prepare(
+              `
+              INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?)
+              ON CONFLICT(id) DO UPDATE SET
+                name=excluded.name,
+                name_soundex=excluded.name_soundex,
+                first_name_soundex=excluded.first_name_soundex,
+                biography=excluded.biography,
+                profile_image=excluded.profile_image,
+                updated_at=excluded.updated_at
+            `
+            ).run(personId, full.tmdbId, full.name, soundex(full.name), soundex(full.name.trim().split(/\s+/)[0] || full.name), full.biography || '', full.profileImage || '', ts, ts),
+          adminActor(token)
+        );
       } catch {
         // ignore
       }
@@ -4708,9 +5729,12 @@ app.post('/api/admin/movies/:id/cast/add', async (req, res) => {
       ? billingOrder
       : (db.prepare('SELECT COALESCE(MAX(billing_order), -1) as m FROM movie_cast WHERE movie_id = ?').get(movieId)?.m || -1) + 1;
 
-  db.prepare(
-    'INSERT OR REPLACE INTO movie_cast(movie_id, person_id, character, billing_order) VALUES (?, ?, ?, ?)'
-  ).run(movieId, personId, character, order);
+  adminMovieRevision(token, movieId, 'admin_cast', () =>
+    db
+      .prepare('INSERT OR REPLACE INTO movie_cast(movie_id, person_id, character, billing_order) VALUES (?, ?, ?, ?)')
+      .run(movieId, personId, character, order)
+  );
+  setMovieFieldLock(db, movieId, 'cast', true, token);
 
   res.json({ ok: true });
 });
@@ -4721,7 +5745,10 @@ app.post('/api/admin/movies/:id/cast/remove', (req, res) => {
   const movieId = normalizeMovieIdInput(req.params.id);
   const personId = String(req.body?.personId || '').trim();
   if (!movieId || !personId) return res.status(400).json({ error: 'missing_fields' });
-  db.prepare('DELETE FROM movie_cast WHERE movie_id = ? AND person_id = ?').run(movieId, personId);
+  const removed = adminMovieRevision(token, movieId, 'admin_cast', () =>
+    db.prepare('DELETE FROM movie_cast WHERE movie_id = ? AND person_id = ?').run(movieId, personId)
+  );
+  if (removed.changes) setMovieFieldLock(db, movieId, 'cast', true, token);
   res.json({ ok: true });
 });
 
@@ -4736,50 +5763,74 @@ app.post('/api/admin/movies/:id/songs/upsert', (req, res) => {
   const payload = req.body?.song ? [req.body.song] : Array.isArray(req.body?.songs) ? req.body.songs : [];
   if (!payload.length) return res.status(400).json({ error: 'missing_songs' });
 
-  const ts = nowIso();
-  db.exec('BEGIN');
-  try {
-    for (const s of payload.slice(0, 30)) {
-      const title = String(s?.title || '').trim().slice(0, 140);
-      if (!title) continue;
-      const singers = Array.isArray(s?.singers) ? s.singers.slice(0, 12).map((x) => String(x).trim().slice(0, 80)).filter(Boolean) : [];
-      const youtubeUrl = s?.youtubeUrl ? String(s.youtubeUrl).trim().slice(0, 400) : '';
-      const platform = s?.platform ? String(s.platform).trim().slice(0, 40) : 'YouTube';
-
-      let songId = s?.id ? String(s.id).trim() : '';
-      if (songId) {
-        const row = db.prepare('SELECT id FROM songs WHERE id = ? AND movie_id = ?').get(songId, movieId);
-        if (!row) songId = '';
-      }
-      if (!songId) {
-        const salt = crypto.randomBytes(8).toString('hex');
-        songId = hashId('song', `${movieId}:admin:${normalizeText(title)}:${salt}`);
-      }
+  const saved = adminMovieRevision(token, movieId, 'admin_songs', () => {
+    const ts = nowIso();
+    db.exec('BEGIN');
+    try {
+      for (const s of payload.slice(0, 30)) {
+        const title = String(s?.title || '').trim().slice(0, 140);
+        if (!title) continue;
+        const singers = Array.isArray(s?.singers) ? s.singers.slice(0, 12).map((x) => String(x).trim().slice(0, 80)).filter(Boolean) : [];
+        const youtubeUrl = s?.youtubeUrl ? String(s.youtubeUrl).trim().slice(0, 400) : '';
+        const platform = s?.platform ? String(s.platform).trim().slice(0, 40) : 'YouTube';
+
+        let songId = s?.id ? String(s.id).trim() : '';
+        // Edits keep the album position and length of a reconciled track; the edited fields become admin's.
+        let kept = null;
+        if (songId) {
+          kept = db
+            .prepare('SELECT id, track_no, duration_sec, field_sources_json FROM songs WHERE id = ? AND movie_id = ?')
+            .get(songId, movieId);
+          if (!kept) songId = '';
+        }
+        const fieldSources = kept?.field_sources_json
+          ? JSON.stringify({ ...JSON.parse(String(kept.field_sources_json)), title: 'admin', singers: 'admin', youtubeUrl: 'admin' })
+          : null;
+        if (!songId) {
+          const salt = crypto.randomBytes(8).toString('hex');
+          songId = hashId('song', `${movieId}:admin:${normalizeText(title)}:${salt}`);
+        }
 
-      db.prepare(
+        db.prepare(
+          `
+          INSERT OR REPLACE INTO songs(
+            id, movie_id, title, singers_json, youtube_url, platform, source, track_no, duration_sec, field_sources_json, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `
-        INSERT OR REPLACE INTO songs(
-          id, movie_id, title, singers_json, youtube_url, platform, source, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `
-      ).run(songId, movieId, title, JSON.stringify(singers), youtubeUrl, platform, 'admin', ts);
-
-      db.prepare("DELETE FROM attributions WHERE entity_type = 'song' AND entity_id = ?").run(songId);
-      db.prepare(
-        'INSERT OR REPLACE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-      ).run(hashId('attr', `${songId}:admin`), 'song', songId, 'admin', token, '', ts);
+        ).run(
+          songId,
+          movieId,
+          title,
+          JSON.stringify(singers),
+          youtubeUrl,
+          platform,
+          'admin',
+          kept?.track_no ?? null,
+          kept?.duration_sec ?? null,
+          fieldSources,
+          ts
+        );
 
-      if (youtubeUrl) {
+        db.prepare("DELETE FROM attributions WHERE entity_type = 'song' AND entity_id = ?").run(songId);
         db.prepare(
           'INSERT OR REPLACE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-        ).run(hashId('attr', `${songId}:youtube`), 'song', songId, 'youtube', '', youtubeUrl, ts);
+        ).run(hashId('attr', `${songId}:admin`), 'song', songId, 'admin', token, '', ts);
+
+        if (youtubeUrl) {
+          db.prepare(
+            'INSERT OR REPLACE INTO attributions(id, entity_type, entity_id, provider, provider_id, url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+          ).run(hashId('attr', `${songId}:youtube`), 'song', songId, 'youtube', '', youtubeUrl, ts);
+        }
       }
+      db.exec('COMMIT');
+      return true;
+    } catch {
+      try { db.exec('ROLLBACK'); } catch { /* ignore */ }
+      return false;
     }
-    db.exec('COMMIT');
-  } catch {
-    try { db.exec('ROLLBACK'); } catch { /* ignore */ }
-    return res.status(500).json({ error: 'upsert_failed' });
-  }
+  });
+  if (!saved) return res.status(500).json({ error: 'upsert_failed' });
+  setMovieFieldLock(db, movieId, 'songs', true, token);
 
   res.json({ ok: true });
 });
@@ -4794,8 +5845,11 @@ app.post('/api/admin/movies/:id/songs/:songId/delete', (req, res) => {
   const row = db.prepare('SELECT id FROM songs WHERE id = ? AND movie_id = ?').get(songId, movieId);
   if (!row) return res.json({ ok: true });
 
-  db.prepare("DELETE FROM attributions WHERE entity_type = 'song' AND entity_id = ?").run(songId);
-  db.prepare('DELETE FROM songs WHERE id = ? AND movie_id = ?').run(songId, movieId);
+  adminMovieRevision(token, movieId, 'admin_songs', () => {
+    db.prepare("DELETE FROM attributions WHERE entity_type = 'song' AND entity_id = ?").run(songId);
+    db.prepare('DELETE FROM songs WHERE id = ? AND movie_id = ?').run(songId, movieId);
+  });
+  setMovieFieldLock(db, movieId, 'songs', true, token);
   res.json({ ok: true });
 });
 
@@ -4944,7 +5998,7 @@ setInterval(() => {
 
 app.get('/api/search', async (req, res) => {
   const q = String(req.query.q || '').trim();
-  if (!q) return res.json({ movies: [], persons: [] });
+  if (!q) return res.json({ movies: [], persons: [], series: [] });
 
   const cacheKey = q.toLowerCase();
   const cached = searchCache.get(cacheKey);
@@ -4953,6 +6007,7 @@ app.get('/api/search', async (req, res) => {
   }
 
   const local = searchLocal(db, q);
+  const localSeries = searchSeriesLocal(db, q);
 
   // Treat local persons-only results as low-quality if none of them appear in any Indian movie.
   // This prevents non-Indian actors (e.g. "Reka Gabor" for "reka") from blocking the TMDB path
@@ -4965,12 +6020,22 @@ app.get('/api/search', async (req, res) => {
     )
     .get(...local.persons.map((p) => p.id));
 
-  if (local.movies.length || localPersonsHaveIndianMovies) {
+  if (local.movies.length || localSeries.length || localPersonsHaveIndianMovies) {
     // Enrich top results in the background — don't block the response.
     setImmediate(async () => {
       for (const m of local.movies.slice(0, 3)) {
         enrichMovieIfNeeded(m.id).catch(() => {});
       }
+      // A title match on films only may still be a show we have not stored (e.g. "Kota Factory").
+      if (!localSeries.length) {
+        try {
+          const tvHits = await tmdbSearchTv(q).catch(() => []);
+          const hit = tvHits.find((h) => !db.prepare('SELECT 1 FROM series WHERE id = ?').get(makeId('tmdb-tv', h.tmdbId)));
+          if (hit && (await ingestSeriesFromTmdb(hit.tmdbId, { action: 'search_ingest', indianOnly: true }))) {
+            searchCache.delete(cacheKey);
+          }
+        } catch { /* ignore */ }
+      }
       // When a person is found but has few local movies, fetch more of their filmography
       // from TMDB in the background so the next search shows a fuller picture.
       if (local.persons.length && local.movies.length < 10) {
@@ -4984,7 +6049,7 @@ app.get('/api/search', async (req, res) => {
             for (const f of topMovies) {
               try {
                 const movieFull = await tmdbGetMovieFull(f.tmdbId);
-                if (isLikelyIndianMovie(movieFull)) upsertMovieFromTmdb(db, movieFull);
+                if (isLikelyIndianMovie(movieFull)) withTmdbMovieRevision(movieFull.tmdbId, 'search_ingest', () => upsertMovieFromTmdb(db, movieFull));
               } catch { /* ignore */ }
             }
           } catch { /* ignore */ }
@@ -5003,19 +6068,21 @@ app.get('/api/search', async (req, res) => {
             try {
               const full = await tmdbGetPersonFull(hit.tmdbId);
               const ts = nowIso();
-              db.prepare(
-                `INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, tmdb_popularity, created_at, updated_at)
-                 VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?, ?)
-                 ON CONFLICT(id) DO UPDATE SET
-                   name=excluded.name, name_soundex=excluded.name_soundex, first_name_soundex=excluded.first_name_soundex,
-                   biography=excluded.biography, profile_image=excluded.profile_image,
-                   tmdb_popularity=excluded.tmdb_popularity, updated_at=excluded.updated_at`
-              ).run(pid, full.tmdbId, full.name, soundex(full.name), soundex(full.name.trim().split(/\s+/)[0] || full.name), full.biography || '', full.profileImage || '', full.popularity || 0, ts, ts);
+              withPersonRevision(pid, 'search_ingest', () =>
+                db.prepare(
+                  `INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, tmdb_popularity, created_at, updated_at)
+                   VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?, ?)
+                   ON CONFLICT(id) DO UPDATE SET
+                     name=excluded.name, name_soundex=excluded.name_soundex, first_name_soundex=excluded.first_name_soundex,
+                     biography=excluded.biography, profile_image=excluded.profile_image,
+                     tmdb_popularity=excluded.tmdb_popularity, updated_at=excluded.updated_at`
+                ).run(pid, full.tmdbId, full.name, soundex(full.name), soundex(full.name.trim().split(/\s+/)[0] || full.name), full.biography || '', full.profileImage || '', full.popularity || 0, ts, ts)
+              );
               updatePersonFts(db, pid);
               for (const f of (full.filmography || []).filter((f) => f.mediaType === 'movie' && typeof f.tmdbId === 'number').slice(0, 10)) {
                 try {
                   const mf = await tmdbGetMovieFull(f.tmdbId);
-                  if (isLikelyIndianMovie(mf)) upsertMovieFromTmdb(db, mf);
+                  if (isLikelyIndianMovie(mf)) withTmdbMovieRevision(mf.tmdbId, 'search_ingest', () => upsertMovieFromTmdb(db, mf));
                 } catch { /* ignore */ }
               }
               changed = true;
@@ -5031,15 +6098,16 @@ app.get('/api/search', async (req, res) => {
         if (changed) searchCache.delete(cacheKey);
       } catch { /* ignore */ }
     });
-    const data = { ...local, source: 'local' };
+    const data = { ...local, series: localSeries, source: 'local' };
     searchCache.set(cacheKey, { data, ts: Date.now() });
     return res.json(data);
   }
 
   // Not found locally -> real-time search across providers (TMDB + YouTube + Wikipedia).
-  let [movieHits, personHits] = await Promise.all([
+  let [movieHits, personHits, tvHits] = await Promise.all([
     tmdbSearchMovie(q).catch(() => []),
-    tmdbSearchPerson(q).catch(() => [])
+    tmdbSearchPerson(q).catch(() => []),
+    tmdbSearchTv(q).catch(() => [])
   ]);
 
   // Typo/alias fallback: use Wikipedia search to find the canonical page title, then retry TMDB.
@@ -5072,9 +6140,13 @@ app.get('/api/search', async (req, res) => {
 
   const upsertedMovieIds = [];
   const upsertedPersonIds = [];
+  const upsertedSeriesIds = [];
 
   const upsertMovieHit = async (hit) => {
     if (!hit?.tmdbId) return null;
+    return withTmdbMovieRevision(hit.tmdbId, 'search_ingest', () => ingestMovieHit(hit));
+  };
+  const ingestMovieHit = async (hit) => {
     const full = await tmdbGetMovieFull(hit.tmdbId);
     if (!isLikelyIndianMovie(full)) return null;
     const movieId = upsertMovieFromTmdb(db, full);
@@ -5089,14 +6161,8 @@ app.get('/api/search', async (req, res) => {
       // ignore
     }
 
-    // If TMDB trailer is missing, try YouTube "official trailer".
-    if (!full.trailerUrl) {
-      const yt = await youtubeSearchCached(db, `${full.title} official trailer`).catch(() => []);
-      const trailerUrl = yt[0]?.youtubeUrl || '';
-      if (trailerUrl) {
-        db.prepare('UPDATE movies SET trailer_url = ?, updated_at = ? WHERE id = ?').run(trailerUrl, nowIso(), movieId);
-      }
-    }
+    // If TMDB trailer is missing, rank YouTube trailer candidates.
+    await refreshTrailerIfMissing(movieId, full);
 
     // Songs playlist
     const year = full.releaseDate ? Number(String(full.releaseDate).slice(0, 4)) : null;
@@ -5108,16 +6174,7 @@ app.get('/api/search', async (req, res) => {
     }).catch(() => null);
     if (wiki?.tracks?.length) {
       const ytMode = tokenize(full.title).length <= 1 ? 'strict' : 'bestEffort';
-      const trackMap = await youtubeMatchVideosForTracklist({
-        movieTitle: full.title,
-        language: full.language,
-        year,
-        tracks: wiki.tracks,
-        mode: ytMode
-      }).catch(() => new Map());
-      const songs = wiki.tracks
-        .slice(0, 20)
-        .map((t) => ({ title: t, singers: [], youtubeUrl: trackMap.get(t) || '' }));
+      const songs = await wikipediaSongsWithVideos(wiki, { movieTitle: full.title, language: full.language, year, mode: ytMode });
       replaceSongsForMovie(db, movieId, songs, { source: 'wikipedia', platform: 'YouTube', wikiUrl: wiki.url || '' });
     } else {
       const hints = hintTokensFromNames((full.cast || []).slice(0, 8).map((c) => c?.name).filter(Boolean));
@@ -5139,29 +6196,41 @@ app.get('/api/search', async (req, res) => {
     }
   }
 
+  for (const hit of tvHits) {
+    if (upsertedSeriesIds.length >= 2) break;
+    try {
+      const seriesId = await ingestSeriesFromTmdb(hit.tmdbId, { action: 'search_ingest', indianOnly: true });
+      if (seriesId) upsertedSeriesIds.push(seriesId);
+    } catch {
+      // ignore
+    }
+  }
+
   for (const hit of personHits.slice(0, 3)) {
     const personId = makeId('tmdb-person', hit.tmdbId);
     try {
       const full = await tmdbGetPersonFull(hit.tmdbId);
-      const ts = nowIso();
-      db.prepare(
+      await withPersonRevision(personId, 'search_ingest', async () => {
+        const ts = nowIso();
+        db.prepare(
+          `
+          INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            name=excluded.name,
+            name_soundex=excluded.name_soundex,
+            first_name_soundex=excluded.first_name_soundex,
+            biography=excluded.biography,
+            profile_image=excluded.profile_image,
+            updated_at=excluded.updated_at
         `
-        INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?)
-        ON CONFLICT(id) DO UPDATE SET
-          name=excluded.name,
-          name_soundex=excluded.name_soundex,
-          first_name_soundex=excluded.first_name_soundex,
-          biography=excluded.biography,
-          profile_image=excluded.profile_image,
-          updated_at=excluded.updated_at
-      `
-      ).run(personId, full.tmdbId, full.name, soundex(full.name), soundex(full.name.trim().split(/\s+/)[0] || full.name), full.biography, full.profileImage, ts, ts);
+        ).run(personId, full.tmdbId, full.name, soundex(full.name), soundex(full.name.trim().split(/\s+/)[0] || full.name), full.biography, full.profileImage, ts, ts);
 
-      const wikiTitle = await wikipediaSearchTitle(full.name, { db }).catch(() => null);
-      const wiki = await wikipediaSummaryByTitle(wikiTitle, { db }).catch(() => null);
-      updatePersonWiki(db, personId, wiki);
-      updatePersonFts(db, personId);
+        const wikiTitle = await wikipediaSearchTitle(full.name, { db }).catch(() => null);
+        const wiki = await wikipediaSummaryByTitle(wikiTitle, { db }).catch(() => null);
+        updatePersonWiki(db, personId, wiki);
+        updatePersonFts(db, personId);
+      });
       upsertedPersonIds.push(personId);
 
       // Pull top filmography titles so "search by cast" returns movies too.
@@ -5170,33 +6239,26 @@ app.get('/api/search', async (req, res) => {
         .slice(0, 15);
       for (const f of topMovies) {
         try {
-          const movieFull = await tmdbGetMovieFull(f.tmdbId);
-          const movieId = upsertMovieFromTmdb(db, movieFull);
-          const year = movieFull.releaseDate ? Number(String(movieFull.releaseDate).slice(0, 4)) : null;
-          const wiki = await wikipediaTracklistForMovie({
-            title: movieFull.title,
-            year,
-            language: movieFull.language,
-            castNames: (movieFull.cast || []).slice(0, 2).map((c) => c?.name).filter(Boolean)
-          }).catch(() => null);
-          if (wiki?.tracks?.length) {
-            const ytMode = tokenize(movieFull.title).length <= 1 ? 'strict' : 'bestEffort';
-            const trackMap = await youtubeMatchVideosForTracklist({
-              movieTitle: movieFull.title,
-              language: movieFull.language,
+          await withTmdbMovieRevision(f.tmdbId, 'search_ingest', async () => {
+            const movieFull = await tmdbGetMovieFull(f.tmdbId);
+            const movieId = upsertMovieFromTmdb(db, movieFull);
+            const year = movieFull.releaseDate ? Number(String(movieFull.releaseDate).slice(0, 4)) : null;
+            const wiki = await wikipediaTracklistForMovie({
+              title: movieFull.title,
               year,
-              tracks: wiki.tracks,
-              mode: ytMode
-            }).catch(() => new Map());
-            const songs = wiki.tracks
-              .slice(0, 20)
-              .map((t) => ({ title: t, singers: [], youtubeUrl: trackMap.get(t) || '' }));
-            replaceSongsForMovie(db, movieId, songs, { source: 'wikipedia', platform: 'YouTube', wikiUrl: wiki.url || '' });
-          } else {
-            const hints = hintTokensFromNames((movieFull.cast || []).slice(0, 8).map((c) => c?.name).filter(Boolean));
-            const songs = await youtubeSearchSongsForMovie({ title: movieFull.title, year, language: movieFull.language, hints }).catch(() => []);
-            replaceSongsFromYoutube(db, movieId, songs);
-          }
+              language: movieFull.language,
+              castNames: (movieFull.cast || []).slice(0, 2).map((c) => c?.name).filter(Boolean)
+            }).catch(() => null);
+            if (wiki?.tracks?.length) {
+              const ytMode = tokenize(movieFull.title).length <= 1 ? 'strict' : 'bestEffort';
+              const songs = await wikipediaSongsWithVideos(wiki, { movieTitle: movieFull.title, language: movieFull.language, year, mode: ytMode });
+              replaceSongsForMovie(db, movieId, songs, { source: 'wikipedia', platform: 'YouTube', wikiUrl: wiki.url || '' });
+            } else {
+              const hints = hintTokensFromNames((movieFull.cast || []).slice(0, 8).map((c) => c?.name).filter(Boolean));
+              const songs = await youtubeSearchSongsForMovie({ title: movieFull.title, year, language: movieFull.language, hints }).catch(() => []);
+              replaceSongsFromYoutube(db, movieId, songs);
+            }
+          });
         } catch {
           // ignore
         }
@@ -5254,7 +6316,10 @@ app.get('/api/search', async (req, res) => {
     }
   }
 
-  const data = { ...refreshed, source: 'providers', ...(didYouMean ? { didYouMean } : {}) };
+  let series = searchSeriesLocal(db, q);
+  if (!series.length) series = upsertedSeriesIds.map((id) => hydrateSeries(db, id)).filter(Boolean);
+
+  const data = { ...refreshed, series, source: 'providers', ...(didYouMean ? { didYouMean } : {}) };
   searchCache.set(cacheKey, { data, ts: Date.now() });
   res.json(data);
 });
@@ -5280,6 +6345,8 @@ app.get('/api/movies/:id', async (req, res) => {
     : /^\d+$/.test(rawId)
       ? makeId('tmdb-movie', Number(rawId))
       : rawId;
+  // A merged duplicate answers with the surviving movie; the client replaces its URL.
+  movieId = resolveMovieAlias(db, movieId) || movieId;
   let movie = hydrateMovie(db, movieId);
 
   // If missing locally but it looks like a TMDB id, fetch in real time and cache.
@@ -5288,7 +6355,7 @@ app.get('/api/movies/:id', async (req, res) => {
     if (tmdbId) {
       try {
         const full = await tmdbGetMovieFull(tmdbId);
-        movieId = upsertMovieFromTmdb(db, full);
+        movieId = withTmdbMovieRevision(tmdbId, 'ingest', () => upsertMovieFromTmdb(db, full));
         await enrichMovieIfNeeded(movieId, { debug, autoSongs: true, autoOtt: true });
         movie = hydrateMovie(db, movieId);
       } catch {
@@ -5355,7 +6422,7 @@ app.get('/api/songs/:id', (req, res) => {
   const row = db
     .prepare(
       `
-      SELECT s.id, s.movie_id, s.title, s.singers_json, s.youtube_url, s.platform, s.source, s.created_at,
+      SELECT s.id, s.movie_id, s.title, s.singers_json, s.youtube_url, s.platform, s.source, s.duration_sec, s.created_at,
              m.title as movie_title
       FROM songs s
       LEFT JOIN movies m ON m.id = s.movie_id
@@ -5381,6 +6448,7 @@ app.get('/api/songs/:id', (req, res) => {
     youtubeUrl: row.youtube_url || undefined,
     platform: row.platform || undefined,
     source: row.source || undefined,
+    durationSec: row.duration_sec || undefined,
     createdAt: row.created_at
   });
 });
@@ -5394,25 +6462,27 @@ app.get('/api/person/:id', async (req, res) => {
   if (!p && /^\d+$/.test(raw)) {
     try {
       const full = await tmdbGetPersonFull(Number(raw));
-      const ts = nowIso();
-      db.prepare(
+      await withPersonRevision(personId, 'ingest', async () => {
+        const ts = nowIso();
+        db.prepare(
+          `
+          INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            name=excluded.name,
+            name_soundex=excluded.name_soundex,
+            first_name_soundex=excluded.first_name_soundex,
+            biography=excluded.biography,
+            profile_image=excluded.profile_image,
+            updated_at=excluded.updated_at
         `
-        INSERT INTO persons (id, tmdb_id, name, name_soundex, first_name_soundex, biography, wiki_url, profile_image, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?)
-        ON CONFLICT(id) DO UPDATE SET
-          name=excluded.name,
-          name_soundex=excluded.name_soundex,
-          first_name_soundex=excluded.first_name_soundex,
-          biography=excluded.biography,
-          profile_image=excluded.profile_image,
-          updated_at=excluded.updated_at
-      `
-      ).run(personId, full.tmdbId, full.name, soundex(full.name), soundex(full.name.trim().split(/\s+/)[0] || full.name), full.biography, full.profileImage, ts, ts);
+        ).run(personId, full.tmdbId, full.name, soundex(full.name), soundex(full.name.trim().split(/\s+/)[0] || full.name), full.biography, full.profileImage, ts, ts);
 
-      const wikiTitle = await wikipediaSearchTitle(full.name, { db }).catch(() => null);
-      const wiki = await wikipediaSummaryByTitle(wikiTitle, { db }).catch(() => null);
-      updatePersonWiki(db, personId, wiki);
-      updatePersonFts(db, personId);
+        const wikiTitle = await wikipediaSearchTitle(full.name, { db }).catch(() => null);
+        const wiki = await wikipediaSummaryByTitle(wikiTitle, { db }).catch(() => null);
+        updatePersonWiki(db, personId, wiki);
+        updatePersonFts(db, personId);
+      });
       p = hydratePerson(db, personId);
     } catch {
       // ignore
@@ -5430,8 +6500,10 @@ app.get('/api/person/:id', async (req, res) => {
       if (!p.wikiUrl) {
         const wikiTitle = await wikipediaSearchTitle(p.name, { db }).catch(() => null);
         const wiki = await wikipediaSummaryByTitle(wikiTitle, { db }).catch(() => null);
-        updatePersonWiki(db, personId, wiki);
-        updatePersonFts(db, personId);
+        withPersonRevision(personId, 'enrich', () => {
+          updatePersonWiki(db, personId, wiki);
+          updatePersonFts(db, personId);
+        });
       }
     } catch {
       // ignore
@@ -5443,6 +6515,99 @@ app.get('/api/person/:id', async (req, res) => {
   res.json({ ...refreshed, filmography: Array.isArray(filmography) ? filmography : fallbackFilmography });
 });
 
+// A series by TMDB TV id or stored id. Unknown TMDB ids are fetched and stored on first request.
+app.get('/api/series/:id', async (req, res) => {
+  const seriesId = normalizeSeriesIdInput(req.params.id);
+  const refresh = String(req.query.refresh || '') === '1';
+  const tmdbId = seriesId.startsWith('tmdb-tv:') ? Number(seriesId.split(':')[1]) : null;
+  let series = hydrateSeries(db, seriesId);
+  if ((!series || refresh) && tmdbId) {
+    try {
+      await ingestSeriesFromTmdb(tmdbId, { action: series ? 'refresh' : 'ingest' });
+      series = hydrateSeries(db, seriesId);
+    } catch {
+      // ignore
+    }
+  }
+  if (!series) return res.status(404).json({ error: 'not_found' });
+  res.json(series);
+});
+
+// A production house by slug: filmography newest first, upcoming slate and language breakdown.
+app.get('/api/studios/:slug', (req, res) => {
+  const studio = hydrateStudio(db, String(req.params.slug || ''));
+  if (!studio) return res.status(404).json({ error: 'not_found' });
+  res.json(studio);
+});
+
+// Parts of a TMDB collection stored per first visit; the rest arrive with search or seeding.
+const COLLECTION_INGEST_PARTS = 12;
+const collectionPartsInFlight = new Map(); // collection id -> Promise<void>
+
+// Store the Indian parts of a TMDB collection that the catalog does not have yet. Each stored part
+// links itself through its own `belongs_to_collection`.
+function ingestCollectionParts(collection) {
+  if (collectionPartsInFlight.has(collection.id)) return collectionPartsInFlight.get(collection.id);
+  const p = (async () => {
+    const full = await tmdbGetCollection(collection.tmdb_id);
+    upsertTmdbCollection(db, full);
+    const missing = full.parts
+      .filter((part) => {
+        const id = makeId('tmdb-movie', part.tmdbId);
+        return !db.prepare('SELECT 1 FROM movies WHERE id = ?').get(resolveMovieAlias(db, id) || id);
+      })
+      .slice(0, COLLECTION_INGEST_PARTS);
+    for (const part of missing) {
+      try {
+        const movieFull = await tmdbGetMovieFull(part.tmdbId);
+        if (isLikelyIndianMovie(movieFull)) withTmdbMovieRevision(movieFull.tmdbId, 'ingest', () => upsertMovieFromTmdb(db, movieFull));
+      } catch {
+        // Skip this part; the others still land.
+      }
+    }
+    markCollectionPartsFetched(db, collection.id);
+  })().finally(() => collectionPartsInFlight.delete(collection.id));
+  collectionPartsInFlight.set(collection.id, p);
+  return p;
+}
+
+// A franchise or universe; the first visit to a TMDB collection fetches its other parts.
+app.get('/api/collections/:slug', async (req, res) => {
+  const slug = String(req.params.slug || '');
+  const stored = collectionBySlug(db, slug);
+  if (!stored) return res.status(404).json({ error: 'not_found' });
+  if (stored.kind === 'collection' && stored.tmdb_id && !stored.parts_fetched_at) {
+    try {
+      await ingestCollectionParts(stored);
+    } catch {
+      // Serve what is stored.
+    }
+  }
+  res.json(hydrateCollection(db, slug));
+});
+
+// One season with episodes and cast; a season not loaded yet is fetched from TMDB first.
+app.get('/api/series/:id/season/:n', async (req, res) => {
+  const seriesId = normalizeSeriesIdInput(req.params.id);
+  const n = Number(req.params.n);
+  if (!Number.isInteger(n) || n < 0) return res.status(400).json({ error: 'invalid_season' });
+  const tmdbId = seriesId.startsWith('tmdb-tv:') ? Number(seriesId.split(':')[1]) : null;
+  if (tmdbId) {
+    try {
+      if (!db.prepare('SELECT 1 FROM series WHERE id = ?').get(seriesId)) await ingestSeriesFromTmdb(tmdbId);
+      if (seasonsMissingEpisodes(db, seriesId).includes(n)) {
+        const season = await tmdbGetTvSeason(tmdbId, n);
+        withSeriesRevision(seriesId, 'enrich', () => upsertSeasonFromTmdb(db, seriesId, season));
+      }
+    } catch {
+      // Serve what is stored.
+    }
+  }
+  const season = hydrateSeason(db, seriesId, n);
+  if (!season) return res.status(404).json({ error: 'not_found' });
+  res.json(season);
+});
+
 app.get('/api/categories', (_req, res) => {
   const genres = db
     .prepare(
@@ -5548,6 +6713,12 @@ app.get('/api/browse', async (req, res) => {
   const pageSizeRaw = req.query.pageSize ?? req.query.limit ?? 60;
   const pageSize = Math.max(1, Math.min(80, Number(pageSizeRaw) || 60));
   const offset = (page - 1) * pageSize;
+  // With includeDubs=1 a language also matches films dubbed into it (one entry per film).
+  const includeDubs = lang && String(req.query.includeDubs || '') === '1' ? 1 : 0;
+  const langWhere = `(? = '' OR lower(m.language) = lower(?) OR (? = 1 AND EXISTS (
+    SELECT 1 FROM movie_versions v WHERE v.movie_id = m.id AND lower(v.language) = lower(?)
+  )))`;
+  const langArgs = [lang, lang, includeDubs, lang];
   if (lang) {
     const haveLang = db
       .prepare('SELECT COUNT(*) as c FROM movies WHERE lower(language) = lower(?)')
@@ -5566,22 +6737,22 @@ app.get('/api/browse', async (req, res) => {
           SELECT COUNT(DISTINCT m.id) as c
           FROM movies m
           JOIN movie_genres mg ON mg.movie_id = m.id
-          WHERE (? = '' OR lower(m.language) = lower(?))
+          WHERE ${langWhere}
             AND COALESCE(m.is_indian, 1) = 1
             AND lower(mg.genre) = lower(?)
         `
         )
-        .get(lang, lang, genre)
+        .get(...langArgs, genre)
     : db
         .prepare(
           `
           SELECT COUNT(*) as c
           FROM movies m
-          WHERE (? = '' OR lower(m.language) = lower(?))
+          WHERE ${langWhere}
             AND COALESCE(m.is_indian, 1) = 1
         `
         )
-        .get(lang, lang);
+        .get(...langArgs);
   const total = Number(totalRow?.c || 0) || 0;
 
   const ids = db
@@ -5590,14 +6761,14 @@ app.get('/api/browse', async (req, res) => {
       SELECT DISTINCT m.id as id
       FROM movies m
       LEFT JOIN movie_genres mg ON mg.movie_id = m.id
-      WHERE (? = '' OR lower(m.language) = lower(?))
+      WHERE ${langWhere}
         AND COALESCE(m.is_indian, 1) = 1
         AND (? = '' OR lower(mg.genre) = lower(?))
       ORDER BY COALESCE(m.release_date, '0000-00-00') DESC
       LIMIT ? OFFSET ?
     `
     )
-    .all(lang, lang, genre, genre, pageSize, offset)
+    .all(...langArgs, genre, genre, pageSize, offset)
     .map((r) => r.id);
 
   // Ensure the first page is enriched for ratings/reviews/trailer.
@@ -5621,12 +6792,36 @@ app.get('/api/browse', async (req, res) => {
     pageSize,
     total,
     hasMore: offset + ids.length < total,
-    filters: { lang: lang || null, genre: genre || null }
+    filters: { lang: lang || null, genre: genre || null, includeDubs: !!includeDubs }
   });
 });
 
 // "Streaming now" browse: reads from local DB (ott_offers) and does not block on provider calls.
 // Accuracy depends on how recently offers were refreshed for each movie.
+// Indian series with a streaming offer matching the filters, most recently aired first.
+function streamingSeriesIds({ provider = '', lang = '', genre = '', region = '' } = {}, limit = 12) {
+  return db
+    .prepare(
+      `
+      SELECT s.id as id, MAX(COALESCE(s.last_air_date, s.first_air_date, '0000-00-00')) as aired
+      FROM series_ott_offers o
+      JOIN series s ON s.id = o.series_id
+      LEFT JOIN series_genres sg ON sg.series_id = s.id
+      WHERE o.offer_type = 'Streaming'
+        AND COALESCE(s.is_indian, 1) = 1
+        AND (? = '' OR lower(o.provider) = lower(?))
+        AND (? = '' OR lower(s.language) = lower(?))
+        AND (? = '' OR lower(sg.genre) = lower(?))
+        AND (? = '' OR lower(COALESCE(o.region, '')) = lower(?))
+      GROUP BY s.id
+      ORDER BY aired DESC, MIN(s.title) ASC
+      LIMIT ?
+    `
+    )
+    .all(provider, provider, lang, lang, genre, genre, region, region, limit)
+    .map((r) => r.id);
+}
+
 app.get('/api/streaming', (req, res) => {
   const provider = String(req.query.provider || '').trim();
   const lang = String(req.query.lang || '').trim();
@@ -5681,25 +6876,37 @@ app.get('/api/streaming', (req, res) => {
     .all(...args, pageSize, offset)
     .map((r) => r.id);
 
+  // Provider facets count movies and series.
   const providers = db
     .prepare(
       `
-      SELECT o.provider as provider,
-             COUNT(DISTINCT m.id) as c,
-             MAX(CASE WHEN COALESCE(o.logo, '') != '' THEN o.logo ELSE NULL END) as logo,
-             MAX(o.created_at) as last_verified_at
-      FROM ott_offers o
-      JOIN movies m ON m.id = o.movie_id
-      WHERE o.offer_type = 'Streaming'
-        AND COALESCE(m.is_indian, 1) = 1
-        AND (? = '' OR lower(m.language) = lower(?))
-        AND (? = '' OR lower(COALESCE(o.region, '')) = lower(?))
-      GROUP BY o.provider
-      ORDER BY c DESC, o.provider ASC
+      SELECT provider,
+             COUNT(DISTINCT title_id) as c,
+             MAX(CASE WHEN COALESCE(logo, '') != '' THEN logo ELSE NULL END) as logo,
+             MAX(created_at) as last_verified_at
+      FROM (
+        SELECT o.provider, m.id as title_id, o.logo, o.created_at
+        FROM ott_offers o
+        JOIN movies m ON m.id = o.movie_id
+        WHERE o.offer_type = 'Streaming'
+          AND COALESCE(m.is_indian, 1) = 1
+          AND (? = '' OR lower(m.language) = lower(?))
+          AND (? = '' OR lower(COALESCE(o.region, '')) = lower(?))
+        UNION ALL
+        SELECT o.provider, s.id as title_id, o.logo, o.created_at
+        FROM series_ott_offers o
+        JOIN series s ON s.id = o.series_id
+        WHERE o.offer_type = 'Streaming'
+          AND COALESCE(s.is_indian, 1) = 1
+          AND (? = '' OR lower(s.language) = lower(?))
+          AND (? = '' OR lower(COALESCE(o.region, '')) = lower(?))
+      )
+      GROUP BY provider
+      ORDER BY c DESC, provider ASC
       LIMIT 30
     `
     )
-    .all(lang, lang, region, region)
+    .all(lang, lang, region, region, lang, lang, region, region)
     .map((r) => ({
       provider: r.provider,
       count: Number(r.c || 0) || 0,
@@ -5713,6 +6920,8 @@ app.get('/api/streaming', (req, res) => {
     providers,
     lastVerifiedAt,
     movies: ids.map((id) => hydrateMovie(db, id)).filter(Boolean),
+    // Series are not paged: the first page carries a shelf of them.
+    series: page === 1 ? streamingSeriesIds({ provider, lang, genre, region }).map((id) => hydrateSeries(db, id)).filter(Boolean) : [],
     page,
     pageSize,
     total,
@@ -5901,6 +7110,44 @@ app.get('/sitemap.xml', (req, res) => {
     });
   }
 
+  const seriesRows = db
+    .prepare(
+      `
+      SELECT tmdb_id, updated_at
+      FROM series
+      WHERE tmdb_id IS NOT NULL AND COALESCE(is_indian, 1) = 1
+      ORDER BY COALESCE(updated_at, created_at) DESC
+      LIMIT ?
+    `
+    )
+    .all(personLimit);
+  for (const s of seriesRows) {
+    const lastmod = String(s.updated_at || '').slice(0, 10);
+    urls.push({
+      loc: `${base}/series/${encodeURIComponent(String(s.tmdb_id))}`,
+      lastmod: /^\d{4}-\d{2}-\d{2}$/.test(lastmod) ? lastmod : null,
+      priority: '0.6'
+    });
+  }
+
+  for (const st of listStudioSlugs(db, { limit: personLimit })) {
+    const lastmod = String(st.updated_at || '').slice(0, 10);
+    urls.push({
+      loc: `${base}/studio/${encodeURIComponent(st.slug)}`,
+      lastmod: /^\d{4}-\d{2}-\d{2}$/.test(lastmod) ? lastmod : null,
+      priority: '0.6'
+    });
+  }
+
+  for (const c of listCollectionSlugs(db, { limit: personLimit })) {
+    const lastmod = String(c.updated_at || '').slice(0, 10);
+    urls.push({
+      loc: `${base}/collection/${encodeURIComponent(c.slug)}`,
+      lastmod: /^\d{4}-\d{2}-\d{2}$/.test(lastmod) ? lastmod : null,
+      priority: '0.6'
+    });
+  }
+
   res.setHeader('Content-Type', 'application/xml; charset=utf-8');
   res.setHeader('Cache-Control', 'public, max-age=3600');
   const body =
@@ -5941,6 +7188,20 @@ app.use((req, res, next) => {
   const mw = getStaticMw();
   return mw ? mw(req, res, next) : next();
 });
+
+// Merged duplicates keep their old URLs: /movie/<old id>(/reviews) 301s to the surviving movie.
+app.get(['/movie/:id', '/movie/:id/reviews'], (req, res, next) => {
+  const raw = String(req.params.id || '').trim();
+  const id = raw.includes(':') ? raw : /^\d+$/.test(raw) ? makeId('tmdb-movie', Number(raw)) : raw;
+  const toId = resolveMovieAlias(db, id);
+  if (!toId) return next();
+  const row = db.prepare('SELECT id, tmdb_id FROM movies WHERE id = ?').get(toId);
+  if (!row) return next();
+  const target = `/movie/${encodeURIComponent(String(row.tmdb_id || row.id))}${req.path.endsWith('/reviews') ? '/reviews' : ''}`;
+  const qs = req.originalUrl.includes('?') ? req.originalUrl.slice(req.originalUrl.indexOf('?')) : '';
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  return res.redirect(301, target + qs);
+});
 {
 
   // In-memory HTML cache for public pages. Eliminates repeated DB queries for
@@ -5957,7 +7218,8 @@ app.use((req, res, next) => {
       p === '/' || p === '/movies' || p === '/people' || p === '/streaming' ||
       p === '/lists' || p === '/articles' ||
       /^\/language\//.test(p) || /^\/streaming\//.test(p) || /^\/genre\//.test(p) ||
-      /^\/movie\//.test(p) || /^\/person\//.test(p) || /^\/article\//.test(p)
+      /^\/movie\//.test(p) || /^\/person\//.test(p) || /^\/article\//.test(p) ||
+      /^\/series\//.test(p) || /^\/studio\//.test(p) || /^\/collection\//.test(p)
     );
   };
 
@@ -6186,6 +7448,8 @@ function gracefulShutdown(signal) {
   if (isShuttingDown) return;
   isShuttingDown = true;
   console.log(`[shutdown] ${signal} received — draining connections`);
+  // Scheduled agent children get SIGTERM too, so their runs checkpoint as interrupted.
+  jobScheduler.stop();
   // Stop accepting new HTTP connections.
   httpServer.close(() => {
     console.log('[shutdown] All connections closed — exiting');
@@ -0,0 +1,267 @@
+import { spawn } from 'node:child_process';
+
+import {
+  claimSchedule,
+  dueSchedules,
+  getSchedule,
+  markScheduleSkipped,
+  releaseSchedule,
+  releaseStaleScheduleLocks,
+  setScheduleEnabled
+} from './db/jobSchedules.js';
+import { nowIso } from './repo.js';
+
+// In-process scheduler for recurring jobs (agent runs, backfills, OTT refreshes). Schedules
+// live in `job_schedules` (cron in the schedule's own timezone, IST by default); a ticker
+// starts the due ones and each schedule's overlap lock keeps a slow run from being started
+// twice. Backfill / OTT runners are passed in by server/index.js; agent runs are spawned as
+// a child `agent/index.ts` process.
+
+export const DEFAULT_SCHEDULE_TZ = String(process.env.JOB_SCHEDULER_TZ || 'Asia/Kolkata');
+export const AGENT_SCHEDULE_COMMANDS = ['ingest', 'enrich', 'persons'];
+
+const CRON_ALIASES = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'weekday', min: 0, max: 7 } // 0 and 7 are Sunday
+];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// An agent run that has not checkpointed for this long is treated as dead, not busy.
+const AGENT_STALE_MS = 60 * 60 * 1000;
+
+export function jobBusyError(message) {
+  const err = new Error(message);
+  err.code = 'job_busy';
+  return err;
+}
+
+function parseCronField(src, { name, min, max }) {
+  const out = new Set();
+  for (const part of src.split(',')) {
+    const m = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!m) throw new Error(`invalid cron ${name}: ${part}`);
+    const [lo, hiRaw] = m[1] === '*' ? [min, max] : m[1].split('-').map(Number);
+    const hi = hiRaw ?? (m[2] ? max : lo);
+    const step = m[2] ? Number(m[2]) : 1;
+    if (lo < min || hi > max || lo > hi || step < 1) throw new Error(`invalid cron ${name}: ${part}`);
+    for (let v = lo; v <= hi; v += step) out.add(name === 'weekday' && v === 7 ? 0 : v);
+  }
+  return out;
+}
+
+// Standard 5-field cron ("min hour day month weekday") plus @hourly/@daily/@weekly/@monthly.
+// As in cron, a restricted day and weekday match either one.
+export function parseCron(expr) {
+  const src = String(expr || '').trim().toLowerCase();
+  const fields = (CRON_ALIASES[src] || src).split(/\s+/);
+  if (fields.length !== 5) throw new Error('cron needs 5 fields: minute hour day month weekday');
+  const [minute, hour, day, month, weekday] = fields.map((f, i) => parseCronField(f, CRON_FIELDS[i]));
+  return { minute, hour, day, month, weekday, anyDay: fields[2].startsWith('*'), anyWeekday: fields[4].startsWith('*') };
+}
+
+export function isValidTimezone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const wallClockFormats = new Map();
+function wallClock(ms, timeZone) {
+  let fmt = wallClockFormats.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+    wallClockFormats.set(timeZone, fmt);
+  }
+  const p = {};
+  for (const { type, value } of fmt.formatToParts(ms)) p[type] = value;
+  return {
+    month: Number(p.month),
+    day: Number(p.day),
+    hour: Number(p.hour) % 24,
+    minute: Number(p.minute),
+    weekday: WEEKDAYS.indexOf(p.weekday)
+  };
+}
+
+// Next time (ISO) after `after` that matches `expr` on the wall clock of `timeZone`. Walks
+// forward a day / hour / minute at a time, so DST shifts and :30 offsets (IST) just work.
+export function nextCronTime(expr, timeZone = DEFAULT_SCHEDULE_TZ, after = Date.now()) {
+  const cron = typeof expr === 'string' ? parseCron(expr) : expr;
+  let t = Math.floor(after / 60_000) * 60_000 + 60_000;
+  for (let i = 0; i < 10_000; i++) {
+    const w = wallClock(t, timeZone);
+    const dayOk =
+      cron.anyDay && cron.anyWeekday
+        ? true
+        : cron.anyDay
+          ? cron.weekday.has(w.weekday)
+          : cron.anyWeekday
+            ? cron.day.has(w.day)
+            : cron.day.has(w.day) || cron.weekday.has(w.weekday);
+    if (!cron.month.has(w.month) || !dayOk) {
+      t += ((23 - w.hour) * 60 + (60 - w.minute)) * 60_000;
+    } else if (!cron.hour.has(w.hour)) {
+      t += (60 - w.minute) * 60_000;
+    } else if (!cron.minute.has(w.minute)) {
+      t += 60_000;
+    } else {
+      return new Date(t).toISOString();
+    }
+  }
+  return null; // e.g. "0 0 30 2 *"
+}
+
+// Validate + normalize what a schedule stores in `params_json` for its kind.
+export function normalizeScheduleParams(kind, raw) {
+  const p = raw && typeof raw === 'object' ? raw : {};
+  if (kind === 'agent') {
+    const args = (Array.isArray(p.args) ? p.args : String(p.args || '').split(/\s+/)).map((a) => String(a).trim()).filter(Boolean);
+    if (!AGENT_SCHEDULE_COMMANDS.includes(args[0])) {
+      throw new Error(`agent args must start with one of: ${AGENT_SCHEDULE_COMMANDS.join(', ')}`);
+    }
+    return { args };
+  }
+  const scope = p.scope === 'language' ? 'language' : 'all';
+  return {
+    scope,
+    lang: scope === 'language' ? String(p.lang || '').trim() || 'Hindi' : null,
+    ...(kind === 'backfill' ? { force: p.force !== false } : {}),
+    overrides: p.overrides && typeof p.overrides === 'object' ? p.overrides : {}
+  };
+}
+
+function agentRunInProgress(db) {
+  const row = db.prepare("SELECT updated_at FROM job_runs WHERE kind = 'agent' AND status = 'running' ORDER BY updated_at DESC LIMIT 1").get();
+  return !!row && Date.now() - Date.parse(row.updated_at) < AGENT_STALE_MS;
+}
+
+export function createJobScheduler(db, { runners = {}, tickMs = 30_000 } = {}) {
+  const running = new Map(); // scheduleId -> promise
+  const agentChildren = new Set();
+  let timer = null;
+
+  // `npm run agent -- <args>` as a child process; the agent records its own job_runs row.
+  const runAgent = (params) =>
+    new Promise((resolve, reject) => {
+      const { args } = normalizeScheduleParams('agent', params);
+      if (agentChildren.size || agentRunInProgress(db)) return reject(jobBusyError('an agent run is already in progress'));
+      const since = nowIso();
+      const child = spawn(process.execPath, ['--import', 'tsx', 'agent/index.ts', ...args], {
+        cwd: process.cwd(),
+        env: process.env,
+        stdio: ['ignore', 'inherit', 'inherit']
+      });
+      agentChildren.add(child);
+      // SIGTERM makes the agent checkpoint and mark its run interrupted (resumable).
+      const timeoutMs = Math.max(1, Number(process.env.JOB_AGENT_TIMEOUT_MINUTES || 0) || 240) * 60_000;
+      const killTimer = setTimeout(() => child.kill('SIGTERM'), timeoutMs);
+      child.on('error', (err) => {
+        clearTimeout(killTimer);
+        agentChildren.delete(child);
+        reject(err);
+      });
+      child.on('exit', (code, signal) => {
+        clearTimeout(killTimer);
+        agentChildren.delete(child);
+        const run = db
+          .prepare("SELECT id, status, error FROM job_runs WHERE kind = 'agent' AND updated_at >= ? ORDER BY updated_at DESC LIMIT 1")
+          .get(since);
+        const failed = code !== 0;
+        resolve({
+          runId: run?.id || null,
+          status: run?.status || (failed ? 'error' : 'finished'),
+          error: failed ? `agent exited with ${signal || `code ${code}`}` : run?.error || null
+        });
+      });
+    });
+  const allRunners = { agent: runAgent, ...runners };
+
+  async function launch(schedule, trigger) {
+    console.log(`[jobs] ${schedule.name}: starting (${trigger})`);
+    let result;
+    try {
+      const runner = allRunners[schedule.kind];
+      if (!runner) throw new Error(`no runner for job kind ${schedule.kind}`);
+      result = await runner(schedule.params, { schedule, trigger });
+    } catch (err) {
+      result = { status: err?.code === 'job_busy' ? 'skipped' : 'error', error: String(err?.message || err) };
+    }
+    releaseSchedule(db, schedule.id, result || { status: 'finished' });
+    console.log(`[jobs] ${schedule.name}: ${result?.status || 'finished'}${result?.error ? ` (${result.error})` : ''}`);
+    return result;
+  }
+
+  function start(schedule, trigger, nextRunAt) {
+    if (!claimSchedule(db, schedule.id, { nextRunAt })) return null;
+    const p = launch(schedule, trigger).finally(() => running.delete(schedule.id));
+    running.set(schedule.id, p);
+    return p;
+  }
+
+  function tick() {
+    let due = [];
+    try {
+      due = dueSchedules(db, nowIso());
+    } catch (err) {
+      console.error('[jobs] tick failed:', err?.message || err);
+    }
+    for (const s of due) {
+      let next = null;
+      try {
+        next = nextCronTime(s.cron, s.timezone);
+      } catch {
+        next = null;
+      }
+      if (!next) {
+        setScheduleEnabled(db, s.id, false);
+        markScheduleSkipped(db, s.id, `cron "${s.cron}" never matches; schedule paused`);
+        continue;
+      }
+      if (!start(s, 'schedule', next)) markScheduleSkipped(db, s.id, 'previous run still in progress');
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      const released = releaseStaleScheduleLocks(db);
+      if (released) console.log(`[jobs] released ${released} schedule lock(s) from a previous process`);
+      timer = setInterval(tick, tickMs);
+      timer.unref();
+      setTimeout(tick, 5_000).unref();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+      for (const child of agentChildren) child.kill('SIGTERM');
+    },
+    // Admin "run now": same overlap lock, the cron timing is left alone.
+    trigger(id) {
+      const s = getSchedule(db, id);
+      if (!s) return { error: 'not_found' };
+      return start(s, 'manual') ? { ok: true } : { error: 'already_running' };
+    },
+    isRunning: (id) => running.has(id),
+    tick
+  };
+}
@@ -0,0 +1,151 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// HTTP cassettes: record provider responses to fixture files and replay them offline.
+//
+//   HTTP_CASSETTES=record  -> call the live APIs and save every response
+//   HTTP_CASSETTES=replay  -> never touch the network; serve saved responses (miss = error)
+//   HTTP_CASSETTE_DIR      -> where cassettes live (default: fixtures/cassettes)
+//
+// Works by wrapping global `fetch`, which every provider in server/providers uses, so the
+// server, the seed script and the agent all get it with one `installHttpCassettes()` call.
+// API keys are stripped from the request key and never written to disk, so recordings made
+// with one key replay with any (or no) key.
+
+const SECRET_PARAMS = ['api_key', 'apikey', 'apiKey', 'key', 'token', 'access_token'];
+
+const PROVIDER_HOSTS = [
+  ['api.themoviedb.org', 'tmdb'],
+  ['www.googleapis.com', 'youtube'],
+  ['www.omdbapi.com', 'omdb'],
+  ['itunes.apple.com', 'itunes'],
+  ['streaming-availability.p.rapidapi.com', 'motn'],
+  ['wikipedia.org', 'wikipedia']
+];
+
+// Providers bail out early without a key; in replay mode any placeholder will do.
+const REPLAY_PLACEHOLDER_KEYS = ['TMDB_API_KEY', 'YOUTUBE_API_KEY', 'OMDB_API_KEY', 'MOTN_API_KEY'];
+
+let installed = false;
+
+export function cassetteMode() {
+  const m = String(process.env.HTTP_CASSETTES || '').trim().toLowerCase();
+  return m === 'record' || m === 'replay' ? m : '';
+}
+
+export function cassetteDir() {
+  return path.resolve(process.cwd(), process.env.HTTP_CASSETTE_DIR || path.join('fixtures', 'cassettes'));
+}
+
+function providerForHost(host) {
+  const h = String(host || '').toLowerCase();
+  for (const [suffix, name] of PROVIDER_HOSTS) {
+    if (h === suffix || h.endsWith(`.${suffix}`)) return name;
+  }
+  return h.replace(/[^a-z0-9.-]+/g, '_') || 'other';
+}
+
+export function redactUrl(rawUrl) {
+  const u = new URL(String(rawUrl));
+  for (const p of SECRET_PARAMS) u.searchParams.delete(p);
+  u.searchParams.sort();
+  return u.toString();
+}
+
+function requestParts(input, init) {
+  const url = typeof input === 'string' || input instanceof URL ? String(input) : String(input?.url || '');
+  const method = String(init?.method || (typeof input === 'object' && input?.method) || 'GET').toUpperCase();
+  const body = typeof init?.body === 'string' ? init.body : '';
+  return { url, method, body };
+}
+
+export function cassettePath({ url, method, body }) {
+  const u = new URL(url);
+  const redacted = redactUrl(url);
+  const hash = crypto.createHash('sha1').update(`${method} ${redacted}\n${body || ''}`).digest('hex').slice(0, 16);
+  const slug = `${u.hostname}${u.pathname}`.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return path.join(cassetteDir(), providerForHost(u.hostname), `${slug}-${hash}.json`);
+}
+
+function isLocal(url) {
+  try {
+    const h = new URL(url).hostname;
+    return h === 'localhost' || h === '127.0.0.1' || h === '::1';
+  } catch {
+    return true;
+  }
+}
+
+function toResponse(cassette) {
+  const r = cassette.response || {};
+  return new Response(r.body ?? '', {
+    status: Number(r.status || 200),
+    statusText: String(r.statusText || ''),
+    headers: r.headers || {}
+  });
+}
+
+export function installHttpCassettes() {
+  const mode = cassetteMode();
+  if (!mode || installed) return mode;
+  installed = true;
+
+  if (mode === 'replay') {
+    for (const k of REPLAY_PLACEHOLDER_KEYS) {
+      if (!String(process.env[k] || '').trim() && !(k === 'TMDB_API_KEY' && process.env.TMDB_BEARER_TOKEN)) {
+        process.env[k] = 'cassette-replay';
+      }
+    }
+  }
+
+  const liveFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const req = requestParts(input, init);
+    if (!req.url || isLocal(req.url)) return liveFetch(input, init);
+    const file = cassettePath(req);
+
+    if (mode === 'replay') {
+      let cassette;
+      try {
+        cassette = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      } catch {
+        const err = new Error(`cassette_miss: ${req.method} ${redactUrl(req.url)}`);
+        err.code = 'cassette_miss';
+        err.cassette = path.relative(process.cwd(), file);
+        throw err;
+      }
+      return toResponse(cassette);
+    }
+
+    const res = await liveFetch(input, init);
+    try {
+      const body = await res.clone().text();
+      const headers = {};
+      for (const h of ['content-type', 'retry-after']) {
+        const v = res.headers.get(h);
+        if (v) headers[h] = v;
+      }
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(
+        file,
+        JSON.stringify(
+          {
+            request: { method: req.method, url: redactUrl(req.url), body: req.body || undefined },
+            response: { status: res.status, statusText: res.statusText, headers, body },
+            recordedAt: new Date().toISOString()
+          },
+          null,
+          2
+        ),
+        'utf-8'
+      );
+    } catch {
+      // best-effort; never fail a live request because a cassette could not be written
+    }
+    return res;
+  };
+
+  console.log(`[http] cassettes: ${mode} (${path.relative(process.cwd(), cassetteDir()) || '.'})`);
+  return mode;
+}
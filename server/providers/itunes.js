@@ -22,7 +22,11 @@ function tokenize(s) {
 
 async function itunesFetch(url) {
   const res = await fetch(url, { headers: { 'User-Agent': 'indiamovieguide.com (local dev)' }, signal: AbortSignal.timeout(10_000) });
-  if (!res.ok) throw new Error(`iTunes API failed: ${res.status}`);
+  if (!res.ok) {
+    const err = new Error(`iTunes API failed: ${res.status}`);
+    err.status = res.status;
+    throw err;
+  }
   return await res.json();
 }
 
@@ -61,7 +65,8 @@ export async function itunesLookupAlbumTracks(collectionId, { country = 'IN' } =
       trackViewUrl: t.trackViewUrl,
       previewUrl: t.previewUrl,
       discNumber: t.discNumber,
-      trackNumber: t.trackNumber
+      trackNumber: t.trackNumber,
+      durationSec: t.trackTimeMillis ? Math.round(Number(t.trackTimeMillis) / 1000) : null
     }))
     .filter((t) => t.title);
   return { album, tracks };
@@ -153,7 +158,8 @@ export async function itunesFindSoundtrackForMovie({ title, year, language } = {
             artist: t.artist || '',
             url: t.trackViewUrl || '',
             previewUrl: t.previewUrl || '',
-            providerId: t.trackId ? String(t.trackId) : ''
+            providerId: t.trackId ? String(t.trackId) : '',
+            durationSec: t.durationSec || null
           }))
       };
     }
@@ -38,7 +38,11 @@ export async function omdbByTitle(title, year) {
   if (year) url.searchParams.set('y', String(year));
 
   const res = await fetch(url.toString(), { signal: AbortSignal.timeout(10_000) });
-  if (!res.ok) throw new Error(`OMDb failed: ${res.status}`);
+  if (!res.ok) {
+    const err = new Error(`OMDb failed: ${res.status}`);
+    err.status = res.status;
+    throw err;
+  }
   const data = await res.json();
   if (!data || data.Response === 'False') return null;
 
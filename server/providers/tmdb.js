@@ -30,6 +30,36 @@ function mapLanguage(code) {
   }
 }
 
+// TMDB crew jobs we keep, as [department, job] in our own vocabulary. TMDB files the same
+// credit under several names ('Original Music Composer', 'Music', 'Songs' are all the music
+// director of an Indian film).
+const CREW_JOBS = {
+  Director: ['Directing', 'Director'],
+  Screenplay: ['Writing', 'Screenplay'],
+  Writer: ['Writing', 'Writer'],
+  Story: ['Writing', 'Story'],
+  Dialogue: ['Writing', 'Dialogue'],
+  'Original Music Composer': ['Music', 'Music Director'],
+  'Music Director': ['Music', 'Music Director'],
+  Music: ['Music', 'Music Director'],
+  Songs: ['Music', 'Music Director'],
+  Lyricist: ['Music', 'Lyricist'],
+  'Director of Photography': ['Camera', 'Cinematographer'],
+  Cinematography: ['Camera', 'Cinematographer'],
+  Editor: ['Editing', 'Editor'],
+  Producer: ['Production', 'Producer'],
+  Choreographer: ['Choreography', 'Choreographer'],
+  'Dance Choreographer': ['Choreography', 'Choreographer'],
+  'Stunt Coordinator': ['Action', 'Action Director'],
+  'Fight Choreographer': ['Action', 'Action Director'],
+  'Action Director': ['Action', 'Action Director']
+};
+
+function crewJob(job) {
+  const hit = CREW_JOBS[String(job || '')];
+  return hit ? { department: hit[0], job: hit[1] } : null;
+}
+
 async function tmdbFetch(pathname, params = {}) {
   const apiKey = process.env.TMDB_API_KEY;
   const bearer = process.env.TMDB_BEARER_TOKEN;
@@ -43,7 +73,12 @@ async function tmdbFetch(pathname, params = {}) {
     headers: bearer ? { Authorization: `Bearer ${bearer}` } : undefined,
     signal: AbortSignal.timeout(10_000)
   });
-  if (!res.ok) throw new Error(`TMDB ${pathname} failed: ${res.status} ${await res.text()}`);
+  if (!res.ok) {
+    const err = new Error(`TMDB ${pathname} failed: ${res.status} ${await res.text()}`);
+    err.status = res.status;
+    err.retryAfter = res.headers.get('retry-after') || '';
+    throw err;
+  }
   return await res.json();
 }
 
@@ -111,9 +146,38 @@ export async function tmdbDiscoverMovies({
   return Array.from(byId.values());
 }
 
+// Single discover page for one language, with paging totals (used by the agent's back-catalog crawl).
+// TMDB caps discover at 500 pages per query, so callers should keep date windows narrow.
+export async function tmdbDiscoverPage({ dateGte, dateLte, sortBy, page = 1, region, language, voteCountGte } = {}) {
+  const data = await tmdbFetch('/discover/movie', {
+    include_adult: 'false',
+    include_video: 'true',
+    page,
+    sort_by: sortBy || 'primary_release_date.asc',
+    'primary_release_date.gte': dateGte || '',
+    'primary_release_date.lte': dateLte || '',
+    ...(region ? { region } : {}),
+    ...(typeof voteCountGte === 'number' ? { 'vote_count.gte': String(voteCountGte) } : {}),
+    ...(language ? { with_original_language: language } : {})
+  });
+  return {
+    page: Number(data.page || page),
+    totalPages: Math.min(500, Number(data.total_pages || 0)),
+    totalResults: Number(data.total_results || 0),
+    results: (data.results || []).map((m) => ({
+      tmdbId: m.id,
+      title: m.title,
+      releaseDate: m.release_date || null,
+      originalLanguage: m.original_language,
+      poster: tmdbImageUrl(m.poster_path, 'w500'),
+      backdrop: tmdbImageUrl(m.backdrop_path, 'w780')
+    }))
+  };
+}
+
 export async function tmdbGetMovieFull(tmdbId) {
   const details = await tmdbFetch(`/movie/${tmdbId}`, {
-    append_to_response: 'credits,videos,watch/providers',
+    append_to_response: 'credits,videos,watch/providers,release_dates,translations',
     region: 'IN'
   });
 
@@ -131,6 +195,20 @@ export async function tmdbGetMovieFull(tmdbId) {
     profileImage: tmdbImageUrl(c.profile_path, 'w500')
   }));
 
+  // Structured crew: one entry per person and normalized job, at most four per job.
+  const crewSeen = new Set();
+  const perJob = new Map();
+  const crewCredits = [];
+  for (const c of crew) {
+    const mapped = crewJob(c.job);
+    if (!mapped || !c.id || !c.name) continue;
+    const key = `${c.id}|${mapped.job}`;
+    if (crewSeen.has(key) || (perJob.get(mapped.job) || 0) >= 4) continue;
+    crewSeen.add(key);
+    perJob.set(mapped.job, (perJob.get(mapped.job) || 0) + 1);
+    crewCredits.push({ tmdbId: c.id, name: c.name, profileImage: tmdbImageUrl(c.profile_path, 'w500'), ...mapped });
+  }
+
   const videos = details.videos?.results || [];
   const trailer =
     videos.find((v) => v.site === 'YouTube' && v.type === 'Trailer') ||
@@ -157,6 +235,24 @@ export async function tmdbGetMovieFull(tmdbId) {
     }
   }
 
+  // Language versions: Indian release entries tagged with a language other than the original
+  // (pan-India films list one per dub), titled from the matching translation when there is one.
+  const translations = details.translations?.translations || [];
+  const inReleases = (details.release_dates?.results || []).find((r) => r.iso_3166_1 === 'IN')?.release_dates || [];
+  const releasesByLang = new Map();
+  for (const r of inReleases) {
+    const code = String(r.iso_639_1 || '');
+    const date = String(r.release_date || '').slice(0, 10) || null;
+    if (!code || code === details.original_language || mapLanguage(code) === code) continue;
+    const prev = releasesByLang.get(code);
+    if (!releasesByLang.has(code) || (date && (!prev || date < prev))) releasesByLang.set(code, date);
+  }
+  const languageReleases = Array.from(releasesByLang, ([code, releaseDate]) => {
+    const tr =
+      translations.find((t) => t.iso_639_1 === code && t.iso_3166_1 === 'IN') || translations.find((t) => t.iso_639_1 === code);
+    return { language: mapLanguage(code), title: String(tr?.data?.title || '').trim() || details.title, releaseDate };
+  });
+
   // Reviews (TMDB)
   let reviews = [];
   try {
@@ -177,19 +273,59 @@ export async function tmdbGetMovieFull(tmdbId) {
     title: details.title,
     synopsis: details.overview || '',
     releaseDate: details.release_date || null,
+    runtimeMinutes: Number(details.runtime) > 0 ? Number(details.runtime) : null,
     language: mapLanguage(details.original_language),
+    originalLanguageCode: details.original_language || '',
     productionCountries: (details.production_countries || []).map((c) => c.iso_3166_1).filter(Boolean),
+    originCountry: Array.isArray(details.origin_country) ? details.origin_country.filter(Boolean) : [],
+    spokenLanguages: (details.spoken_languages || []).map((l) => l.iso_639_1).filter(Boolean),
+    productionCompanies: (details.production_companies || []).map((c) => ({
+      tmdbId: c.id || null,
+      name: c.name || '',
+      originCountry: c.origin_country || '',
+      logo: tmdbImageUrl(c.logo_path, 'w500')
+    })),
+    releaseRegions: (details.release_dates?.results || []).map((r) => r.iso_3166_1).filter(Boolean),
     genres: (details.genres || []).map((g) => g.name).filter(Boolean),
     poster: tmdbImageUrl(details.poster_path, 'w500'),
     backdrop: tmdbImageUrl(details.backdrop_path, 'w780'),
     director,
     writers,
     cast,
+    crew: crewCredits,
     trailerUrl,
     offers,
     voteAverage: typeof details.vote_average === 'number' ? details.vote_average : null,
     voteCount: typeof details.vote_count === 'number' ? details.vote_count : null,
-    reviews
+    reviews,
+    languageReleases,
+    collection: details.belongs_to_collection?.id
+      ? {
+          tmdbId: details.belongs_to_collection.id,
+          name: details.belongs_to_collection.name || '',
+          poster: tmdbImageUrl(details.belongs_to_collection.poster_path, 'w500'),
+          backdrop: tmdbImageUrl(details.belongs_to_collection.backdrop_path, 'w780')
+        }
+      : null
+  };
+}
+
+// A TMDB collection (franchise) with its parts; parts are movie stubs, fetch them with
+// `tmdbGetMovieFull` to store them.
+export async function tmdbGetCollection(tmdbId) {
+  const details = await tmdbFetch(`/collection/${tmdbId}`, {});
+  return {
+    tmdbId: details.id,
+    name: details.name || '',
+    overview: details.overview || '',
+    poster: tmdbImageUrl(details.poster_path, 'w500'),
+    backdrop: tmdbImageUrl(details.backdrop_path, 'w780'),
+    parts: (details.parts || []).map((p) => ({
+      tmdbId: p.id,
+      title: p.title || '',
+      releaseDate: p.release_date || null,
+      originalLanguage: p.original_language || ''
+    }))
   };
 }
 
@@ -222,6 +358,122 @@ export async function tmdbGetMovieOffers(tmdbId, { region } = {}) {
   };
 }
 
+// Streaming/rent/buy offers from a TMDB `watch/providers` result, for the OTT_REGION (or the
+// first of IN/US/GB that has any).
+function watchOffers(providerResults, region) {
+  const preferredRegion = String(region || process.env.OTT_REGION || 'IN').toUpperCase();
+  const results = providerResults || {};
+  const providers = results[preferredRegion] || results.IN || results.US || results.GB || null;
+  const providerLink = providers?.link || '';
+  const offers = [];
+  for (const type of ['flatrate', 'rent', 'buy']) {
+    for (const p of providers?.[type] || []) {
+      offers.push({
+        provider: p.provider_name,
+        type: type === 'flatrate' ? 'Streaming' : type === 'rent' ? 'Rent' : 'Buy',
+        url: providerLink || '',
+        logo: tmdbImageUrl(p.logo_path, 'w500'),
+        region: providers ? preferredRegion : undefined
+      });
+    }
+  }
+  return offers;
+}
+
+export async function tmdbSearchTv(query) {
+  const data = await tmdbFetch('/search/tv', { query, include_adult: 'false', page: '1' });
+  return (data.results || []).slice(0, 8).map((t) => ({
+    tmdbId: t.id,
+    title: t.name,
+    overview: t.overview,
+    firstAirDate: t.first_air_date || null,
+    language: mapLanguage(t.original_language),
+    originCountry: Array.isArray(t.origin_country) ? t.origin_country.filter(Boolean) : [],
+    poster: tmdbImageUrl(t.poster_path, 'w500'),
+    backdrop: tmdbImageUrl(t.backdrop_path, 'w780')
+  }));
+}
+
+// TMDB's aggregate credits list every role an actor played across the episodes covered.
+function aggregateCast(credits, limit) {
+  return (credits?.cast || []).slice(0, limit).map((c) => ({
+    tmdbId: c.id,
+    name: c.name,
+    character: (c.roles || []).map((r) => r.character).filter(Boolean)[0] || c.character || '',
+    episodeCount: Number(c.total_episode_count) || null,
+    profileImage: tmdbImageUrl(c.profile_path, 'w500')
+  }));
+}
+
+// A series with its season list (no episodes; see `tmdbGetTvSeason`). Carries the same
+// country/language/company fields as `tmdbGetMovieFull` so `classifyIndianMovie` applies.
+export async function tmdbGetTvFull(tmdbId) {
+  const details = await tmdbFetch(`/tv/${tmdbId}`, {
+    append_to_response: 'aggregate_credits,videos,watch/providers'
+  });
+
+  const videos = details.videos?.results || [];
+  const trailer =
+    videos.find((v) => v.site === 'YouTube' && v.type === 'Trailer') ||
+    videos.find((v) => v.site === 'YouTube') ||
+    null;
+
+  return {
+    tmdbId: details.id,
+    title: details.name,
+    synopsis: details.overview || '',
+    firstAirDate: details.first_air_date || null,
+    lastAirDate: details.last_air_date || null,
+    status: details.status || '',
+    language: mapLanguage(details.original_language),
+    originalLanguageCode: details.original_language || '',
+    productionCountries: (details.production_countries || []).map((c) => c.iso_3166_1).filter(Boolean),
+    originCountry: Array.isArray(details.origin_country) ? details.origin_country.filter(Boolean) : [],
+    spokenLanguages: (details.spoken_languages || []).map((l) => l.iso_639_1).filter(Boolean),
+    productionCompanies: (details.production_companies || []).map((c) => ({ name: c.name || '', originCountry: c.origin_country || '' })),
+    genres: (details.genres || []).map((g) => g.name).filter(Boolean),
+    creators: (details.created_by || []).map((c) => c.name).filter(Boolean),
+    networks: (details.networks || []).map((n) => n.name).filter(Boolean),
+    seasonCount: Number(details.number_of_seasons) || 0,
+    episodeCount: Number(details.number_of_episodes) || 0,
+    seasons: (details.seasons || []).map((s) => ({
+      seasonNumber: Number(s.season_number) || 0,
+      name: s.name || '',
+      synopsis: s.overview || '',
+      airDate: s.air_date || null,
+      episodeCount: Number(s.episode_count) || 0,
+      poster: tmdbImageUrl(s.poster_path, 'w500')
+    })),
+    poster: tmdbImageUrl(details.poster_path, 'w500'),
+    backdrop: tmdbImageUrl(details.backdrop_path, 'w780'),
+    cast: aggregateCast(details.aggregate_credits, 12),
+    trailerUrl: trailer?.key ? `https://www.youtube.com/watch?v=${trailer.key}` : '',
+    offers: watchOffers(details['watch/providers']?.results),
+    voteAverage: typeof details.vote_average === 'number' ? details.vote_average : null,
+    voteCount: typeof details.vote_count === 'number' ? details.vote_count : null
+  };
+}
+
+export async function tmdbGetTvSeason(tmdbId, seasonNumber) {
+  const details = await tmdbFetch(`/tv/${tmdbId}/season/${seasonNumber}`, { append_to_response: 'aggregate_credits' });
+  return {
+    seasonNumber: Number(details.season_number) || 0,
+    name: details.name || '',
+    synopsis: details.overview || '',
+    airDate: details.air_date || null,
+    poster: tmdbImageUrl(details.poster_path, 'w500'),
+    episodes: (details.episodes || []).map((e) => ({
+      episodeNumber: Number(e.episode_number) || 0,
+      title: e.name || '',
+      synopsis: e.overview || '',
+      airDate: e.air_date || null,
+      runtimeMinutes: Number(e.runtime) > 0 ? Number(e.runtime) : null,
+      still: tmdbImageUrl(e.still_path, 'w300')
+    })),
+    cast: aggregateCast(details.aggregate_credits, 20)
+  };
+}
+
 export function defaultIndianLanguageCodes() {
   // Keep in sync with the UI header's "popular languages".
   return ['hi', 'kn', 'te', 'ta', 'ml', 'mr', 'bn'];
@@ -243,18 +495,34 @@ export async function tmdbGetPersonFull(tmdbId) {
   const credits = details.combined_credits || {};
   const cast = credits.cast || [];
 
-  const filmography = cast
-    .slice()
-    .sort((a, b) => (b.popularity || 0) - (a.popularity || 0))
-    .slice(0, 20)
-    .map((c) => ({
-      tmdbId: c.id,
-      title: c.title || c.name,
-      mediaType: c.media_type,
-      character: c.character || '',
-      releaseDate: c.release_date || c.first_air_date || null,
-      poster: tmdbImageUrl(c.poster_path, 'w500')
-    }));
+  const credit = (c, extra) => ({
+    tmdbId: c.id,
+    title: c.title || c.name,
+    mediaType: c.media_type,
+    character: c.character || '',
+    releaseDate: c.release_date || c.first_air_date || null,
+    poster: tmdbImageUrl(c.poster_path, 'w500'),
+    ...extra
+  });
+  const byPopularity = (a, b) => (b.popularity || 0) - (a.popularity || 0);
+
+  // Acting credits first, then crew credits (department + normalized job) for the jobs we track.
+  const crewSeen = new Set();
+  const crewCredits = [];
+  for (const c of (credits.crew || []).slice().sort(byPopularity)) {
+    const mapped = crewJob(c.job);
+    if (!mapped || crewSeen.has(`${c.id}|${mapped.job}`)) continue;
+    crewSeen.add(`${c.id}|${mapped.job}`);
+    crewCredits.push(credit(c, mapped));
+  }
+  const filmography = [
+    ...cast
+      .slice()
+      .sort(byPopularity)
+      .slice(0, 20)
+      .map((c) => credit(c, { department: 'Acting', job: 'Actor' })),
+    ...crewCredits.slice(0, 20)
+  ];
 
   return {
     tmdbId: details.id,
@@ -64,15 +64,57 @@ function stripTags(html) {
   return decodeHtmlEntities(text).replace(/\s+/g, ' ').trim();
 }
 
-function extractTrackTitlesFromHtml(html) {
+function parseDurationSec(v) {
+  const m = String(v || '').match(/^\s*\(?\s*(\d{1,2}):(\d{2})\s*\)?\s*$/);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+// "Arijit Singh, Shreya Ghoshal & Chorus" -> names. Version labels ("Reprise") are not singers.
+function parseSingers(v) {
+  const s = String(v || '')
+    .replace(/^\s*(?:sung\s+)?by\s+/i, '')
+    .replace(/[()]/g, ' ')
+    .trim();
+  if (!s) return [];
+  return s
+    .split(/\s*(?:,|&|;|\/|\band\b)\s*/i)
+    .map((x) => x.trim())
+    .filter(
+      (x) =>
+        x.length >= 2 &&
+        x.length <= 60 &&
+        !/\d/.test(x) &&
+        !/\b(reprise|version|remix|unplugged|instrumental|theme|duet|male|female|lofi|mix)\b/i.test(x)
+    );
+}
+
+// Tracks of a soundtrack section: `{ title, singers, durationSec }`. Track-listing tables give
+// the singer and length columns; list items are usually `"Song" – Singer (4:12)`.
+function extractTracksFromHtml(html) {
   const out = [];
-  const add = (raw) => {
+  const add = (raw, extra = {}) => {
     let t = stripTags(raw);
+    let durationSec = extra.durationSec || null;
+    const dm = t.match(/\s*\(?\s*(\d{1,2}:\d{2})\s*\)?\s*$/);
+    if (dm && dm.index > 0) {
+      durationSec = durationSec || parseDurationSec(dm[1]);
+      t = t.slice(0, dm.index).trim();
+    }
     t = t.replace(/^[0-9]+[\.\)\-:]\s*/g, '').trim();
-    t = t.replace(/^"(.*)"$/g, '$1').replace(/^'(.*)'$/g, '$1').trim();
-    // Often list items include "Song – Singer"; keep the left side if it's plausible.
-    const sep = t.match(/^(.+?)\s+[-–]\s+(.+)$/);
-    if (sep) t = sep[1].trim();
+    let rest = '';
+    const quoted = t.match(/^["“]([^"”]+)["”]\s*(.*)$/);
+    if (quoted) {
+      t = quoted[1].trim();
+      rest = quoted[2].replace(/^[-–—:]\s*/, '').trim();
+    } else {
+      t = t.replace(/^'(.*)'$/g, '$1').trim();
+      // Often list items include "Song – Singer"; keep the left side if it's plausible.
+      const sep = t.match(/^(.+?)\s+[-–]\s+(.+)$/);
+      if (sep) {
+        t = sep[1].trim();
+        rest = sep[2].trim();
+      }
+    }
 
     // Drop "Released: ..." and similar suffixes.
     t = t.replace(/\s+released\s*[:\-]\s*.*$/i, '').trim();
@@ -80,10 +122,11 @@ function extractTrackTitlesFromHtml(html) {
 
     if (!t) return;
     if (t.length < 2 || t.length > 120) return;
-    const bad = ['side one', 'side two', 'track listing', 'soundtrack', 'lyrics', 'music', 'all songs'];
+    const bad = ['side one', 'side two', 'track listing', 'soundtrack', 'lyrics', 'music', 'all songs', 'total length'];
     const tl = t.toLowerCase();
     if (bad.some((b) => tl === b || tl.startsWith(b))) return;
-    out.push(t);
+    const singers = extra.singers?.length ? extra.singers : parseSingers(rest);
+    out.push({ title: t, singers, durationSec });
   };
 
   // Prefer list items first.
@@ -91,21 +134,27 @@ function extractTrackTitlesFromHtml(html) {
   let m;
   while ((m = liRe.exec(html))) add(m[1]);
 
-  // Track tables.
+  // Track tables. Header rows are all <th>; data rows may start with a <th> track number.
   const tables = String(html || '').match(/<table[\s\S]*?<\/table>/gi) || [];
   for (const table of tables) {
     const rows = table.match(/<tr[\s\S]*?<\/tr>/gi) || [];
     let titleIndex = 1;
+    let singerIndex = -1;
+    let lengthIndex = -1;
     for (const r of rows) {
-      const ths = (r.match(/<th[\s\S]*?<\/th>/gi) || []).map((x) => stripTags(x).toLowerCase());
-      if (ths.length) {
+      const hasTd = /<td[\s>]/i.test(r);
+      if (!hasTd) {
+        const ths = (r.match(/<th[\s\S]*?<\/th>/gi) || []).map((x) => stripTags(x).toLowerCase());
+        if (!ths.length) continue;
         const idx = ths.findIndex((h) => h.includes('title') || h.includes('song'));
         if (idx >= 0) titleIndex = idx;
+        singerIndex = ths.findIndex((h) => /singer|vocal|artist|performer|sung/.test(h));
+        lengthIndex = ths.findIndex((h) => h.includes('length') || h.includes('duration'));
         continue;
       }
-      const tds = (r.match(/<td[\s\S]*?<\/td>/gi) || []).map((x) => stripTags(x));
+      const tds = (r.match(/<t[hd][\s\S]*?<\/t[hd]>/gi) || []).map((x) => stripTags(x));
       if (tds.length < 2) continue;
-      const looksNumeric = (v) => /^\s*#?\s*\d{1,3}\s*$/.test(String(v || ''));
+      const looksNumeric = (v) => /^\s*#?\s*\d{1,3}\.?\s*$/.test(String(v || ''));
       const looksDuration = (v) => /^\s*\d{1,2}:\d{2}\s*$/.test(String(v || ''));
       const looksTooShort = (v) => String(v || '').trim().length < 2;
 
@@ -132,7 +181,9 @@ function extractTrackTitlesFromHtml(html) {
           .sort((a, b) => b.length - a.length)[0];
         candidate = best || '';
       }
-      add(candidate);
+      const singerCell = singerIndex >= 0 && tds[singerIndex] !== candidate ? tds[singerIndex] : '';
+      const lengthCell = lengthIndex >= 0 ? tds[lengthIndex] : tds.find((v) => looksDuration(v));
+      add(candidate, { singers: parseSingers(singerCell), durationSec: parseDurationSec(lengthCell) });
     }
   }
 
@@ -157,16 +208,24 @@ function extractTrackTitlesFromHtml(html) {
     }
   }
 
-  // De-dupe while preserving order.
-  const seen = new Set();
-  const uniq = [];
+  // De-dupe while preserving order (the first row with singers/length wins).
+  const byKey = new Map();
   for (const t of out) {
-    const k = t.toLowerCase();
-    if (seen.has(k)) continue;
-    seen.add(k);
-    uniq.push(t);
+    const k = t.title.toLowerCase();
+    const prev = byKey.get(k);
+    if (!prev) byKey.set(k, t);
+    else {
+      if (!prev.singers.length && t.singers.length) prev.singers = t.singers;
+      if (!prev.durationSec && t.durationSec) prev.durationSec = t.durationSec;
+    }
   }
-  return uniq;
+  return Array.from(byKey.values());
+}
+
+// Cached results from before `trackDetails` existed only have the titles.
+function withTrackDetails(result) {
+  if (!result || Array.isArray(result.trackDetails)) return result;
+  return { ...result, trackDetails: (result.tracks || []).map((title) => ({ title, singers: [], durationSec: null })) };
 }
 
 export async function wikipediaSearch(query, opts = {}) {
@@ -237,13 +296,13 @@ export async function wikipediaLeadByTitle(title, opts = {}) {
 }
 
 export async function wikipediaSoundtrackTracksByTitle(title, opts = {}) {
-  if (!title) return { title: null, url: null, tracks: [] };
+  if (!title) return { title: null, url: null, tracks: [], trackDetails: [] };
   const db = opts.db || null;
   const lang = String(opts.lang || 'en').trim() || 'en';
 
   const cacheKey = `wikisoundtrack:${sha1(`${String(title).trim()}|${lang}`)}`;
   const cached = cacheGet(db, cacheKey);
-  if (cached && Array.isArray(cached.tracks)) return cached;
+  if (cached && Array.isArray(cached.tracks)) return withTrackDetails(cached);
 
   const base = wikiApiBase(lang);
 
@@ -254,7 +313,7 @@ export async function wikipediaSoundtrackTracksByTitle(title, opts = {}) {
   sectionsUrl.searchParams.set('format', 'json');
 
   const sres = await fetch(sectionsUrl, { headers: { 'User-Agent': 'indiamovieguide.com (local dev)' } });
-  if (!sres.ok) return { title: null, url: null, tracks: [] };
+  if (!sres.ok) return { title: null, url: null, tracks: [], trackDetails: [] };
   const sdata = await sres.json().catch(() => ({}));
   const canonicalTitle = sdata?.parse?.title || title;
   const sections = sdata?.parse?.sections || [];
@@ -276,7 +335,7 @@ export async function wikipediaSoundtrackTracksByTitle(title, opts = {}) {
     .map((sec) => sec.index);
 
   if (!candidates.length) {
-    const result = { title: canonicalTitle, url: wikiUrl(canonicalTitle, lang), tracks: [] };
+    const result = { title: canonicalTitle, url: wikiUrl(canonicalTitle, lang), tracks: [], trackDetails: [] };
     cacheSet(db, cacheKey, result, WIKI_SOUNDTRACK_TTL_MS);
     return result;
   }
@@ -293,15 +352,16 @@ export async function wikipediaSoundtrackTracksByTitle(title, opts = {}) {
     if (!hres.ok) continue;
     const hdata = await hres.json().catch(() => ({}));
     const html = hdata?.parse?.text?.['*'] || '';
-    const tracks = extractTrackTitlesFromHtml(html);
-    if (tracks.length >= 2) {
-      const result = { title: canonicalTitle, url: wikiUrl(canonicalTitle, lang), tracks };
+    const trackDetails = extractTracksFromHtml(html);
+    if (trackDetails.length >= 2) {
+      const tracks = trackDetails.map((t) => t.title);
+      const result = { title: canonicalTitle, url: wikiUrl(canonicalTitle, lang), tracks, trackDetails };
       cacheSet(db, cacheKey, result, WIKI_SOUNDTRACK_TTL_MS);
       return result;
     }
   }
 
-  const result = { title: canonicalTitle, url: wikiUrl(canonicalTitle, lang), tracks: [] };
+  const result = { title: canonicalTitle, url: wikiUrl(canonicalTitle, lang), tracks: [], trackDetails: [] };
   cacheSet(db, cacheKey, result, WIKI_SOUNDTRACK_TTL_MS);
   return result;
 }
@@ -43,6 +43,16 @@ export function statusFrom(releaseDate, hasStreaming) {
   return 'Now Showing';
 }
 
+// URL slug of a display name: 'Hombale Films' -> 'hombale-films' (accents folded, ASCII only).
+export function toSlug(input) {
+  return String(input || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
 // Normalization for fuzzy searches. Keeps only lowercase a-z/0-9.
 export function normalizeForSearch(input) {
   return String(input || '')
@@ -5,6 +5,7 @@ import path from 'node:path';
 import { openDb, migrate } from './db/sqlite.js';
 import { upsertMovieFromTmdb } from './db/repository.js';
 import { defaultIndianLanguageCodes, tmdbDiscoverMovies, tmdbGetMovieFull } from './providers/tmdb.js';
+import { installHttpCassettes } from './providers/cassettes.js';
 
 function loadEnvFileIfPresent(filename) {
   try {
@@ -28,6 +29,7 @@ function loadEnvFileIfPresent(filename) {
 // Support either `.env` or `env`
 loadEnvFileIfPresent('env');
 loadEnvFileIfPresent('.env');
+installHttpCassettes();
 
 const db = openDb();
 migrate(db);
@@ -0,0 +1,260 @@
+import { countTokenMatches, hasNativeSongMarker, normalizeForMatch, romanKey } from './transliterate.js';
+
+// Soundtrack reconciler: merges the album tracklists from iTunes (`itunesFindSoundtrackForMovie`)
+// and Wikipedia (`wikipediaSoundtrackTracksByTitle(...).trackDetails`) into one list, folds
+// alternate versions (reprise, unplugged, female version, dubbed-language versions, ...) into the
+// original track, and records which provider supplied each field. YouTube videos are then
+// matched per track, so stored songs carry real singers and lengths instead of channel names.
+// Used by the agent's `soundtrack` step and the server's on-demand song refresh.
+
+const VERSION_MARKERS = [
+  'reprise',
+  'unplugged',
+  'version',
+  'female',
+  'male',
+  'duet',
+  'sad',
+  'remix',
+  'mix',
+  'lofi',
+  'lo fi',
+  'instrumental',
+  'karaoke',
+  'acoustic',
+  'extended',
+  'slowed',
+  'revisited',
+  'redux'
+];
+const LANGUAGES = ['hindi', 'tamil', 'telugu', 'kannada', 'malayalam', 'marathi', 'bengali', 'punjabi'];
+const TITLE_STOPWORDS = ['the', 'a', 'from', 'of', 'song', 'full', 'original', 'motion', 'picture', 'soundtrack'];
+
+// Uploads that are never the track itself.
+const REJECT_MARKERS = ['reaction', 'review', 'cover', 'karaoke', 'remix', 'slowed', 'reverb', '8d', 'lofi', 'trailer', 'teaser', 'dance cover', 'status'];
+
+export function minSongMatchScore() {
+  const n = Number(process.env.SOUNDTRACK_MIN_MATCH || 0);
+  return n > 0 && n <= 1 ? n : 0.6;
+}
+
+function hasPhrase(hay, phrase) {
+  return ` ${hay} `.includes(` ${phrase} `);
+}
+
+function isVersionLabel(label) {
+  const l = normalizeForMatch(label);
+  return !!l && (VERSION_MARKERS.some((m) => hasPhrase(l, m)) || LANGUAGES.some((m) => hasPhrase(l, m)));
+}
+
+// "Kesariya (From \"Brahmastra\")" -> "Kesariya"; "Kesariya (Reprise)" -> base "Kesariya",
+// version "Reprise". Bracketed groups and " - ..." suffixes are checked for version labels.
+export function splitTrackVersion(title) {
+  let base = String(title || '').trim();
+  const versions = [];
+  base = base.replace(/\s*[\(\[]([^\)\]]*)[\)\]]/g, (all, inner) => {
+    const v = String(inner || '').trim();
+    if (/^from\s/i.test(v)) return '';
+    if (isVersionLabel(v)) {
+      versions.push(v);
+      return '';
+    }
+    return all;
+  });
+  const dash = base.match(/^(.+?)\s+[-–]\s+(.+)$/);
+  if (dash && isVersionLabel(dash[2])) {
+    versions.push(dash[2].trim());
+    base = dash[1];
+  }
+  base = base.replace(/\s+/g, ' ').trim() || String(title || '').trim();
+  return { base, version: versions.join(', ') };
+}
+
+function titleTokens(title) {
+  return Array.from(new Set(normalizeForMatch(title).split(/\s+/g).filter((t) => t && !TITLE_STOPWORDS.includes(t))));
+}
+
+function titleKey(title) {
+  return titleTokens(title).map(romanKey).join(' ');
+}
+
+// Same track under two spellings: equal romanization keys, or each title's tokens found in the other.
+function sameTrack(a, b) {
+  if (a.key && a.key === b.key) return true;
+  const ta = titleTokens(a.base);
+  const tb = titleTokens(b.base);
+  if (!ta.length || !tb.length) return false;
+  return (
+    countTokenMatches(ta, normalizeForMatch(b.base)) >= ta.length * 0.8 &&
+    countTokenMatches(tb, normalizeForMatch(a.base)) >= tb.length * 0.8
+  );
+}
+
+function splitNames(v) {
+  return String(v || '')
+    .split(/\s*(?:,|&|;|\band\b)\s*/i)
+    .map((x) => x.trim())
+    .filter((x) => x.length >= 2);
+}
+
+function entryFrom(source, t) {
+  const title = String(t?.title || '').trim();
+  if (!title) return null;
+  const { base, version } = splitTrackVersion(title);
+  return {
+    source,
+    base,
+    version,
+    key: titleKey(base),
+    singers: source === 'itunes' ? splitNames(t.artist) : Array.isArray(t.singers) ? t.singers.filter(Boolean) : [],
+    durationSec: Number(t.durationSec) > 0 ? Math.round(Number(t.durationSec)) : null,
+    url: source === 'itunes' ? String(t.url || '') : '',
+    providerId: source === 'itunes' ? String(t.providerId || '') : ''
+  };
+}
+
+// Merge iTunes tracks (`{ title, artist, durationSec, url, providerId }`) and Wikipedia tracks
+// (`{ title, singers, durationSec }`). Album order follows iTunes when it has a tracklist;
+// Wikipedia-only tracks are appended. Per field: titles and singers prefer Wikipedia (editorial
+// spelling, every credited singer), lengths prefer iTunes (exact).
+export function reconcileSoundtrack({ itunes = [], wikipedia = [] } = {}) {
+  const groups = [];
+  const entries = [
+    ...(itunes || []).map((t) => entryFrom('itunes', t)),
+    ...(wikipedia || []).map((t) => entryFrom('wikipedia', t))
+  ].filter(Boolean);
+
+  for (const e of entries) {
+    let g = groups.find((x) => sameTrack(x.main, e));
+    if (!g) {
+      g = { main: e, itunes: null, wikipedia: null, versions: [] };
+      groups.push(g);
+    }
+    const slot = g[e.source];
+    if (!slot || (slot.version && !e.version)) {
+      if (slot?.version) g.versions.push(slot.version);
+      g[e.source] = e;
+      if (g.main.version && !e.version) g.main = e;
+    } else if (e.version) {
+      g.versions.push(e.version);
+    }
+  }
+
+  return groups.map((g, i) => {
+    const it = g.itunes;
+    const wp = g.wikipedia;
+    const titleFrom = wp || it;
+    const singersFrom = wp?.singers.length ? wp : it?.singers.length ? it : null;
+    const durationFrom = it?.durationSec ? it : wp?.durationSec ? wp : null;
+    const fieldSources = { title: titleFrom.source };
+    if (singersFrom) fieldSources.singers = singersFrom.source;
+    if (durationFrom) fieldSources.duration = durationFrom.source;
+    return {
+      trackNo: i + 1,
+      title: titleFrom.version ? `${titleFrom.base} (${titleFrom.version})` : titleFrom.base,
+      singers: singersFrom ? singersFrom.singers.slice(0, 12) : [],
+      durationSec: durationFrom ? durationFrom.durationSec : null,
+      sourceUrl: it?.url || '',
+      sourceProviderId: it?.providerId || '',
+      versions: Array.from(new Set(g.versions.filter((v) => v && v !== titleFrom.version))),
+      youtubeUrl: '', // filled in by matchSoundtrackVideos
+      fieldSources
+    };
+  });
+}
+
+// Score one YouTube hit (`{ title, description, channel }`) as the upload of a reconciled track.
+// Returns -1 for a non-match, else 0..1.
+export function scoreSoundtrackVideo({ title: movieTitle, year, language }, track, item) {
+  const title = normalizeForMatch(item?.title);
+  const hay = `${title} ${normalizeForMatch(item?.description)}`.trim();
+  if (!title) return -1;
+  if (REJECT_MARKERS.some((m) => hasPhrase(title, m))) return -1;
+
+  const trackTokens = titleTokens(track?.title);
+  if (!trackTokens.length) return -1;
+  const trackScore = countTokenMatches(trackTokens, title) / trackTokens.length;
+  if (trackScore < (trackTokens.length <= 2 ? 0.7 : 0.6)) return -1;
+
+  const movieTokens = titleTokens(movieTitle).filter((t) => t.length >= 2);
+  const movieScore = movieTokens.length ? countTokenMatches(movieTokens, hay) / movieTokens.length : 0;
+  const singerTokens = Array.from(new Set(normalizeForMatch((track?.singers || []).join(' ')).split(/\s+/g).filter((t) => t.length >= 3)));
+  const singerScore = singerTokens.length ? countTokenMatches(singerTokens, hay) / singerTokens.length : 0;
+  // Song names repeat across films ("Kesariya"): need the film or its singers as well.
+  if (movieScore < 0.5 && singerScore < 0.5) return -1;
+
+  let score = trackScore * 0.6 + Math.max(movieScore, singerScore) * 0.3;
+  const lang = normalizeForMatch(language);
+  if (lang && hasPhrase(hay, lang)) score += 0.08;
+  if (year && hasPhrase(hay, String(year))) score += 0.05;
+  if (hasPhrase(hay, 'official')) score += 0.04;
+  if (/\b(lyric|lyrical|audio|video song|full song|song)\b/.test(hay) || hasNativeSongMarker(hay)) score += 0.08;
+  return Math.min(1, Math.round(score * 1000) / 1000);
+}
+
+// Match YouTube videos to reconciled tracks. `search(query, opts)` is the caller's (cached /
+// scheduled) YouTube search: one film-level "songs" query feeds a shared pool, then up to
+// `perTrackLookups` per-track queries for tracks the pool did not cover. A video is used for
+// one track at most. A failing search (quota) stops the lookups; what matched so far is kept
+// and the error is returned.
+export async function matchSoundtrackVideos(movie, tracks, search, { perTrackLookups = 4, minScore = minSongMatchScore() } = {}) {
+  const used = new Set();
+  const out = (tracks || []).map((t) => ({ ...t }));
+  let error = null;
+
+  const pickFrom = (track, hits) => {
+    let best = null;
+    let bestScore = -1;
+    for (const h of hits || []) {
+      const url = String(h?.youtubeUrl || '');
+      if (!url || used.has(url)) continue;
+      const s = scoreSoundtrackVideo(movie, track, h);
+      if (s > bestScore) {
+        best = h;
+        bestScore = s;
+      }
+    }
+    if (!best || bestScore < minScore) return false;
+    used.add(best.youtubeUrl);
+    track.youtubeUrl = best.youtubeUrl;
+    track.youtubeScore = bestScore;
+    track.fieldSources = { ...track.fieldSources, youtubeUrl: 'youtube' };
+    return true;
+  };
+
+  const lang = String(movie?.language || '').trim();
+  let pool = [];
+  try {
+    pool = (await search([movie.title, lang, 'songs'].filter(Boolean).join(' '), { maxResults: 25, videoCategoryId: 10, regionCode: 'IN' })) || [];
+  } catch (err) {
+    error = err;
+  }
+  for (const t of out) pickFrom(t, pool);
+
+  let lookups = 0;
+  for (const t of out) {
+    if (error || t.youtubeUrl || lookups >= perTrackLookups) continue;
+    lookups++;
+    try {
+      const hits = await search([t.title, movie.title, lang, 'song'].filter(Boolean).join(' '), { maxResults: 8, regionCode: 'IN' });
+      pickFrom(t, hits);
+    } catch (err) {
+      error = err;
+    }
+  }
+  return { tracks: out, error };
+}
+
+// A reconciled track as a `replaceSongsForMovie` row.
+export function soundtrackSong(track, youtubeUrl = track?.youtubeUrl || '') {
+  return {
+    title: track.title,
+    singers: track.singers || [],
+    youtubeUrl: youtubeUrl || '',
+    trackNo: track.trackNo,
+    durationSec: track.durationSec,
+    sourceUrl: track.sourceUrl || '',
+    sourceProviderId: track.sourceProviderId || '',
+    fieldSources: youtubeUrl ? { ...track.fieldSources, youtubeUrl: 'youtube' } : track.fieldSources
+  };
+}
@@ -0,0 +1,259 @@
+// Trailer ranking for the YouTube fallback (TMDB has no trailer): every search hit is scored
+// on title match, trailer/teaser markers, official label/studio channels, upload year vs
+// release year and language, instead of taking the first hit. Used by the server's on-demand
+// enrichment and the agent's `trailer` step; both store the confidence and the runner-ups so
+// admins can swap the trailer in the catalog editor.
+
+// Music labels, studios and OTT channels that post the official trailers (normalized names).
+const OFFICIAL_CHANNELS = [
+  't series',
+  'tseries',
+  'sony music india',
+  'sony music south',
+  'zee music company',
+  'zee music south',
+  'tips official',
+  'tips music',
+  'saregama music',
+  'saregama tamil',
+  'saregama telugu',
+  'saregama malayalam',
+  'lahari music',
+  'aditya music',
+  'think music india',
+  'anand audio',
+  'muzik247',
+  'manorama music',
+  'junglee music',
+  'speed records',
+  'white hill music',
+  'sun tv',
+  'sun pictures',
+  'lyca productions',
+  'hombale films',
+  'mythri movie makers',
+  'geetha arts',
+  'sithara entertainments',
+  'sri venkateswara creations',
+  'vyjayanthi movies',
+  'dvv entertainment',
+  'kvn productions',
+  'goodwill entertainments',
+  'aashirvad cinemas',
+  'yash raj films',
+  'dharma productions',
+  'excel entertainment',
+  'red chillies entertainment',
+  'maddock films',
+  'pen movies',
+  'aa films',
+  'eros now',
+  'shemaroo',
+  'rajshri',
+  'ultra media',
+  'netflix india',
+  'prime video india',
+  'jiohotstar',
+  'disney plus hotstar',
+  'zee5',
+  'sonyliv',
+  'aha video'
+];
+
+// Never the film's trailer.
+const REJECT_MARKERS = [
+  'reaction',
+  'review',
+  'fan made',
+  'fanmade',
+  'concept',
+  'spoof',
+  'parody',
+  'roast',
+  'full movie',
+  'unofficial',
+  'breakdown',
+  'explained',
+  'recreated',
+  'recreation',
+  'whatsapp status',
+  'shorts'
+];
+// Usually some other video about the film.
+const PENALTY_MARKERS = ['scene', 'behind the scenes', 'making', 'interview', 'lyrical', 'jukebox', 'video song', 'full song', 'promo song'];
+
+const LANGUAGES = ['hindi', 'tamil', 'telugu', 'kannada', 'malayalam', 'marathi', 'bengali', 'punjabi'];
+const STOPWORDS = ['the', 'and', 'for', 'from', 'with', 'movie', 'film', 'official', 'trailer', 'teaser'];
+
+export function minTrailerConfidence() {
+  const n = Number(process.env.TRAILER_MIN_CONFIDENCE || 0);
+  return n > 0 && n <= 1 ? n : 0.7;
+}
+
+function normalizeText(s) {
+  return String(s || '')
+    .toLowerCase()
+    .replace(/&amp;/g, '&')
+    .replace(/&#39;|&quot;/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function hasPhrase(hay, phrase) {
+  return ` ${hay} `.includes(` ${phrase} `);
+}
+
+export function isOfficialTrailerChannel(channel) {
+  const ch = normalizeText(channel);
+  return !!ch && OFFICIAL_CHANNELS.some((c) => hasPhrase(ch, c) || ch.replace(/\s+/g, '') === c.replace(/\s+/g, ''));
+}
+
+// Score one YouTube search hit (`{ title, channel, description, publishedAt }`) for a movie.
+// Returns `{ score, reasons, rejected }`; `score` is 0..1.
+export function scoreTrailerCandidate({ title: movieTitle, year, language }, item) {
+  const title = normalizeText(item?.title);
+  const hay = `${title} ${normalizeText(item?.description)}`.trim();
+  const reasons = [];
+
+  const reject = REJECT_MARKERS.find((m) => hasPhrase(hay, m));
+  if (reject) return { score: 0, reasons: [`rejected:${reject}`], rejected: true };
+
+  const tokens = Array.from(
+    new Set(
+      normalizeText(movieTitle)
+        .split(/\s+/g)
+        .filter((t) => t.length >= 2 && !STOPWORDS.includes(t))
+    )
+  );
+  const matched = tokens.filter((t) => hasPhrase(title, t)).length;
+  if (!tokens.length || !matched) return { score: 0, reasons: ['rejected:title_mismatch'], rejected: true };
+  let score = 0.4 * (matched / tokens.length);
+  if (matched < tokens.length) reasons.push(`title ${matched}/${tokens.length}`);
+
+  if (hasPhrase(title, 'official trailer')) {
+    score += 0.2;
+    reasons.push('official trailer');
+  } else if (hasPhrase(title, 'trailer')) {
+    score += 0.15;
+    reasons.push('trailer');
+  } else if (hasPhrase(title, 'teaser')) {
+    score += 0.12;
+    reasons.push('teaser');
+  } else if (hasPhrase(title, 'glimpse') || hasPhrase(title, 'first look')) {
+    score += 0.08;
+    reasons.push('glimpse');
+  } else {
+    score -= 0.2;
+    reasons.push('no trailer marker');
+  }
+  if (hasPhrase(hay, 'official')) score += 0.05;
+
+  const penalty = PENALTY_MARKERS.find((m) => hasPhrase(title, m));
+  if (penalty) {
+    score -= 0.25;
+    reasons.push(penalty);
+  }
+
+  const official = isOfficialTrailerChannel(item?.channel);
+  if (official) {
+    score += 0.25;
+    reasons.push('official channel');
+  }
+
+  // Same-named films: a trailer uploaded years away from the release (or naming another year)
+  // is most likely for a different movie.
+  let yearOk = false;
+  const y = Number(year) || 0;
+  const published = Number(String(item?.publishedAt || '').slice(0, 4)) || 0;
+  if (y && published) {
+    if (published >= y - 2 && published <= y + 1) {
+      score += 0.1;
+      yearOk = true;
+      reasons.push('upload year');
+    } else {
+      score -= 0.3;
+      reasons.push(`uploaded ${published}`);
+    }
+  }
+  const otherYear = (title.match(/\b(19|20)\d{2}\b/g) || []).find((v) => y && Number(v) !== y);
+  if (otherYear) {
+    score -= 0.2;
+    reasons.push(`mentions ${otherYear}`);
+  }
+
+  const lang = normalizeText(language);
+  const langOk = !!lang && hasPhrase(hay, lang);
+  if (langOk) {
+    score += 0.08;
+    reasons.push(lang);
+  } else {
+    const other = LANGUAGES.find((l) => l !== lang && hasPhrase(title, l));
+    if (other) {
+      score -= 0.1;
+      reasons.push(`${other} version`);
+    }
+  }
+
+  // One-word titles ("Hero", "Champion") match half of YouTube; require a disambiguator.
+  if (tokens.length === 1 && !(official || yearOk || langOk)) {
+    score = Math.min(score, 0.5);
+    reasons.push('ambiguous title');
+  }
+
+  return { score: Math.max(0, Math.min(1, Math.round(score * 1000) / 1000)), reasons, rejected: false, official };
+}
+
+// Deduplicate + rank hits; rejected ones are dropped. Re-uploads from other channels stay below
+// `minConfidence` (runner-ups only) whenever an official channel posted a candidate too.
+export function rankTrailerCandidates(movie, items, { limit = 6, minConfidence = minTrailerConfidence() } = {}) {
+  const byUrl = new Map();
+  for (const h of items || []) {
+    const url = String(h?.youtubeUrl || '');
+    if (url && !byUrl.has(url)) byUrl.set(url, h);
+  }
+  const scored = Array.from(byUrl.values())
+    .map((h) => ({ h, s: scoreTrailerCandidate(movie, h) }))
+    .filter(({ s }) => !s.rejected && s.score > 0);
+  if (scored.some(({ s }) => s.official)) {
+    const cap = Math.round((minConfidence - 0.01) * 1000) / 1000;
+    for (const { s } of scored) {
+      if (s.official || s.score <= cap) continue;
+      s.score = cap;
+      s.reasons.push('not official channel');
+    }
+  }
+  return scored
+    .sort((a, b) => b.s.score - a.s.score)
+    .slice(0, limit)
+    .map(({ h, s }) => ({
+      youtubeUrl: h.youtubeUrl,
+      title: String(h.title || ''),
+      channel: String(h.channel || ''),
+      publishedAt: h.publishedAt || null,
+      thumbnail: h.thumbnail || null,
+      score: s.score,
+      reasons: s.reasons
+    }));
+}
+
+// Search YouTube for a movie's trailer. `search(query, opts)` is the caller's (cached /
+// scheduled) YouTube search; the second, more specific query only runs when the first finds
+// no confident official-channel upload. `best` is null when no candidate reaches the confidence
+// threshold.
+export async function findTrailerCandidates(movie, search, { minConfidence = minTrailerConfidence() } = {}) {
+  const title = String(movie?.title || '').trim();
+  if (!title) return { best: null, candidates: [] };
+  const queries = [
+    `${title} official trailer`,
+    [title, movie.year, movie.language, 'trailer'].filter(Boolean).join(' ')
+  ];
+  const hits = [];
+  let candidates = [];
+  for (const q of queries) {
+    hits.push(...((await search(q, { maxResults: 10, regionCode: 'IN' })) || []));
+    candidates = rankTrailerCandidates(movie, hits, { minConfidence });
+    if (candidates[0]?.score >= minConfidence && candidates[0].reasons.includes('official channel')) break;
+  }
+  const best = candidates[0]?.score >= minConfidence ? candidates[0] : null;
+  return { best, candidates };
+}
@@ -0,0 +1,206 @@
+// Indic script -> Latin transliteration for title matching. YouTube titles are often in
+// Devanagari, Tamil, Telugu, Kannada, ... while our titles are romanized ("Pushpa"), and
+// romanizations themselves vary ("Pushpaa", "Kaavaalaa", "Manjummal"). Both sides are
+// transliterated and then folded to a loose key (and a consonant skeleton) before tokens are
+// compared. Used by the song matchers in agent/songs.ts and server/index.js.
+
+// The Brahmic blocks share one layout: the same offset from the block start is the same
+// letter in every script, so one table covers them all.
+const SCRIPT_BLOCKS = [
+  0x0900, // Devanagari (Hindi, Marathi)
+  0x0980, // Bengali
+  0x0a00, // Gurmukhi (Punjabi)
+  0x0a80, // Gujarati
+  0x0b00, // Oriya
+  0x0b80, // Tamil
+  0x0c00, // Telugu
+  0x0c80, // Kannada
+  0x0d00 // Malayalam
+];
+
+const VOWELS = {
+  0x05: 'a', 0x06: 'aa', 0x07: 'i', 0x08: 'ii', 0x09: 'u', 0x0a: 'uu', 0x0b: 'ri', 0x0c: 'li',
+  0x0d: 'e', 0x0e: 'e', 0x0f: 'e', 0x10: 'ai', 0x11: 'o', 0x12: 'o', 0x13: 'o', 0x14: 'au',
+  0x60: 'rii', 0x61: 'lii'
+};
+const VOWEL_SIGNS = {
+  0x3e: 'aa', 0x3f: 'i', 0x40: 'ii', 0x41: 'u', 0x42: 'uu', 0x43: 'ri', 0x44: 'rii', 0x45: 'e',
+  0x46: 'e', 0x47: 'e', 0x48: 'ai', 0x49: 'o', 0x4a: 'o', 0x4b: 'o', 0x4c: 'au', 0x62: 'li', 0x63: 'lii'
+};
+const CONSONANTS = {
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'n',
+  0x1a: 'ch', 0x1b: 'chh', 0x1c: 'j', 0x1d: 'jh', 0x1e: 'nj',
+  0x1f: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n',
+  0x24: 't', 0x25: 'th', 0x26: 'd', 0x27: 'dh', 0x28: 'n', 0x29: 'n',
+  0x2a: 'p', 0x2b: 'ph', 0x2c: 'b', 0x2d: 'bh', 0x2e: 'm',
+  0x2f: 'y', 0x30: 'r', 0x31: 'r', 0x32: 'l', 0x33: 'l', 0x34: 'zh', 0x35: 'v',
+  0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h',
+  // Nukta forms (Devanagari / Bengali / Gurmukhi).
+  0x58: 'q', 0x59: 'kh', 0x5a: 'g', 0x5b: 'z', 0x5c: 'r', 0x5d: 'rh', 0x5e: 'f', 0x5f: 'y'
+};
+// Consonant + nukta (when not precomposed).
+const NUKTA = { k: 'q', kh: 'kh', g: 'g', j: 'z', d: 'r', dh: 'rh', ph: 'f', y: 'y' };
+// Malayalam chillu letters (consonants without the inherent vowel).
+const CHILLU = { 0x7a: 'n', 0x7b: 'n', 0x7c: 'r', 0x7d: 'l', 0x7e: 'l', 0x7f: 'k' };
+
+const VIRAMA = 0x4d;
+const NUKTA_SIGN = 0x3c;
+const ANUSVARA = 0x02;
+
+function decode(ch) {
+  const cp = ch.codePointAt(0);
+  for (const base of SCRIPT_BLOCKS) {
+    if (cp >= base && cp < base + 0x80) return { base, off: cp - base };
+  }
+  return null;
+}
+
+// Indic letters -> Latin (lower-case ASCII); anything else is passed through unchanged.
+export function transliterateIndic(text) {
+  const chars = Array.from(String(text || '').normalize('NFC'));
+  let out = '';
+  let pendingVowel = false; // last consonant still carries its inherent "a"
+  let lastConsonant = '';
+  const flush = () => {
+    if (pendingVowel) out += 'a';
+    pendingVowel = false;
+  };
+  for (let i = 0; i < chars.length; i++) {
+    const d = decode(chars[i]);
+    if (!d) {
+      if (chars[i] === '\u200c' || chars[i] === '\u200d') continue; // ZWNJ / ZWJ
+      flush();
+      out += chars[i];
+      continue;
+    }
+    const { base, off } = d;
+    if (CONSONANTS[off]) {
+      flush();
+      lastConsonant = CONSONANTS[off];
+      out += lastConsonant;
+      pendingVowel = true;
+    } else if (off === NUKTA_SIGN) {
+      const swap = NUKTA[lastConsonant];
+      if (pendingVowel && swap && out.endsWith(lastConsonant)) {
+        out = out.slice(0, out.length - lastConsonant.length) + swap;
+        lastConsonant = swap;
+      }
+    } else if (off === VIRAMA) {
+      pendingVowel = false;
+    } else if (VOWEL_SIGNS[off]) {
+      pendingVowel = false;
+      out += VOWEL_SIGNS[off];
+    } else if (VOWELS[off]) {
+      flush();
+      out += VOWELS[off];
+    } else if (off === ANUSVARA || off === 0x01 || (base === 0x0a00 && off === 0x70)) {
+      // Anusvara / candrabindu / Gurmukhi tippi: "m" before labials and word-finally, else "n".
+      flush();
+      const next = decode(chars[i + 1] || '');
+      const nextLetter = next ? CONSONANTS[next.off] || '' : '';
+      out += !next || ['p', 'ph', 'b', 'bh', 'm'].includes(nextLetter) ? 'm' : 'n';
+    } else if (off === 0x03) {
+      flush();
+      out += 'h';
+    } else if (base === 0x0d00 && CHILLU[off]) {
+      flush();
+      out += CHILLU[off];
+    } else if (base === 0x0980 && off === 0x4e) {
+      flush();
+      out += 't'; // Bengali khanda ta
+    } else if (off >= 0x66 && off <= 0x6f) {
+      flush();
+      out += String(off - 0x66);
+    } else if (off === 0x64 || off === 0x65) {
+      flush();
+      out += ' '; // danda
+    }
+    // Anything else (length marks, Gurmukhi addak, signs) adds nothing to a romanization.
+  }
+  flush();
+  return out;
+}
+
+// Like the matchers' `normalizeText`, but Indic script is transliterated instead of dropped.
+export function normalizeForMatch(s) {
+  return transliterateIndic(s)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&amp;/g, '&')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Fold common romanization variants: long vowels (aa/ee/oo), aspiration, zh/l, w/v, z/j,
+// gemination and the final schwa. "Pushpaa" and "Pushpa" (and पुष्पा) share one key.
+export function romanKey(token) {
+  let t = String(token || '').toLowerCase();
+  if (/^\d+$/.test(t)) return t;
+  t = t
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/zh/g, 'l') // Tamil/Malayalam ழ/ഴ: "Tamizh" / "Tamil"
+    .replace(/([kgcjtdpbsz])h/g, '$1')
+    .replace(/x/g, 'ks')
+    .replace(/f/g, 'p')
+    .replace(/q/g, 'k')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/([^aeiou]{1,2})\1+/g, '$1')
+    .replace(/([aeiou])\1+/g, '$1');
+  if (t.length > 3) t = t.replace(/a$/, '');
+  return t;
+}
+
+// Consonants only, voicing and s/ch folded (Tamil script has neither voiced stops nor a
+// separate "s"): catches variants like "Jailer" / ஜெயிலர் ("jeyilar"), "Selvan" / செல்வன்.
+export function consonantSkeleton(token) {
+  return romanKey(token)
+    .replace(/[aeiouy]/g, '')
+    .replace(/g/g, 'k')
+    .replace(/[js]/g, 'c')
+    .replace(/d/g, 't')
+    .replace(/b/g, 'p')
+    .replace(/(.)\1+/g, '$1');
+}
+
+// Credit of a title token against a normalized haystack: 1 for a plain or romanization-key
+// match, 0.8 for a consonant-skeleton match (3+ consonants), else 0.
+export function tokenMatchScore(token, hay) {
+  if (!token) return 0;
+  if (hay.includes(token)) return 1;
+  const words = hay.split(/\s+/g).filter(Boolean);
+  const key = romanKey(token);
+  if (words.some((w) => romanKey(w) === key)) return 1;
+  const skel = consonantSkeleton(token);
+  if (skel.length >= 3 && words.some((w) => consonantSkeleton(w) === skel)) return 0.8;
+  return 0;
+}
+
+export function countTokenMatches(tokens, hay) {
+  return tokens.reduce((sum, t) => sum + tokenMatchScore(t, hay), 0);
+}
+
+// "Song" / "lyrical" / "jukebox" written in the film's own script, as `transliterateIndic`
+// spells them (Tamil script has no "d": பாடல் comes out "paatal").
+const NATIVE_SONG_WORDS = [
+  'gaana',
+  'geet',
+  'geetam',
+  'paata',
+  'paatalu',
+  'paadal',
+  'paatal',
+  'paatalkal',
+  'haadu',
+  'haadugalu',
+  'gaanam',
+  'lirikal',
+  'jukboks'
+];
+const NATIVE_SONG_KEYS = new Set(NATIVE_SONG_WORDS.map(romanKey));
+
+export function hasNativeSongMarker(hay) {
+  return hay.split(/\s+/g).some((w) => w && NATIVE_SONG_KEYS.has(romanKey(w)));
+}
@@ -6,6 +6,10 @@ import { HomePage } from './pages/HomePage';
 import { SearchPage } from './pages/SearchPage';
 import { MoviePage } from './pages/MoviePage';
 import { PersonPage } from './pages/PersonPage';
+import { SeriesPage } from './pages/SeriesPage';
+import { StudioPage } from './pages/StudioPage';
+import { CollectionPage } from './pages/CollectionPage';
+import { SeasonPage } from './pages/SeasonPage';
 import { AdminPage } from './pages/AdminPage';
 import { AboutPage } from './pages/AboutPage';
 import { ContactPage } from './pages/ContactPage';
@@ -24,6 +28,7 @@ import { ListsPage } from './pages/ListsPage';
 import { ArticlesPage } from './pages/ArticlesPage';
 import { ArticlePage } from './pages/ArticlePage';
 import { initAnalytics, trackPageView } from './services/analytics';
+import { fetchMe, type User } from './services/api';
 import { languageFromSlug, slugifySegment } from './utils/slugs';
 import { LANGUAGE_COLORS } from './data/languageContent';
 
@@ -49,7 +54,7 @@ function currentLangFromRoute(route: ReturnType<typeof useRoute>): string {
 export default function App() {
   const route = useRoute();
   const activeLang = currentLangFromRoute(route);
-  const [me, setMe] = useState<any>(null);
+  const [me, setMe] = useState<User | null>(null);
 
   useEffect(() => {
     initAnalytics();
@@ -72,7 +77,15 @@ export default function App() {
   useEffect(() => {
     // Preserve the user's last "listing" context (home/search/streaming/etc) so the Movie back button can return there.
     // This avoids losing context when navigating from /streaming -> /movie/:id.
-    if (route.name === 'movie' || route.name === 'person' || route.name === 'trailer' || route.name === 'song') return;
+    if (
+      route.name === 'movie' ||
+      route.name === 'person' ||
+      route.name === 'series' ||
+      route.name === 'season' ||
+      route.name === 'trailer' ||
+      route.name === 'song'
+    )
+      return;
     try {
       sessionStorage.setItem('img_last_list_path', window.location.pathname + window.location.search);
     } catch {
@@ -84,10 +97,9 @@ export default function App() {
     let alive = true;
     const refresh = async () => {
       try {
-        const res = await fetch('/api/me', { cache: 'no-store' });
-        const data = await res.json().catch(() => ({}));
+        const data = await fetchMe();
         if (!alive) return;
-        setMe(data?.user || null);
+        setMe(data.user || null);
       } catch {
         // ignore
       }
@@ -215,6 +227,10 @@ export default function App() {
         {route.name === 'trailer' && <TrailerPage id={route.id} />}
         {route.name === 'song' && <SongPage id={route.id} />}
         {route.name === 'person' && <PersonPage id={route.id} />}
+        {route.name === 'series' && <SeriesPage id={route.id} />}
+        {route.name === 'season' && <SeasonPage id={route.id} season={route.season} />}
+        {route.name === 'studio' && <StudioPage slug={route.slug} />}
+        {route.name === 'collection' && <CollectionPage slug={route.slug} />}
         {route.name === 'login' && <LoginPage next={route.next} />}
         {route.name === 'account' && <AccountPage />}
         {route.name === 'submit' && <SubmitPage />}
@@ -8,102 +8,85 @@ import {
   RiRocketLine,
   RiSettings3Line
 } from 'react-icons/ri';
-
-interface AdminStatus {
-  now: string;
-  dbPath: string;
-  counts: { movies: number; persons: number; songs: number; ottOffers: number; ratings: number; reviews: number };
-  lastHomeSeedAt: number;
-  lastHomeSeedAtIso?: string | null;
-  lastAllLanguagesSeedAtIso?: string | null;
-  languageSeeds?: Record<string, string | null>;
-  youtubeQuotaUntilIso?: string | null;
-  backfill?: any;
-  agentLastRun?: {
-    startedAt?: string;
-    finishedAt?: string;
-    discovered?: number;
-    fetched?: number;
-    upserted?: number;
-    skippedNonIndian?: number;
-    trailerUpdated?: number;
-    songsUpserted?: number;
-    ratingsUpserted?: number;
-    errors?: number;
-  } | null;
-  pending?: { submissions: number; userReviews: number; personSubmissions: number };
-  keys: { tmdb: boolean; youtube: boolean; omdb: boolean };
-}
-
-type AdminSongRow = {
-  id: string;
-  title: string;
-  singers: string[];
-  youtubeUrl?: string;
-  platform?: string;
-  source?: string;
-  createdAt?: string;
-};
-
-type AdminMovieEditorPayload = {
-  movieId: string;
-  movie: any;
-  songs: AdminSongRow[];
-  cast?: {
-    personId: string;
-    tmdbId?: number;
-    name: string;
-    profileImage?: string;
-    profileUrl?: string;
-    character?: string;
-    billingOrder?: number | null;
-  }[];
-  ottOffers?: {
-    id: string;
-    provider: string;
-    offerType: string;
-    region?: string;
-    url?: string;
-    logo?: string;
-    source?: string;
-    deepLink?: string;
-    deepLinkSource?: string;
-    deepLinkVerifiedAt?: string | null;
-    createdAt?: string;
-  }[];
-};
-
-type ModerationQueue = {
-  now: string;
-  submissions: {
-    id: string;
-    kind: string;
-    title: string;
-    language?: string;
-    createdAt: string;
-    user: { email: string; displayName?: string };
-    payload: any;
-  }[];
-  reviews: {
-    id: string;
-    movieId: string;
-    movieTitle: string;
-    rating: number | null;
-    body: string;
-    createdAt: string;
-    user: { email: string; displayName?: string };
-  }[];
-  personSubmissions: {
-    id: string;
-    personId?: string;
-    name: string;
-    profileImage?: string;
-    biography?: string;
-    filmography?: any[];
-    createdAt: string;
-    user: { email: string; displayName?: string };
-  }[];
-};
+import {
+  addMovieCast,
+  adminLogin,
+  adminLogout,
+  cancelBackfill,
+  cancelOttRefresh,
+  clearFeaturedMovie,
+  deleteMovieSong,
+  dismissDuplicatePair,
+  fetchAdminCollections,
+  fetchAdminStatus,
+  fetchBackfillStatus,
+  fetchDuplicatePairs,
+  fetchFeatured,
+  fetchIncompleteMovies,
+  fetchJobRun,
+  fetchJobRuns,
+  fetchJobSchedules,
+  fetchModerationQueue,
+  fetchMovieCollections,
+  fetchMovieEditor,
+  fetchOttRefreshStatus,
+  fetchQualityReport,
+  fetchRevision,
+  fetchRevisions,
+  jobScheduleAction,
+  linkMovieVersion,
+  mergeDuplicateMovies,
+  moderatePersonSubmission,
+  moderateReview,
+  moderateSubmission,
+  refreshAdminMovie,
+  refreshQualityScores,
+  removeMovieCast,
+  removeMovieCollection,
+  removeMovieVersion,
+  revertRevision,
+  saveJobSchedule,
+  saveMovieVersion,
+  saveUniverse,
+  searchAdminMovies,
+  searchAdminPersons,
+  searchTrailerCandidates,
+  seedAllLanguages,
+  seedHome,
+  seedLanguage,
+  setFeaturedMovie,
+  setMovieCollection,
+  setMovieFieldLock,
+  setMovieIndianOverride,
+  setMovieTrailer,
+  setOttDeepLink,
+  startBackfill,
+  startOttRefresh,
+  updateAdminMovie,
+  upsertMovieSong,
+  type AdminMovieEditorPayload,
+  type AdminMovieHit,
+  type AdminPersonHit,
+  type AdminRevision,
+  type AdminRevisionDetail,
+  type AdminStatus,
+  type BackfillState,
+  type DuplicatePair,
+  type DuplicateSide,
+  type IncompleteMovie,
+  type JobRun,
+  type JobSchedule,
+  type ModerationQueue,
+  type OttRefreshState,
+  type QualityMovie,
+  type QualityRuleSummary,
+  type RevisionSnapshot
+} from '../services/api';
+import type { CollectionRef, MovieVersion } from '../types';
+import type { CollectionSummary } from '../types/collection';
+
+// The featured pick per language: a search hit, or the movie `/api/featured` answered with.
+type FeaturedPick = Pick<AdminMovieHit, 'id' | 'title' | 'language' | 'poster'>;
 
 const ADMIN_LANGUAGE_OPTIONS = [
   'Hindi',
@@ -118,25 +101,1234 @@ const ADMIN_LANGUAGE_OPTIONS = [
 
 const ADMIN_STATUS_OPTIONS = ['Now Showing', 'Streaming', 'Upcoming', 'Announced'];
 
-async function postJson(url: string, body: any, token?: string) {
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      ...(token ? { 'x-admin-token': token } : {})
-    },
-    body: JSON.stringify(body)
-  });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-  return data;
+// Fields an admin can lock against provider refreshes (LOCKABLE_MOVIE_FIELDS on the server).
+const ADMIN_LOCK_FIELDS: { field: string; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'language', label: 'Language' },
+  { field: 'releaseDate', label: 'Release date' },
+  { field: 'status', label: 'Status' },
+  { field: 'director', label: 'Director' },
+  { field: 'synopsis', label: 'Synopsis' },
+  { field: 'trailerUrl', label: 'Trailer' },
+  { field: 'poster', label: 'Poster' },
+  { field: 'backdrop', label: 'Backdrop' },
+  { field: 'genres', label: 'Genres' },
+  { field: 'cast', label: 'Cast' },
+  { field: 'crew', label: 'Crew' },
+  { field: 'songs', label: 'Songs' },
+  { field: 'ratings', label: 'Ratings' }
+];
+
+const JOB_KIND_LABELS: Record<string, string> = { agent: 'Agent', backfill: 'Backfill', 'ott-refresh': 'OTT refresh' };
+const JOB_STATUS_OPTIONS = ['running', 'finished', 'done', 'failed', 'interrupted', 'cancelled', 'error'];
+
+function formatDuration(ms?: number | null) {
+  if (ms == null) return '—';
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  return m < 60 ? `${m}m ${s % 60}s` : `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+function formatRate(rate: number) {
+  return `${(rate * 100).toFixed(rate && rate < 0.01 ? 2 : 1)}%`;
+}
+
+// Flatten the numeric counters of a run (top level + one level down, e.g. `totals.wrote`,
+// `persons.fetched`) so two runs can be compared side by side.
+function numericStats(run: JobRun) {
+  const out: Record<string, number> = {
+    items: run.itemsTotal,
+    failed: run.itemsFailed,
+    'error rate %': Math.round(run.errorRate * 1000) / 10
+  };
+  if (run.durationMs != null) out['duration s'] = Math.round(run.durationMs / 1000);
+  for (const [k, v] of Object.entries(run.stats || {})) {
+    if (typeof v === 'number') out[k] = v;
+    else if (v && typeof v === 'object' && !Array.isArray(v) && k !== 'steps' && k !== 'providers') {
+      for (const [k2, v2] of Object.entries(v as Record<string, unknown>)) if (typeof v2 === 'number') out[`${k}.${k2}`] = v2;
+    }
+  }
+  return out;
+}
+
+function JobRunHistory({ token }: { token: string }) {
+  const [kind, setKind] = useState('');
+  const [runStatus, setRunStatus] = useState('');
+  const [since, setSince] = useState('');
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [detail, setDetail] = useState<JobRun | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const load = async () => {
+    if (!token) return;
+    setMsg(null);
+    try {
+      const r = await fetchJobRuns(token, { kind, status: runStatus, since, limit: 100 });
+      setRuns(r.runs);
+      setTotal(r.total);
+      setSelected([]);
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to load run history');
+    }
+  };
+
+  const openDetail = async (id: string) => {
+    try {
+      const r = await fetchJobRun(token, id);
+      setDetail(r.run);
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to load run');
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, kind, runStatus, since]);
+
+  const compared = selected.map((id) => runs.find((r) => r.id === id)).filter(Boolean) as JobRun[];
+  const comparison = (() => {
+    if (compared.length !== 2) return [];
+    const [a, b] = compared.map(numericStats);
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    return keys.map((k) => ({ key: k, a: a[k], b: b[k] }));
+  })();
+
+  // Oldest first, so a spike reads left to right.
+  const timeline = runs.filter((r) => r.itemsTotal > 0).slice(0, 40).reverse();
+  const maxRate = Math.max(0.05, ...timeline.map((r) => r.errorRate));
+
+  return (
+    <div className="detail" style={{ marginTop: 14 }}>
+      <h4 style={{ marginTop: 0 }}>Run history</h4>
+      <div className="tagline">Agent runs, backfills and OTT refreshes. Select two runs to compare them.</div>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 12, alignItems: 'center' }}>
+        <select className="input" value={kind} onChange={(e) => setKind(e.target.value)} title="Job" style={{ minWidth: 180 }}>
+          <option value="">All jobs</option>
+          {Object.entries(JOB_KIND_LABELS).map(([k, label]) => (
+            <option key={k} value={k}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select className="input" value={runStatus} onChange={(e) => setRunStatus(e.target.value)} title="Status" style={{ minWidth: 180 }}>
+          <option value="">Any status</option>
+          {JOB_STATUS_OPTIONS.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+        <input className="input" type="date" value={since} onChange={(e) => setSince(e.target.value)} title="Started on or after" style={{ maxWidth: 180 }} />
+        <button className="ghost-button" type="button" onClick={load}>
+          <RiRefreshLine /> Reload
+        </button>
+        <span className="chip">
+          {runs.length} of {total} run(s)
+        </span>
+      </div>
+      {msg ? (
+        <div className="tagline" style={{ marginTop: 8 }}>
+          {msg}
+        </div>
+      ) : null}
+
+      {timeline.length > 1 ? (
+        <div style={{ marginTop: 12 }}>
+          <div className="tagline">Error rate per run</div>
+          <div style={{ display: 'flex', alignItems: 'flex-end', gap: 3, height: 48, marginTop: 6 }}>
+            {timeline.map((r) => (
+              <div
+                key={r.id}
+                title={`${JOB_KIND_LABELS[r.kind] || r.kind} · ${new Date(r.startedAt).toLocaleString()} · ${formatRate(r.errorRate)} (${r.itemsFailed}/${r.itemsTotal})`}
+                onClick={() => openDetail(r.id)}
+                style={{
+                  flex: '1 1 0',
+                  maxWidth: 18,
+                  minHeight: 2,
+                  height: `${Math.max(4, (r.errorRate / maxRate) * 100)}%`,
+                  borderRadius: 3,
+                  cursor: 'pointer',
+                  background: r.errorRate >= 0.1 ? 'rgba(255,99,99,0.85)' : 'rgba(255,255,255,0.28)'
+                }}
+              />
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      {runs.length ? (
+        <div className="song-list" style={{ marginTop: 12 }}>
+          {runs.map((r) => (
+            <div key={r.id} className="song" style={{ alignItems: 'center', gap: 12 }}>
+              <input
+                type="checkbox"
+                checked={selected.includes(r.id)}
+                title="Compare"
+                onChange={(e) =>
+                  setSelected((prev) => (e.target.checked ? [...prev.filter((id) => id !== r.id), r.id].slice(-2) : prev.filter((id) => id !== r.id)))
+                }
+              />
+              <div style={{ flex: 1 }}>
+                <div className="meta">
+                  <span className="chip">{JOB_KIND_LABELS[r.kind] || r.kind}</span>
+                  <span className="chip">{r.status}</span>
+                  <span className="chip">{new Date(r.startedAt).toLocaleString()}</span>
+                  <span className="chip">{formatDuration(r.durationMs)}</span>
+                  <span className="chip">
+                    {r.itemsTotal} item(s) · {r.itemsFailed} failed · {formatRate(r.errorRate)}
+                  </span>
+                  {r.params?.command || r.params?.scope ? (
+                    <span className="chip">
+                      {[r.params.command, r.params.mode, r.params.scope, r.params.lang, r.params.dryRun ? 'dry run' : '']
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </span>
+                  ) : null}
+                </div>
+                {r.error ? <div className="tagline" style={{ marginTop: 4 }}>{r.error}</div> : null}
+              </div>
+              <button className="ghost-button" type="button" onClick={() => openDetail(r.id)}>
+                Details
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="tagline" style={{ marginTop: 10 }}>
+          No runs recorded yet.
+        </div>
+      )}
+
+      {comparison.length ? (
+        <div className="detail" style={{ marginTop: 12 }}>
+          <h4 style={{ marginTop: 0 }}>Compare</h4>
+          <div style={{ display: 'grid', gridTemplateColumns: 'minmax(160px, 1fr) repeat(3, minmax(80px, auto))', gap: '4px 14px' }}>
+            <strong>Metric</strong>
+            <strong>{new Date(compared[0].startedAt).toLocaleString()}</strong>
+            <strong>{new Date(compared[1].startedAt).toLocaleString()}</strong>
+            <strong>Δ</strong>
+            {comparison.map((c) => {
+              const delta = c.a != null && c.b != null ? Math.round((c.b - c.a) * 100) / 100 : null;
+              return (
+                <div key={c.key} style={{ display: 'contents' }}>
+                  <span className="tagline">{c.key}</span>
+                  <span>{c.a ?? '—'}</span>
+                  <span>{c.b ?? '—'}</span>
+                  <span>{delta == null ? '—' : delta > 0 ? `+${delta}` : String(delta)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+
+      {detail ? (
+        <div className="detail" style={{ marginTop: 12 }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <h4 style={{ margin: 0 }}>
+              {JOB_KIND_LABELS[detail.kind] || detail.kind} · {new Date(detail.startedAt).toLocaleString()}
+            </h4>
+            <button className="ghost-button" type="button" onClick={() => setDetail(null)} title="Close">
+              <RiCloseLine />
+            </button>
+          </div>
+          <div className="meta" style={{ marginTop: 6 }}>
+            <span className="chip">{detail.id}</span>
+            <span className="chip">{detail.status}</span>
+            {detail.finishedAt ? <span className="chip">Finished: {new Date(detail.finishedAt).toLocaleString()}</span> : null}
+          </div>
+          <pre className="tagline" style={{ whiteSpace: 'pre-wrap', marginTop: 8 }}>
+            {JSON.stringify(detail.params || {}, null, 2)}
+          </pre>
+          {detail.errors?.length ? (
+            <>
+              <div className="tagline" style={{ marginTop: 8 }}>
+                Errors ({detail.errorCount ?? detail.errors.length})
+              </div>
+              <div className="song-list" style={{ marginTop: 6 }}>
+                {detail.errors.map((e, i) => (
+                  <div key={`${e.item}:${i}`} className="song" style={{ gap: 12 }}>
+                    <span className="chip">{e.item}</span>
+                    <div style={{ flex: 1 }}>
+                      {e.label ? <strong>{e.label}: </strong> : null}
+                      {e.error}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="tagline" style={{ marginTop: 8 }}>
+              No per-item errors recorded.
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const EMPTY_SCHEDULE_FORM = {
+  id: '',
+  name: '',
+  kind: 'agent' as JobSchedule['kind'],
+  cron: '0 3 * * *',
+  timezone: '',
+  args: 'ingest',
+  lang: '',
+  enabled: true
+};
+
+function formatInZone(iso: string, timeZone: string) {
+  try {
+    return new Date(iso).toLocaleString('en-IN', { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+  } catch {
+    return new Date(iso).toLocaleString();
+  }
+}
+
+function JobSchedules({ token }: { token: string }) {
+  const [schedules, setSchedules] = useState<JobSchedule[]>([]);
+  const [defaultTz, setDefaultTz] = useState('Asia/Kolkata');
+  const [enabledOnServer, setEnabledOnServer] = useState(true);
+  const [form, setForm] = useState<typeof EMPTY_SCHEDULE_FORM | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const r = await fetchJobSchedules(token);
+      setSchedules(r.schedules);
+      setDefaultTz(r.defaultTimezone || 'Asia/Kolkata');
+      setEnabledOnServer(r.schedulerEnabled);
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to load schedules');
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  // Poll while something runs so the row flips back when it finishes.
+  const anyRunning = schedules.some((s) => s.running);
+  useEffect(() => {
+    if (!anyRunning) return;
+    const id = window.setInterval(load, 5000);
+    return () => window.clearInterval(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [anyRunning, token]);
+
+  const act = async (s: JobSchedule, action: 'pause' | 'resume' | 'run' | 'delete') => {
+    if (action === 'delete' && !window.confirm(`Delete schedule "${s.name}"?`)) return;
+    setMsg(null);
+    try {
+      await jobScheduleAction(token, s.id, action);
+      if (action === 'run') setMsg(`Started: ${s.name}`);
+    } catch (e: any) {
+      setMsg(e?.message === 'already_running' ? `${s.name} is already running` : e?.message || 'Action failed');
+    }
+    await load();
+  };
+
+  const edit = (s: JobSchedule) =>
+    setForm({
+      id: s.id,
+      name: s.name,
+      kind: s.kind,
+      cron: s.cron,
+      timezone: s.timezone,
+      args: Array.isArray(s.params?.args) ? s.params.args.join(' ') : 'ingest',
+      lang: s.params?.scope === 'language' ? String(s.params?.lang || '') : '',
+      enabled: s.enabled
+    });
+
+  const save = async () => {
+    if (!form) return;
+    setMsg(null);
+    const params =
+      form.kind === 'agent'
+        ? { args: form.args }
+        : { scope: form.lang ? 'language' : 'all', lang: form.lang || null };
+    try {
+      await saveJobSchedule(token, {
+        id: form.id || undefined,
+        name: form.name,
+        kind: form.kind,
+        cron: form.cron,
+        timezone: form.timezone || defaultTz,
+        params,
+        enabled: form.enabled
+      });
+      setForm(null);
+      await load();
+    } catch (e: any) {
+      setMsg(e?.message || 'Save failed');
+    }
+  };
+
+  return (
+    <div className="detail" style={{ marginTop: 14 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 10 }}>
+        <h4 style={{ margin: 0 }}>Schedules</h4>
+        <button className="ghost-button" type="button" onClick={() => setForm({ ...EMPTY_SCHEDULE_FORM, timezone: defaultTz })}>
+          New schedule
+        </button>
+      </div>
+      <div className="tagline" style={{ marginTop: 6 }}>
+        Recurring runs started by the server itself (cron: minute hour day month weekday, in the schedule&apos;s timezone). A run is
+        never started while the previous one is still going.
+        {enabledOnServer ? '' : ' The scheduler is off on this server (JOB_SCHEDULER=off); "Run now" still works.'}
+      </div>
+      {msg ? (
+        <div className="tagline" style={{ marginTop: 8 }}>
+          {msg}
+        </div>
+      ) : null}
+
+      {form ? (
+        <div className="detail" style={{ marginTop: 12 }}>
+          <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+            <input
+              className="input"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Name"
+              style={{ minWidth: 220 }}
+            />
+            <select
+              className="input"
+              value={form.kind}
+              onChange={(e) => setForm({ ...form, kind: e.target.value as JobSchedule['kind'] })}
+              title="Job"
+              style={{ minWidth: 160 }}
+            >
+              {Object.entries(JOB_KIND_LABELS).map(([k, label]) => (
+                <option key={k} value={k}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              className="input"
+              value={form.cron}
+              onChange={(e) => setForm({ ...form, cron: e.target.value })}
+              placeholder="0 3 * * *"
+              title="Cron (minute hour day month weekday) or @daily / @hourly"
+              style={{ maxWidth: 160 }}
+            />
+            <input
+              className="input"
+              value={form.timezone}
+              onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+              placeholder={defaultTz}
+              title="IANA timezone"
+              style={{ maxWidth: 180 }}
+            />
+          </div>
+          <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center', marginTop: 10 }}>
+            {form.kind === 'agent' ? (
+              <input
+                className="input"
+                value={form.args}
+                onChange={(e) => setForm({ ...form, args: e.target.value })}
+                placeholder="ingest --limit=80"
+                title="Agent command and options (ingest, enrich or persons)"
+                style={{ minWidth: 320 }}
+              />
+            ) : (
+              <select className="input" value={form.lang} onChange={(e) => setForm({ ...form, lang: e.target.value })} title="Language" style={{ minWidth: 220 }}>
+                <option value="">All languages</option>
+                {ADMIN_LANGUAGE_OPTIONS.filter((l) => l !== 'Punjabi').map((l) => (
+                  <option key={l} value={l}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label className="chip" style={{ display: 'inline-flex', alignItems: 'center', gap: 8 }}>
+              <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: e.target.checked })} />
+              Active
+            </label>
+            <button className="ghost-button" type="button" onClick={save}>
+              Save
+            </button>
+            <button className="ghost-button" type="button" onClick={() => setForm(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {schedules.length ? (
+        <div className="song-list" style={{ marginTop: 12 }}>
+          {schedules.map((s) => (
+            <div key={s.id} className="song" style={{ alignItems: 'center', gap: 12 }}>
+              <div style={{ flex: 1 }}>
+                <strong>{s.name}</strong>
+                <div className="meta" style={{ marginTop: 4 }}>
+                  <span className="chip">{JOB_KIND_LABELS[s.kind] || s.kind}</span>
+                  <span className="chip" title={s.timezone}>
+                    <code>{s.cron}</code> {s.timezone}
+                  </span>
+                  <span className="chip">{s.running ? 'Running' : s.enabled ? 'Active' : 'Paused'}</span>
+                  {s.enabled && s.nextRunAt ? (
+                    <span className="chip" title={new Date(s.nextRunAt).toLocaleString()}>
+                      Next: {formatInZone(s.nextRunAt, s.timezone)}
+                    </span>
+                  ) : null}
+                  {s.lastStatus ? (
+                    <span className="chip" title={s.lastRunId || ''}>
+                      Last: {s.lastStatus}
+                      {s.lastFinishedAt ? ` · ${new Date(s.lastFinishedAt).toLocaleString()}` : ''}
+                    </span>
+                  ) : null}
+                </div>
+                {s.lastError ? <div className="tagline" style={{ marginTop: 4 }}>{s.lastError}</div> : null}
+              </div>
+              <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                <button className="ghost-button" type="button" disabled={!!s.running} onClick={() => act(s, 'run')}>
+                  <RiRocketLine /> Run now
+                </button>
+                <button className="ghost-button" type="button" onClick={() => act(s, s.enabled ? 'pause' : 'resume')}>
+                  {s.enabled ? 'Pause' : 'Resume'}
+                </button>
+                <button className="ghost-button" type="button" onClick={() => edit(s)}>
+                  Edit
+                </button>
+                <button className="ghost-button" type="button" disabled={!!s.running} onClick={() => act(s, 'delete')}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="tagline" style={{ marginTop: 10 }}>
+          No schedules yet.
+        </div>
+      )}
+    </div>
+  );
+}
+
+const QUALITY_PAGE_SIZE = 40;
+
+function QualityReport({ token, onEdit }: { token: string; onEdit: (movieId: string) => void }) {
+  const [filters, setFilters] = useState({ lang: '', status: '', rule: '', maxScore: '99' });
+  const [rules, setRules] = useState<QualityRuleSummary[]>([]);
+  const [movies, setMovies] = useState<QualityMovie[]>([]);
+  const [total, setTotal] = useState(0);
+  const [scoredAt, setScoredAt] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const load = async (offset = 0) => {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await fetchQualityReport(token, { ...filters, limit: QUALITY_PAGE_SIZE, offset });
+      setMovies((prev) => (offset ? [...prev, ...r.movies] : r.movies));
+      setRules(r.rules);
+      setTotal(r.total);
+      setScoredAt(r.scoredAt);
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to load the quality report');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    load(0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, filters]);
+
+  const rescore = async () => {
+    setBusy(true);
+    try {
+      const r = await refreshQualityScores(token);
+      setMsg(`Scored ${r.scored} movies`);
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to recompute scores');
+    }
+    await load(0);
+  };
+
+  const describe = (name: string) => rules.find((r) => r.name === name)?.description || name;
+
+  return (
+    <div className="detail" style={{ marginTop: 14 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 10 }}>
+        <h4 style={{ margin: 0 }}>Data quality</h4>
+        <button className="ghost-button" type="button" disabled={busy} onClick={rescore}>
+          <RiRefreshLine /> Recompute scores
+        </button>
+      </div>
+      <div className="tagline" style={{ marginTop: 6 }}>
+        Completeness score per movie (100 = passes every rule; each rule is weighted). Lowest first. The agent re-enriches the
+        worst ones with <code>npm run agent -- enrich --lowest=25</code>.
+        {scoredAt ? ` Scored ${new Date(scoredAt).toLocaleString()}.` : ''}
+      </div>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 10, alignItems: 'center' }}>
+        <select className="input" value={filters.lang} onChange={(e) => setFilters({ ...filters, lang: e.target.value })} title="Language">
+          <option value="">All languages</option>
+          {ADMIN_LANGUAGE_OPTIONS.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+        <select className="input" value={filters.status} onChange={(e) => setFilters({ ...filters, status: e.target.value })} title="Status">
+          <option value="">Any status</option>
+          {ADMIN_STATUS_OPTIONS.map((st) => (
+            <option key={st} value={st}>
+              {st}
+            </option>
+          ))}
+        </select>
+        <select
+          className="input"
+          value={filters.rule}
+          onChange={(e) => setFilters({ ...filters, rule: e.target.value })}
+          title="Failing rule"
+          style={{ minWidth: 240 }}
+        >
+          <option value="">Any failing rule</option>
+          {rules.map((r) => (
+            <option key={r.name} value={r.name}>
+              {r.name} ({r.count})
+            </option>
+          ))}
+        </select>
+        <input
+          className="input"
+          type="number"
+          min={0}
+          max={100}
+          value={filters.maxScore}
+          onChange={(e) => setFilters({ ...filters, maxScore: e.target.value })}
+          title="Maximum score"
+          style={{ maxWidth: 110 }}
+        />
+        <span className="chip">
+          {total} movie{total === 1 ? '' : 's'}
+        </span>
+      </div>
+      {msg ? (
+        <div className="tagline" style={{ marginTop: 8 }}>
+          {msg}
+        </div>
+      ) : null}
+
+      {movies.length ? (
+        <div className="song-list" style={{ marginTop: 12 }}>
+          {movies.map((m) => (
+            <div key={m.id} className="song" style={{ alignItems: 'center', gap: 12 }}>
+              <div style={{ flex: 1 }}>
+                <strong>{m.title}</strong>
+                <div className="meta" style={{ marginTop: 4 }}>
+                  <span className="chip">Score {m.score}</span>
+                  {m.language ? <span className="chip">{m.language}</span> : null}
+                  {m.status ? <span className="chip">{m.status}</span> : null}
+                  {m.releaseDate ? <span className="chip">{m.releaseDate}</span> : null}
+                  {m.failed.map((name) => (
+                    <span key={name} className="chip" title={describe(name)}>
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <button className="ghost-button" type="button" onClick={() => onEdit(m.id)}>
+                Edit
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="tagline" style={{ marginTop: 10 }}>
+          {busy ? 'Loading…' : 'No movies match these filters.'}
+        </div>
+      )}
+      {movies.length < total ? (
+        <button className="ghost-button" type="button" disabled={busy} style={{ marginTop: 10 }} onClick={() => load(movies.length)}>
+          Load more
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+function DuplicateMovies({ token, onEdit }: { token: string; onEdit: (movieId: string) => void }) {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const load = async () => {
+    setBusy(true);
+    try {
+      const r = await fetchDuplicatePairs(token, { limit: 60 });
+      setPairs(r.pairs);
+      setLoaded(true);
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to load duplicates');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = async (from: DuplicateSide, to: DuplicateSide) => {
+    const ok = window.confirm(
+      `Merge "${from.title}" (${from.id}) into "${to.title}" (${to.id})?\n\nCast, songs, OTT offers, ratings, reviews, favorites and watchlist entries move to ${to.id}; /movie/${from.tmdbId || from.id} will redirect there.`
+    );
+    if (!ok) return;
+    setMsg(null);
+    try {
+      const r = await mergeDuplicateMovies(token, from.id, to.id);
+      const moved = Object.entries(r.moved)
+        .filter(([, n]) => n > 0)
+        .map(([k, n]) => `${k} ${n}`)
+        .join(', ');
+      setMsg(`Merged ${from.id} into ${to.id}${moved ? ` (moved: ${moved})` : ''}`);
+    } catch (e: any) {
+      setMsg(e?.message || 'Merge failed');
+    }
+    await load();
+  };
+
+  const dismiss = async (p: DuplicatePair) => {
+    setMsg(null);
+    try {
+      await dismissDuplicatePair(token, p.a.id, p.b.id);
+      setPairs((prev) => prev.filter((x) => x !== p));
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to dismiss');
+    }
+  };
+
+  const side = (m: DuplicateSide, keep: boolean) => (
+    <div style={{ flex: 1, minWidth: 220, display: 'flex', gap: 10 }}>
+      {m.poster ? <img src={m.poster} alt="" style={{ width: 46, height: 69, objectFit: 'cover', borderRadius: 6 }} /> : null}
+      <div>
+        <strong>{m.title}</strong>
+        {m.year ? ` (${m.year})` : ''}
+        <div className="meta" style={{ marginTop: 4 }}>
+          <span className="chip">
+            <code>{m.id}</code>
+          </span>
+          {m.language ? <span className="chip">{m.language}</span> : null}
+          {keep ? <span className="chip">Suggested survivor</span> : null}
+        </div>
+        <div className="tagline" style={{ marginTop: 4 }}>
+          Cast {m.cast} · Songs {m.songs} · OTT {m.ott} · Ratings {m.ratings} · Reviews {m.userReviews} · Lists {m.favorites}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="detail" style={{ marginTop: 14 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 10 }}>
+        <h4 style={{ margin: 0 }}>Duplicates</h4>
+        <button className="ghost-button" type="button" disabled={busy} onClick={load}>
+          <RiRefreshLine /> {loaded ? 'Rescan' : 'Find duplicates'}
+        </button>
+      </div>
+      <div className="tagline" style={{ marginTop: 6 }}>
+        The same film stored under two ids (TMDB ingest, approved submissions, on-demand search), matched on title, release year,
+        language and shared cast. Merging keeps one id and redirects the other&apos;s /movie page to it.
+      </div>
+      {msg ? (
+        <div className="tagline" style={{ marginTop: 8 }}>
+          {msg}
+        </div>
+      ) : null}
+
+      {pairs.length ? (
+        <div className="song-list" style={{ marginTop: 12 }}>
+          {pairs.map((p) => {
+            const keep = p.survivorId === p.b.id ? p.b : p.a;
+            const drop = keep === p.a ? p.b : p.a;
+            return (
+              <div key={`${p.a.id}|${p.b.id}`} className="song" style={{ flexDirection: 'column', alignItems: 'stretch', gap: 10 }}>
+                <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+                  {side(p.a, keep === p.a)}
+                  {side(p.b, keep === p.b)}
+                </div>
+                <div className="meta">
+                  <span className="chip">Score {Math.round(p.score * 100)}%</span>
+                  {p.reasons.map((r) => (
+                    <span key={r} className="chip">
+                      {r}
+                    </span>
+                  ))}
+                </div>
+                <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                  <button className="ghost-button" type="button" onClick={() => merge(drop, keep)}>
+                    Merge into {keep.id}
+                  </button>
+                  <button className="ghost-button" type="button" onClick={() => merge(keep, drop)}>
+                    Merge into {drop.id}
+                  </button>
+                  <button className="ghost-button" type="button" onClick={() => onEdit(p.a.id)}>
+                    Edit A
+                  </button>
+                  <button className="ghost-button" type="button" onClick={() => onEdit(p.b.id)}>
+                    Edit B
+                  </button>
+                  <button className="ghost-button" type="button" onClick={() => dismiss(p)}>
+                    Not a duplicate
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : loaded ? (
+        <div className="tagline" style={{ marginTop: 10 }}>
+          No likely duplicates.
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const REVISION_LIST_PARTS = ['genres', 'cast', 'crew', 'studios', 'collections', 'songs', 'songAttributions', 'ott', 'versions'];
+
+function revisionActor(r: AdminRevision) {
+  if (r.actorType === 'admin') return r.actorId ? `admin ${r.actorId.slice(0, 6)}…` : 'admin';
+  if (r.actorType === 'agent') return `agent ${r.actorId}`;
+  if (r.actorType === 'submission') return `submission ${r.actorId}`;
+  return r.actorId || 'system';
 }
 
-async function getJson(url: string, token: string) {
-  const res = await fetch(url, { headers: { 'x-admin-token': token }, cache: 'no-store' });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-  return data;
+function revisionValue(v: unknown) {
+  if (v == null || v === '') return '—';
+  const text = typeof v === 'string' ? v : JSON.stringify(v);
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+const EMPTY_VERSION_FORM = { language: '', title: '', releaseDate: '', providers: '', providersKnown: false };
+
+function LanguageVersions({
+  token,
+  movieId,
+  versions,
+  onChanged
+}: {
+  token: string;
+  movieId: string;
+  versions: MovieVersion[];
+  onChanged: () => Promise<void>;
+}) {
+  const [form, setForm] = useState(EMPTY_VERSION_FORM);
+  const [linkId, setLinkId] = useState('');
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    setForm(EMPTY_VERSION_FORM);
+    setLinkId('');
+    setMsg(null);
+  }, [movieId]);
+
+  const run = async (label: string, fn: () => Promise<unknown>) => {
+    setMsg(null);
+    try {
+      await fn();
+      setMsg(label);
+      await onChanged();
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed');
+    }
+  };
+
+  const save = () =>
+    run('Saved.', async () => {
+      await saveMovieVersion(token, movieId, {
+        language: form.language,
+        title: form.title,
+        releaseDate: form.releaseDate,
+        ottProviders: form.providersKnown
+          ? form.providers
+              .split(',')
+              .map((p) => p.trim())
+              .filter(Boolean)
+          : null
+      });
+      setForm(EMPTY_VERSION_FORM);
+    });
+
+  return (
+    <div className="detail" style={{ marginTop: 14 }}>
+      <h4 style={{ marginTop: 0 }}>Language versions</h4>
+      <div className="tagline">
+        Dubbed and simultaneous releases of this film. TMDB-derived versions are refreshed with the movie; ones edited here are
+        kept.
+      </div>
+      {msg ? (
+        <div className="tagline" style={{ marginTop: 8 }}>
+          {msg}
+        </div>
+      ) : null}
+      {versions.length ? (
+        <div className="song-list" style={{ marginTop: 12 }}>
+          {versions.map((v) => (
+            <div key={v.language} className="song">
+              <div>
+                <strong>
+                  {v.language} {v.original ? <span className="chip">original</span> : v.source ? <span className="chip">{v.source}</span> : null}
+                </strong>
+                <div className="tagline">
+                  {[v.title, v.releaseDate || '', v.original ? '' : v.ottProviders ? v.ottProviders.join(', ') || 'no platforms' : 'platforms unknown']
+                    .filter(Boolean)
+                    .join(' · ')}
+                </div>
+              </div>
+              {v.original ? null : (
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <button
+                    className="ghost-button"
+                    type="button"
+                    onClick={() =>
+                      setForm({
+                        language: v.language,
+                        title: v.title || '',
+                        releaseDate: v.releaseDate || '',
+                        providers: (v.ottProviders || []).join(', '),
+                        providersKnown: !!v.ottProviders
+                      })
+                    }
+                  >
+                    Edit
+                  </button>
+                  <button
+                    className="ghost-button"
+                    type="button"
+                    onClick={() => run('Removed.', () => removeMovieVersion(token, movieId, v.language))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="tagline" style={{ marginTop: 10 }}>
+          No other language versions recorded.
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginTop: 12 }}>
+        <input className="input" value={form.language} onChange={(e) => setForm({ ...form, language: e.target.value })} placeholder="Language (e.g. Hindi)" style={{ maxWidth: 180 }} />
+        <input className="input" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} placeholder="Title in that release" />
+        <input className="input" type="date" value={form.releaseDate} onChange={(e) => setForm({ ...form, releaseDate: e.target.value })} style={{ maxWidth: 180 }} />
+        <label className="tagline" style={{ display: 'inline-flex', gap: 6, alignItems: 'center' }}>
+          <input type="checkbox" checked={form.providersKnown} onChange={(e) => setForm({ ...form, providersKnown: e.target.checked })} />
+          Platforms known
+        </label>
+        {form.providersKnown ? (
+          <input className="input" value={form.providers} onChange={(e) => setForm({ ...form, providers: e.target.value })} placeholder="Netflix, JioHotstar" />
+        ) : null}
+        <button className="ghost-button" type="button" disabled={!form.language.trim()} onClick={save}>
+          Save version
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginTop: 12 }}>
+        <input className="input" value={linkId} onChange={(e) => setLinkId(e.target.value)} placeholder="Movie id of a dubbed release listed separately" />
+        <button
+          className="ghost-button"
+          type="button"
+          disabled={!linkId.trim()}
+          onClick={() => {
+            if (!window.confirm(`Merge ${linkId.trim()} into ${movieId} as a language version? Its page will redirect here.`)) return;
+            run('Linked.', async () => {
+              await linkMovieVersion(token, movieId, linkId.trim());
+              setLinkId('');
+            });
+          }}
+        >
+          Link as version
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Franchise / universe membership of one movie and its place in story order. TMDB collections
+// come with the movie; universes are created here.
+function MovieCollections({ token, movieId, onChanged }: { token: string; movieId: string; onChanged: () => Promise<void> }) {
+  const [memberships, setMemberships] = useState<CollectionRef[]>([]);
+  const [all, setAll] = useState<CollectionSummary[]>([]);
+  const [orders, setOrders] = useState<Record<string, string>>({});
+  const [pick, setPick] = useState('');
+  const [universe, setUniverse] = useState('');
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const [m, c] = await Promise.all([fetchMovieCollections(token, movieId), fetchAdminCollections(token)]);
+      setMemberships(m.collections);
+      setOrders(Object.fromEntries(m.collections.map((x) => [x.slug, x.chronoOrder ? String(x.chronoOrder) : ''])));
+      setAll(c.collections);
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to load collections');
+    }
+  };
+
+  useEffect(() => {
+    setPick('');
+    setUniverse('');
+    setMsg(null);
+    load();
+  }, [movieId]);
+
+  const run = async (label: string, fn: () => Promise<unknown>) => {
+    setMsg(null);
+    try {
+      await fn();
+      setMsg(label);
+      await load();
+      await onChanged();
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed');
+    }
+  };
+
+  const setMembership = (slug: string, chronoOrder: string) =>
+    setMovieCollection(token, movieId, slug, chronoOrder.trim() ? Number(chronoOrder) : null);
+
+  const available = all.filter((c) => !memberships.some((m) => m.slug === c.slug));
+
+  return (
+    <div className="detail" style={{ marginTop: 14 }}>
+      <h4 style={{ marginTop: 0 }}>Franchises &amp; universes</h4>
+      <div className="tagline">
+        TMDB franchises follow the movie&apos;s TMDB collection. Story order is 1-based; leave it empty to follow release order.
+      </div>
+      {msg ? (
+        <div className="tagline" style={{ marginTop: 8 }}>
+          {msg}
+        </div>
+      ) : null}
+      {memberships.length ? (
+        <div className="song-list" style={{ marginTop: 12 }}>
+          {memberships.map((c) => (
+            <div key={c.slug} className="song">
+              <div>
+                <strong>
+                  {c.name} <span className="chip">{c.kind === 'universe' ? 'universe' : 'TMDB'}</span>
+                </strong>
+                <div className="tagline">
+                  Part {c.position} of {c.total} by release
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                <input
+                  className="input"
+                  inputMode="numeric"
+                  value={orders[c.slug] ?? ''}
+                  onChange={(e) => setOrders({ ...orders, [c.slug]: e.target.value })}
+                  placeholder="Story #"
+                  style={{ maxWidth: 90 }}
+                />
+                <button className="ghost-button" type="button" onClick={() => run('Saved.', () => setMembership(c.slug, orders[c.slug] || ''))}>
+                  Save
+                </button>
+                <button
+                  className="ghost-button"
+                  type="button"
+                  onClick={() => run('Removed.', () => removeMovieCollection(token, movieId, c.slug))}
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="tagline" style={{ marginTop: 10 }}>
+          Not part of a franchise.
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginTop: 12 }}>
+        <select className="input" value={pick} onChange={(e) => setPick(e.target.value)} style={{ maxWidth: 280 }}>
+          <option value="">Add to…</option>
+          {available.map((c) => (
+            <option key={c.slug} value={c.slug}>
+              {c.name} ({c.kind === 'universe' ? 'universe' : 'TMDB'}, {c.movieCount})
+            </option>
+          ))}
+        </select>
+        <button
+          className="ghost-button"
+          type="button"
+          disabled={!pick}
+          onClick={() =>
+            run('Added.', async () => {
+              await setMembership(pick, '');
+              setPick('');
+            })
+          }
+        >
+          Add
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginTop: 12 }}>
+        <input className="input" value={universe} onChange={(e) => setUniverse(e.target.value)} placeholder="New universe (e.g. Lokesh Cinematic Universe)" />
+        <button
+          className="ghost-button"
+          type="button"
+          disabled={!universe.trim()}
+          onClick={() =>
+            run('Created and added.', async () => {
+              const r = await saveUniverse(token, { name: universe.trim() });
+              await setMembership(r.slug, '');
+              setUniverse('');
+            })
+          }
+        >
+          Create universe
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function RevisionHistory({ token, movieId, onReverted }: { token: string; movieId: string; onReverted: () => Promise<void> }) {
+  const [revisions, setRevisions] = useState<AdminRevision[]>([]);
+  const [details, setDetails] = useState<Record<string, AdminRevisionDetail>>({});
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const load = async () => {
+    setBusy(true);
+    try {
+      const r = await fetchRevisions(token, { entityType: 'movie', entityId: movieId, limit: 50 });
+      setRevisions(r.revisions);
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to load history');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    setRevisions([]);
+    setDetails({});
+    setOpenId(null);
+    setMsg(null);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [movieId]);
+
+  const toggle = async (r: AdminRevision) => {
+    if (openId === r.id) return setOpenId(null);
+    setOpenId(r.id);
+    if (details[r.id]) return;
+    try {
+      const d = await fetchRevision(token, r.id);
+      setDetails((prev) => ({ ...prev, [r.id]: d.revision }));
+    } catch (e: any) {
+      setMsg(e?.message || 'Failed to load revision');
+    }
+  };
+
+  const revert = async (r: AdminRevision) => {
+    const ok = window.confirm(
+      `Restore ${movieId} to how it was before this ${r.action} (${new Date(r.createdAt).toLocaleString()})?\n\nLater changes are undone too; the revert itself is added to the history.`
+    );
+    if (!ok) return;
+    setMsg(null);
+    try {
+      await revertRevision(token, r.id);
+      setMsg('Reverted.');
+      await onReverted();
+    } catch (e: any) {
+      setMsg(e?.message || 'Revert failed');
+    }
+    await load();
+  };
+
+  const renderDetail = (d: AdminRevisionDetail) => {
+    const before = (d.before?.movie || {}) as Record<string, unknown>;
+    const after = (d.after?.movie || {}) as Record<string, unknown>;
+    const count = (snap: RevisionSnapshot | null, part: string) => {
+      const rows = snap?.[part];
+      return Array.isArray(rows) ? rows.length : 0;
+    };
+    return (
+      <div style={{ display: 'grid', gap: 6, marginTop: 8 }}>
+        {d.changed.map((field) =>
+          REVISION_LIST_PARTS.includes(field) ? (
+            <div key={field} className="tagline">
+              <strong>{field}</strong>: {count(d.before, field)} → {count(d.after, field)} entries
+            </div>
+          ) : (
+            <div key={field} className="tagline">
+              <strong>{field}</strong>: {revisionValue(before[field])} → {revisionValue(after[field])}
+            </div>
+          )
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="detail" style={{ marginTop: 14 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 10 }}>
+        <h4 style={{ margin: 0 }}>History</h4>
+        <button className="ghost-button" type="button" disabled={busy} onClick={load}>
+          <RiRefreshLine /> Reload
+        </button>
+      </div>
+      <div className="tagline" style={{ marginTop: 6 }}>
+        Every change to this movie by admins, approved submissions, agent runs and on-demand refreshes. Reverting restores the movie,
+        genres, cast, songs and OTT offers as they were before that change.
+      </div>
+      {msg ? (
+        <div className="tagline" style={{ marginTop: 8 }}>
+          {msg}
+        </div>
+      ) : null}
+      {revisions.length ? (
+        <div className="song-list" style={{ marginTop: 12 }}>
+          {revisions.map((r) => (
+            <div key={r.id} className="song" style={{ flexDirection: 'column', alignItems: 'stretch', gap: 6 }}>
+              <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+                <span className="chip">{new Date(r.createdAt).toLocaleString()}</span>
+                <span className="chip">{r.action}</span>
+                <span className="chip">{revisionActor(r)}</span>
+                {r.revertOf ? <span className="chip">reverts {r.revertOf.slice(0, 8)}</span> : null}
+                <span className="tagline">
+                  {r.changed.slice(0, 8).join(', ')}
+                  {r.changed.length > 8 ? ` +${r.changed.length - 8} more` : ''}
+                </span>
+              </div>
+              <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                <button className="ghost-button" type="button" onClick={() => toggle(r)}>
+                  {openId === r.id ? 'Hide changes' : 'Show changes'}
+                </button>
+                <button className="ghost-button" type="button" onClick={() => revert(r)}>
+                  Revert
+                </button>
+              </div>
+              {openId === r.id && details[r.id] ? renderDetail(details[r.id]) : null}
+            </div>
+          ))}
+        </div>
+      ) : !busy ? (
+        <div className="tagline" style={{ marginTop: 10 }}>
+          No recorded changes yet.
+        </div>
+      ) : null}
+    </div>
+  );
 }
 
 export function AdminPanel({
@@ -165,7 +1357,7 @@ export function AdminPanel({
     desiredUpcoming: 30,
     force: true
   });
-  const [backfillState, setBackfillState] = useState<any>(null);
+  const [backfillState, setBackfillState] = useState<BackfillState | null>(null);
   const [ottScope, setOttScope] = useState<'all' | 'language'>('all');
   const [ottLang, setOttLang] = useState<string>('Hindi');
   const [ottParams, setOttParams] = useState({
@@ -175,9 +1367,9 @@ export function AdminPanel({
     staleHours: 72,
     onlyStale: true
   });
-  const [ottState, setOttState] = useState<any>(null);
+  const [ottState, setOttState] = useState<OttRefreshState | null>(null);
   const [movieSearchQuery, setMovieSearchQuery] = useState('');
-  const [movieSearchResults, setMovieSearchResults] = useState<any[]>([]);
+  const [movieSearchResults, setMovieSearchResults] = useState<AdminMovieHit[]>([]);
   const [editorQuery, setEditorQuery] = useState('');
   const [editor, setEditor] = useState<AdminMovieEditorPayload | null>(null);
   const [movieForm, setMovieForm] = useState({
@@ -195,18 +1387,18 @@ export function AdminPanel({
   const [newSong, setNewSong] = useState({ title: '', singers: '', youtubeUrl: '', platform: 'YouTube' });
   const [ottDrafts, setOttDrafts] = useState<Record<string, { deepLink: string }>>({});
   const [personQuery, setPersonQuery] = useState('');
-  const [personResults, setPersonResults] = useState<any[]>([]);
+  const [personResults, setPersonResults] = useState<AdminPersonHit[]>([]);
   const [castAdd, setCastAdd] = useState({ personId: '', character: '', billingOrder: '' });
   const [castDrafts, setCastDrafts] = useState<Record<string, { character: string; billingOrder: string }>>({});
   const [incompleteStatus, setIncompleteStatus] = useState<'Upcoming' | 'Announced' | 'Now Showing' | 'Streaming'>('Upcoming');
   const [incompleteLang, setIncompleteLang] = useState<string>('');
-  const [incompleteMovies, setIncompleteMovies] = useState<any[]>([]);
+  const [incompleteMovies, setIncompleteMovies] = useState<IncompleteMovie[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [featuredLang, setFeaturedLang] = useState<string>('all');
   const [featuredSearchQ, setFeaturedSearchQ] = useState('');
-  const [featuredSearchResults, setFeaturedSearchResults] = useState<any[]>([]);
-  const [featuredCurrent, setFeaturedCurrent] = useState<Record<string, any>>({});
+  const [featuredSearchResults, setFeaturedSearchResults] = useState<AdminMovieHit[]>([]);
+  const [featuredCurrent, setFeaturedCurrent] = useState<Record<string, FeaturedPick>>({});
   const [featuredMsg, setFeaturedMsg] = useState<string | null>(null);
 
   const loggedIn = !!token;
@@ -215,10 +1407,10 @@ export function AdminPanel({
     setLoading(true);
     setError(null);
     try {
-      const data = (await getJson(`/api/admin/movies/${encodeURIComponent(rawMovieId)}`, t)) as AdminMovieEditorPayload;
+      const data = await fetchMovieEditor(t, rawMovieId);
       setEditor(data);
       setMovieSearchResults([]);
-      const m: any = (data as any).movie || {};
+      const m = data.movie;
       setMovieForm({
         title: String(m.title || ''),
         language: String(m.language || ''),
@@ -229,7 +1421,7 @@ export function AdminPanel({
         synopsis: String(m.synopsis || '')
       });
       const drafts: Record<string, { title: string; singers: string; youtubeUrl: string; platform: string }> = {};
-      for (const s of (data.songs || []) as AdminSongRow[]) {
+      for (const s of data.songs || []) {
         drafts[s.id] = {
           title: String(s.title || ''),
           singers: Array.isArray(s.singers) ? s.singers.join(', ') : '',
@@ -239,7 +1431,7 @@ export function AdminPanel({
       }
       setSongDrafts(drafts);
       const cd: Record<string, { character: string; billingOrder: string }> = {};
-      for (const c of (data.cast || []) as any[]) {
+      for (const c of data.cast || []) {
         cd[String(c.personId)] = {
           character: String(c.character || ''),
           billingOrder: c.billingOrder != null ? String(c.billingOrder) : ''
@@ -248,7 +1440,7 @@ export function AdminPanel({
       setCastDrafts(cd);
 
       const od: Record<string, { deepLink: string }> = {};
-      for (const o of (((data as any).ottOffers || []) as any[])) {
+      for (const o of data.ottOffers || []) {
         od[String(o.id)] = { deepLink: String(o.deepLink || '') };
       }
       setOttDrafts(od);
@@ -263,7 +1455,7 @@ export function AdminPanel({
     setLoading(true);
     setError(null);
     try {
-      const s = (await getJson('/api/admin/status', t)) as AdminStatus;
+      const s = await fetchAdminStatus(t);
       setStatus(s);
     } catch (e: any) {
       setError(e?.message || 'Failed to load admin status');
@@ -274,7 +1466,7 @@ export function AdminPanel({
 
   const loadQueue = async (t: string) => {
     try {
-      const q = (await getJson('/api/admin/moderation', t)) as ModerationQueue;
+      const q = await fetchModerationQueue(t);
       setQueue(q);
     } catch {
       // ignore; status page should still load
@@ -294,7 +1486,7 @@ export function AdminPanel({
   }, [status?.backfill]);
 
   const orderedOttOffers = useMemo(() => {
-    const offers = (editor?.ottOffers || []) as any[];
+    const offers = editor?.ottOffers || [];
     if (!offers.length) return [];
     const priority = [
       'Netflix',
@@ -323,8 +1515,8 @@ export function AdminPanel({
   }, [editor?.ottOffers]);
 
   useEffect(() => {
-    setOttState((status as any)?.ottRefresh || null);
-  }, [(status as any)?.ottRefresh]);
+    setOttState(status?.ottRefresh || null);
+  }, [status?.ottRefresh]);
 
   useEffect(() => {
     if (!token) return;
@@ -332,8 +1524,8 @@ export function AdminPanel({
     if (!running) return;
     const id = window.setInterval(async () => {
       try {
-        const r = await getJson('/api/admin/backfill/status', token);
-        setBackfillState((r as any)?.backfill || null);
+        const r = await fetchBackfillStatus(token);
+        setBackfillState(r.backfill || null);
       } catch {
         // ignore
       }
@@ -347,8 +1539,8 @@ export function AdminPanel({
     if (!running) return;
     const id = window.setInterval(async () => {
       try {
-        const r = await getJson('/api/admin/ott-refresh/status', token);
-        setOttState((r as any)?.ottRefresh || null);
+        const r = await fetchOttRefreshStatus(token);
+        setOttState(r.ottRefresh || null);
       } catch {
         // ignore
       }
@@ -430,7 +1622,7 @@ export function AdminPanel({
                     setLoading(true);
                     setError(null);
                     try {
-                      const data = await postJson('/api/admin/login', { password });
+                      const data = await adminLogin(password);
                       const t = String(data.token || '');
                       if (!t) throw new Error('No token returned');
                       localStorage.setItem('img_admin_token', t);
@@ -474,7 +1666,7 @@ export function AdminPanel({
                       onClick={async () => {
                         if (!token) return;
                         try {
-                          await postJson('/api/admin/logout', {}, token);
+                          await adminLogout(token);
                         } catch {
                           // ignore
                         } finally {
@@ -583,7 +1775,7 @@ export function AdminPanel({
                           setError(null);
                           setSeedMsg(null);
                           try {
-                            await postJson('/api/admin/seed/home', { seedAllLanguages: true }, token);
+                            await seedHome(token, { seedAllLanguages: true });
                             setSeedMsg('Home shelves seeded (and language shelves kicked off).');
                             await loadStatus(token);
                           } catch (e: any) {
@@ -605,7 +1797,7 @@ export function AdminPanel({
                           setError(null);
                           setSeedMsg(null);
                           try {
-                            await postJson('/api/admin/seed/all-languages', { force: true }, token);
+                            await seedAllLanguages(token, true);
                             setSeedMsg('All languages seeded.');
                             await loadStatus(token);
                           } catch (e: any) {
@@ -636,8 +1828,8 @@ export function AdminPanel({
                           setError(null);
                           setSeedMsg(null);
                           try {
-                            const r = await postJson('/api/admin/seed/language', { lang: seedLang, force: true }, token);
-                            setSeedMsg(`${seedLang}: attempted ${r?.result?.attempted ?? 0}, wrote ${r?.result?.wrote ?? 0}`);
+                            const r = await seedLanguage(token, seedLang, true);
+                            setSeedMsg(`${seedLang}: attempted ${r.result.attempted ?? 0}, wrote ${r.result.wrote ?? 0}`);
                             await loadStatus(token);
                           } catch (e: any) {
                             setError(e?.message || 'Seed failed');
@@ -814,25 +2006,21 @@ export function AdminPanel({
                           setLoading(true);
                           setError(null);
                           try {
-                            const r = await postJson(
-                              '/api/admin/backfill/start',
-                              {
-                                scope: backfillScope,
-                                lang: backfillScope === 'language' ? backfillLang : '',
-                                force: !!backfillParams.force,
-                                overrides: {
-                                  strategy: backfillParams.strategy,
-                                  lookbackDays: backfillParams.lookbackDays,
-                                  forwardDays: backfillParams.forwardDays,
-                                  pages: backfillParams.pages,
-                                  maxIds: backfillParams.maxIds,
-                                  desiredTotal: backfillParams.desiredTotal,
-                                  desiredUpcoming: backfillParams.desiredUpcoming
-                                }
-                              },
-                              token
-                            );
-                            setBackfillState((r as any)?.backfill || null);
+                            const r = await startBackfill(token, {
+                              scope: backfillScope,
+                              lang: backfillScope === 'language' ? backfillLang : '',
+                              force: !!backfillParams.force,
+                              overrides: {
+                                strategy: backfillParams.strategy,
+                                lookbackDays: backfillParams.lookbackDays,
+                                forwardDays: backfillParams.forwardDays,
+                                pages: backfillParams.pages,
+                                maxIds: backfillParams.maxIds,
+                                desiredTotal: backfillParams.desiredTotal,
+                                desiredUpcoming: backfillParams.desiredUpcoming
+                              }
+                            });
+                            setBackfillState(r.backfill || null);
                             await loadStatus(token);
                           } catch (e: any) {
                             setError(e?.message || 'Backfill failed to start');
@@ -853,9 +2041,9 @@ export function AdminPanel({
                           setLoading(true);
                           setError(null);
                           try {
-                            await postJson('/api/admin/backfill/cancel', {}, token);
-                            const r = await getJson('/api/admin/backfill/status', token);
-                            setBackfillState((r as any)?.backfill || null);
+                            await cancelBackfill(token);
+                            const r = await fetchBackfillStatus(token);
+                            setBackfillState(r.backfill || null);
                           } catch (e: any) {
                             setError(e?.message || 'Cancel failed');
                           } finally {
@@ -895,7 +2083,7 @@ export function AdminPanel({
                         ) : null}
                         {Array.isArray(backfillState.results) && backfillState.results.length ? (
                           <div style={{ marginTop: 10, display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: 8 }}>
-                            {backfillState.results.slice(0, 12).map((x: any) => (
+                            {backfillState.results.slice(0, 12).map((x) => (
                               <div key={String(x.lang)} className="chip" title="Per-language result">
                                 {x.lang}: attempted {x.attempted ?? 0}, wrote {x.wrote ?? 0}
                                 {x.error ? ' (error)' : ''}
@@ -1018,22 +2206,18 @@ export function AdminPanel({
                           setLoading(true);
                           setError(null);
                           try {
-                            const r = await postJson(
-                              '/api/admin/ott-refresh/start',
-                              {
-                                scope: ottScope,
-                                lang: ottScope === 'language' ? ottLang : '',
-                                overrides: {
-                                  region: ottParams.region,
-                                  limit: ottParams.limit,
-                                  concurrency: ottParams.concurrency,
-                                  staleHours: ottParams.staleHours,
-                                  onlyStale: !!ottParams.onlyStale
-                                }
-                              },
-                              token
-                            );
-                            setOttState((r as any)?.ottRefresh || null);
+                            const r = await startOttRefresh(token, {
+                              scope: ottScope,
+                              lang: ottScope === 'language' ? ottLang : '',
+                              overrides: {
+                                region: ottParams.region,
+                                limit: ottParams.limit,
+                                concurrency: ottParams.concurrency,
+                                staleHours: ottParams.staleHours,
+                                onlyStale: !!ottParams.onlyStale
+                              }
+                            });
+                            setOttState(r.ottRefresh || null);
                             await loadStatus(token);
                           } catch (e: any) {
                             setError(e?.message || 'OTT refresh failed to start');
@@ -1054,9 +2238,9 @@ export function AdminPanel({
                           setLoading(true);
                           setError(null);
                           try {
-                            await postJson('/api/admin/ott-refresh/cancel', {}, token);
-                            const r = await getJson('/api/admin/ott-refresh/status', token);
-                            setOttState((r as any)?.ottRefresh || null);
+                            await cancelOttRefresh(token);
+                            const r = await fetchOttRefreshStatus(token);
+                            setOttState(r.ottRefresh || null);
                           } catch (e: any) {
                             setError(e?.message || 'Cancel failed');
                           } finally {
@@ -1087,7 +2271,7 @@ export function AdminPanel({
                         </div>
                         {Array.isArray(ottState.results) && ottState.results.length ? (
                           <div style={{ marginTop: 10, display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: 8 }}>
-                            {ottState.results.slice(0, 12).map((x: any) => (
+                            {ottState.results.slice(0, 12).map((x) => (
                               <div key={String(x.lang)} className="chip" title="Per-language result">
                                 {x.lang}: attempted {x.attempted ?? 0}, wrote {x.wrote ?? 0}
                               </div>
@@ -1135,15 +2319,38 @@ export function AdminPanel({
                         ) : null}
                       </div>
                     ) : (
-                      <div className="tagline">Agent has not been run yet (or no `.cache/agent-last-run.json` found).</div>
+                      <div className="tagline">Agent has not been run yet.</div>
                     )}
+                    {status?.agentLastRun?.steps && Object.keys(status.agentLastRun.steps).length ? (
+                      <div className="meta" style={{ marginTop: 6 }}>
+                        {Object.entries(status.agentLastRun.steps).map(([name, st]) => (
+                          <span key={name} className="chip" title={`ran ${st.ran || 0}, skipped ${st.skipped || 0}, blocked ${st.blocked || 0}`}>
+                            {name}: {st.done || 0} done · {st.updated || 0} updated
+                            {st.failed ? ` · ${st.failed} failed` : ''}
+                          </span>
+                        ))}
+                      </div>
+                    ) : null}
+                    {status?.agentLastRun?.persons ? (
+                      <div className="meta" style={{ marginTop: 6 }}>
+                        <span
+                          className="chip"
+                          title={`${status.agentLastRun.persons.candidates || 0} incomplete profiles in this run's movies, ${status.agentLastRun.persons.selected || 0} selected`}
+                        >
+                          People: {status.agentLastRun.persons.fetched || 0} fetched · {status.agentLastRun.persons.wikiLinked || 0} Wikipedia
+                          {status.agentLastRun.persons.failed ? ` · ${status.agentLastRun.persons.failed} failed` : ''}
+                        </span>
+                      </div>
+                    ) : null}
                     <div className="tagline" style={{ marginTop: 10 }}>
                       Batch ingestion is optional; the site will auto-fill on demand via TMDB and persist results in SQLite.
                     </div>
                     <div className="tagline" style={{ marginTop: 8 }}>
-                      To run the batch agent manually, execute <code>npm run agent:run</code> and redeploy.
+                      To run the batch agent manually, execute <code>npm run agent:run</code>, or schedule it below.
                     </div>
                   </div>
+                  {token ? <JobSchedules token={token} /> : null}
+                  {token ? <JobRunHistory token={token} /> : null}
                 </>
               ) : null}
 
@@ -1203,12 +2410,8 @@ export function AdminPanel({
                         setLoading(true);
                         setError(null);
                         try {
-                          const qp = new URLSearchParams();
-                          qp.set('status', incompleteStatus);
-                          if (incompleteLang) qp.set('lang', incompleteLang);
-                          qp.set('limit', '60');
-                          const r = await getJson(`/api/admin/movies-incomplete?${qp.toString()}`, token);
-                          setIncompleteMovies(Array.isArray((r as any)?.movies) ? (r as any).movies : []);
+                          const r = await fetchIncompleteMovies(token, { status: incompleteStatus, lang: incompleteLang, limit: 60 });
+                          setIncompleteMovies(Array.isArray(r.movies) ? r.movies : []);
                         } catch (e: any) {
                           setError(e?.message || 'Load failed');
                         } finally {
@@ -1264,13 +2467,9 @@ export function AdminPanel({
                                 setLoading(true);
                                 setError(null);
                                 try {
-                                  await postJson(`/api/admin/movies/${encodeURIComponent(String(m.id))}/refresh`, {}, token);
-                                  const qp = new URLSearchParams();
-                                  qp.set('status', incompleteStatus);
-                                  if (incompleteLang) qp.set('lang', incompleteLang);
-                                  qp.set('limit', '60');
-                                  const r = await getJson(`/api/admin/movies-incomplete?${qp.toString()}`, token);
-                                  setIncompleteMovies(Array.isArray((r as any)?.movies) ? (r as any).movies : []);
+                                  await refreshAdminMovie(token, String(m.id));
+                                  const r = await fetchIncompleteMovies(token, { status: incompleteStatus, lang: incompleteLang, limit: 60 });
+                                  setIncompleteMovies(Array.isArray(r.movies) ? r.movies : []);
                                 } catch (e: any) {
                                   setError(e?.message || 'Refresh failed');
                                 } finally {
@@ -1317,8 +2516,8 @@ export function AdminPanel({
                         setLoading(true);
                         setError(null);
                         try {
-                          const r = await getJson(`/api/admin/movies-search?q=${encodeURIComponent(q)}`, token);
-                          setMovieSearchResults(Array.isArray((r as any)?.movies) ? (r as any).movies : []);
+                          const r = await searchAdminMovies(token, q);
+                          setMovieSearchResults(Array.isArray(r.movies) ? r.movies : []);
                         } catch (e: any) {
                           setError(e?.message || 'Search failed');
                         } finally {
@@ -1487,7 +2686,7 @@ export function AdminPanel({
                           type="button"
                           onClick={async () => {
                             if (!token || !editor?.movieId) return;
-                            await postJson(`/api/admin/movies/${encodeURIComponent(editor.movieId)}/update`, movieForm, token);
+                            await updateAdminMovie(token, editor.movieId, movieForm);
                             await loadEditor(token, editor.movieId);
                           }}
                         >
@@ -1495,6 +2694,161 @@ export function AdminPanel({
                         </button>
                         <span className="chip">Movie id: {editor.movieId}</span>
                       </div>
+                      <div className="tagline" style={{ marginTop: 12 }}>
+                        Locked fields keep their value when TMDB, OMDb or the song finders refresh this movie. Saving an edit
+                        locks the fields it changed.
+                      </div>
+                      <div style={{ display: 'flex', gap: 8, marginTop: 8, flexWrap: 'wrap' }}>
+                        {ADMIN_LOCK_FIELDS.map(({ field, label }) => {
+                          const locked = (editor.locks || []).includes(field);
+                          return (
+                            <button
+                              key={field}
+                              className={locked ? 'chip' : 'ghost-button'}
+                              type="button"
+                              aria-pressed={locked}
+                              title={locked ? 'Locked: click to let providers update it' : 'Unlocked: click to keep the current value'}
+                              onClick={async () => {
+                                if (!token || !editor?.movieId) return;
+                                try {
+                                  const out = await setMovieFieldLock(token, editor.movieId, field, !locked);
+                                  setEditor((prev) => (prev ? { ...prev, locks: out.locks } : prev));
+                                } catch (err: any) {
+                                  setError(err?.message || 'Failed to update lock');
+                                }
+                              }}
+                            >
+                              {locked ? 'Locked' : 'Unlocked'}: {label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+
+                    <div className="detail" style={{ marginTop: 14 }}>
+                      <h4 style={{ marginTop: 0 }}>Indian film</h4>
+                      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+                        <span className="chip">Listed: {editor.indian?.isIndian === false ? 'No' : 'Yes'}</span>
+                        <span className="chip">
+                          Classifier:{' '}
+                          {editor.indian?.verdict == null ? 'not run' : editor.indian.verdict ? 'Indian' : 'Not Indian'}
+                          {editor.indian?.score != null ? ` (score ${editor.indian.score})` : ''}
+                        </span>
+                        <select
+                          className="input"
+                          value={editor.indian?.override == null ? 'auto' : editor.indian.override ? 'yes' : 'no'}
+                          title="Override (kept across re-ingests)"
+                          style={{ minWidth: 200 }}
+                          onChange={async (e) => {
+                            if (!token || !editor?.movieId) return;
+                            const v = e.target.value;
+                            try {
+                              await setMovieIndianOverride(token, editor.movieId, v === 'auto' ? null : v === 'yes');
+                              await loadEditor(token, editor.movieId);
+                            } catch (err: any) {
+                              setError(err?.message || 'Failed to save override');
+                            }
+                          }}
+                        >
+                          <option value="auto">Auto (classifier)</option>
+                          <option value="yes">Always Indian</option>
+                          <option value="no">Never Indian</option>
+                        </select>
+                      </div>
+                      {(editor.indian?.reasons || []).length ? (
+                        <div className="meta" style={{ marginTop: 8 }}>
+                          {(editor.indian?.reasons || []).map((r) => (
+                            <span key={r} className="chip">
+                              {r}
+                            </span>
+                          ))}
+                        </div>
+                      ) : null}
+                    </div>
+
+                    {token ? (
+                      <LanguageVersions
+                        token={token}
+                        movieId={editor.movieId}
+                        versions={editor.movie?.versions || []}
+                        onChanged={() => loadEditor(token, editor.movieId)}
+                      />
+                    ) : null}
+
+                    {token ? (
+                      <MovieCollections token={token} movieId={editor.movieId} onChanged={() => loadEditor(token, editor.movieId)} />
+                    ) : null}
+
+                    {token ? (
+                      <RevisionHistory token={token} movieId={editor.movieId} onReverted={() => loadEditor(token, editor.movieId)} />
+                    ) : null}
+
+                    <div className="detail" style={{ marginTop: 14 }}>
+                      <h4 style={{ marginTop: 0 }}>Trailer</h4>
+                      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+                        <span className="chip">Source: {editor.trailer?.source || (editor.trailer?.url ? 'unknown' : 'none')}</span>
+                        {editor.trailer?.confidence != null ? (
+                          <span className="chip">Confidence: {Math.round(editor.trailer.confidence * 100)}%</span>
+                        ) : null}
+                        {editor.trailer?.url ? (
+                          <a className="chip" href={editor.trailer.url} target="_blank" rel="noreferrer">
+                            Open current
+                          </a>
+                        ) : null}
+                        <button
+                          className="ghost-button"
+                          type="button"
+                          onClick={async () => {
+                            if (!token || !editor?.movieId) return;
+                            try {
+                              await searchTrailerCandidates(token, editor.movieId);
+                              await loadEditor(token, editor.movieId);
+                            } catch (e: any) {
+                              setError(e?.message || 'Trailer search failed');
+                            }
+                          }}
+                        >
+                          Search YouTube
+                        </button>
+                      </div>
+                      {(editor.trailer?.candidates || []).length ? (
+                        <div className="song-list" style={{ marginTop: 10 }}>
+                          {(editor.trailer?.candidates || []).map((c) => {
+                            const current = c.youtubeUrl === editor.trailer?.url;
+                            return (
+                              <div key={c.youtubeUrl} className="song" style={{ alignItems: 'flex-start', gap: 12 }}>
+                                <div style={{ flex: 1, minWidth: 220 }}>
+                                  <a href={c.youtubeUrl} target="_blank" rel="noreferrer">
+                                    <strong>{c.title}</strong>
+                                  </a>
+                                  <div className="tagline" style={{ fontSize: 12 }}>
+                                    {c.channel || 'Unknown channel'}
+                                    {c.publishedAt ? ` · ${String(c.publishedAt).slice(0, 10)}` : ''}
+                                    {c.reasons?.length ? ` · ${c.reasons.join(', ')}` : ''}
+                                  </div>
+                                </div>
+                                <span className="chip">{Math.round(c.score * 100)}%</span>
+                                <button
+                                  className="ghost-button"
+                                  type="button"
+                                  disabled={current}
+                                  onClick={async () => {
+                                    if (!token || !editor?.movieId) return;
+                                    await setMovieTrailer(token, editor.movieId, c.youtubeUrl);
+                                    await loadEditor(token, editor.movieId);
+                                  }}
+                                >
+                                  {current ? 'Current' : 'Use'}
+                                </button>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ) : (
+                        <div className="tagline" style={{ marginTop: 10 }}>
+                          No ranked YouTube candidates stored for this movie.
+                        </div>
+                      )}
                     </div>
 
                     <div className="detail" style={{ marginTop: 14 }}>
@@ -1541,6 +2895,18 @@ export function AdminPanel({
                                       style={{ maxWidth: 180 }}
                                     />
                                     <span className="chip">Source: {s.source || 'unknown'}</span>
+                                    {s.durationSec ? (
+                                      <span className="chip">
+                                        {Math.floor(s.durationSec / 60)}:{String(s.durationSec % 60).padStart(2, '0')}
+                                      </span>
+                                    ) : null}
+                                    {s.fieldSources
+                                      ? Object.entries(s.fieldSources).map(([field, src]) => (
+                                          <span key={field} className="chip" title={`${field} from ${src}`}>
+                                            {field}: {src}
+                                          </span>
+                                        ))
+                                      : null}
                                   </div>
                                 </div>
                                 <div style={{ display: 'flex', gap: 8 }}>
@@ -1553,11 +2919,13 @@ export function AdminPanel({
                                         .split(',')
                                         .map((x) => x.trim())
                                         .filter(Boolean);
-                                      await postJson(
-                                        `/api/admin/movies/${encodeURIComponent(editor.movieId)}/songs/upsert`,
-                                        { song: { id: s.id, title: d.title, singers, youtubeUrl: d.youtubeUrl, platform: d.platform } },
-                                        token
-                                      );
+                                      await upsertMovieSong(token, editor.movieId, {
+                                        id: s.id,
+                                        title: d.title,
+                                        singers,
+                                        youtubeUrl: d.youtubeUrl,
+                                        platform: d.platform
+                                      });
                                       await loadEditor(token, editor.movieId);
                                     }}
                                   >
@@ -1568,11 +2936,7 @@ export function AdminPanel({
                                     type="button"
                                     onClick={async () => {
                                       if (!token || !editor?.movieId) return;
-                                      await postJson(
-                                        `/api/admin/movies/${encodeURIComponent(editor.movieId)}/songs/${encodeURIComponent(s.id)}/delete`,
-                                        {},
-                                        token
-                                      );
+                                      await deleteMovieSong(token, editor.movieId, s.id);
                                       await loadEditor(token, editor.movieId);
                                     }}
                                   >
@@ -1606,11 +2970,12 @@ export function AdminPanel({
                               const title = newSong.title.trim();
                               if (!title) return;
                               const singers = newSong.singers.split(',').map((x) => x.trim()).filter(Boolean);
-                              await postJson(
-                                `/api/admin/movies/${encodeURIComponent(editor.movieId)}/songs/upsert`,
-                                { song: { title, singers, youtubeUrl: newSong.youtubeUrl, platform: newSong.platform } },
-                                token
-                              );
+                              await upsertMovieSong(token, editor.movieId, {
+                                title,
+                                singers,
+                                youtubeUrl: newSong.youtubeUrl,
+                                platform: newSong.platform
+                              });
                               setNewSong({ title: '', singers: '', youtubeUrl: '', platform: 'YouTube' });
                               await loadEditor(token, editor.movieId);
                             }}
@@ -1625,7 +2990,7 @@ export function AdminPanel({
                       <h4 style={{ marginTop: 0 }}>OTT offers (deep links)</h4>
                       {orderedOttOffers.length ? (
                         <div className="song-list" style={{ marginTop: 10 }}>
-                          {orderedOttOffers.slice(0, 120).map((o: any) => {
+                          {orderedOttOffers.slice(0, 120).map((o) => {
                             const d = ottDrafts[String(o.id)] || { deepLink: String(o.deepLink || '') };
                             const isStreaming = String(o.offerType || '').toLowerCase() === 'streaming';
                             const readonly = !isStreaming;
@@ -1698,11 +3063,7 @@ export function AdminPanel({
                                       setLoading(true);
                                       setError(null);
                                       try {
-                                        await postJson(
-                                          `/api/admin/movies/${encodeURIComponent(editor.movieId)}/ott/${encodeURIComponent(String(o.id))}/deeplink`,
-                                          { deepLink: d.deepLink },
-                                          token
-                                        );
+                                        await setOttDeepLink(token, editor.movieId, String(o.id), d.deepLink);
                                         await loadEditor(token, editor.movieId);
                                       } catch (e: any) {
                                         setError(e?.message || 'Save failed');
@@ -1722,11 +3083,7 @@ export function AdminPanel({
                                       setLoading(true);
                                       setError(null);
                                       try {
-                                        await postJson(
-                                          `/api/admin/movies/${encodeURIComponent(editor.movieId)}/ott/${encodeURIComponent(String(o.id))}/deeplink`,
-                                          { deepLink: '' },
-                                          token
-                                        );
+                                        await setOttDeepLink(token, editor.movieId, String(o.id), '');
                                         await loadEditor(token, editor.movieId);
                                       } catch (e: any) {
                                         setError(e?.message || 'Clear failed');
@@ -1823,15 +3180,11 @@ export function AdminPanel({
                                       billingOrder: c.billingOrder != null ? String(c.billingOrder) : ''
                                     };
                                     const billingOrder = d.billingOrder.trim() ? Number(d.billingOrder) : undefined;
-                                    await postJson(
-                                      `/api/admin/movies/${encodeURIComponent(editor.movieId)}/cast/add`,
-                                      {
-                                        personId: c.personId,
-                                        character: d.character,
-                                        billingOrder: Number.isFinite(billingOrder as any) ? billingOrder : undefined
-                                      },
-                                      token
-                                    );
+                                    await addMovieCast(token, editor.movieId, {
+                                      personId: c.personId,
+                                      character: d.character,
+                                      billingOrder: Number.isFinite(billingOrder as any) ? billingOrder : undefined
+                                    });
                                     await loadEditor(token, editor.movieId);
                                   }}
                                 >
@@ -1842,11 +3195,7 @@ export function AdminPanel({
                                   type="button"
                                   onClick={async () => {
                                     if (!token || !editor?.movieId) return;
-                                    await postJson(
-                                      `/api/admin/movies/${encodeURIComponent(editor.movieId)}/cast/remove`,
-                                      { personId: c.personId },
-                                      token
-                                    );
+                                    await removeMovieCast(token, editor.movieId, c.personId);
                                     await loadEditor(token, editor.movieId);
                                   }}
                                 >
@@ -1879,8 +3228,8 @@ export function AdminPanel({
                               if (!token) return;
                               const q = personQuery.trim();
                               if (!q) return;
-                              const r = await getJson(`/api/admin/persons/search?q=${encodeURIComponent(q)}`, token);
-                              setPersonResults(Array.isArray((r as any)?.persons) ? (r as any).persons : []);
+                              const r = await searchAdminPersons(token, q);
+                              setPersonResults(Array.isArray(r.persons) ? r.persons : []);
                             }}
                           >
                             Search
@@ -1944,15 +3293,11 @@ export function AdminPanel({
                                     type="button"
                                     onClick={async () => {
                                       if (!token || !editor?.movieId) return;
-                                      await postJson(
-                                        `/api/admin/movies/${encodeURIComponent(editor.movieId)}/cast/add`,
-                                        {
-                                          personId: p.id,
-                                          character: castAdd.character,
-                                          billingOrder: castAdd.billingOrder ? Number(castAdd.billingOrder) : undefined
-                                        },
-                                        token
-                                      );
+                                      await addMovieCast(token, editor.movieId, {
+                                        personId: p.id,
+                                        character: castAdd.character,
+                                        billingOrder: castAdd.billingOrder ? Number(castAdd.billingOrder) : undefined
+                                      });
                                       await loadEditor(token, editor.movieId);
                                     }}
                                   >
@@ -1980,15 +3325,11 @@ export function AdminPanel({
                               if (!token || !editor?.movieId) return;
                               const pid = castAdd.personId.trim();
                               if (!pid) return;
-                              await postJson(
-                                `/api/admin/movies/${encodeURIComponent(editor.movieId)}/cast/add`,
-                                {
-                                  personId: pid,
-                                  character: castAdd.character,
-                                  billingOrder: castAdd.billingOrder ? Number(castAdd.billingOrder) : undefined
-                                },
-                                token
-                              );
+                              await addMovieCast(token, editor.movieId, {
+                                personId: pid,
+                                character: castAdd.character,
+                                billingOrder: castAdd.billingOrder ? Number(castAdd.billingOrder) : undefined
+                              });
                               setCastAdd({ personId: '', character: '', billingOrder: '' });
                               await loadEditor(token, editor.movieId);
                             }}
@@ -2000,6 +3341,8 @@ export function AdminPanel({
                     </div>
                   </>
                 ) : null}
+                {token ? <QualityReport token={token} onEdit={(movieId) => loadEditor(token, movieId)} /> : null}
+                {token ? <DuplicateMovies token={token} onEdit={(movieId) => loadEditor(token, movieId)} /> : null}
               </div>
               </>
               ) : null}
@@ -2052,7 +3395,7 @@ export function AdminPanel({
                               type="button"
                               onClick={async () => {
                                 if (!token) return;
-                                await postJson(`/api/admin/reviews/${encodeURIComponent(r.id)}/approve`, {}, token);
+                                await moderateReview(token, r.id, 'approve');
                                 await loadQueue(token);
                               }}
                             >
@@ -2063,7 +3406,7 @@ export function AdminPanel({
                               type="button"
                               onClick={async () => {
                                 if (!token) return;
-                                await postJson(`/api/admin/reviews/${encodeURIComponent(r.id)}/reject`, {}, token);
+                                await moderateReview(token, r.id, 'reject');
                                 await loadQueue(token);
                               }}
                             >
@@ -2129,7 +3472,7 @@ export function AdminPanel({
                               type="button"
                               onClick={async () => {
                                 if (!token) return;
-                                await postJson(`/api/admin/person-submissions/${encodeURIComponent(p.id)}/approve`, {}, token);
+                                await moderatePersonSubmission(token, p.id, 'approve');
                                 await loadQueue(token);
                                 await loadStatus(token);
                               }}
@@ -2141,7 +3484,7 @@ export function AdminPanel({
                               type="button"
                               onClick={async () => {
                                 if (!token) return;
-                                await postJson(`/api/admin/person-submissions/${encodeURIComponent(p.id)}/reject`, {}, token);
+                                await moderatePersonSubmission(token, p.id, 'reject');
                                 await loadQueue(token);
                                 await loadStatus(token);
                               }}
@@ -2192,7 +3535,7 @@ export function AdminPanel({
                               type="button"
                               onClick={async () => {
                                 if (!token) return;
-                                await postJson(`/api/admin/submissions/${encodeURIComponent(s.id)}/approve`, {}, token);
+                                await moderateSubmission(token, s.id, 'approve');
                                 await loadQueue(token);
                               }}
                             >
@@ -2203,7 +3546,7 @@ export function AdminPanel({
                               type="button"
                               onClick={async () => {
                                 if (!token) return;
-                                await postJson(`/api/admin/submissions/${encodeURIComponent(s.id)}/reject`, {}, token);
+                                await moderateSubmission(token, s.id, 'reject');
                                 await loadQueue(token);
                               }}
                             >
@@ -2280,10 +3623,7 @@ export function AdminPanel({
                           onClick={async () => {
                             if (!token) return;
                             try {
-                              await fetch(`/api/admin/featured/${encodeURIComponent(featuredLang)}`, {
-                                method: 'DELETE',
-                                headers: { 'x-admin-token': token },
-                              });
+                              await clearFeaturedMovie(token, featuredLang);
                               setFeaturedCurrent((prev) => { const n = { ...prev }; delete n[featuredLang]; return n; });
                               setFeaturedMsg('Cleared.');
                             } catch (e: any) {
@@ -2311,13 +3651,12 @@ export function AdminPanel({
                           const langs = ['all', ...ADMIN_LANGUAGE_OPTIONS];
                           const results = await Promise.all(
                             langs.map((l) =>
-                              fetch(l === 'all' ? '/api/featured' : `/api/featured?lang=${encodeURIComponent(l)}`, { cache: 'no-store' })
-                                .then((r) => r.json())
+                              fetchFeatured(l === 'all' ? '' : l)
                                 .then((d) => ({ lang: l, movie: d.featured }))
                                 .catch(() => ({ lang: l, movie: null }))
                             )
                           );
-                          const map: Record<string, any> = {};
+                          const map: Record<string, FeaturedPick> = {};
                           results.forEach(({ lang: l, movie }) => { if (movie) map[l] = movie; });
                           setFeaturedCurrent(map);
                           setFeaturedMsg('Loaded current featured movies.');
@@ -2344,11 +3683,7 @@ export function AdminPanel({
                           const q = featuredSearchQ.trim();
                           if (!q) return;
                           try {
-                            const res = await fetch(`/api/admin/movies-search?q=${encodeURIComponent(q)}`, {
-                              headers: { 'x-admin-token': token },
-                              cache: 'no-store',
-                            });
-                            const data = await res.json();
+                            const data = await searchAdminMovies(token, q);
                             setFeaturedSearchResults(Array.isArray(data.movies) ? data.movies : []);
                           } catch (e: any) {
                             setFeaturedMsg(`Search error: ${e.message}`);
@@ -2363,11 +3698,7 @@ export function AdminPanel({
                           const q = featuredSearchQ.trim();
                           if (!q) return;
                           try {
-                            const res = await fetch(`/api/admin/movies-search?q=${encodeURIComponent(q)}`, {
-                              headers: { 'x-admin-token': token },
-                              cache: 'no-store',
-                            });
-                            const data = await res.json();
+                            const data = await searchAdminMovies(token, q);
                             setFeaturedSearchResults(Array.isArray(data.movies) ? data.movies : []);
                           } catch (e: any) {
                             setFeaturedMsg(`Search error: ${e.message}`);
@@ -2406,13 +3737,7 @@ export function AdminPanel({
                                 if (!token) return;
                                 setFeaturedMsg(null);
                                 try {
-                                  const res = await fetch('/api/admin/featured', {
-                                    method: 'POST',
-                                    headers: { 'Content-Type': 'application/json', 'x-admin-token': token },
-                                    body: JSON.stringify({ lang: featuredLang === 'all' ? '' : featuredLang, movieId: m.id }),
-                                  });
-                                  const data = await res.json();
-                                  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+                                  const data = await setFeaturedMovie(token, featuredLang === 'all' ? '' : featuredLang, m.id);
                                   setFeaturedCurrent((prev) => ({ ...prev, [featuredLang]: m }));
                                   setFeaturedSearchResults([]);
                                   setFeaturedSearchQ('');
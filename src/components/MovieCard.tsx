@@ -86,6 +86,14 @@ export function MovieCard({ movie, contextProvider }: { movie: Movie; contextPro
           <span className="status">{movie.status}</span>
           {typeof movie.rating === 'number' && <span className="rating">★ {movie.rating.toFixed(1)}</span>}
           <span className="chip">{movie.language}</span>
+          {(movie.versions || []).length > 1 ? (
+            <span
+              className="chip"
+              title={`Also in ${(movie.versions || []).filter((v) => !v.original).map((v) => v.language).join(', ')}`}
+            >
+              +{(movie.versions || []).length - 1} lang
+            </span>
+          ) : null}
           {movie.releaseDate && (
             <span className="chip">
               <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiCalendar2Line size={14}  /></span>
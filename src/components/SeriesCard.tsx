@@ -0,0 +1,89 @@
+import type { MouseEvent } from 'react';
+import { RiCalendar2Line, RiPlayLine, RiStackLine, RiTv2Line } from 'react-icons/ri';
+import type { Series } from '../types/series';
+import { navigate } from '../router';
+import { seriesPathFromSeriesId } from '../utils/ids';
+
+function airedRange(s: Series) {
+  const from = (s.firstAirDate || '').slice(0, 4);
+  if (!from) return 'TBA';
+  const to = (s.lastAirDate || '').slice(0, 4);
+  if (s.status === 'Ended' && to && to !== from) return `${from}–${to}`;
+  if (s.status === 'Ended') return from;
+  return `${from}–`;
+}
+
+export function SeriesCard({ series, contextProvider }: { series: Series; contextProvider?: string }) {
+  const href = seriesPathFromSeriesId(series.id);
+  const streamingOffers = (series.ott || []).filter((o) => String(o.type || '').toLowerCase() === 'streaming');
+  const primaryStreaming =
+    (contextProvider &&
+      streamingOffers.find((o) => String(o.provider || '').toLowerCase() === String(contextProvider).toLowerCase())) ||
+    streamingOffers[0] ||
+    null;
+  const open = (e: MouseEvent) => {
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(href);
+  };
+
+  return (
+    <article className="card">
+      {primaryStreaming ? (
+        <div className="card-streaming-badge" title={`Streaming on ${primaryStreaming.provider}`}>
+          {primaryStreaming.logo ? <img src={primaryStreaming.logo} alt="" loading="lazy" /> : <RiTv2Line size={14} />}
+          <span style={{ fontWeight: 800 }}>{primaryStreaming.provider}</span>
+          <span style={{ opacity: 0.8 }}>Streaming</span>
+        </div>
+      ) : null}
+      <a href={href} onClick={open}>
+        <img src={series.backdrop || series.poster} alt={series.title} loading="lazy" />
+      </a>
+
+      <div className="card-body">
+        <div className="meta">
+          <span className="status">TV Series</span>
+          {typeof series.rating === 'number' && <span className="rating">★ {series.rating.toFixed(1)}</span>}
+          <span className="chip">{series.language}</span>
+          <span className="chip">
+            <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiCalendar2Line size={14}  /></span>
+            {airedRange(series)}
+          </span>
+        </div>
+
+        <a href={href} onClick={open} style={{ display: 'inline-block' }}>
+          <h3 style={{ margin: '0 0 6px' }}>{series.title}</h3>
+        </a>
+
+        <div className="card-synopsis">
+          <p className="tagline tagline-clamp">{series.synopsis.trim() || 'Synopsis not available yet.'}</p>
+        </div>
+
+        <div className="card-row">
+          <div className="card-kicker">
+            <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiStackLine size={14}  /></span>
+            Seasons
+          </div>
+          <div className="meta card-row-chips">
+            <span className="chip">{series.seasonCount ? `${series.seasonCount} seasons` : 'TBA'}</span>
+            {series.episodeCount ? <span className="chip">{series.episodeCount} episodes</span> : null}
+          </div>
+        </div>
+
+        <div className="actions">
+          <div className="meta">
+            {series.genres.slice(0, 2).map((g) => (
+              <span key={g} className="chip">
+                {g}
+              </span>
+            ))}
+          </div>
+          <a className="ghost-button" href={href} onClick={open}>
+            <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiPlayLine  /></span>
+            Open
+          </a>
+        </div>
+      </div>
+    </article>
+  );
+}
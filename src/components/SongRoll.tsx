@@ -21,7 +21,9 @@ export function SongRoll({ songs }: Props) {
                 <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiMusic2Line  /></span>
                 {song.title}
               </strong>
-              <div className="tagline">{song.singers.join(', ')}</div>
+              <div className="tagline">
+                {[song.singers.join(', '), song.duration].filter(Boolean).join(' · ')}
+              </div>
             </div>
             {song.youtubeUrl && (
               <a href={song.youtubeUrl} target="_blank" rel="noreferrer">
@@ -4,34 +4,30 @@ import { MovieCard } from '../components/MovieCard';
 import { CaptchaWidget } from '../components/CaptchaWidget';
 import { navigate } from '../router';
 import { Movie } from '../types';
-
-async function getJson(url: string) {
-  const res = await fetch(url, { cache: 'no-store' });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-  return data;
-}
-
-async function postJson(url: string, body: any) {
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body)
-  });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-  return data;
-}
+import {
+  fetchFavorites,
+  fetchMe,
+  fetchMyPersonSubmissions,
+  fetchMyReviews,
+  fetchMySubmissions,
+  fetchWatchlist,
+  logout,
+  updateProfile,
+  type MyPersonSubmission,
+  type MyReview,
+  type MySubmission,
+  type User
+} from '../services/api';
 
 export function AccountPage() {
-  const [me, setMe] = useState<any>(null);
+  const [me, setMe] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [captchaToken, setCaptchaToken] = useState('');
   const [favorites, setFavorites] = useState<Movie[]>([]);
   const [watchlist, setWatchlist] = useState<Movie[]>([]);
-  const [myReviews, setMyReviews] = useState<any[]>([]);
-  const [mySubmissions, setMySubmissions] = useState<any[]>([]);
-  const [myPersonSubmissions, setMyPersonSubmissions] = useState<any[]>([]);
+  const [myReviews, setMyReviews] = useState<MyReview[]>([]);
+  const [mySubmissions, setMySubmissions] = useState<MySubmission[]>([]);
+  const [myPersonSubmissions, setMyPersonSubmissions] = useState<MyPersonSubmission[]>([]);
   const [displayName, setDisplayName] = useState('');
   const [avatarUrl, setAvatarUrl] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -40,17 +36,17 @@ export function AccountPage() {
     setLoading(true);
     setError(null);
     try {
-      const m = await getJson('/api/me');
+      const m = await fetchMe();
       setMe(m.user || null);
       setDisplayName(m.user?.displayName || '');
       setAvatarUrl(m.user?.avatarUrl || '');
       if (m.user) {
         const [f, w, r, s, ps] = await Promise.all([
-          getJson('/api/me/favorites'),
-          getJson('/api/me/watchlist'),
-          getJson('/api/me/reviews'),
-          getJson('/api/me/submissions'),
-          getJson('/api/me/person-submissions')
+          fetchFavorites(),
+          fetchWatchlist(),
+          fetchMyReviews(),
+          fetchMySubmissions(),
+          fetchMyPersonSubmissions()
         ]);
         setFavorites(Array.isArray(f.movies) ? f.movies : []);
         setWatchlist(Array.isArray(w.movies) ? w.movies : []);
@@ -116,7 +112,7 @@ export function AccountPage() {
                 className="ghost-button"
                 type="button"
                 onClick={async () => {
-                  await postJson('/api/auth/logout', {});
+                  await logout();
                   await refresh();
                 }}
               >
@@ -129,7 +125,7 @@ export function AccountPage() {
               <h4>Profile</h4>
               <div className="search" style={{ marginTop: 10 }}>
                 <input value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="Display name" />
-                <button type="button" onClick={async () => { await postJson('/api/me/profile', { displayName, avatarUrl }); await refresh(); }}>
+                <button type="button" onClick={async () => { await updateProfile({ displayName, avatarUrl }); await refresh(); }}>
                   <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiPencilLine  /></span>
                   Save
                 </button>
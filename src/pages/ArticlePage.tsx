@@ -3,8 +3,9 @@ import { RiArrowLeftLine, RiTimeLine } from 'react-icons/ri';
 import { navigate } from '../router';
 import { getArticle } from '../data/articles';
 import { LANGUAGE_COLORS } from '../data/languageContent';
+import { fetchBrowse } from '../services/api';
 
-type PosterItem = { poster: string; title: string; id: number };
+type PosterItem = { poster: string; title: string; id: string };
 
 export function ArticlePage({ slug }: { slug: string }) {
   const article = getArticle(slug);
@@ -12,18 +13,19 @@ export function ArticlePage({ slug }: { slug: string }) {
 
   useEffect(() => {
     if (!article?.lang || article.lang === 'All') return;
-    fetch(`/api/browse?lang=${encodeURIComponent(article.lang)}&page=1&pageSize=10`)
-      .then((r) => r.json())
+    const ctrl = new AbortController();
+    fetchBrowse({ lang: article.lang, page: 1, pageSize: 10 }, { signal: ctrl.signal })
       .then((data) => {
         const movies = Array.isArray(data.movies) ? data.movies : [];
         setPosters(
           movies
-            .filter((m: any) => m.poster)
+            .filter((m) => m.poster)
             .slice(0, 8)
-            .map((m: any) => ({ poster: m.poster, title: m.title, id: m.id }))
+            .map((m) => ({ poster: m.poster, title: m.title, id: m.id }))
         );
       })
       .catch(() => {});
+    return () => ctrl.abort();
   }, [article?.lang]);
 
   if (!article) {
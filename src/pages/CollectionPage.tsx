@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useState } from 'react';
+import { RiArrowLeftLine, RiStackLine } from 'react-icons/ri';
+import type { Collection } from '../types/collection';
+import { navigate } from '../router';
+import { MovieCard } from '../components/MovieCard';
+import { fetchCollection, initialData } from '../services/api';
+
+// Consume server-injected initial data once on module load.
+let _collectionInitial: { key: string; collection: Collection } | null = null;
+if (typeof window !== 'undefined') {
+  const d = (window as any).__INITIAL_DATA__;
+  if (d?._route === 'collection') {
+    _collectionInitial = { key: d._key, collection: initialData.collection(d.collection) };
+    delete (window as any).__INITIAL_DATA__;
+  }
+}
+
+type WatchOrder = 'release' | 'story';
+
+const readOrder = (): WatchOrder => (new URLSearchParams(window.location.search).get('order') === 'story' ? 'story' : 'release');
+
+export function CollectionPage({ slug }: { slug: string }) {
+  const [collection, setCollection] = useState<Collection | null>(() => {
+    if (_collectionInitial?.key === slug) {
+      const c = _collectionInitial.collection;
+      _collectionInitial = null;
+      return c;
+    }
+    return null;
+  });
+  const [loading, setLoading] = useState(!collection);
+  const [error, setError] = useState<string | null>(null);
+  const [order, setOrder] = useState<WatchOrder>(readOrder);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    const alive = () => !ctrl.signal.aborted;
+    const hasInitial = !!collection;
+    setOrder(readOrder());
+    if (!hasInitial) { setLoading(true); setError(null); }
+    (async () => {
+      try {
+        // The first visit to a TMDB franchise also stores its other parts.
+        const data = await fetchCollection(slug, { signal: ctrl.signal });
+        if (alive()) setCollection(data);
+      } catch (e: any) {
+        if (alive() && !hasInitial) setError(e?.message || 'Failed to load collection');
+      } finally {
+        if (alive()) setLoading(false);
+      }
+    })();
+    return () => ctrl.abort();
+  }, [slug]);
+
+  const movies = useMemo(() => {
+    if (!collection) return [];
+    if (order === 'release' || !collection.hasChronology) return collection.movies;
+    const byId = new Map(collection.movies.map((m) => [m.id, m]));
+    return collection.chronological.map((id) => byId.get(id)).filter((m): m is NonNullable<typeof m> => !!m);
+  }, [collection, order]);
+
+  const pickOrder = (next: WatchOrder) => {
+    setOrder(next);
+    const qs = next === 'story' ? '?order=story' : '';
+    window.history.replaceState({}, '', `${window.location.pathname}${qs}`);
+  };
+
+  const kindLabel = collection?.kind === 'universe' ? 'Universe' : 'Franchise';
+
+  return (
+    <div>
+      <div className="section-header" style={{ marginTop: 10 }}>
+        <button
+          className="ghost-button"
+          type="button"
+          onClick={() => {
+            try {
+              const last = sessionStorage.getItem('img_last_list_path') || '';
+              if (last) {
+                navigate(last);
+                return;
+              }
+            } catch {
+              // ignore
+            }
+            navigate('/');
+          }}
+        >
+          <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiArrowLeftLine  /></span>
+          Back
+        </button>
+        <span className="inline-pill">{kindLabel}</span>
+      </div>
+
+      {loading && !collection && <div className="tagline">Loading…</div>}
+      {error && <div className="tagline">Failed to load: {error}</div>}
+
+      {collection && (
+        <>
+          <section className="movie-hero">
+            <div
+              className="movie-hero-bg"
+              style={{
+                backgroundImage: `url(${collection.backdrop || collection.poster || collection.movies[0]?.backdrop || ''})`
+              }}
+            />
+            <div className="movie-hero-inner">
+              <div className="movie-poster">
+                {collection.poster || collection.movies[0]?.poster ? (
+                  <img
+                    src={collection.poster || collection.movies[0]?.poster}
+                    alt={collection.name}
+                    style={{
+                      width: '100%',
+                      borderRadius: 16,
+                      border: '1px solid rgba(255,255,255,0.10)',
+                      display: 'block'
+                    }}
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="detail">No poster</div>
+                )}
+              </div>
+
+              <div className="movie-hero-content">
+                <h1 className="movie-title">{collection.name}</h1>
+                <div className="meta" style={{ marginTop: 10 }}>
+                  <span className="chip">{kindLabel}</span>
+                  <span className="chip">
+                    {collection.movies.length} film{collection.movies.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {collection.overview ? (
+                  <div className="tagline" style={{ marginTop: 12 }}>{collection.overview}</div>
+                ) : null}
+              </div>
+            </div>
+          </section>
+
+          <div className="section-header">
+            <h3>
+              <RiStackLine size={18} style={{ marginRight: 7, verticalAlign: 'middle', opacity: 0.85 }} />
+              Watch order
+            </h3>
+            {collection.hasChronology ? (
+              <div className="meta">
+                <button type="button" className={`filter ${order === 'release' ? 'active' : ''}`} onClick={() => pickOrder('release')}>
+                  Release order
+                </button>
+                <button type="button" className={`filter ${order === 'story' ? 'active' : ''}`} onClick={() => pickOrder('story')}>
+                  Chronological
+                </button>
+              </div>
+            ) : (
+              <span className="inline-pill">Release order</span>
+            )}
+          </div>
+          {movies.length ? (
+            <div className="grid">
+              {movies.map((m, i) => (
+                <div key={m.id}>
+                  <div className="tagline" style={{ marginBottom: 6 }}>
+                    #{i + 1}
+                    {m.releaseDate ? ` · ${m.releaseDate.slice(0, 4)}` : ''}
+                  </div>
+                  <MovieCard movie={m} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="tagline">No titles listed yet.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
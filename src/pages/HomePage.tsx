@@ -10,7 +10,7 @@ import {
   RiUserStarLine,
   RiBookOpenLine,
 } from 'react-icons/ri';
-import { fetchHome, HomePayload } from '../services/agent';
+import { fetchBrowse, fetchFeatured, fetchHome, fetchSpotlight, initialData, type HomePayload, type SpotlightGroup } from '../services/api';
 import { Movie } from '../types';
 import { MovieCard } from '../components/MovieCard';
 import { FeaturedMovieBanner } from '../components/FeaturedMovieBanner';
@@ -19,11 +19,6 @@ import { personPathFromTmdbId } from '../utils/ids';
 import { LANGUAGE_INTROS, LANGUAGE_COLORS } from '../data/languageContent';
 import { ARTICLES } from '../data/articles';
 
-type SpotlightGroup = {
-  language: 'Hindi' | 'Kannada' | 'Telugu' | string;
-  persons: { tmdbId: number; name: string; profileImage?: string }[];
-};
-
 // Module-level cache — seeded from server-injected __INITIAL_DATA__ on first load.
 const homeInitialCache = new Map<string, { data: HomePayload; ts: number }>();
 const HOME_INITIAL_TTL = 5 * 60 * 1000;
@@ -31,7 +26,7 @@ const HOME_INITIAL_TTL = 5 * 60 * 1000;
 if (typeof window !== 'undefined') {
   const d = (window as any).__INITIAL_DATA__;
   if (d?._route === 'home' && d._key) {
-    homeInitialCache.set(d._key, { data: d as HomePayload, ts: Date.now() });
+    homeInitialCache.set(d._key, { data: initialData.home(d), ts: Date.now() });
     delete (window as any).__INITIAL_DATA__;
   }
 }
@@ -48,12 +43,13 @@ export function HomePage({ lang, refresh }: { lang?: string; refresh?: boolean }
   const [homeUpcoming, setHomeUpcoming] = useState<Movie[]>(initialData?.sections?.upcoming || []);
   const [genres, setGenres] = useState<{ genre: string; count: number }[]>(initialData?.categories?.genres || []);
   const [spotlight, setSpotlight] = useState<SpotlightGroup[]>([]);
-  const [featured, setFeatured] = useState<any>(null);
+  const [featured, setFeatured] = useState<Movie | null>(null);
   const [activeGenre, setActiveGenre] = useState<string | null>(null);
   const [genreMovies, setGenreMovies] = useState<Movie[]>([]);
   const [genrePage, setGenrePage] = useState(1);
   const [genreHasMore, setGenreHasMore] = useState(false);
   const [genreTotal, setGenreTotal] = useState<number | null>(null);
+  const [includeDubs, setIncludeDubs] = useState(false);
 
   useEffect(() => {
     setActiveGenre(null);
@@ -72,32 +68,28 @@ export function HomePage({ lang, refresh }: { lang?: string; refresh?: boolean }
       return;
     }
 
-    let alive = true;
+    const ctrl = new AbortController();
     (async () => {
       setLoading(true);
       try {
-        const payload = await fetchHome(lang, { refresh: !!refresh });
-        if (!alive) return;
-        setHomeNew(payload?.sections?.new || []);
-        setHomeUpcoming(payload?.sections?.upcoming || []);
-        setGenres(payload?.categories?.genres || []);
+        const payload = await fetchHome({ lang, refresh: !!refresh }, { signal: ctrl.signal });
+        setHomeNew(payload.sections?.new || []);
+        setHomeUpcoming(payload.sections?.upcoming || []);
+        setGenres(payload.categories?.genres || []);
+      } catch {
+        // ignore
       } finally {
-        if (alive) setLoading(false);
+        if (!ctrl.signal.aborted) setLoading(false);
       }
     })();
-    return () => {
-      alive = false;
-    };
+    return () => ctrl.abort();
   }, [lang, refresh]);
 
   useEffect(() => {
     let alive = true;
     (async () => {
       try {
-        const url = lang ? `/api/spotlight?lang=${encodeURIComponent(lang)}` : '/api/spotlight';
-        const res = await fetch(url, { cache: 'no-store' });
-        if (!res.ok) return;
-        const data = await res.json();
+        const data = await fetchSpotlight(lang);
         if (!alive) return;
         setSpotlight(Array.isArray(data.groups) ? data.groups : []);
       } catch {
@@ -113,10 +105,7 @@ export function HomePage({ lang, refresh }: { lang?: string; refresh?: boolean }
     let alive = true;
     (async () => {
       try {
-        const url = lang ? `/api/featured?lang=${encodeURIComponent(lang)}` : '/api/featured';
-        const res = await fetch(url, { cache: 'no-store' });
-        if (!res.ok) return;
-        const data = await res.json();
+        const data = await fetchFeatured(lang);
         if (!alive) return;
         setFeatured(data.featured || null);
       } catch {
@@ -159,16 +148,8 @@ export function HomePage({ lang, refresh }: { lang?: string; refresh?: boolean }
     });
   }, [genreMovies]);
 
-  const fetchGenrePage = async (nextGenre: string, page: number) => {
-    const params = new URLSearchParams();
-    params.set('genre', nextGenre);
-    if (lang) params.set('lang', lang);
-    params.set('page', String(page));
-    params.set('pageSize', String(24));
-    const res = await fetch(`/api/browse?${params.toString()}`, { cache: 'no-store' });
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    return res.json();
-  };
+  const fetchGenrePage = (nextGenre: string, page: number, dubs = includeDubs) =>
+    fetchBrowse({ genre: nextGenre, lang, includeDubs: lang ? dubs : undefined, page, pageSize: 24 });
 
   return (
     <div>
@@ -408,6 +389,32 @@ export function HomePage({ lang, refresh }: { lang?: string; refresh?: boolean }
             </button>
           ))}
         </div>
+        {lang ? (
+          <div className="meta" style={{ marginTop: 10 }}>
+            <button
+              type="button"
+              className={`filter ${includeDubs ? 'active' : ''}`}
+              title={`Also show films originally in another language that were released dubbed in ${lang}`}
+              onClick={async () => {
+                const next = !includeDubs;
+                setIncludeDubs(next);
+                if (!activeGenre) return;
+                setLoading(true);
+                try {
+                  const payload = await fetchGenrePage(activeGenre, 1, next);
+                  setGenreMovies(Array.isArray(payload.movies) ? payload.movies : []);
+                  setGenrePage(Number(payload.page || 1) || 1);
+                  setGenreHasMore(!!payload.hasMore);
+                  setGenreTotal(typeof payload.total === 'number' ? payload.total : null);
+                } finally {
+                  setLoading(false);
+                }
+              }}
+            >
+              Include {lang} dubs
+            </button>
+          </div>
+        ) : null}
         {activeGenre && (
           <div style={{ marginTop: 12 }} className="tagline">
             Showing <strong>{activeGenre}</strong> titles{' '}
@@ -2,17 +2,7 @@ import { useMemo, useState } from 'react';
 import { RiArrowLeftLine, RiLock2Line, RiUserAddLine } from 'react-icons/ri';
 import { CaptchaWidget } from '../components/CaptchaWidget';
 import { navigate } from '../router';
-
-async function postJson(url: string, body: any) {
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body)
-  });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-  return data;
-}
+import { login, signup } from '../services/api';
 
 export function LoginPage({ next }: { next?: string }) {
   const [mode, setMode] = useState<'login' | 'signup'>('login');
@@ -107,9 +97,9 @@ export function LoginPage({ next }: { next?: string }) {
               setError(null);
               try {
                 if (mode === 'login') {
-                  await postJson('/api/auth/login', { email, password, captchaToken });
+                  await login({ email, password, captchaToken });
                 } else {
-                  await postJson('/api/auth/signup', { email, password, displayName, captchaToken });
+                  await signup({ email, password, displayName, captchaToken });
                 }
                 navigate(next || '/account');
               } catch (e: any) {
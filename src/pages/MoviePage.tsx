@@ -1,9 +1,28 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { RiArrowLeftLine, RiChat3Line, RiExternalLinkLine, RiHeart3Line, RiListCheck2, RiPlayLine, RiStarLine } from 'react-icons/ri';
-import { Movie } from '../types';
-import { navigate } from '../router';
-import { personPathFromTmdbId } from '../utils/ids';
+import { RiArrowLeftLine, RiArrowRightLine, RiChat3Line, RiExternalLinkLine, RiHeart3Line, RiListCheck2, RiPlayLine, RiStarLine } from 'react-icons/ri';
+import { Movie, MovieVersion } from '../types';
+import { navigate, redirect } from '../router';
+import {
+  collectionPathFromSlug,
+  moviePathFromMovieId,
+  personPathFromTmdbId,
+  studioPathFromSlug,
+  tmdbNumericFromCompoundId
+} from '../utils/ids';
 import { CaptchaWidget } from '../components/CaptchaWidget';
+import {
+  ApiError,
+  addFavorite,
+  addToWatchlist,
+  fetchListsContaining,
+  fetchMe,
+  fetchMovie,
+  initialData,
+  removeFavorite,
+  removeFromWatchlist,
+  type ListsContains,
+  type User
+} from '../services/api';
 
 function formatDate(iso?: string) {
   if (!iso) return 'TBA';
@@ -12,12 +31,20 @@ function formatDate(iso?: string) {
   return d.toLocaleDateString('en-IN', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
+// Crew sections in display order; departments not listed here follow.
+const CREW_DEPARTMENTS = ['Directing', 'Music', 'Writing', 'Camera', 'Editing', 'Production', 'Choreography', 'Action'];
+const CREW_DEPARTMENT_LABELS: Record<string, string> = {
+  Directing: 'Direction',
+  Camera: 'Cinematography',
+  Action: 'Action & stunts'
+};
+
 // Consume server-injected initial data once on module load.
 let _movieInitial: { key: string; movie: Movie } | null = null;
 if (typeof window !== 'undefined') {
   const d = (window as any).__INITIAL_DATA__;
   if (d?._route === 'movie') {
-    _movieInitial = { key: d._key, movie: d.movie as Movie };
+    _movieInitial = { key: d._key, movie: initialData.movie(d.movie) };
     delete (window as any).__INITIAL_DATA__;
   }
 }
@@ -33,32 +60,42 @@ export function MoviePage({ id }: { id: string }) {
   });
   const [loading, setLoading] = useState(!movie);
   const [error, setError] = useState<string | null>(null);
-  const [me, setMe] = useState<any>(null);
-  const [lists, setLists] = useState<{ favorite: boolean; watchlist: boolean } | null>(null);
+  const [me, setMe] = useState<User | null>(null);
+  const [lists, setLists] = useState<ListsContains | null>(null);
   const [captchaToken, setCaptchaToken] = useState('');
   const [actionMsg, setActionMsg] = useState<string | null>(null);
   const [songsRefreshing, setSongsRefreshing] = useState(false);
   const songPollToken = useRef(0);
+  // Language version on show ('' = original); kept in `?lang=` so a dubbed version can be linked.
+  const [versionLang, setVersionLang] = useState(() => new URLSearchParams(window.location.search).get('lang') || '');
 
   useEffect(() => {
-    let alive = true;
+    setVersionLang(new URLSearchParams(window.location.search).get('lang') || '');
+  }, [id]);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    const alive = () => !ctrl.signal.aborted;
     const hasInitial = !!movie;
     if (!hasInitial) { setLoading(true); setError(null); }
     (async () => {
       try {
         // Always fetch to pick up enriched ratings/streaming — but if we have initial
         // data we skip the loading spinner so the page is visible immediately.
-        const res = await fetch(`/api/movies/${encodeURIComponent(id)}`, { cache: 'no-store' });
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = (await res.json()) as Movie;
-        if (alive) setMovie(data);
+        const data = await fetchMovie(id, {}, { signal: ctrl.signal });
+        // A merged duplicate comes back as the surviving movie: move to its URL.
+        if (alive() && data.id && tmdbNumericFromCompoundId(data.id) !== tmdbNumericFromCompoundId(id)) {
+          redirect(moviePathFromMovieId(data.id));
+          return;
+        }
+        if (alive()) setMovie(data);
       } catch (e: any) {
-        if (alive && !hasInitial) setError(e?.message || 'Failed to load movie');
+        if (alive() && !hasInitial) setError(e?.message || 'Failed to load movie');
       } finally {
-        if (alive) setLoading(false);
+        if (alive()) setLoading(false);
       }
     })();
-    return () => { alive = false; };
+    return () => ctrl.abort();
   }, [id]);
 
   // Lazy-load songs: movie details should render quickly, while songs/links refresh in the background.
@@ -81,9 +118,7 @@ export function MoviePage({ id }: { id: string }) {
         await sleep(i === 0 ? 900 : 1600);
         if (songPollToken.current !== token) return;
         try {
-          const res = await fetch(`/api/movies/${encodeURIComponent(id)}`, { cache: 'no-store' });
-          if (!res.ok) return;
-          const data = (await res.json()) as Movie;
+          const data = await fetchMovie(id);
           if (songPollToken.current !== token) return;
           setMovie(data);
           const s = data.songs || [];
@@ -92,8 +127,9 @@ export function MoviePage({ id }: { id: string }) {
             setSongsRefreshing(false);
             return;
           }
-        } catch {
-          // ignore
+        } catch (e) {
+          // Stop on an error answer; keep polling through network blips.
+          if (e instanceof ApiError) return;
         }
       }
       if (songPollToken.current === token) setSongsRefreshing(false);
@@ -109,9 +145,9 @@ export function MoviePage({ id }: { id: string }) {
     let alive = true;
     (async () => {
       try {
-        const m = await fetch('/api/me', { cache: 'no-store' }).then((r) => r.json());
+        const m = await fetchMe();
         if (!alive) return;
-        setMe(m?.user || null);
+        setMe(m.user || null);
       } catch {
         // ignore
       }
@@ -126,9 +162,7 @@ export function MoviePage({ id }: { id: string }) {
     (async () => {
       if (!me) return;
       try {
-        const res = await fetch(`/api/me/lists/contains?movieId=${encodeURIComponent(id)}`, { cache: 'no-store' });
-        if (!res.ok) return;
-        const data = await res.json();
+        const data = await fetchListsContaining(id);
         if (!alive) return;
         setLists({ favorite: !!data.favorite, watchlist: !!data.watchlist });
       } catch {
@@ -140,6 +174,42 @@ export function MoviePage({ id }: { id: string }) {
     };
   }, [me, id]);
 
+  const versions = movie?.versions || [];
+  const dubbed = versions.find((v) => !v.original && v.language === versionLang) || null;
+  const watchOffers = useMemo(() => {
+    const offers = movie?.ott || [];
+    if (!dubbed?.ottProviders) return offers;
+    const carried = new Set(dubbed.ottProviders.map((p) => p.toLowerCase()));
+    return offers.filter((o) => carried.has(String(o.provider || '').toLowerCase()));
+  }, [movie, dubbed]);
+
+  // Crew by department (display order below); one card per person with their jobs joined.
+  const crewGroups = useMemo(() => {
+    const groups = new Map<string, { key: string; name: string; jobs: string[]; pid?: string | number; profileImage?: string }[]>();
+    for (const c of movie?.crew || []) {
+      const list = groups.get(c.department) || [];
+      const pid = c.tmdbId || c.personId;
+      const key = String(pid || c.name);
+      const same = list.find((x) => x.key === key);
+      if (same) {
+        if (!same.jobs.includes(c.job)) same.jobs.push(c.job);
+      } else {
+        list.push({ key, name: c.name, jobs: [c.job], pid, profileImage: c.profileImage });
+      }
+      groups.set(c.department, list);
+    }
+    const rank = (d: string) => (CREW_DEPARTMENTS.includes(d) ? CREW_DEPARTMENTS.indexOf(d) : CREW_DEPARTMENTS.length);
+    return Array.from(groups, ([department, people]) => ({ department, people })).sort(
+      (a, b) => rank(a.department) - rank(b.department)
+    );
+  }, [movie]);
+
+  const pickVersion = (v: MovieVersion) => {
+    setVersionLang(v.original ? '' : v.language);
+    const qs = v.original ? '' : `?lang=${encodeURIComponent(v.language)}`;
+    window.history.replaceState({}, '', `${window.location.pathname}${qs}`);
+  };
+
   const ratingChips = useMemo(() => {
     if (!movie?.ratings?.length) return [];
     return movie.ratings.slice(0, 6).map((r) => {
@@ -208,11 +278,16 @@ export function MoviePage({ id }: { id: string }) {
               </div>
 
               <div className="movie-hero-content">
-                <h1 className="movie-title">{movie.title}</h1>
+                <h1 className="movie-title">{dubbed?.title || movie.title}</h1>
+                {dubbed && dubbed.title && dubbed.title !== movie.title ? (
+                  <div className="tagline" style={{ marginTop: 4 }}>
+                    {movie.language} original: {movie.title}
+                  </div>
+                ) : null}
                 <div className="meta" style={{ marginTop: 10 }}>
                   <span className="status">{movie.status}</span>
-                  <span className="chip">{movie.language}</span>
-                  <span className="chip">{formatDate(movie.releaseDate)}</span>
+                  <span className="chip">{dubbed ? `${dubbed.language} (dubbed)` : movie.language}</span>
+                  <span className="chip">{formatDate(dubbed?.releaseDate || movie.releaseDate)}</span>
                   {typeof movie.rating === 'number' ? (
                     <span className="rating">
                       <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiStarLine  /></span>
@@ -221,6 +296,23 @@ export function MoviePage({ id }: { id: string }) {
                   ) : null}
                 </div>
 
+                {versions.length > 1 ? (
+                  <div className="meta" style={{ marginTop: 10 }} role="tablist" aria-label="Language versions">
+                    {versions.map((v) => (
+                      <button
+                        key={v.language}
+                        type="button"
+                        className={`filter ${(v.original ? !dubbed : dubbed?.language === v.language) ? 'active' : ''}`}
+                        onClick={() => pickVersion(v)}
+                        title={v.original ? 'Original language' : `${v.language} version`}
+                      >
+                        {v.language}
+                        {v.original ? <span className="tagline"> · Original</span> : null}
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+
                 <div className="meta" style={{ marginTop: 10 }}>
                   {movie.genres.slice(0, 10).map((g) => (
                     <span key={g} className="chip">
@@ -229,6 +321,77 @@ export function MoviePage({ id }: { id: string }) {
                   ))}
                 </div>
 
+                {(movie.studios || []).length ? (
+                  <div className="meta" style={{ marginTop: 10 }}>
+                    <span className="tagline">Produced by</span>
+                    {(movie.studios || []).slice(0, 6).map((st) => {
+                      const href = studioPathFromSlug(st.slug);
+                      return (
+                        <a
+                          key={st.slug}
+                          className="chip"
+                          href={href}
+                          onClick={(e) => {
+                            if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+                            e.preventDefault();
+                            navigate(href);
+                          }}
+                          title={`More from ${st.name}`}
+                        >
+                          {st.name}
+                        </a>
+                      );
+                    })}
+                  </div>
+                ) : null}
+
+                {(movie.collections || []).map((c) => {
+                  const href = collectionPathFromSlug(c.slug);
+                  const step = (target: NonNullable<typeof c.prev>, dir: 'prev' | 'next') => {
+                    const to = moviePathFromMovieId(target.id);
+                    return (
+                      <a
+                        className="ghost-button"
+                        href={to}
+                        onClick={(e) => {
+                          if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+                          e.preventDefault();
+                          navigate(to);
+                        }}
+                        title={dir === 'prev' ? 'Previous in release order' : 'Next in release order'}
+                      >
+                        {dir === 'prev' ? (
+                          <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiArrowLeftLine  /></span>
+                        ) : null}
+                        {target.title}
+                        {dir === 'next' ? (
+                          <span style={{marginLeft: 6, display: 'inline-flex', alignItems: 'center'}}><RiArrowRightLine  /></span>
+                        ) : null}
+                      </a>
+                    );
+                  };
+                  return (
+                    <div key={c.slug} className="meta" style={{ marginTop: 10 }}>
+                      <span className="tagline">
+                        Part {c.position} of {c.total} in the{' '}
+                        <a
+                          href={href}
+                          onClick={(e) => {
+                            if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+                            e.preventDefault();
+                            navigate(href);
+                          }}
+                        >
+                          {c.name}
+                        </a>{' '}
+                        {c.kind === 'universe' ? 'universe' : 'franchise'}
+                      </span>
+                      {c.prev ? step(c.prev, 'prev') : null}
+                      {c.next ? step(c.next, 'next') : null}
+                    </div>
+                  );
+                })}
+
                 <div className="meta" style={{ marginTop: 12 }}>
                   {movie.trailerUrl ? (
                     <a
@@ -273,14 +436,7 @@ export function MoviePage({ id }: { id: string }) {
                           setActionMsg(null);
                           try {
                             const target = lists?.favorite ? 'remove' : 'add';
-                            const url = lists?.favorite ? `/api/me/favorites/${encodeURIComponent(id)}` : '/api/me/favorites';
-                            const res = await fetch(url, {
-                              method: lists?.favorite ? 'DELETE' : 'POST',
-                              headers: { 'Content-Type': 'application/json' },
-                              body: JSON.stringify({ movieId: id, captchaToken })
-                            });
-                            const data = await res.json().catch(() => ({}));
-                            if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+                            await (lists?.favorite ? removeFavorite : addFavorite)(id, captchaToken);
                             setLists((s) => ({ favorite: target === 'add', watchlist: !!s?.watchlist }));
                             setActionMsg(target === 'add' ? 'Added to favorites.' : 'Removed from favorites.');
                           } catch (e) {
@@ -299,14 +455,7 @@ export function MoviePage({ id }: { id: string }) {
                           setActionMsg(null);
                           try {
                             const target = lists?.watchlist ? 'remove' : 'add';
-                            const url = lists?.watchlist ? `/api/me/watchlist/${encodeURIComponent(id)}` : '/api/me/watchlist';
-                            const res = await fetch(url, {
-                              method: lists?.watchlist ? 'DELETE' : 'POST',
-                              headers: { 'Content-Type': 'application/json' },
-                              body: JSON.stringify({ movieId: id, captchaToken })
-                            });
-                            const data = await res.json().catch(() => ({}));
-                            if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+                            await (lists?.watchlist ? removeFromWatchlist : addToWatchlist)(id, captchaToken);
                             setLists((s) => ({ watchlist: target === 'add', favorite: !!s?.favorite }));
                             setActionMsg(target === 'add' ? 'Added to watchlist.' : 'Removed from watchlist.');
                           } catch (e) {
@@ -365,10 +514,7 @@ export function MoviePage({ id }: { id: string }) {
                       setLoading(true);
                       setError(null);
                       try {
-                        const res = await fetch(`/api/movies/${encodeURIComponent(id)}?refresh=1`, { cache: 'no-store' });
-                        const data = await res.json().catch(() => ({}));
-                        if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-                        setMovie(data as Movie);
+                        setMovie(await fetchMovie(id, { refresh: true }));
                       } catch (e) {
                         setError(e?.message || 'Failed to refresh');
                       } finally {
@@ -387,8 +533,7 @@ export function MoviePage({ id }: { id: string }) {
                         <div>
                           <strong>{s.title}</strong>
                           <div className="tagline">
-                            {(s.singers || []).join(', ')}
-                            {s.platform ? ` · ${s.platform}` : ''}
+                            {[(s.singers || []).join(', '), s.duration, s.platform].filter(Boolean).join(' · ')}
                           </div>
                         </div>
                         <a
@@ -419,11 +564,16 @@ export function MoviePage({ id }: { id: string }) {
 	                    Last verified: {new Date(movie.ottLastVerifiedAt).toLocaleString()}
 	                  </div>
 	                ) : null}
+	                {dubbed && !dubbed.ottProviders ? (
+	                  <div className="tagline" style={{ marginTop: 6 }}>
+	                    We don’t know yet which of these platforms carry the {dubbed.language} audio.
+	                  </div>
+	                ) : null}
 	                <div className="meta" style={{ marginTop: 10 }}>
-	                  {(movie.ott || []).length ? (
-                    (movie.ott || []).slice(0, 12).map((o) => {
+	                  {watchOffers.length ? (
+                    watchOffers.slice(0, 12).map((o) => {
                       const p = String(o.provider || '').toLowerCase();
-                      const title = encodeURIComponent(movie.title);
+                      const title = encodeURIComponent(dubbed?.title || movie.title);
                       const direct =
                         p === 'netflix'
                           ? `https://www.netflix.com/search?q=${title}`
@@ -466,7 +616,9 @@ export function MoviePage({ id }: { id: string }) {
                       );
                     })
                   ) : (
-                    <div className="tagline">No streaming links found yet.</div>
+                    <div className="tagline">
+                      {dubbed ? `No streaming links found yet for the ${dubbed.language} version.` : 'No streaming links found yet.'}
+                    </div>
                   )}
                 </div>
               </div>
@@ -561,6 +713,60 @@ export function MoviePage({ id }: { id: string }) {
               })}
             </div>
           </div>
+
+          {crewGroups.length ? (
+            <div className="detail movie-section">
+              <div className="section-header" style={{ marginTop: 0 }}>
+                <h3>Crew</h3>
+                <span className="inline-pill">{crewGroups.reduce((n, g) => n + g.people.length, 0)}</span>
+              </div>
+              {crewGroups.map(({ department, people }) => (
+                <div key={department} style={{ marginTop: 12 }}>
+                  <h4 style={{ margin: '0 0 8px' }}>{CREW_DEPARTMENT_LABELS[department] || department}</h4>
+                  <div className="movie-cast-grid">
+                    {people.map((c) => {
+                      const href = c.pid ? personPathFromTmdbId(c.pid) : '#';
+                      return (
+                        <a
+                          key={c.key}
+                          className="movie-cast-card"
+                          href={href}
+                          onClick={(e) => {
+                            if (!c.pid) return;
+                            if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+                            e.preventDefault();
+                            navigate(href);
+                          }}
+                          title={c.pid ? 'Open profile' : 'No profile available'}
+                        >
+                          {c.profileImage ? (
+                            <img
+                              src={c.profileImage}
+                              alt={c.name}
+                              loading="lazy"
+                              style={{
+                                width: 56,
+                                height: 56,
+                                borderRadius: 16,
+                                objectFit: 'cover',
+                                border: '1px solid rgba(255,255,255,0.10)'
+                              }}
+                            />
+                          ) : (
+                            <div className="chip" style={{ width: 56, height: 56, borderRadius: 16 }} />
+                          )}
+                          <div style={{ minWidth: 0 }}>
+                            <div className="movie-cast-name">{c.name}</div>
+                            <div className="tagline" style={{ marginTop: 4 }}>{c.jobs.join(', ')}</div>
+                          </div>
+                        </a>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : null}
         </>
       )}
     </div>
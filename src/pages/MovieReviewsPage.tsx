@@ -3,14 +3,7 @@ import { RiArrowLeftLine, RiChat3Line, RiStarLine } from 'react-icons/ri';
 import { navigate } from '../router';
 import type { Movie } from '../types';
 import { CaptchaWidget } from '../components/CaptchaWidget';
-
-type UserReview = {
-  id: string;
-  rating: number | null;
-  body: string;
-  createdAt: string;
-  author: string;
-};
+import { fetchMe, fetchMovie, fetchUserReviews, submitUserReview, type User, type UserReview } from '../services/api';
 
 function formatDate(iso?: string) {
   if (!iso) return 'TBA';
@@ -23,7 +16,7 @@ export function MovieReviewsPage({ id }: { id: string }) {
   const [movie, setMovie] = useState<Movie | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [me, setMe] = useState<any>(null);
+  const [me, setMe] = useState<User | null>(null);
   const [reviews, setReviews] = useState<UserReview[]>([]);
   const [captchaToken, setCaptchaToken] = useState('');
   const [myRating, setMyRating] = useState<number>(8);
@@ -31,36 +24,30 @@ export function MovieReviewsPage({ id }: { id: string }) {
   const [msg, setMsg] = useState<string | null>(null);
 
   useEffect(() => {
-    let alive = true;
+    const ctrl = new AbortController();
     setLoading(true);
     setError(null);
     (async () => {
       try {
-        const res = await fetch(`/api/movies/${encodeURIComponent(id)}`, { cache: 'no-store' });
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = (await res.json()) as Movie;
-        if (!alive) return;
+        const data = await fetchMovie(id, {}, { signal: ctrl.signal });
         setMovie(data);
       } catch (e: any) {
-        if (!alive) return;
+        if (ctrl.signal.aborted) return;
         setError(e?.message || 'Failed to load movie');
       } finally {
-        if (!alive) return;
-        setLoading(false);
+        if (!ctrl.signal.aborted) setLoading(false);
       }
     })();
-    return () => {
-      alive = false;
-    };
+    return () => ctrl.abort();
   }, [id]);
 
   useEffect(() => {
     let alive = true;
     (async () => {
       try {
-        const m = await fetch('/api/me', { cache: 'no-store' }).then((r) => r.json());
+        const m = await fetchMe();
         if (!alive) return;
-        setMe(m?.user || null);
+        setMe(m.user || null);
       } catch {
         // ignore
       }
@@ -71,10 +58,8 @@ export function MovieReviewsPage({ id }: { id: string }) {
   }, []);
 
   const loadReviews = async () => {
-    const res = await fetch(`/api/movies/${encodeURIComponent(id)}/user-reviews`, { cache: 'no-store' });
-    const data = await res.json().catch(() => ({}));
-    if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-    setReviews(Array.isArray(data.reviews) ? (data.reviews as UserReview[]) : []);
+    const data = await fetchUserReviews(id);
+    setReviews(Array.isArray(data.reviews) ? data.reviews : []);
   };
 
   useEffect(() => {
@@ -236,13 +221,7 @@ export function MovieReviewsPage({ id }: { id: string }) {
               onClick={async () => {
                 setMsg(null);
                 try {
-                  const res = await fetch(`/api/movies/${encodeURIComponent(id)}/user-reviews`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ rating: myRating, body: myBody, captchaToken })
-                  });
-                  const data = await res.json().catch(() => ({}));
-                  if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+                  await submitUserReview(id, { rating: myRating, body: myBody, captchaToken });
                   setMyBody('');
                   setMsg('Submitted for approval.');
                   await loadReviews();
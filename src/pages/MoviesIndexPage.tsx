@@ -1,22 +1,11 @@
 import { useEffect, useMemo, useState } from 'react';
 import { MovieCard } from '../components/MovieCard';
-import type { Movie } from '../types';
 import { decodeSlugLabel, languageFromSlug, titleCaseLabel } from '../utils/slugs';
 import { navigate } from '../router';
+import { fetchBrowse, initialData, type BrowsePayload, type BrowseQuery } from '../services/api';
 
 type Mode = 'all' | 'language' | 'genre';
 
-type BrowsePayload = {
-  movies: Movie[];
-  page: number;
-  pageSize: number;
-  total: number;
-  hasMore: boolean;
-  filters?: { lang?: string | null; genre?: string | null };
-  _route?: string;
-  _key?: string;
-};
-
 const GENRE_INTROS: Record<string, string> = {
   Action:
     'Indian action cinema has evolved from the stunt-driven masala films of the 1970s and 80s into a globally competitive spectacle genre. Telugu blockbusters like RRR and the KGF franchise redefined what Indian action films could achieve technically and commercially. Tamil action films from directors like Shankar and Lokesh Kanagaraj blend stylized choreography with layered storytelling. Kannada\'s Kantara brought mythological action to a global audience. Hindi action franchises like War and Pathaan have raised production values across Bollywood. Whether you are looking for high-concept set pieces or gritty street-level action, this section tracks releases across all major Indian languages.',
@@ -68,7 +57,7 @@ const CACHE_TTL = 2 * 60 * 1000; // 2 minutes
 if (typeof window !== 'undefined') {
   const d = (window as any).__INITIAL_DATA__;
   if (d?._route === 'browse') {
-    browseCache.set(d._key, { data: d as BrowsePayload, ts: Date.now() });
+    browseCache.set(d._key, { data: initialData.browse(d), ts: Date.now() });
     delete (window as any).__INITIAL_DATA__;
   }
 }
@@ -97,21 +86,16 @@ export function MoviesIndexPage({ mode, slug }: { mode: Mode; slug?: string }) {
   const [payload, setPayload] = useState<BrowsePayload | null>(() => getCached(currentKey));
 
   const fetchPage = async (page: number) => {
-    const params = new URLSearchParams();
-    params.set('page', String(page));
-    params.set('pageSize', '24');
+    const query: BrowseQuery = { page, pageSize: 24 };
     if (mode === 'language' && slug) {
-      params.set('langSlug', slug);
-      if (lang) params.set('lang', lang);
+      query.langSlug = slug;
+      if (lang) query.lang = lang;
     }
     if (mode === 'genre' && slug) {
-      params.set('genreSlug', slug);
-      params.set('genre', decodeSlugLabel(slug));
+      query.genreSlug = slug;
+      query.genre = decodeSlugLabel(slug);
     }
-    const res = await fetch(`/api/browse?${params.toString()}`, { cache: 'no-store' });
-    const data = await res.json().catch(() => ({}));
-    if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-    return data as BrowsePayload;
+    return fetchBrowse(query);
   };
 
   useEffect(() => {
@@ -1,21 +1,6 @@
 import { useEffect, useState } from 'react';
 import { navigate } from '../router';
-
-type PersonItem = {
-  id: string;
-  tmdbId?: number | null;
-  name: string;
-  profileImage?: string;
-  filmCount?: number;
-};
-
-type PeoplePayload = {
-  people: PersonItem[];
-  page: number;
-  pageSize: number;
-  total: number;
-  hasMore: boolean;
-};
+import { fetchPeople, type PeoplePayload } from '../services/api';
 
 export function PeopleIndexPage() {
   const [loading, setLoading] = useState(true);
@@ -23,15 +8,7 @@ export function PeopleIndexPage() {
   const [error, setError] = useState<string | null>(null);
   const [payload, setPayload] = useState<PeoplePayload | null>(null);
 
-  const fetchPage = async (page: number) => {
-    const params = new URLSearchParams();
-    params.set('page', String(page));
-    params.set('pageSize', '36');
-    const res = await fetch(`/api/people?${params.toString()}`, { cache: 'no-store' });
-    const data = await res.json().catch(() => ({}));
-    if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-    return data as PeoplePayload;
-  };
+  const fetchPage = (page: number) => fetchPeople({ page, pageSize: 36 });
 
   useEffect(() => {
     let alive = true;
@@ -1,18 +1,38 @@
 import { useEffect, useMemo, useState } from 'react';
 import { RiArrowLeftLine, RiExternalLinkLine } from 'react-icons/ri';
-import { PersonProfile } from '../types/person';
+import { FilmographyItem, PersonProfile } from '../types/person';
 import { navigate } from '../router';
+import { fetchPerson, initialData } from '../services/api';
 
 // Consume server-injected initial data once on module load.
 let _personInitial: { key: string; person: PersonProfile } | null = null;
 if (typeof window !== 'undefined') {
   const d = (window as any).__INITIAL_DATA__;
   if (d?._route === 'person') {
-    _personInitial = { key: d._key, person: d.person as PersonProfile };
+    _personInitial = { key: d._key, person: initialData.person(d.person) };
     delete (window as any).__INITIAL_DATA__;
   }
 }
 
+// TV credits open the series page; other credits are treated as movies.
+function creditPath(f: FilmographyItem) {
+  if (typeof f.tmdbId !== 'number') return '';
+  return `/${f.mediaType === 'tv' ? 'series' : 'movie'}/${encodeURIComponent(String(f.tmdbId))}`;
+}
+
+// Filmography sections, in display order; departments not listed here follow.
+const DEPARTMENTS = ['Acting', 'Directing', 'Music', 'Writing', 'Camera', 'Editing', 'Production', 'Choreography', 'Action'];
+const DEPARTMENT_LABELS: Record<string, string> = {
+  Camera: 'Cinematography',
+  Action: 'Action & stunts'
+};
+
+// Year plus the role: the character for acting credits, the job(s) for crew credits.
+function creditDetail(f: FilmographyItem) {
+  const role = f.department && f.department !== 'Acting' ? f.job : f.character;
+  return [(f.releaseDate || '').toString().slice(0, 4), role || ''].filter(Boolean).join(' · ');
+}
+
 export function PersonPage({ id }: { id: string }) {
   const [profile, setProfile] = useState<PersonProfile | null>(() => {
     if (_personInitial?.key === id) {
@@ -26,30 +46,46 @@ export function PersonPage({ id }: { id: string }) {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    let alive = true;
+    const ctrl = new AbortController();
+    const alive = () => !ctrl.signal.aborted;
     const hasInitial = !!profile;
     if (!hasInitial) { setLoading(true); setError(null); }
     (async () => {
       try {
         // Always fetch — the API adds full TMDB filmography not in local DB.
-        const res = await fetch(`/api/person/${encodeURIComponent(id)}`, { cache: 'no-store' });
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = (await res.json()) as PersonProfile;
-        if (alive) setProfile(data);
+        const data = await fetchPerson(id, { signal: ctrl.signal });
+        if (alive()) setProfile(data);
       } catch (e: any) {
-        if (alive && !hasInitial) setError(e?.message || 'Failed to load profile');
+        if (alive() && !hasInitial) setError(e?.message || 'Failed to load profile');
       } finally {
-        if (alive) setLoading(false);
+        if (alive()) setLoading(false);
       }
     })();
-    return () => { alive = false; };
+    return () => ctrl.abort();
   }, [id]);
 
   const filmography = useMemo(() => {
     if (!profile?.filmography?.length) return [];
-    return profile.filmography.slice(0, 24);
+    return profile.filmography.slice(0, 40);
   }, [profile]);
 
+  // One entry per title and department; several jobs on one title (Screenplay, Story) are joined.
+  const departments = useMemo(() => {
+    const groups = new Map<string, FilmographyItem[]>();
+    for (const f of filmography) {
+      const dept = f.department || 'Acting';
+      const list = groups.get(dept) || [];
+      const same = list.find((x) => x.title === f.title && x.tmdbId === f.tmdbId);
+      if (!same) list.push({ ...f });
+      else if (f.job && !(same.job || '').split(', ').includes(f.job)) same.job = [same.job, f.job].filter(Boolean).join(', ');
+      groups.set(dept, list);
+    }
+    const rank = (d: string) => (DEPARTMENTS.includes(d) ? DEPARTMENTS.indexOf(d) : DEPARTMENTS.length);
+    return Array.from(groups, ([department, items]) => ({ department, items })).sort(
+      (a, b) => rank(a.department) - rank(b.department)
+    );
+  }, [filmography]);
+
   return (
     <div>
       <div className="section-header" style={{ marginTop: 10 }}>
@@ -112,13 +148,13 @@ export function PersonPage({ id }: { id: string }) {
                           const year = (f.releaseDate || '').toString().slice(0, 4);
                           return (
                             <button
-                              key={`${f.title}-${year}`}
+                              key={`${f.title}-${year}-${f.job || ''}`}
                               className="chip"
                               type="button"
                               style={{ cursor: 'pointer' }}
                               onClick={() => {
                                 if (typeof f.tmdbId === 'number') {
-                                  navigate(`/movie/${encodeURIComponent(String(f.tmdbId))}`);
+                                  navigate(creditPath(f));
                                 } else {
                                   navigate(`/search?q=${encodeURIComponent(f.title)}`);
                                 }
@@ -146,70 +182,68 @@ export function PersonPage({ id }: { id: string }) {
               <div className="grid person-filmography-grid">
                 {filmography.slice(0, 8).map((f) => (
                   <a
-                    key={`${f.title}-${f.releaseDate || ''}`}
+                    key={`${f.title}-${f.releaseDate || ''}-${f.job || ''}`}
                     className="detail"
-                    href={typeof f.tmdbId === 'number' ? `/movie/${encodeURIComponent(String(f.tmdbId))}` : '#'}
+                    href={creditPath(f) || '#'}
                     onClick={(e) => {
                       if (typeof f.tmdbId !== 'number') return;
                       e.preventDefault();
-                      navigate(`/movie/${encodeURIComponent(String(f.tmdbId))}`);
+                      navigate(creditPath(f));
                     }}
                     style={{ padding: 10, textAlign: 'left' }}
                   >
                     <div style={{ fontWeight: 700 }}>{f.title}</div>
-                    <div className="tagline">
-                      {(f.releaseDate || '').toString().slice(0, 4)}
-                      {f.character ? ` · ${f.character}` : ''}
-                    </div>
+                    <div className="tagline">{creditDetail(f)}</div>
                   </a>
                 ))}
               </div>
               <div className="tagline" style={{ marginTop: 10 }}>
-                Click a title to open movie details.
+                Click a title to open its details.
               </div>
             </div>
           </div>
 
-          <div className="section-header">
-            <h3>All Titles</h3>
-            <span className="inline-pill">Top {filmography.length}</span>
-          </div>
-          <div className="grid" style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))' }}>
-            {filmography.map((f) => (
-              <a
-                key={`${f.title}-${f.releaseDate || ''}-grid`}
-                className="detail"
-                href={typeof f.tmdbId === 'number' ? `/movie/${encodeURIComponent(String(f.tmdbId))}` : '#'}
-                onClick={(e) => {
-                  if (typeof f.tmdbId !== 'number') return;
-                  e.preventDefault();
-                  navigate(`/movie/${encodeURIComponent(String(f.tmdbId))}`);
-                }}
-                style={{ textAlign: 'left' }}
-              >
-                {f.poster ? (
-                  <img
-                    src={f.poster}
-                    alt={f.title}
-                    style={{
-                      width: '100%',
-                      height: 220,
-                      objectFit: 'cover',
-                      borderRadius: 14,
-                      border: '1px solid rgba(255,255,255,0.08)',
-                      marginBottom: 10
+          {departments.map(({ department, items }) => (
+            <div key={department}>
+              <div className="section-header">
+                <h3>{department === 'Acting' && departments.length === 1 ? 'All Titles' : DEPARTMENT_LABELS[department] || department}</h3>
+                <span className="inline-pill">{items.length} titles</span>
+              </div>
+              <div className="grid" style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))' }}>
+                {items.map((f) => (
+                  <a
+                    key={`${f.title}-${f.releaseDate || ''}-grid`}
+                    className="detail"
+                    href={creditPath(f) || '#'}
+                    onClick={(e) => {
+                      if (typeof f.tmdbId !== 'number') return;
+                      e.preventDefault();
+                      navigate(creditPath(f));
                     }}
-                    loading="lazy"
-                  />
-                ) : null}
-                <div style={{ fontWeight: 700 }}>{f.title}</div>
-                <div className="tagline">
-                  {(f.releaseDate || '').toString().slice(0, 4)}
-                  {f.character ? ` · ${f.character}` : ''}
-                </div>
-              </a>
-            ))}
-          </div>
+                    style={{ textAlign: 'left' }}
+                  >
+                    {f.poster ? (
+                      <img
+                        src={f.poster}
+                        alt={f.title}
+                        style={{
+                          width: '100%',
+                          height: 220,
+                          objectFit: 'cover',
+                          borderRadius: 14,
+                          border: '1px solid rgba(255,255,255,0.08)',
+                          marginBottom: 10
+                        }}
+                        loading="lazy"
+                      />
+                    ) : null}
+                    <div style={{ fontWeight: 700 }}>{f.title}</div>
+                    <div className="tagline">{creditDetail(f)}</div>
+                  </a>
+                ))}
+              </div>
+            </div>
+          ))}
         </>
       )}
     </div>
@@ -2,8 +2,10 @@ import { useEffect, useMemo, useState } from 'react';
 import { RiUser3Line } from 'react-icons/ri';
 import { Movie } from '../types';
 import { PersonProfile } from '../types/person';
-import { searchAll } from '../services/agent';
+import type { Series } from '../types/series';
+import { search } from '../services/api';
 import { MovieCard } from '../components/MovieCard';
+import { SeriesCard } from '../components/SeriesCard';
 import { SearchBar } from '../components/SearchBar';
 import { navigate } from '../router';
 
@@ -11,32 +13,37 @@ export function SearchPage({ q }: { q: string }) {
   const [loading, setLoading] = useState(false);
   const [movies, setMovies] = useState<Movie[]>([]);
   const [persons, setPersons] = useState<PersonProfile[]>([]);
+  const [series, setSeries] = useState<Series[]>([]);
   const [didYouMean, setDidYouMean] = useState<string | null>(null);
 
   useEffect(() => {
-    let alive = true;
+    const ctrl = new AbortController();
     (async () => {
       const query = (q || '').trim();
       setDidYouMean(null);
       if (!query) {
         setMovies([]);
         setPersons([]);
+        setSeries([]);
         return;
       }
       setLoading(true);
       try {
-        const res = await searchAll(query);
-        if (!alive) return;
-        setMovies(res.movies || []);
-        setPersons((res.persons || []) as PersonProfile[]);
-        setDidYouMean(res.didYouMean || null);
+        const res = await search(query, { signal: ctrl.signal });
+        setMovies(Array.isArray(res.movies) ? res.movies : []);
+        setPersons(Array.isArray(res.persons) ? res.persons : []);
+        setSeries(Array.isArray(res.series) ? res.series : []);
+        setDidYouMean(typeof res.didYouMean === 'string' ? res.didYouMean : null);
+      } catch {
+        if (ctrl.signal.aborted) return;
+        setMovies([]);
+        setPersons([]);
+        setSeries([]);
       } finally {
-        if (alive) setLoading(false);
+        if (!ctrl.signal.aborted) setLoading(false);
       }
     })();
-    return () => {
-      alive = false;
-    };
+    return () => ctrl.abort();
   }, [q]);
 
   const sorted = useMemo(() => {
@@ -121,6 +128,22 @@ export function SearchPage({ q }: { q: string }) {
         </>
       )}
 
+      {series.length > 0 && (
+        <>
+          <div className="section-header" style={{ marginTop: 18 }}>
+            <h3>Series</h3>
+            <span className="inline-pill">{series.length}</span>
+          </div>
+          <div className="grid">
+            {series.map((s) => (
+              <div key={s.id}>
+                <SeriesCard series={s} />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
       {!q && !loading && (
         <div className="detail" style={{ marginTop: 14 }}>
           <h4>Search IndiaMovieGuide</h4>
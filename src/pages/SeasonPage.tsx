@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { RiArrowLeftLine, RiArrowRightLine } from 'react-icons/ri';
+import type { Season } from '../types/series';
+import { navigate } from '../router';
+import { personPathFromTmdbId, seasonPathFromSeriesId, seriesPathFromSeriesId } from '../utils/ids';
+import { fetchSeason } from '../services/api';
+
+function formatDate(iso?: string) {
+  if (!iso) return 'TBA';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString('en-IN', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function SeasonPage({ id, season: seasonNumber }: { id: string; season: number }) {
+  const [season, setSeason] = useState<Season | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    const alive = () => !ctrl.signal.aborted;
+    setLoading(true);
+    setError(null);
+    (async () => {
+      try {
+        // The first visit to a season fetches its episodes from TMDB.
+        const data = await fetchSeason(id, seasonNumber, { signal: ctrl.signal });
+        if (alive()) setSeason(data);
+      } catch (e: any) {
+        if (alive()) setError(e?.message || 'Failed to load season');
+      } finally {
+        if (alive()) setLoading(false);
+      }
+    })();
+    return () => ctrl.abort();
+  }, [id, seasonNumber]);
+
+  const seriesHref = seriesPathFromSeriesId(season?.seriesId || id);
+  const idx = season ? season.seasonNumbers.indexOf(season.seasonNumber) : -1;
+  const prev = idx > 0 ? season!.seasonNumbers[idx - 1] : null;
+  const next = season && idx >= 0 && idx < season.seasonNumbers.length - 1 ? season.seasonNumbers[idx + 1] : null;
+
+  return (
+    <div>
+      <div className="section-header" style={{ marginTop: 10 }}>
+        <button className="ghost-button" type="button" onClick={() => navigate(seriesHref)}>
+          <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiArrowLeftLine  /></span>
+          {season?.seriesTitle || 'Series'}
+        </button>
+        <span className="inline-pill">Season</span>
+      </div>
+
+      {loading && !season && <div className="tagline">Loading…</div>}
+      {error && <div className="tagline">Failed to load: {error}</div>}
+
+      {season && (
+        <>
+          <section className="movie-hero">
+            <div
+              className="movie-hero-bg"
+              style={{
+                backgroundImage: `url(${season.backdrop || season.poster || ''})`
+              }}
+            />
+            <div className="movie-hero-inner">
+              <div className="movie-poster">
+                {season.poster ? (
+                  <img
+                    src={season.poster}
+                    alt={season.name}
+                    style={{
+                      width: '100%',
+                      borderRadius: 16,
+                      border: '1px solid rgba(255,255,255,0.10)',
+                      display: 'block'
+                    }}
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="detail">No poster</div>
+                )}
+              </div>
+
+              <div className="movie-hero-content">
+                <h1 className="movie-title">
+                  {season.seriesTitle} · {season.name}
+                </h1>
+                <div className="meta" style={{ marginTop: 10 }}>
+                  <span className="chip">{season.language}</span>
+                  <span className="chip">{formatDate(season.airDate)}</span>
+                  {season.episodeCount ? <span className="chip">{season.episodeCount} episodes</span> : null}
+                </div>
+                {season.synopsis ? (
+                  <div className="tagline" style={{ marginTop: 12 }}>{season.synopsis}</div>
+                ) : null}
+                <div className="meta" style={{ marginTop: 12 }}>
+                  {prev != null ? (
+                    <button
+                      className="ghost-button"
+                      type="button"
+                      onClick={() => navigate(seasonPathFromSeriesId(season.seriesId, prev))}
+                    >
+                      <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiArrowLeftLine  /></span>
+                      {prev === 0 ? 'Specials' : `Season ${prev}`}
+                    </button>
+                  ) : null}
+                  {next != null ? (
+                    <button
+                      className="ghost-button"
+                      type="button"
+                      onClick={() => navigate(seasonPathFromSeriesId(season.seriesId, next))}
+                    >
+                      {next === 0 ? 'Specials' : `Season ${next}`}
+                      <span style={{marginLeft: 6, display: 'inline-flex', alignItems: 'center'}}><RiArrowRightLine  /></span>
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          </section>
+
+          <div className="detail movie-section">
+            <div className="section-header" style={{ marginTop: 0 }}>
+              <h3>Episodes</h3>
+              <span className="inline-pill">{season.episodes.length}</span>
+            </div>
+            {season.episodes.length ? (
+              <div className="song-list">
+                {season.episodes.map((e) => (
+                  <div key={e.episodeNumber} className="song" style={{ alignItems: 'flex-start' }}>
+                    {e.still ? (
+                      <img
+                        src={e.still}
+                        alt=""
+                        loading="lazy"
+                        style={{ width: 160, borderRadius: 12, objectFit: 'cover', flexShrink: 0 }}
+                      />
+                    ) : null}
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <strong>
+                        {e.episodeNumber}. {e.title}
+                      </strong>
+                      <div className="tagline">
+                        {[e.airDate ? formatDate(e.airDate) : '', e.runtimeMinutes ? `${e.runtimeMinutes} min` : '']
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                      {e.synopsis ? <div className="tagline" style={{ marginTop: 6 }}>{e.synopsis}</div> : null}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="tagline">No episodes listed yet.</div>
+            )}
+          </div>
+
+          {season.cast.length ? (
+            <div className="detail movie-section">
+              <div className="section-header" style={{ marginTop: 0 }}>
+                <h3>Cast</h3>
+                <span className="inline-pill">{season.cast.length}</span>
+              </div>
+              <div className="movie-cast-grid">
+                {season.cast.map((c) => {
+                  const pid = c.tmdbId || c.personId;
+                  const href = pid ? personPathFromTmdbId(pid) : '#';
+                  return (
+                    <a
+                      key={`${c.name}-${String(pid || '')}`}
+                      className="movie-cast-card"
+                      href={href}
+                      onClick={(e) => {
+                        if (!pid) return;
+                        if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+                        e.preventDefault();
+                        navigate(href);
+                      }}
+                      title={pid ? 'Open profile' : 'No profile available'}
+                    >
+                      {c.profileImage ? (
+                        <img
+                          src={c.profileImage}
+                          alt={c.name}
+                          loading="lazy"
+                          style={{
+                            width: 56,
+                            height: 56,
+                            borderRadius: 16,
+                            objectFit: 'cover',
+                            border: '1px solid rgba(255,255,255,0.10)'
+                          }}
+                        />
+                      ) : (
+                        <div className="chip" style={{ width: 56, height: 56, borderRadius: 16 }} />
+                      )}
+                      <div style={{ minWidth: 0 }}>
+                        <div className="movie-cast-name">{c.name}</div>
+                        <div className="tagline" style={{ marginTop: 4 }}>{c.character || ''}</div>
+                      </div>
+                    </a>
+                  );
+                })}
+              </div>
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useEffect, useState } from 'react';
+import { RiArrowLeftLine, RiExternalLinkLine, RiPlayLine, RiStarLine } from 'react-icons/ri';
+import type { Series } from '../types/series';
+import { navigate } from '../router';
+import { personPathFromTmdbId, seasonPathFromSeriesId } from '../utils/ids';
+import { fetchSeries, initialData } from '../services/api';
+
+function formatDate(iso?: string) {
+  if (!iso) return 'TBA';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString('en-IN', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// Consume server-injected initial data once on module load.
+let _seriesInitial: { key: string; series: Series } | null = null;
+if (typeof window !== 'undefined') {
+  const d = (window as any).__INITIAL_DATA__;
+  if (d?._route === 'series') {
+    _seriesInitial = { key: d._key, series: initialData.series(d.series) };
+    delete (window as any).__INITIAL_DATA__;
+  }
+}
+
+export function SeriesPage({ id }: { id: string }) {
+  const [series, setSeries] = useState<Series | null>(() => {
+    if (_seriesInitial?.key === id) {
+      const s = _seriesInitial.series;
+      _seriesInitial = null;
+      return s;
+    }
+    return null;
+  });
+  const [loading, setLoading] = useState(!series);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    const alive = () => !ctrl.signal.aborted;
+    const hasInitial = !!series;
+    if (!hasInitial) { setLoading(true); setError(null); }
+    (async () => {
+      try {
+        const data = await fetchSeries(id, {}, { signal: ctrl.signal });
+        if (alive()) setSeries(data);
+      } catch (e: any) {
+        if (alive() && !hasInitial) setError(e?.message || 'Failed to load series');
+      } finally {
+        if (alive()) setLoading(false);
+      }
+    })();
+    return () => ctrl.abort();
+  }, [id]);
+
+  return (
+    <div>
+      <div className="section-header" style={{ marginTop: 10 }}>
+        <button
+          className="ghost-button"
+          type="button"
+          onClick={() => {
+            try {
+              const last = sessionStorage.getItem('img_last_list_path') || '';
+              if (last) {
+                navigate(last);
+                return;
+              }
+            } catch {
+              // ignore
+            }
+            navigate('/');
+          }}
+        >
+          <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiArrowLeftLine  /></span>
+          Back
+        </button>
+        <span className="inline-pill">TV Series</span>
+      </div>
+
+      {loading && !series && <div className="tagline">Loading…</div>}
+      {error && <div className="tagline">Failed to load: {error}</div>}
+
+      {series && (
+        <>
+          <section className="movie-hero">
+            <div
+              className="movie-hero-bg"
+              style={{
+                backgroundImage: `url(${series.backdrop || series.poster || ''})`
+              }}
+            />
+            <div className="movie-hero-inner">
+              <div className="movie-poster">
+                {series.poster ? (
+                  <img
+                    src={series.poster}
+                    alt={series.title}
+                    style={{
+                      width: '100%',
+                      borderRadius: 16,
+                      border: '1px solid rgba(255,255,255,0.10)',
+                      display: 'block'
+                    }}
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="detail">No poster</div>
+                )}
+              </div>
+
+              <div className="movie-hero-content">
+                <h1 className="movie-title">{series.title}</h1>
+                <div className="meta" style={{ marginTop: 10 }}>
+                  {series.status ? <span className="status">{series.status}</span> : null}
+                  <span className="chip">{series.language}</span>
+                  <span className="chip">First aired {formatDate(series.firstAirDate)}</span>
+                  {series.seasonCount ? <span className="chip">{series.seasonCount} seasons</span> : null}
+                  {series.episodeCount ? <span className="chip">{series.episodeCount} episodes</span> : null}
+                  {typeof series.rating === 'number' ? (
+                    <span className="rating">
+                      <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiStarLine  /></span>
+                      {series.rating.toFixed(1)}/10
+                    </span>
+                  ) : null}
+                </div>
+
+                <div className="meta" style={{ marginTop: 10 }}>
+                  {series.genres.slice(0, 10).map((g) => (
+                    <span key={g} className="chip">
+                      {g}
+                    </span>
+                  ))}
+                </div>
+
+                {series.creators.length || series.networks.length ? (
+                  <div className="tagline" style={{ marginTop: 10 }}>
+                    {[
+                      series.creators.length ? `Created by ${series.creators.join(', ')}` : '',
+                      series.networks.length ? `on ${series.networks.join(', ')}` : ''
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                ) : null}
+
+                <div className="meta" style={{ marginTop: 12 }}>
+                  {series.trailerUrl ? (
+                    <a className="ghost-button" href={series.trailerUrl} target="_blank" rel="noreferrer">
+                      <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiPlayLine  /></span>
+                      Trailer
+                    </a>
+                  ) : (
+                    <span className="chip">Trailer: TBA</span>
+                  )}
+                  <button
+                    className="ghost-button"
+                    type="button"
+                    onClick={async () => {
+                      setLoading(true);
+                      setError(null);
+                      try {
+                        setSeries(await fetchSeries(id, { refresh: true }));
+                      } catch (e) {
+                        setError(e?.message || 'Failed to refresh');
+                      } finally {
+                        setLoading(false);
+                      }
+                    }}
+                    title="Refresh seasons and streaming providers"
+                  >
+                    Refresh
+                  </button>
+                </div>
+              </div>
+            </div>
+          </section>
+
+          <div className="movie-grid-layout">
+            <div className="movie-main">
+              <div className="detail movie-section">
+                <h4>Synopsis</h4>
+                <div className="tagline">{series.synopsis || 'Synopsis not available yet.'}</div>
+              </div>
+
+              <div className="detail movie-section">
+                <h4>Seasons</h4>
+                {series.seasons.length ? (
+                  <div className="song-list" style={{ marginTop: 12 }}>
+                    {series.seasons.map((s) => {
+                      const href = seasonPathFromSeriesId(series.id, s.seasonNumber);
+                      return (
+                        <div key={s.seasonNumber} className="song">
+                          <div>
+                            <strong>{s.name}</strong>
+                            <div className="tagline">
+                              {[
+                                s.airDate ? s.airDate.slice(0, 4) : '',
+                                s.episodeCount ? `${s.episodeCount} episodes` : ''
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </div>
+                          </div>
+                          <a
+                            href={href}
+                            onClick={(e) => {
+                              if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+                              e.preventDefault();
+                              navigate(href);
+                            }}
+                          >
+                            Episodes
+                          </a>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div className="tagline" style={{ marginTop: 10 }}>No seasons listed yet.</div>
+                )}
+              </div>
+            </div>
+
+            <aside className="movie-side">
+              <div className="detail movie-section">
+                <h4>Where to watch</h4>
+                {series.ottLastVerifiedAt ? (
+                  <div className="tagline" style={{ marginTop: 6 }}>
+                    Last verified: {new Date(series.ottLastVerifiedAt).toLocaleString()}
+                  </div>
+                ) : null}
+                <div className="meta" style={{ marginTop: 10 }}>
+                  {(series.ott || []).length ? (
+                    (series.ott || []).slice(0, 12).map((o) => {
+                      const out = o.deepLink || o.url || '';
+                      return (
+                        <a
+                          key={`${o.provider}-${o.type}`}
+                          className="chip"
+                          href={out || '#'}
+                          target={out ? '_blank' : undefined}
+                          rel={out ? 'noreferrer' : undefined}
+                          style={{ display: 'inline-flex', alignItems: 'center', gap: 8 }}
+                          title={out ? 'Open watch page' : 'No link available'}
+                        >
+                          {o.logo ? (
+                            <img
+                              src={o.logo}
+                              alt=""
+                              style={{ width: 16, height: 16, borderRadius: 4, objectFit: 'cover' }}
+                              loading="lazy"
+                            />
+                          ) : null}
+                          {o.provider}
+                          {o.type ? ` · ${o.type}` : ''}
+                          {out ? <RiExternalLinkLine size={14} /> : null}
+                        </a>
+                      );
+                    })
+                  ) : (
+                    <div className="tagline">No streaming links found yet.</div>
+                  )}
+                </div>
+              </div>
+            </aside>
+          </div>
+
+          <div className="detail movie-section">
+            <div className="section-header" style={{ marginTop: 0 }}>
+              <h3>Cast</h3>
+              <span className="inline-pill">{series.cast.length}</span>
+            </div>
+            {series.cast.length ? (
+              <div className="movie-cast-grid">
+                {series.cast.map((c) => {
+                  const pid = c.tmdbId || c.personId;
+                  const href = pid ? personPathFromTmdbId(pid) : '#';
+                  return (
+                    <a
+                      key={`${c.name}-${String(pid || '')}`}
+                      className="movie-cast-card"
+                      href={href}
+                      onClick={(e) => {
+                        if (!pid) return;
+                        if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+                        e.preventDefault();
+                        navigate(href);
+                      }}
+                      title={pid ? 'Open profile' : 'No profile available'}
+                    >
+                      {c.profileImage ? (
+                        <img
+                          src={c.profileImage}
+                          alt={c.name}
+                          loading="lazy"
+                          style={{
+                            width: 56,
+                            height: 56,
+                            borderRadius: 16,
+                            objectFit: 'cover',
+                            border: '1px solid rgba(255,255,255,0.10)'
+                          }}
+                        />
+                      ) : (
+                        <div className="chip" style={{ width: 56, height: 56, borderRadius: 16 }} />
+                      )}
+                      <div style={{ minWidth: 0 }}>
+                        <div className="movie-cast-name">{c.name}</div>
+                        <div className="tagline" style={{ marginTop: 4 }}>{c.character || ''}</div>
+                      </div>
+                    </a>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="tagline">Cast is listed once a season has been opened.</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,16 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { RiArrowLeftLine, RiExternalLinkLine, RiPlayLine } from 'react-icons/ri';
 import { navigate } from '../router';
 import type { Movie } from '../types';
-
-type SongPayload = {
-  id: string;
-  movieId?: string;
-  movieTitle?: string;
-  title: string;
-  singers: string[];
-  youtubeUrl?: string;
-  platform?: string;
-};
+import { fetchMovie, fetchSong, type SongDetail } from '../services/api';
 
 function youtubeEmbedUrl(input?: string): string | null {
   const raw = String(input || '').trim();
@@ -35,42 +26,33 @@ function youtubeEmbedUrl(input?: string): string | null {
 }
 
 export function SongPage({ id }: { id: string }) {
-  const [song, setSong] = useState<SongPayload | null>(null);
+  const [song, setSong] = useState<SongDetail | null>(null);
   const [movie, setMovie] = useState<Movie | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    let alive = true;
+    const ctrl = new AbortController();
     setLoading(true);
     setError(null);
     setSong(null);
     setMovie(null);
     (async () => {
       try {
-        const res = await fetch(`/api/songs/${encodeURIComponent(id)}`, { cache: 'no-store' });
-        const data = (await res.json().catch(() => ({}))) as SongPayload;
-        if (!res.ok) throw new Error((data as any)?.error || `HTTP ${res.status}`);
-        if (!alive) return;
+        const data = await fetchSong(id, { signal: ctrl.signal });
         setSong(data);
         if (data.movieId) {
-          const mres = await fetch(`/api/movies/${encodeURIComponent(data.movieId)}`, { cache: 'no-store' });
-          if (mres.ok) {
-            const mdata = (await mres.json().catch(() => null)) as Movie | null;
-            if (alive && mdata) setMovie(mdata);
-          }
+          const mdata = await fetchMovie(data.movieId, {}, { signal: ctrl.signal }).catch(() => null);
+          if (mdata) setMovie(mdata);
         }
       } catch (e: any) {
-        if (!alive) return;
+        if (ctrl.signal.aborted) return;
         setError(e?.message || 'Failed to load song');
       } finally {
-        if (!alive) return;
-        setLoading(false);
+        if (!ctrl.signal.aborted) setLoading(false);
       }
     })();
-    return () => {
-      alive = false;
-    };
+    return () => ctrl.abort();
   }, [id]);
 
   const embed = useMemo(() => youtubeEmbedUrl(song?.youtubeUrl), [song?.youtubeUrl]);
@@ -127,6 +109,7 @@ export function SongPage({ id }: { id: string }) {
             {song.singers?.length > 0 && (
               <div className="tagline" style={{ marginTop: 8 }}>
                 Sung by {song.singers.join(', ')}
+                {song.durationSec ? ` · ${Math.floor(song.durationSec / 60)}:${String(song.durationSec % 60).padStart(2, '0')}` : ''}
                 {song.platform ? ` · ${song.platform}` : ''}
               </div>
             )}
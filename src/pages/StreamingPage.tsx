@@ -1,45 +1,28 @@
 import { useEffect, useMemo, useState } from 'react';
-import { Movie } from '../types';
 import { navigate } from '../router';
 import { MovieCard } from '../components/MovieCard';
+import { SeriesCard } from '../components/SeriesCard';
 import { slugifySegment } from '../utils/slugs';
 import { LANGUAGE_INTROS, LANGUAGE_COLORS } from '../data/languageContent';
+import { fetchStreaming, initialData, type StreamingPayload, type StreamingQuery } from '../services/api';
 
 // Module-level cache so the initial server-injected data survives route changes.
-const streamingCache = new Map<string, { data: StreamingResponse; ts: number }>();
+const streamingCache = new Map<string, { data: StreamingPayload; ts: number }>();
 const STREAMING_CACHE_TTL = 5 * 60 * 1000;
 
 if (typeof window !== 'undefined') {
   const d = (window as any).__INITIAL_DATA__;
   if (d?._route === 'streaming' && d._key) {
-    streamingCache.set(d._key, { data: d as StreamingResponse, ts: Date.now() });
+    streamingCache.set(d._key, { data: initialData.streaming(d), ts: Date.now() });
     delete (window as any).__INITIAL_DATA__;
   }
 }
 
-function getStreamingCached(key: string): StreamingResponse | null {
+function getStreamingCached(key: string): StreamingPayload | null {
   const c = streamingCache.get(key);
   return c && Date.now() - c.ts < STREAMING_CACHE_TTL ? c.data : null;
 }
 
-type ProviderFacet = { provider: string; count: number; logo?: string; lastVerifiedAt?: string };
-type StreamingResponse = {
-  generatedAt: string;
-  filters: {
-    provider: string | null;
-    lang: string | null;
-    genre: string | null;
-    region: string | null;
-  };
-  providers: ProviderFacet[];
-  lastVerifiedAt?: string | null;
-  movies: Movie[];
-  page: number;
-  pageSize: number;
-  total: number;
-  hasMore: boolean;
-};
-
 function normalizeProvider(p?: string) {
   return String(p || '').trim();
 }
@@ -63,7 +46,7 @@ export function StreamingPage({ lang, provider }: { lang?: string; provider?: st
   const cacheKey = `streaming:${(lang || 'all').toLowerCase()}`;
   const [activeProvider, setActiveProvider] = useState<string>(() => normalizeProvider(provider));
   const [page, setPage] = useState(1);
-  const [payload, setPayload] = useState<StreamingResponse | null>(() => getStreamingCached(cacheKey));
+  const [payload, setPayload] = useState<StreamingPayload | null>(() => getStreamingCached(cacheKey));
   const [loading, setLoading] = useState(() => !getStreamingCached(cacheKey));
   const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -74,27 +57,21 @@ export function StreamingPage({ lang, provider }: { lang?: string; provider?: st
     setPage(1);
   }, [provider, lang]);
 
-  const q = useMemo(() => {
-    const params = new URLSearchParams();
-    if (lang) params.set('lang', lang);
-    if (activeProvider) params.set('provider', activeProvider);
-    params.set('page', String(page));
-    params.set('pageSize', '24');
-    params.set('region', 'IN');
-    return params.toString();
-  }, [lang, activeProvider, page]);
+  const q = useMemo<StreamingQuery>(
+    () => ({ lang, provider: activeProvider, page, pageSize: 24, region: 'IN' }),
+    [lang, activeProvider, page]
+  );
 
   const fetchPage = async (mode: 'replace' | 'append') => {
     if (mode === 'append') setLoadingMore(true);
     else setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`/api/streaming?${q}`, { cache: 'no-store' });
-      const data = (await res.json().catch(() => ({}))) as StreamingResponse;
-      if (!res.ok) throw new Error((data as any)?.error || `HTTP ${res.status}`);
+      const data = await fetchStreaming(q);
+      // Only the first page carries series; later pages keep the shelf already shown.
       setPayload((prev) => {
-        if (mode === 'append' && prev) return { ...data, movies: [...prev.movies, ...data.movies] };
-        return data;
+        if (mode === 'append' && prev) return { ...data, series: prev.series, movies: [...prev.movies, ...data.movies] };
+        return data.page > 1 && prev ? { ...data, series: prev.series } : data;
       });
     } catch (e: any) {
       setError(e?.message || 'Failed to load streaming titles');
@@ -140,6 +117,7 @@ export function StreamingPage({ lang, provider }: { lang?: string; provider?: st
     [providers]
   );
   const movies = payload?.movies || [];
+  const series = payload?.series || [];
   const lastVerifiedText = payload?.lastVerifiedAt
     ? new Date(String(payload.lastVerifiedAt)).toLocaleString()
     : 'Unknown';
@@ -298,6 +276,24 @@ export function StreamingPage({ lang, provider }: { lang?: string; provider?: st
 
       {!loading && !error ? (
         <>
+          {series.length ? (
+            <>
+              <div className="section-header" style={{ marginTop: 18 }}>
+                <h3>Series</h3>
+                <span className="inline-pill">{series.length}</span>
+              </div>
+              <div className="grid" style={{ marginTop: 14 }}>
+                {series.map((s) => (
+                  <SeriesCard key={s.id} series={s} contextProvider={activeProvider || undefined} />
+                ))}
+              </div>
+              <div className="section-header" style={{ marginTop: 18 }}>
+                <h3>Movies</h3>
+                <span className="inline-pill">{payload?.total ?? movies.length}</span>
+              </div>
+            </>
+          ) : null}
+
           {movies.length ? (
             <div className="grid" style={{ marginTop: 14 }}>
               {movies.map((m) => (
@@ -323,18 +319,10 @@ export function StreamingPage({ lang, provider }: { lang?: string; provider?: st
                   const next = page + 1;
                   setPage(next);
                   // fetchPage uses current `q` via useMemo, so do a manual append call here.
-                  const params = new URLSearchParams();
-                  if (lang) params.set('lang', lang);
-                  if (activeProvider) params.set('provider', activeProvider);
-                  params.set('page', String(next));
-                  params.set('pageSize', '24');
-                  params.set('region', 'IN');
                   try {
                     setLoadingMore(true);
-                    const res = await fetch(`/api/streaming?${params.toString()}`, { cache: 'no-store' });
-                    const data = (await res.json().catch(() => ({}))) as StreamingResponse;
-                    if (!res.ok) throw new Error((data as any)?.error || `HTTP ${res.status}`);
-                    setPayload((prev) => (prev ? { ...data, movies: [...prev.movies, ...data.movies] } : data));
+                    const data = await fetchStreaming({ lang, provider: activeProvider, page: next, pageSize: 24, region: 'IN' });
+                    setPayload((prev) => (prev ? { ...data, series: prev.series, movies: [...prev.movies, ...data.movies] } : data));
                   } catch {
                     // ignore
                   } finally {
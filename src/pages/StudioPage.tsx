@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import { RiArrowLeftLine, RiCalendarEventLine, RiFilmLine } from 'react-icons/ri';
+import type { Studio } from '../types/studio';
+import { navigate } from '../router';
+import { MovieCard } from '../components/MovieCard';
+import { fetchStudio, initialData } from '../services/api';
+
+// Consume server-injected initial data once on module load.
+let _studioInitial: { key: string; studio: Studio } | null = null;
+if (typeof window !== 'undefined') {
+  const d = (window as any).__INITIAL_DATA__;
+  if (d?._route === 'studio') {
+    _studioInitial = { key: d._key, studio: initialData.studio(d.studio) };
+    delete (window as any).__INITIAL_DATA__;
+  }
+}
+
+export function StudioPage({ slug }: { slug: string }) {
+  const [studio, setStudio] = useState<Studio | null>(() => {
+    if (_studioInitial?.key === slug) {
+      const s = _studioInitial.studio;
+      _studioInitial = null;
+      return s;
+    }
+    return null;
+  });
+  const [loading, setLoading] = useState(!studio);
+  const [error, setError] = useState<string | null>(null);
+  const [lang, setLang] = useState('');
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    const alive = () => !ctrl.signal.aborted;
+    const hasInitial = !!studio;
+    setLang('');
+    if (!hasInitial) { setLoading(true); setError(null); }
+    (async () => {
+      try {
+        const data = await fetchStudio(slug, { signal: ctrl.signal });
+        if (alive()) setStudio(data);
+      } catch (e: any) {
+        if (alive() && !hasInitial) setError(e?.message || 'Failed to load studio');
+      } finally {
+        if (alive()) setLoading(false);
+      }
+    })();
+    return () => ctrl.abort();
+  }, [slug]);
+
+  const filmography = useMemo(
+    () => (studio?.filmography || []).filter((m) => !lang || m.language === lang),
+    [studio, lang]
+  );
+  const upcoming = useMemo(() => (studio?.upcoming || []).filter((m) => !lang || m.language === lang), [studio, lang]);
+
+  return (
+    <div>
+      <div className="section-header" style={{ marginTop: 10 }}>
+        <button
+          className="ghost-button"
+          type="button"
+          onClick={() => {
+            try {
+              const last = sessionStorage.getItem('img_last_list_path') || '';
+              if (last) {
+                navigate(last);
+                return;
+              }
+            } catch {
+              // ignore
+            }
+            navigate('/');
+          }}
+        >
+          <span style={{marginRight: 6, display: 'inline-flex', alignItems: 'center'}}><RiArrowLeftLine  /></span>
+          Back
+        </button>
+        <span className="inline-pill">Studio</span>
+      </div>
+
+      {loading && !studio && <div className="tagline">Loading…</div>}
+      {error && <div className="tagline">Failed to load: {error}</div>}
+
+      {studio && (
+        <>
+          <div className="hero">
+            <div className="hero-card">
+              <div style={{ display: 'flex', gap: 18, alignItems: 'center', flexWrap: 'wrap' }}>
+                {studio.logo ? (
+                  <img
+                    src={studio.logo}
+                    alt={studio.name}
+                    style={{ maxWidth: 160, maxHeight: 72, objectFit: 'contain', background: 'rgba(255,255,255,0.9)', borderRadius: 12, padding: 8 }}
+                    loading="lazy"
+                  />
+                ) : null}
+                <div>
+                  <h1 style={{ margin: 0, fontSize: 30 }}>{studio.name}</h1>
+                  <div className="meta" style={{ marginTop: 10 }}>
+                    <span className="chip">{studio.movieCount} titles</span>
+                    {studio.upcoming.length ? <span className="chip">{studio.upcoming.length} upcoming</span> : null}
+                    {studio.originCountry ? <span className="chip">{studio.originCountry}</span> : null}
+                  </div>
+                </div>
+              </div>
+
+              {studio.languages.length > 1 ? (
+                <div className="meta" style={{ marginTop: 14, flexWrap: 'wrap' }}>
+                  <button type="button" className={`filter ${!lang ? 'active' : ''}`} onClick={() => setLang('')}>
+                    All languages
+                  </button>
+                  {studio.languages.map((l) => (
+                    <button
+                      key={l.language}
+                      type="button"
+                      className={`filter ${lang === l.language ? 'active' : ''}`}
+                      onClick={() => setLang(lang === l.language ? '' : l.language)}
+                    >
+                      {l.language} <span className="tagline">({l.count})</span>
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          </div>
+
+          {upcoming.length ? (
+            <>
+              <div className="section-header">
+                <h3>
+                  <RiCalendarEventLine size={18} style={{ marginRight: 7, verticalAlign: 'middle', opacity: 0.85 }} />
+                  Upcoming slate
+                </h3>
+                <span className="inline-pill">{upcoming.length}</span>
+              </div>
+              <div className="grid">
+                {upcoming.map((m) => (
+                  <div key={m.id}>
+                    <MovieCard movie={m} />
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : null}
+
+          <div className="section-header">
+            <h3>
+              <RiFilmLine size={18} style={{ marginRight: 7, verticalAlign: 'middle', opacity: 0.85 }} />
+              Filmography
+            </h3>
+            <span className="inline-pill">{filmography.length}</span>
+          </div>
+          {filmography.length ? (
+            <div className="grid">
+              {filmography.map((m) => (
+                <div key={m.id}>
+                  <MovieCard movie={m} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="tagline">No released titles listed yet.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,17 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { RiArrowLeftLine, RiSendPlane2Line } from 'react-icons/ri';
 import { CaptchaWidget } from '../components/CaptchaWidget';
 import { navigate } from '../router';
-
-async function postJson(url: string, body: any) {
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body)
-  });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
-  return data;
-}
+import { fetchMe, searchPeople, submitTitle, type PersonHit, type SubmissionCastMember } from '../services/api';
 
 export function SubmitPage() {
   const [kind, setKind] = useState<'movie' | 'tv'>('movie');
@@ -26,8 +16,8 @@ export function SubmitPage() {
   const [synopsis, setSynopsis] = useState('');
   const [notes, setNotes] = useState('');
   const [castQuery, setCastQuery] = useState('');
-  const [castResults, setCastResults] = useState<any[]>([]);
-  const [cast, setCast] = useState<any[]>([]);
+  const [castResults, setCastResults] = useState<PersonHit[]>([]);
+  const [cast, setCast] = useState<SubmissionCastMember[]>([]);
   const [newCastName, setNewCastName] = useState('');
   const [newCastPhoto, setNewCastPhoto] = useState('');
   const [newCastBio, setNewCastBio] = useState('');
@@ -40,10 +30,9 @@ export function SubmitPage() {
     let alive = true;
     (async () => {
       try {
-        const res = await fetch('/api/me', { cache: 'no-store' });
-        const data = await res.json().catch(() => ({}));
+        const data = await fetchMe();
         if (!alive) return;
-        if (!data?.user) {
+        if (!data.user) {
           navigate(`/login?next=${encodeURIComponent('/submit')}`);
         }
       } catch {
@@ -56,24 +45,23 @@ export function SubmitPage() {
   }, []);
 
   useEffect(() => {
-    let alive = true;
     const q = castQuery.trim();
     if (!q) {
       setCastResults([]);
       return;
     }
+    // Typing on aborts the previous lookup.
+    const ctrl = new AbortController();
     const t = setTimeout(async () => {
       try {
-        const res = await fetch(`/api/people/search?q=${encodeURIComponent(q)}`, { cache: 'no-store' });
-        const data = await res.json().catch(() => ({}));
-        if (!alive) return;
+        const data = await searchPeople(q, { signal: ctrl.signal });
         setCastResults(Array.isArray(data.persons) ? data.persons : []);
       } catch {
         // ignore
       }
     }, 250);
     return () => {
-      alive = false;
+      ctrl.abort();
       clearTimeout(t);
     };
   }, [castQuery]);
@@ -349,7 +337,7 @@ export function SubmitPage() {
               setLoading(true);
               setMsg(null);
               try {
-                await postJson('/api/submissions', {
+                await submitTitle({
                   kind,
                   title,
                   language: effectiveLanguage,
@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { RiArrowLeftLine, RiExternalLinkLine, RiPlayLine } from 'react-icons/ri';
 import { navigate } from '../router';
 import type { Movie } from '../types';
+import { fetchMovie } from '../services/api';
 
 function youtubeEmbedUrl(input?: string): string | null {
   const raw = String(input || '').trim();
@@ -32,27 +33,21 @@ export function TrailerPage({ id }: { id: string }) {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    let alive = true;
+    const ctrl = new AbortController();
     setLoading(true);
     setError(null);
     (async () => {
       try {
-        const res = await fetch(`/api/movies/${encodeURIComponent(id)}`, { cache: 'no-store' });
-        const data = (await res.json().catch(() => ({}))) as Movie;
-        if (!res.ok) throw new Error((data as any)?.error || `HTTP ${res.status}`);
-        if (!alive) return;
+        const data = await fetchMovie(id, {}, { signal: ctrl.signal });
         setMovie(data);
       } catch (e: any) {
-        if (!alive) return;
+        if (ctrl.signal.aborted) return;
         setError(e?.message || 'Failed to load trailer');
       } finally {
-        if (!alive) return;
-        setLoading(false);
+        if (!ctrl.signal.aborted) setLoading(false);
       }
     })();
-    return () => {
-      alive = false;
-    };
+    return () => ctrl.abort();
   }, [id]);
 
   const embed = useMemo(() => youtubeEmbedUrl(movie?.trailerUrl), [movie?.trailerUrl]);
@@ -14,6 +14,10 @@ export type Route =
   | { name: 'trailer'; id: string }
   | { name: 'song'; id: string }
   | { name: 'person'; id: string }
+  | { name: 'series'; id: string }
+  | { name: 'season'; id: string; season: number }
+  | { name: 'studio'; slug: string }
+  | { name: 'collection'; slug: string }
   | { name: 'login'; next?: string }
   | { name: 'account' }
   | { name: 'submit' }
@@ -64,11 +68,17 @@ export function parseRoute(loc: Location = window.location): Route {
   if (parts[0] === 'movie' && parts[1] && parts[2] === 'reviews') {
     return { name: 'movie_reviews', id: decodeURIComponent(parts[1]) };
   }
+  if (parts[0] === 'series' && parts[1] && parts[2] === 'season' && /^\d+$/.test(parts[3] || '')) {
+    return { name: 'season', id: decodeURIComponent(parts[1]), season: Number(parts[3]) };
+  }
   if (parts[0] === 'streaming' && parts[1]) return { name: 'streaming', lang: languageFromSlug(parts[1]) || parts[1] };
   if (parts[0] === 'language' && parts[1]) return { name: 'language', slug: decodeURIComponent(parts[1]) };
   if (parts[0] === 'genre' && parts[1]) return { name: 'genre', slug: decodeURIComponent(parts[1]) };
   if (parts[0] === 'movie' && parts[1]) return { name: 'movie', id: decodeURIComponent(parts[1]) };
   if (parts[0] === 'person' && parts[1]) return { name: 'person', id: decodeURIComponent(parts[1]) };
+  if (parts[0] === 'series' && parts[1] && !parts[2]) return { name: 'series', id: decodeURIComponent(parts[1]) };
+  if (parts[0] === 'studio' && parts[1]) return { name: 'studio', slug: decodeURIComponent(parts[1]) };
+  if (parts[0] === 'collection' && parts[1]) return { name: 'collection', slug: decodeURIComponent(parts[1]) };
   if (parts[0] === 'trailer' && parts[1]) return { name: 'trailer', id: decodeURIComponent(parts[1]) };
   if (parts[0] === 'song' && parts[1]) return { name: 'song', id: decodeURIComponent(parts[1]) };
   if (parts[0] === 'article' && parts[1]) return { name: 'article', slug: decodeURIComponent(parts[1]) };
@@ -83,6 +93,13 @@ export function navigate(to: string) {
   window.scrollTo({ top: 0 });
 }
 
+// Like `navigate`, but replaces the current history entry (canonical URL of a merged movie).
+export function redirect(to: string) {
+  if (to === window.location.pathname + window.location.search) return;
+  window.history.replaceState({}, '', to);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+}
+
 export function linkHandler(to: string) {
   return (e: MouseEvent) => {
     // allow open in new tab / etc
@@ -1,5 +1,6 @@
 import { mockMovies } from '../data/mockMovies';
 import { Movie } from '../types';
+import { fetchHome, search } from './api';
 
 export type AgentProvider = 'openai' | 'claude' | 'none';
 
@@ -9,38 +10,6 @@ export interface AgentOptions {
   query?: string;
 }
 
-export interface HomePayload {
-  generatedAt: string;
-  sections: {
-    new: Movie[];
-    upcoming: Movie[];
-    [k: string]: Movie[];
-  };
-  categories?: {
-    genres?: { genre: string; count: number }[];
-    languages?: { language: string; count: number }[];
-  };
-}
-
-export async function fetchHome(
-  language?: string,
-  opts?: { refresh?: boolean; signal?: AbortSignal }
-): Promise<HomePayload | null> {
-  try {
-    const refresh = !!opts?.refresh;
-    const signal = opts?.signal;
-    const qp = new URLSearchParams();
-    if (language) qp.set('lang', language);
-    if (refresh) qp.set('refresh', '1');
-    const url = `/api/home${qp.toString() ? `?${qp.toString()}` : ''}`;
-    const res = await fetch(url, { cache: 'no-store', signal });
-    if (!res.ok) return null;
-    return (await res.json()) as HomePayload;
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Simulated agent layer.
  * Replace the body of `runAgent` with calls to your backend (or directly to OpenAI/Claude APIs)
@@ -48,7 +17,7 @@ export async function fetchHome(
  */
 export async function runAgent(options: AgentOptions): Promise<Movie[]> {
   // Preferred path: backend serves from local SQLite (and can do provider backfills).
-  const home = await fetchHome();
+  const home = await fetchHome().catch(() => null);
   if (home?.sections) {
     const merged: Movie[] = [];
     for (const section of Object.values(home.sections || {})) {
@@ -81,11 +50,8 @@ export async function searchMovies(query: string): Promise<Movie[]> {
   if (!normalized) return mockMovies;
 
   try {
-    const res = await fetch(`/api/search?q=${encodeURIComponent(normalized)}`, { cache: 'no-store' });
-    if (res.ok) {
-      const payload = await res.json();
-      if (Array.isArray(payload.movies)) return payload.movies as Movie[];
-    }
+    const payload = await search(normalized);
+    if (Array.isArray(payload.movies)) return payload.movies;
   } catch {
     // ignore
   }
@@ -101,21 +67,3 @@ export async function searchMovies(query: string): Promise<Movie[]> {
     return inTitle || inSynopsis || inCast || inThemes || inGenres;
   });
 }
-
-export async function searchAll(query: string): Promise<{
-  movies: Movie[];
-  persons: any[];
-  didYouMean?: string;
-}> {
-  const normalized = query.trim();
-  if (!normalized) return { movies: [], persons: [] };
-
-  const res = await fetch(`/api/search?q=${encodeURIComponent(normalized)}`, { cache: 'no-store' });
-  if (!res.ok) return { movies: [], persons: [] };
-  const payload = await res.json();
-  return {
-    movies: Array.isArray(payload.movies) ? (payload.movies as Movie[]) : [],
-    persons: Array.isArray(payload.persons) ? payload.persons : [],
-    didYouMean: typeof payload.didYouMean === 'string' ? payload.didYouMean : undefined
-  };
-}
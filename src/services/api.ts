@@ -0,0 +1,1244 @@
+import type { CollectionRef, Movie, MovieVersion } from '../types';
+import type { Collection, CollectionSummary } from '../types/collection';
+import type { PersonProfile } from '../types/person';
+import type { Season, Series } from '../types/series';
+import type { Studio } from '../types/studio';
+import {
+  array,
+  browsePayloadSchema,
+  collectionSchema,
+  homePayloadSchema,
+  movieSchema,
+  nullable,
+  object,
+  personProfileSchema,
+  searchPayloadSchema,
+  seasonSchema,
+  seriesSchema,
+  streamingPayloadSchema,
+  string,
+  studioSchema,
+  validate,
+  type Schema
+} from './schemas';
+
+// Typed client for the server's `/api/*` routes; pages and components call these instead of
+// `fetch`. Every request is sent with `cache: 'no-store'` (the server answers from the live
+// catalog), takes an optional AbortSignal, and rejects with an `ApiError` carrying the server's
+// `error` code when the response is not 2xx. Aborted requests reject with the browser's
+// `AbortError` (see `isAbortError`). Catalog payloads (movies, persons, series, home, browse,
+// streaming, search) are run through the runtime schemas in `./schemas` before they reach a page.
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string; // the server's `error` field, or `http_<status>` when there is none
+  readonly data: unknown;
+
+  constructor(status: number, code: string, data: unknown) {
+    super(code.startsWith('http_') ? `HTTP ${status}` : code);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.data = data;
+  }
+}
+
+export function isAbortError(err: unknown) {
+  return (err as any)?.name === 'AbortError';
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+function withQuery(path: string, query?: Record<string, QueryValue>) {
+  const qp = new URLSearchParams();
+  for (const [k, v] of Object.entries(query || {})) {
+    if (v == null || v === '' || v === false) continue;
+    qp.set(k, v === true ? '1' : String(v));
+  }
+  const qs = qp.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+async function request<T>(
+  method: 'GET' | 'POST' | 'DELETE',
+  path: string,
+  opts: { query?: Record<string, QueryValue>; body?: unknown; adminToken?: string; signal?: AbortSignal; schema?: Schema<T> } = {}
+): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (opts.body !== undefined) headers['Content-Type'] = 'application/json';
+  if (opts.adminToken) headers['x-admin-token'] = opts.adminToken;
+  const res = await fetch(withQuery(path, opts.query), {
+    method,
+    headers,
+    body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
+    cache: 'no-store',
+    signal: opts.signal
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    const code = typeof data?.error === 'string' && data.error ? data.error : `http_${res.status}`;
+    throw new ApiError(res.status, code, data);
+  }
+  return opts.schema ? validate(opts.schema, data, `${method} ${path}`) : (data as T);
+}
+
+const enc = encodeURIComponent;
+
+const movieListSchema = object({ movies: array(movieSchema) });
+
+// --- Shared shapes ---
+
+export interface OkResponse {
+  ok: true;
+}
+
+export interface Paged {
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface GenreCount {
+  genre: string;
+  count: number;
+}
+
+export interface LanguageCount {
+  language: string;
+  count: number;
+}
+
+// --- Auth & account ---
+
+export interface User {
+  id: string;
+  email: string;
+  displayName: string;
+  avatarUrl: string;
+}
+
+export interface MeResponse {
+  user: User | null;
+}
+
+export interface AuthResponse extends OkResponse {
+  user: User;
+}
+
+export interface ListsContains {
+  favorite: boolean;
+  watchlist: boolean;
+}
+
+export interface MyReview {
+  id: string;
+  movieId: string;
+  movieTitle: string;
+  rating: number | null;
+  body: string;
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: string;
+}
+
+// Submission rows are returned as stored (snake_case).
+export interface MySubmission {
+  id: string;
+  kind: 'movie' | 'tv';
+  title: string;
+  language: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: string;
+  reviewed_at: string | null;
+  review_note: string | null;
+}
+
+export interface MyPersonSubmission {
+  id: string;
+  person_id: string | null;
+  name: string;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: string;
+  reviewed_at: string | null;
+  review_note: string | null;
+}
+
+export function fetchMe(opts?: RequestOptions) {
+  return request<MeResponse>('GET', '/api/me', opts);
+}
+
+export function login(body: { email: string; password: string; captchaToken?: string }) {
+  return request<AuthResponse>('POST', '/api/auth/login', { body });
+}
+
+export function signup(body: { email: string; password: string; displayName?: string; avatarUrl?: string; captchaToken?: string }) {
+  return request<AuthResponse>('POST', '/api/auth/signup', { body });
+}
+
+export function logout() {
+  return request<OkResponse>('POST', '/api/auth/logout', { body: {} });
+}
+
+// `devToken` is only returned when the server runs with RESET_RETURN_TOKEN=1.
+export function requestPasswordReset(body: { email: string; captchaToken?: string }) {
+  return request<OkResponse & { devToken?: string; expiresAt?: string }>('POST', '/api/auth/request-password-reset', { body });
+}
+
+export function resetPassword(body: { email: string; token: string; newPassword: string; captchaToken?: string }) {
+  return request<OkResponse>('POST', '/api/auth/reset-password', { body });
+}
+
+export function updateProfile(body: { displayName: string; avatarUrl: string }) {
+  return request<OkResponse>('POST', '/api/me/profile', { body });
+}
+
+export function fetchFavorites(opts?: RequestOptions) {
+  return request<{ movies: Movie[] }>('GET', '/api/me/favorites', { ...opts, schema: movieListSchema });
+}
+
+export function fetchWatchlist(opts?: RequestOptions) {
+  return request<{ movies: Movie[] }>('GET', '/api/me/watchlist', { ...opts, schema: movieListSchema });
+}
+
+export function fetchListsContaining(movieId: string, opts?: RequestOptions) {
+  return request<ListsContains>('GET', '/api/me/lists/contains', { ...opts, query: { movieId } });
+}
+
+export function addFavorite(movieId: string, captchaToken: string) {
+  return request<OkResponse>('POST', '/api/me/favorites', { body: { movieId, captchaToken } });
+}
+
+export function removeFavorite(movieId: string, captchaToken: string) {
+  return request<OkResponse>('DELETE', `/api/me/favorites/${enc(movieId)}`, { body: { movieId, captchaToken } });
+}
+
+export function addToWatchlist(movieId: string, captchaToken: string) {
+  return request<OkResponse>('POST', '/api/me/watchlist', { body: { movieId, captchaToken } });
+}
+
+export function removeFromWatchlist(movieId: string, captchaToken: string) {
+  return request<OkResponse>('DELETE', `/api/me/watchlist/${enc(movieId)}`, { body: { movieId, captchaToken } });
+}
+
+export function fetchMyReviews(opts?: RequestOptions) {
+  return request<{ reviews: MyReview[] }>('GET', '/api/me/reviews', opts);
+}
+
+export function fetchMySubmissions(opts?: RequestOptions) {
+  return request<{ submissions: MySubmission[] }>('GET', '/api/me/submissions', opts);
+}
+
+export function fetchMyPersonSubmissions(opts?: RequestOptions) {
+  return request<{ personSubmissions: MyPersonSubmission[] }>('GET', '/api/me/person-submissions', opts);
+}
+
+// --- User reviews & submissions ---
+
+export interface UserReview {
+  id: string;
+  rating: number | null;
+  body: string;
+  createdAt: string;
+  author: string;
+}
+
+export interface PersonHit {
+  id: string;
+  tmdbId?: number;
+  name: string;
+  profileImage?: string;
+}
+
+// A cast entry on a title submission: an existing person, or a new one that becomes a
+// pending person submission.
+export interface SubmissionCastMember {
+  type: 'existing' | 'new';
+  personId?: string;
+  tmdbId?: number;
+  name?: string;
+  profileImage?: string | null;
+  biography?: string | null;
+  filmography?: string[];
+}
+
+export interface TitleSubmission {
+  kind: 'movie' | 'tv';
+  title: string;
+  language?: string;
+  releaseDate?: string;
+  synopsis?: string;
+  trailerUrl?: string;
+  ottProvider?: string;
+  referenceUrl?: string;
+  notes?: string;
+  cast?: SubmissionCastMember[];
+  captchaToken?: string;
+}
+
+export interface PersonSubmission {
+  name: string;
+  profileImage?: string;
+  biography?: string;
+  filmography?: string[];
+  captchaToken?: string;
+}
+
+export function fetchUserReviews(movieId: string, opts?: RequestOptions) {
+  return request<{ reviews: UserReview[] }>('GET', `/api/movies/${enc(movieId)}/user-reviews`, opts);
+}
+
+export function submitUserReview(movieId: string, body: { rating: number | null; body: string; captchaToken?: string }) {
+  return request<OkResponse & { status: 'pending' }>('POST', `/api/movies/${enc(movieId)}/user-reviews`, { body });
+}
+
+export function submitTitle(body: TitleSubmission) {
+  return request<OkResponse & { status: 'pending' }>('POST', '/api/submissions', { body });
+}
+
+export function submitPerson(body: PersonSubmission) {
+  return request<OkResponse & { status: 'pending'; id: string }>('POST', '/api/person-submissions', { body });
+}
+
+export function searchPeople(q: string, opts?: RequestOptions) {
+  return request<{ persons: PersonHit[] }>('GET', '/api/people/search', { ...opts, query: { q } });
+}
+
+// --- Catalog ---
+
+export interface HomePayload {
+  generatedAt: string;
+  sections: {
+    new: Movie[];
+    upcoming: Movie[];
+    [k: string]: Movie[];
+  };
+  categories?: {
+    genres?: GenreCount[];
+    languages?: LanguageCount[];
+  };
+}
+
+export interface SpotlightGroup {
+  language: string;
+  persons: { tmdbId: number; name: string; profileImage?: string }[];
+}
+
+export interface SearchPayload {
+  movies: Movie[];
+  persons: PersonProfile[];
+  series: Series[];
+  source?: 'local' | 'providers';
+  didYouMean?: string;
+}
+
+export interface SongDetail {
+  id: string;
+  movieId?: string;
+  movieTitle?: string;
+  title: string;
+  singers: string[];
+  youtubeUrl?: string;
+  platform?: string;
+  source?: string;
+  durationSec?: number;
+  createdAt?: string;
+}
+
+export interface PersonListItem {
+  id: string;
+  tmdbId?: number;
+  name: string;
+  profileImage?: string;
+  filmCount?: number;
+}
+
+export interface PeoplePayload extends Paged {
+  generatedAt?: string;
+  people: PersonListItem[];
+  q?: string | null;
+}
+
+export interface BrowsePayload extends Paged {
+  generatedAt?: string;
+  movies: Movie[];
+  filters?: { lang?: string | null; genre?: string | null; includeDubs?: boolean };
+}
+
+export interface BrowseQuery {
+  lang?: string;
+  langSlug?: string;
+  genre?: string;
+  genreSlug?: string;
+  includeDubs?: boolean; // with `lang`: also films dubbed into that language
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ProviderFacet {
+  provider: string;
+  count: number;
+  logo?: string;
+  lastVerifiedAt?: string;
+}
+
+export interface StreamingPayload extends Paged {
+  generatedAt: string;
+  filters: {
+    provider: string | null;
+    lang: string | null;
+    genre: string | null;
+    region: string | null;
+  };
+  providers: ProviderFacet[];
+  lastVerifiedAt?: string | null;
+  movies: Movie[];
+  series: Series[]; // first page only
+}
+
+export interface StreamingQuery {
+  provider?: string;
+  lang?: string;
+  genre?: string;
+  region?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export function fetchHealth(opts?: RequestOptions) {
+  return request<{ ok: true; time: string }>('GET', '/api/health', opts);
+}
+
+export function fetchHome(query: { lang?: string; refresh?: boolean } = {}, opts?: RequestOptions) {
+  return request<HomePayload>('GET', '/api/home', { ...opts, query, schema: homePayloadSchema });
+}
+
+export function fetchSpotlight(lang?: string, opts?: RequestOptions) {
+  return request<{ generatedAt: string; groups: SpotlightGroup[] }>('GET', '/api/spotlight', { ...opts, query: { lang } });
+}
+
+export function fetchFeatured(lang?: string, opts?: RequestOptions) {
+  return request<{ featured: Movie | null }>('GET', '/api/featured', {
+    ...opts,
+    query: { lang },
+    schema: object({ featured: nullable(movieSchema) })
+  });
+}
+
+export function search(q: string, opts?: RequestOptions) {
+  return request<SearchPayload>('GET', '/api/search', { ...opts, query: { q }, schema: searchPayloadSchema });
+}
+
+// `refresh` re-runs provider enrichment before answering; a merged duplicate answers with
+// the surviving movie (compare `id` to redirect).
+export function fetchMovie(id: string, query: { refresh?: boolean; wikiTitle?: string } = {}, opts?: RequestOptions) {
+  return request<Movie>('GET', `/api/movies/${enc(id)}`, { ...opts, query, schema: movieSchema });
+}
+
+export function fetchSong(id: string, opts?: RequestOptions) {
+  return request<SongDetail>('GET', `/api/songs/${enc(id)}`, opts);
+}
+
+export function fetchPerson(id: string, opts?: RequestOptions) {
+  return request<PersonProfile>('GET', `/api/person/${enc(id)}`, { ...opts, schema: personProfileSchema });
+}
+
+// Unknown series are ingested from TMDB on first request; `refresh` re-fetches a stored one.
+export function fetchSeries(id: string, query: { refresh?: boolean } = {}, opts?: RequestOptions) {
+  return request<Series>('GET', `/api/series/${enc(id)}`, { ...opts, query, schema: seriesSchema });
+}
+
+// Episodes are fetched from TMDB the first time a season is opened.
+export function fetchSeason(id: string, seasonNumber: number, opts?: RequestOptions) {
+  return request<Season>('GET', `/api/series/${enc(id)}/season/${seasonNumber}`, { ...opts, schema: seasonSchema });
+}
+
+export function fetchStudio(slug: string, opts?: RequestOptions) {
+  return request<Studio>('GET', `/api/studios/${enc(slug)}`, { ...opts, schema: studioSchema });
+}
+
+// The first visit to a TMDB franchise stores its other Indian parts before answering.
+export function fetchCollection(slug: string, opts?: RequestOptions) {
+  return request<Collection>('GET', `/api/collections/${enc(slug)}`, { ...opts, schema: collectionSchema });
+}
+
+export function fetchCategories(opts?: RequestOptions) {
+  return request<{ genres: GenreCount[]; languages: LanguageCount[] }>('GET', '/api/categories', opts);
+}
+
+export function fetchPeople(query: { q?: string; page?: number; pageSize?: number } = {}, opts?: RequestOptions) {
+  return request<PeoplePayload>('GET', '/api/people', { ...opts, query: { ...query } });
+}
+
+export function fetchBrowse(query: BrowseQuery, opts?: RequestOptions) {
+  return request<BrowsePayload>('GET', '/api/browse', { ...opts, query: { ...query }, schema: browsePayloadSchema });
+}
+
+export function fetchStreaming(query: StreamingQuery, opts?: RequestOptions) {
+  return request<StreamingPayload>('GET', '/api/streaming', { ...opts, query: { ...query }, schema: streamingPayloadSchema });
+}
+
+export function fetchCatalog(opts?: RequestOptions) {
+  return request<{ generatedAt: string; movies: Movie[] }>('GET', '/api/catalog.json', {
+    ...opts,
+    schema: object({ generatedAt: string(), movies: array(movieSchema) })
+  });
+}
+
+// Server-rendered routes inline their first payload as `window.__INITIAL_DATA__`; pages read
+// it through these so it gets the same checks as a fetched response.
+export const initialData = {
+  movie: (d: unknown) => validate(movieSchema, d, 'initial movie'),
+  person: (d: unknown) => validate(personProfileSchema, d, 'initial person'),
+  series: (d: unknown) => validate(seriesSchema, d, 'initial series'),
+  studio: (d: unknown) => validate(studioSchema, d, 'initial studio'),
+  collection: (d: unknown) => validate(collectionSchema, d, 'initial collection'),
+  home: (d: unknown) => validate(homePayloadSchema, d, 'initial home'),
+  browse: (d: unknown) => validate(browsePayloadSchema, d, 'initial browse'),
+  streaming: (d: unknown) => validate(streamingPayloadSchema, d, 'initial streaming')
+};
+
+// --- Admin ---
+// Admin routes take the session token from `adminLogin` as their first argument.
+
+export type JobKind = 'agent' | 'backfill' | 'ott-refresh';
+
+export interface JobRun {
+  id: string;
+  kind: JobKind;
+  status: string;
+  params: Record<string, unknown>;
+  stats: Record<string, unknown> | null; // null until the run reports any
+  itemsTotal: number;
+  itemsFailed: number;
+  errorRate: number;
+  error?: string | null;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string | null;
+  durationMs?: number | null;
+  errors?: { item: string; label?: string | null; error: string; at: string }[]; // detail only
+  errorCount?: number;
+}
+
+export interface JobRunList {
+  now: string;
+  kinds: JobKind[];
+  total: number;
+  runs: JobRun[];
+}
+
+export interface JobRunQuery {
+  kind?: string;
+  status?: string;
+  since?: string; // YYYY-MM-DD, started on or after
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface JobSchedule {
+  id: string;
+  name: string;
+  kind: JobKind;
+  cron: string;
+  timezone: string;
+  params: Record<string, unknown>;
+  enabled: boolean;
+  running?: boolean;
+  nextRunAt?: string | null;
+  lastStartedAt?: string | null;
+  lastFinishedAt?: string | null;
+  lastStatus?: string | null;
+  lastError?: string | null;
+  lastRunId?: string | null;
+}
+
+export interface JobScheduleList {
+  now: string;
+  kinds: JobKind[];
+  agentCommands: string[];
+  defaultTimezone: string;
+  schedulerEnabled: boolean;
+  schedules: JobSchedule[];
+}
+
+// `id` edits an existing schedule; without it one is created.
+export interface JobScheduleInput {
+  id?: string;
+  name: string;
+  kind: JobKind;
+  cron: string;
+  timezone: string;
+  params: Record<string, unknown>;
+  enabled: boolean;
+}
+
+export interface QualityRuleSummary {
+  name: string;
+  severity: 'error' | 'warn';
+  weight: number;
+  description: string;
+  count: number; // movies failing it
+}
+
+export interface QualityMovie {
+  id: string;
+  tmdbId?: number;
+  title: string;
+  language: string;
+  status: string;
+  releaseDate: string;
+  poster: string;
+  score: number;
+  failed: string[];
+  checkedAt: string;
+}
+
+export interface QualityReport {
+  now: string;
+  scoredAt: string | null;
+  total: number;
+  movies: QualityMovie[];
+  rules: QualityRuleSummary[];
+}
+
+export interface QualityQuery {
+  lang?: string;
+  status?: string;
+  rule?: string;
+  maxScore?: string | number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DuplicateSide {
+  id: string;
+  tmdbId: number | null;
+  title: string;
+  year: number | null;
+  language: string;
+  poster: string;
+  cast: number;
+  songs: number;
+  ott: number;
+  ratings: number;
+  userReviews: number;
+  favorites: number;
+}
+
+export interface DuplicatePair {
+  a: DuplicateSide;
+  b: DuplicateSide;
+  score: number;
+  reasons: string[];
+  survivorId: string;
+}
+
+// A merge (duplicate or dubbed version link): rows moved per table and the surviving movie.
+export interface MergeResult extends OkResponse {
+  fromId: string;
+  toId: string;
+  moved: Record<string, number>;
+  movie: Movie | null;
+}
+
+export type RevisionEntityType = 'movie' | 'person' | 'series';
+
+export interface AdminRevision {
+  id: string;
+  action: string; // agent_ingest | enrich | admin_update | merge | revert | ...
+  actorType: 'admin' | 'agent' | 'submission' | 'system';
+  actorId: string;
+  revertOf: string | null;
+  changed: string[];
+  createdAt: string;
+}
+
+// A stored snapshot: the entity row under `movie` / `person` / `series` (snake_case columns)
+// and its list parts (`cast`, `songs`, `ott`, ...) as arrays of rows.
+export type RevisionSnapshot = Record<string, unknown>;
+
+// `before` is null for a created entity, `after` for a deleted one.
+export interface AdminRevisionDetail extends AdminRevision {
+  before: RevisionSnapshot | null;
+  after: RevisionSnapshot | null;
+}
+
+export interface RevisionList {
+  entityType: RevisionEntityType;
+  entityId: string;
+  revisions: AdminRevision[];
+}
+
+export interface RevertResult extends OkResponse {
+  entityType: RevisionEntityType;
+  entityId: string;
+  revertOf: string;
+  revisionId: string | null; // null when the revert changed nothing
+}
+
+export interface MovieVersionInput {
+  language: string;
+  title: string;
+  releaseDate: string;
+  ottProviders: string[] | null; // null: not known
+}
+
+export interface AdminStatus {
+  now: string;
+  dbPath: string;
+  counts: { movies: number; persons: number; songs: number; ottOffers: number; ratings: number; reviews: number };
+  lastHomeSeedAt: number;
+  lastHomeSeedAtIso?: string | null;
+  lastAllLanguagesSeedAtIso?: string | null;
+  languageSeeds?: Record<string, string | null>;
+  youtubeQuotaUntilIso?: string | null;
+  backfill?: BackfillState | null;
+  ottRefresh?: OttRefreshState | null;
+  agentLastRun?: {
+    startedAt?: string;
+    finishedAt?: string;
+    discovered?: number;
+    fetched?: number;
+    upserted?: number;
+    skippedNonIndian?: number;
+    trailerUpdated?: number;
+    songsUpserted?: number;
+    ratingsUpserted?: number;
+    errors?: number;
+    steps?: Record<string, { ran?: number; done?: number; skipped?: number; failed?: number; blocked?: number; updated?: number }>;
+    persons?: { candidates?: number; selected?: number; fetched?: number; wikiLinked?: number; failed?: number; deferred?: number };
+  } | null;
+  pending?: { submissions: number; userReviews: number; personSubmissions: number };
+  keys: { tmdb: boolean; youtube: boolean; omdb: boolean };
+}
+
+export interface LanguageSeedResult {
+  lang: string;
+  attempted: number;
+  wrote: number;
+  errors?: number;
+}
+
+export interface BackfillInput {
+  scope: 'all' | 'language';
+  lang: string;
+  force: boolean;
+  overrides: {
+    strategy: string;
+    lookbackDays: number;
+    forwardDays: number;
+    pages: number;
+    maxIds: number;
+    desiredTotal: number;
+    desiredUpcoming: number;
+  };
+}
+
+export interface BackfillState {
+  runId: string;
+  status: 'running' | 'done' | 'cancelled' | 'error';
+  scope: 'all' | 'language';
+  lang: string | null;
+  force: boolean;
+  overrides: Record<string, unknown>;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  cancelled: boolean;
+  totals: { attempted: number; wrote: number; errors: number };
+  results: { lang: string; attempted: number; wrote: number; errors?: number; error?: boolean; strategy?: string }[];
+  error?: string;
+}
+
+export interface OttRefreshInput {
+  scope: 'all' | 'language';
+  lang: string;
+  overrides: { region: string; limit: number; concurrency: number; staleHours: number; onlyStale: boolean };
+}
+
+export interface OttRefreshState {
+  runId: string;
+  status: 'running' | 'finished' | 'cancelled' | 'error';
+  scope: 'all' | 'language';
+  lang: string | null;
+  overrides: Record<string, unknown>;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  cancelled: boolean;
+  totals: { attempted: number; wrote: number; errors: number };
+  results: { lang: string; attempted: number; wrote: number; errors: number; cutoffIso: string; region: string }[];
+  error?: string;
+}
+
+export type ModerationAction = 'approve' | 'reject';
+
+interface ModerationUser {
+  email: string;
+  displayName?: string;
+}
+
+// What the user filled in on the submit form; nulls are fields left empty.
+export interface TitleSubmissionPayload {
+  title: string;
+  kind: string;
+  language: string | null;
+  releaseDate: string | null;
+  synopsis: string | null;
+  trailerUrl: string | null;
+  ottProvider: string | null;
+  referenceUrl: string | null;
+  notes: string | null;
+  cast: { type: string; personId: string | null; tmdbId: number | null; name: string | null; personSubmissionId: string | null }[];
+}
+
+export interface ModerationQueue {
+  now: string;
+  submissions: {
+    id: string;
+    kind: string;
+    title: string;
+    language?: string;
+    createdAt: string;
+    user: ModerationUser;
+    payload: TitleSubmissionPayload | null;
+  }[];
+  reviews: {
+    id: string;
+    movieId: string;
+    movieTitle: string;
+    rating: number | null;
+    body: string;
+    createdAt: string;
+    user: ModerationUser;
+  }[];
+  personSubmissions: {
+    id: string;
+    personId?: string;
+    name: string;
+    profileImage?: string;
+    biography?: string;
+    filmography?: string[]; // titles as typed by the user
+    createdAt: string;
+    user: ModerationUser;
+  }[];
+}
+
+export interface AdminMovieHit {
+  id: string;
+  tmdbId?: number;
+  title: string;
+  language: string;
+  releaseDate: string;
+  poster: string;
+}
+
+export interface IncompleteMovie extends AdminMovieHit {
+  status: string;
+  updatedAt: string;
+  missing: { synopsis: boolean; artwork: boolean; cast: boolean };
+}
+
+export interface IncompleteMovieList {
+  now: string;
+  status: string;
+  lang: string | null;
+  movies: IncompleteMovie[];
+}
+
+export interface AdminPersonHit {
+  id: string;
+  tmdbId?: number;
+  name: string;
+  profileImage: string;
+  profileUrl: string;
+}
+
+export interface AdminSongRow {
+  id: string;
+  title: string;
+  singers: string[];
+  youtubeUrl?: string;
+  platform?: string;
+  source?: string;
+  durationSec?: number | null;
+  // Reconciled tracklists: which provider supplied each field (title, singers, duration, youtubeUrl).
+  fieldSources?: Record<string, string> | null;
+  createdAt?: string;
+}
+
+export interface AdminSongInput {
+  id?: string;
+  title: string;
+  singers: string[];
+  youtubeUrl: string;
+  platform: string;
+}
+
+export interface AdminTrailerCandidate {
+  youtubeUrl: string;
+  title: string;
+  channel: string;
+  publishedAt?: string | null;
+  thumbnail?: string | null;
+  score: number;
+  reasons: string[];
+}
+
+export interface AdminMovieFields {
+  title?: string;
+  language?: string;
+  releaseDate?: string;
+  status?: string;
+  director?: string;
+  trailerUrl?: string;
+  synopsis?: string;
+  poster?: string;
+  backdrop?: string;
+}
+
+export interface AdminMovieEditorPayload {
+  movieId: string;
+  movie: Movie;
+  songs: AdminSongRow[];
+  cast?: {
+    personId: string;
+    tmdbId?: number;
+    name: string;
+    profileImage?: string;
+    profileUrl?: string;
+    character?: string;
+    billingOrder?: number | null;
+  }[];
+  ottOffers?: {
+    id: string;
+    provider: string;
+    offerType: string;
+    region?: string;
+    url?: string;
+    logo?: string;
+    source?: string;
+    deepLink?: string;
+    deepLinkSource?: string;
+    deepLinkVerifiedAt?: string | null;
+    createdAt?: string;
+  }[];
+  trailer?: {
+    url: string;
+    source: string; // tmdb | youtube | admin ('' for rows older than trailer ranking)
+    confidence: number | null;
+    candidates: AdminTrailerCandidate[];
+  };
+  indian?: {
+    isIndian: boolean;
+    override: boolean | null; // admin pin; null = classifier decides
+    verdict: boolean | null; // classifier's own answer (null for rows classified before it existed)
+    score: number | null;
+    reasons: string[];
+  };
+  locks?: string[]; // locked field keys; provider refreshes keep their values
+}
+
+export function adminLogin(password: string) {
+  return request<{ token: string }>('POST', '/api/admin/login', { body: { password } });
+}
+
+export function adminLogout(token: string) {
+  return request<OkResponse>('POST', '/api/admin/logout', { body: {}, adminToken: token });
+}
+
+export function fetchAdminStatus(token: string, opts?: RequestOptions) {
+  return request<AdminStatus>('GET', '/api/admin/status', { ...opts, adminToken: token });
+}
+
+export function fetchModerationQueue(token: string, opts?: RequestOptions) {
+  return request<ModerationQueue>('GET', '/api/admin/moderation', { ...opts, adminToken: token });
+}
+
+export function moderateReview(token: string, id: string, action: ModerationAction) {
+  return request<OkResponse>('POST', `/api/admin/reviews/${enc(id)}/${action}`, { body: {}, adminToken: token });
+}
+
+export function moderateSubmission(token: string, id: string, action: ModerationAction) {
+  return request<OkResponse>('POST', `/api/admin/submissions/${enc(id)}/${action}`, { body: {}, adminToken: token });
+}
+
+// Approving creates (or links) the person; `status` is set when the submission was already reviewed.
+export function moderatePersonSubmission(token: string, id: string, action: ModerationAction) {
+  return request<OkResponse & { personId?: string | null; status?: string }>(
+    'POST',
+    `/api/admin/person-submissions/${enc(id)}/${action}`,
+    { body: {}, adminToken: token }
+  );
+}
+
+export function seedHome(token: string, body: { seedAllLanguages?: boolean; force?: boolean } = {}) {
+  return request<OkResponse & { lastHomeSeedAtIso: string | null }>('POST', '/api/admin/seed/home', { body, adminToken: token });
+}
+
+// Without `force` the run is skipped while the last one is younger than the seed TTL.
+export function seedAllLanguages(token: string, force = false) {
+  return request<OkResponse & { skipped: boolean; reason?: string; results?: LanguageSeedResult[] }>(
+    'POST',
+    '/api/admin/seed/all-languages',
+    { body: { force }, adminToken: token }
+  );
+}
+
+export function seedLanguage(token: string, lang: string, force = false) {
+  return request<OkResponse & { result: LanguageSeedResult }>('POST', '/api/admin/seed/language', {
+    body: { lang, force },
+    adminToken: token
+  });
+}
+
+export function fetchBackfillStatus(token: string, opts?: RequestOptions) {
+  return request<{ now: string; backfill: BackfillState | null }>('GET', '/api/admin/backfill/status', { ...opts, adminToken: token });
+}
+
+// Answers with the running job's state when one is already in flight.
+export function startBackfill(token: string, input: BackfillInput) {
+  return request<OkResponse & { backfill: BackfillState }>('POST', '/api/admin/backfill/start', { body: input, adminToken: token });
+}
+
+export function cancelBackfill(token: string) {
+  return request<OkResponse & { cancelled: boolean }>('POST', '/api/admin/backfill/cancel', { body: {}, adminToken: token });
+}
+
+export function fetchOttRefreshStatus(token: string, opts?: RequestOptions) {
+  return request<{ now: string; ottRefresh: OttRefreshState | null }>('GET', '/api/admin/ott-refresh/status', {
+    ...opts,
+    adminToken: token
+  });
+}
+
+export function startOttRefresh(token: string, input: OttRefreshInput) {
+  return request<OkResponse & { ottRefresh: OttRefreshState }>('POST', '/api/admin/ott-refresh/start', { body: input, adminToken: token });
+}
+
+export function cancelOttRefresh(token: string) {
+  return request<OkResponse & { cancelled: boolean }>('POST', '/api/admin/ott-refresh/cancel', { body: {}, adminToken: token });
+}
+
+// Title search over the local catalog; a movie id (or `tmdb-movie:<id>`) matches directly.
+export function searchAdminMovies(token: string, q: string, opts?: RequestOptions) {
+  return request<{ movies: AdminMovieHit[] }>('GET', '/api/admin/movies-search', { ...opts, query: { q }, adminToken: token });
+}
+
+export function fetchIncompleteMovies(token: string, query: { status: string; lang?: string; limit?: number }, opts?: RequestOptions) {
+  return request<IncompleteMovieList>('GET', '/api/admin/movies-incomplete', { ...opts, query: { ...query }, adminToken: token });
+}
+
+export function searchAdminPersons(token: string, q: string, opts?: RequestOptions) {
+  return request<{ persons: AdminPersonHit[] }>('GET', '/api/admin/persons/search', { ...opts, query: { q }, adminToken: token });
+}
+
+// A TMDB id (or `tmdb-movie:<id>`) that is not in the catalog yet is ingested first.
+export function fetchMovieEditor(token: string, movieId: string, opts?: RequestOptions) {
+  return request<AdminMovieEditorPayload>('GET', `/api/admin/movies/${enc(movieId)}`, { ...opts, adminToken: token });
+}
+
+// Re-runs the full provider enrichment for the movie.
+export function refreshAdminMovie(token: string, movieId: string) {
+  return request<OkResponse & { movieId: string; movie: Movie | null }>('POST', `/api/admin/movies/${enc(movieId)}/refresh`, {
+    body: {},
+    adminToken: token
+  });
+}
+
+// Only the fields present are written.
+export function updateAdminMovie(token: string, movieId: string, fields: AdminMovieFields) {
+  return request<OkResponse>('POST', `/api/admin/movies/${enc(movieId)}/update`, { body: fields, adminToken: token });
+}
+
+// `null` hands the decision back to the classifier.
+export function setMovieIndianOverride(token: string, movieId: string, override: boolean | null) {
+  return request<OkResponse>('POST', `/api/admin/movies/${enc(movieId)}/indian`, { body: { override }, adminToken: token });
+}
+
+export function setMovieTrailer(token: string, movieId: string, youtubeUrl: string) {
+  return request<OkResponse>('POST', `/api/admin/movies/${enc(movieId)}/trailer`, { body: { youtubeUrl }, adminToken: token });
+}
+
+// Searches YouTube and stores the ranked candidates on the movie.
+export function searchTrailerCandidates(token: string, movieId: string) {
+  return request<OkResponse & { candidates: AdminTrailerCandidate[] }>('POST', `/api/admin/movies/${enc(movieId)}/trailer/candidates`, {
+    body: {},
+    adminToken: token
+  });
+}
+
+// `song.id` edits an existing row; without it the song is added.
+export function upsertMovieSong(token: string, movieId: string, song: AdminSongInput) {
+  return request<OkResponse>('POST', `/api/admin/movies/${enc(movieId)}/songs/upsert`, { body: { song }, adminToken: token });
+}
+
+export function deleteMovieSong(token: string, movieId: string, songId: string) {
+  return request<OkResponse>('POST', `/api/admin/movies/${enc(movieId)}/songs/${enc(songId)}/delete`, { body: {}, adminToken: token });
+}
+
+// An empty `deepLink` clears the admin link.
+export function setOttDeepLink(token: string, movieId: string, ottId: string, deepLink: string) {
+  return request<OkResponse>('POST', `/api/admin/movies/${enc(movieId)}/ott/${enc(ottId)}/deeplink`, {
+    body: { deepLink },
+    adminToken: token
+  });
+}
+
+// Adds the person to the cast, or updates the character / billing order when already credited.
+export function addMovieCast(token: string, movieId: string, cast: { personId: string; character?: string; billingOrder?: number }) {
+  return request<OkResponse>('POST', `/api/admin/movies/${enc(movieId)}/cast/add`, { body: cast, adminToken: token });
+}
+
+export function removeMovieCast(token: string, movieId: string, personId: string) {
+  return request<OkResponse>('POST', `/api/admin/movies/${enc(movieId)}/cast/remove`, { body: { personId }, adminToken: token });
+}
+
+// An empty `lang` sets the fallback shown for languages without their own pick.
+export function setFeaturedMovie(token: string, lang: string, movieId: string) {
+  return request<OkResponse & { lang: string; movieId: string; title: string }>('POST', '/api/admin/featured', {
+    body: { lang, movieId },
+    adminToken: token
+  });
+}
+
+export function clearFeaturedMovie(token: string, lang: string) {
+  return request<OkResponse>('DELETE', `/api/admin/featured/${enc(lang)}`, { adminToken: token });
+}
+
+export function fetchJobRuns(token: string, query: JobRunQuery = {}, opts?: RequestOptions) {
+  return request<JobRunList>('GET', '/api/admin/job-runs', { ...opts, query: { ...query }, adminToken: token });
+}
+
+export function fetchJobRun(token: string, id: string, opts?: RequestOptions) {
+  return request<{ run: JobRun }>('GET', `/api/admin/job-runs/${enc(id)}`, { ...opts, adminToken: token });
+}
+
+export function fetchJobSchedules(token: string, opts?: RequestOptions) {
+  return request<JobScheduleList>('GET', '/api/admin/schedules', { ...opts, adminToken: token });
+}
+
+export function saveJobSchedule(token: string, schedule: JobScheduleInput) {
+  return request<OkResponse & { schedule: JobSchedule }>('POST', '/api/admin/schedules', { body: { schedule }, adminToken: token });
+}
+
+// `delete` answers without a schedule; `run` rejects with `already_running` while one is in flight.
+export function jobScheduleAction(token: string, id: string, action: 'pause' | 'resume' | 'run' | 'delete') {
+  return request<OkResponse & { schedule?: JobSchedule }>('POST', `/api/admin/schedules/${enc(id)}/${action}`, {
+    body: {},
+    adminToken: token
+  });
+}
+
+// Scores older than an hour are recomputed before the report is built.
+export function fetchQualityReport(token: string, query: QualityQuery = {}, opts?: RequestOptions) {
+  return request<QualityReport>('GET', '/api/admin/quality', { ...opts, query: { ...query }, adminToken: token });
+}
+
+export function refreshQualityScores(token: string) {
+  return request<OkResponse & { scored: number; scoredAt: string | null }>('POST', '/api/admin/quality/refresh', {
+    body: {},
+    adminToken: token
+  });
+}
+
+export function fetchDuplicatePairs(token: string, query: { limit?: number; minScore?: number } = {}, opts?: RequestOptions) {
+  return request<{ now: string; pairs: DuplicatePair[] }>('GET', '/api/admin/duplicates', { ...opts, query: { ...query }, adminToken: token });
+}
+
+export function mergeDuplicateMovies(token: string, fromId: string, toId: string) {
+  return request<MergeResult>('POST', '/api/admin/duplicates/merge', { body: { fromId, toId }, adminToken: token });
+}
+
+export function dismissDuplicatePair(token: string, a: string, b: string) {
+  return request<OkResponse>('POST', '/api/admin/duplicates/dismiss', { body: { a, b }, adminToken: token });
+}
+
+export function fetchRevisions(
+  token: string,
+  query: { entityType: RevisionEntityType; entityId: string; limit?: number; offset?: number },
+  opts?: RequestOptions
+) {
+  return request<RevisionList>('GET', '/api/admin/revisions', { ...opts, query: { ...query }, adminToken: token });
+}
+
+export function fetchRevision(token: string, id: string, opts?: RequestOptions) {
+  return request<{ revision: AdminRevisionDetail }>('GET', `/api/admin/revisions/${enc(id)}`, { ...opts, adminToken: token });
+}
+
+export function revertRevision(token: string, id: string) {
+  return request<RevertResult>('POST', `/api/admin/revisions/${enc(id)}/revert`, { body: {}, adminToken: token });
+}
+
+export function setMovieFieldLock(token: string, movieId: string, field: string, locked: boolean) {
+  return request<OkResponse & { locks: string[] }>('POST', `/api/admin/movies/${enc(movieId)}/locks`, {
+    body: { field, locked },
+    adminToken: token
+  });
+}
+
+export function saveMovieVersion(token: string, movieId: string, version: MovieVersionInput) {
+  return request<OkResponse & { versions: MovieVersion[] }>('POST', `/api/admin/movies/${enc(movieId)}/versions`, {
+    body: version,
+    adminToken: token
+  });
+}
+
+export function removeMovieVersion(token: string, movieId: string, language: string) {
+  return request<OkResponse & { versions: MovieVersion[] }>('POST', `/api/admin/movies/${enc(movieId)}/versions/${enc(language)}/delete`, {
+    body: {},
+    adminToken: token
+  });
+}
+
+// Merges `otherMovieId` (a dub ingested as its own title) into `movieId` as a language version.
+export function linkMovieVersion(token: string, movieId: string, otherMovieId: string) {
+  return request<MergeResult>('POST', `/api/admin/movies/${enc(movieId)}/versions/link`, {
+    body: { movieId: otherMovieId },
+    adminToken: token
+  });
+}
+
+export function fetchAdminCollections(token: string, opts?: RequestOptions) {
+  return request<{ collections: CollectionSummary[] }>('GET', '/api/admin/collections', { ...opts, adminToken: token });
+}
+
+// Creates (or renames) an admin universe; TMDB collections cannot be edited here.
+export function saveUniverse(token: string, body: { name: string; slug?: string; overview?: string }) {
+  return request<OkResponse & { slug: string; collections: CollectionSummary[] }>('POST', '/api/admin/collections', {
+    body,
+    adminToken: token
+  });
+}
+
+export function deleteUniverse(token: string, slug: string) {
+  return request<OkResponse & { collections: CollectionSummary[] }>('POST', `/api/admin/collections/${enc(slug)}/delete`, {
+    body: {},
+    adminToken: token
+  });
+}
+
+// Every link of the movie, including collections where it is the only title listed.
+export function fetchMovieCollections(token: string, movieId: string, opts?: RequestOptions) {
+  return request<{ collections: CollectionRef[] }>('GET', `/api/admin/movies/${enc(movieId)}/collections`, { ...opts, adminToken: token });
+}
+
+// Adds the movie to a collection or sets its 1-based place in story order (null: release order).
+export function setMovieCollection(token: string, movieId: string, slug: string, chronoOrder: number | null) {
+  return request<OkResponse & { collections: CollectionRef[] }>('POST', `/api/admin/movies/${enc(movieId)}/collections`, {
+    body: { slug, chronoOrder },
+    adminToken: token
+  });
+}
+
+export function removeMovieCollection(token: string, movieId: string, slug: string) {
+  return request<OkResponse & { collections: CollectionRef[] }>('POST', `/api/admin/movies/${enc(movieId)}/collections/${enc(slug)}/delete`, {
+    body: {},
+    adminToken: token
+  });
+}
@@ -0,0 +1,455 @@
+import type {
+  CastMember,
+  CollectionMovieStub,
+  CollectionRef,
+  CrewCredit,
+  Movie,
+  MovieVersion,
+  OttOffer,
+  RatingSource,
+  ReviewItem,
+  Song,
+  StudioRef
+} from '../types';
+import type { Collection } from '../types/collection';
+import type { FilmographyItem, PersonProfile } from '../types/person';
+import type { Episode, Season, SeasonSummary, Series } from '../types/series';
+import type { Studio } from '../types/studio';
+import type { BrowsePayload, HomePayload, ProviderFacet, SearchPayload, StreamingPayload } from './api';
+
+// Runtime shapes for API payloads. A schema coerces what the server sent into the type the UI
+// renders: missing lists become [], missing text '', wrong-typed optional fields are dropped and
+// list entries that are not objects are skipped, so a partially hydrated movie cannot crash a
+// page. Every coercion is recorded; `validate` logs them once per payload and path in
+// development (schema drift between server and client) and stays silent in production.
+// Fields a schema does not know are passed through untouched.
+
+// `replaced`: the value could not be coerced and the fallback was used instead.
+type Issue = { path: string; message: string; replaced?: boolean };
+
+export type Schema<T> = ((value: unknown, path: string, issues: Issue[]) => T) & { isObject?: boolean };
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function string(fallback = ''): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      issues.push({ path, message: 'expected string, got number' });
+      return String(value);
+    }
+    issues.push({ path, message: `expected string, got ${describe(value)}`, replaced: true });
+    return fallback;
+  };
+}
+
+export function number(fallback = 0): Schema<number> {
+  return (value, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    const n = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+    issues.push({ path, message: `expected number, got ${describe(value)}`, replaced: !Number.isFinite(n) });
+    return Number.isFinite(n) ? n : fallback;
+  };
+}
+
+export function boolean(fallback = false): Schema<boolean> {
+  return (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    issues.push({ path, message: `expected boolean, got ${describe(value)}`, replaced: true });
+    return fallback;
+  };
+}
+
+// Absent (undefined or null) is fine; a present value that cannot be coerced is dropped.
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => {
+    if (value == null) return undefined;
+    const local: Issue[] = [];
+    const out = schema(value, path, local);
+    issues.push(...local);
+    return local.some((i) => i.replaced && i.path === path) ? undefined : out;
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues) => (value == null ? null : schema(value, path, issues));
+}
+
+// One of a fixed set of strings; anything else becomes `fallback`.
+export function oneOf<T extends string>(values: readonly T[], fallback: T): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) return value as T;
+    issues.push({ path, message: `unexpected value ${JSON.stringify(value)}`, replaced: true });
+    return fallback;
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${describe(value)}`, replaced: true });
+      return [];
+    }
+    const out: T[] = [];
+    value.forEach((v, i) => {
+      if (v == null || (item.isObject && !isPlainObject(v))) {
+        issues.push({ path: `${path}[${i}]`, message: `skipped ${describe(v)} entry` });
+        return;
+      }
+      out.push(item(v, `${path}[${i}]`, issues));
+    });
+    return out;
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}`, replaced: true });
+      return {};
+    }
+    const out: Record<string, T> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = item(v, `${path}.${k}`, issues);
+    return out;
+  };
+}
+
+type Shape = Record<string, Schema<any>>;
+type Infer<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer U> ? U : never };
+
+export function object<S extends Shape>(shape: S): Schema<Infer<S>> {
+  const schema: Schema<Infer<S>> = (value, path, issues) => {
+    let input: Record<string, unknown> = {};
+    if (isPlainObject(value)) input = value;
+    else issues.push({ path, message: `expected object, got ${describe(value)}`, replaced: true });
+    const out: Record<string, unknown> = { ...input };
+    for (const [k, field] of Object.entries(shape)) {
+      const v = field(input[k], path ? `${path}.${k}` : k, issues);
+      if (v === undefined) delete out[k];
+      else out[k] = v;
+    }
+    return out as Infer<S>;
+  };
+  schema.isObject = true;
+  return schema;
+}
+
+const reported = new Set<string>();
+
+// Coerce `data` with `schema`. `label` names the payload in drift reports (usually the route).
+export function validate<T>(schema: Schema<T>, data: unknown, label: string): T {
+  const issues: Issue[] = [];
+  const out = schema(data, '', issues);
+  if (issues.length && import.meta.env?.DEV) {
+    const fresh = issues.filter((i) => {
+      const key = `${label} ${i.path.replace(/\[\d+\]/g, '[]')} ${i.message}`;
+      if (reported.has(key)) return false;
+      reported.add(key);
+      return true;
+    });
+    if (fresh.length) console.warn(`[api] ${label}: payload does not match the client schema`, fresh.slice(0, 20));
+  }
+  return out;
+}
+
+// --- Catalog shapes ---
+
+export const songSchema: Schema<Song> = object({
+  id: string(),
+  title: string(),
+  singers: array(string()),
+  youtubeUrl: optional(string()),
+  platform: optional(string()),
+  duration: optional(string()),
+  fieldSources: optional(record(string()))
+});
+
+export const ottOfferSchema: Schema<OttOffer> = object({
+  provider: string(),
+  type: string('Streaming'),
+  url: optional(string()),
+  deepLink: optional(string()),
+  logo: optional(string()),
+  region: optional(string())
+});
+
+const ratingSourceSchema: Schema<RatingSource> = object({
+  source: string(),
+  value: number(),
+  scale: number(10),
+  count: optional(number()),
+  url: optional(string())
+});
+
+const reviewItemSchema: Schema<ReviewItem> = object({
+  source: string(),
+  author: optional(string()),
+  rating: optional(number()),
+  url: optional(string()),
+  excerpt: string()
+});
+
+const castMemberSchema: Schema<CastMember> = object({
+  personId: optional(string()),
+  name: string(),
+  role: optional(string()),
+  character: optional(string()),
+  profileUrl: optional(string()),
+  tmdbId: optional(number()),
+  profileImage: optional(string())
+});
+
+const crewCreditSchema: Schema<CrewCredit> = object({
+  personId: optional(string()),
+  name: string(),
+  department: string(),
+  job: string(),
+  tmdbId: optional(number()),
+  profileImage: optional(string())
+});
+
+const movieVersionSchema: Schema<MovieVersion> = object({
+  language: string(),
+  title: string(),
+  releaseDate: optional(string()),
+  original: boolean(),
+  ottProviders: optional(array(string())),
+  source: optional(string())
+});
+
+const studioRefSchema: Schema<StudioRef> = object({
+  slug: string(),
+  name: string(),
+  logo: optional(string())
+});
+
+const collectionMovieStubSchema: Schema<CollectionMovieStub> = object({
+  id: string(),
+  title: string(),
+  releaseDate: optional(string()),
+  poster: optional(string())
+});
+
+const collectionRefSchema: Schema<CollectionRef> = object({
+  slug: string(),
+  name: string(),
+  kind: oneOf(['collection', 'universe'] as const, 'collection'),
+  position: number(),
+  total: number(),
+  chronoOrder: optional(number()),
+  source: optional(string()),
+  prev: optional(collectionMovieStubSchema),
+  next: optional(collectionMovieStubSchema)
+});
+
+// Defaults mirror what the server's `hydrateMovie` fills in.
+export const movieSchema: Schema<Movie> = object({
+  id: string(),
+  title: string(),
+  language: string('Hindi'),
+  synopsis: string(),
+  cast: array(castMemberSchema),
+  crew: optional(array(crewCreditSchema)),
+  director: string('TBD'),
+  writers: optional(array(string())),
+  genres: array(string()),
+  themes: optional(array(string())),
+  runtimeMinutes: optional(number()),
+  releaseDate: optional(string()),
+  status: oneOf(['Now Showing', 'Upcoming', 'Announced', 'Streaming'] as const, 'Announced'),
+  poster: string(),
+  backdrop: optional(string()),
+  rating: optional(number()),
+  certification: optional(string()),
+  trailerUrl: optional(string()),
+  ott: optional(array(ottOfferSchema)),
+  ottLastVerifiedAt: optional(string()),
+  versions: optional(array(movieVersionSchema)),
+  studios: optional(array(studioRefSchema)),
+  collections: optional(array(collectionRefSchema)),
+  songs: optional(array(songSchema)),
+  ratings: optional(array(ratingSourceSchema)),
+  reviews: optional(array(reviewItemSchema)),
+  sources: optional(array(string()))
+});
+
+export const studioSchema: Schema<Studio> = object({
+  id: string(),
+  tmdbId: optional(number()),
+  slug: string(),
+  name: string(),
+  logo: optional(string()),
+  originCountry: optional(string()),
+  movieCount: number(),
+  languages: array(object({ language: string(), count: number() })),
+  upcoming: array(movieSchema),
+  filmography: array(movieSchema)
+});
+
+export const collectionSchema: Schema<Collection> = object({
+  id: string(),
+  tmdbId: optional(number()),
+  slug: string(),
+  name: string(),
+  kind: oneOf(['collection', 'universe'] as const, 'collection'),
+  overview: string(),
+  poster: optional(string()),
+  backdrop: optional(string()),
+  movies: array(movieSchema),
+  chronological: array(string()),
+  hasChronology: boolean()
+});
+
+const filmographyItemSchema: Schema<FilmographyItem> = object({
+  tmdbId: optional(number()),
+  title: string(),
+  mediaType: optional(string()),
+  character: optional(string()),
+  department: optional(string()),
+  job: optional(string()),
+  releaseDate: optional(nullable(string())),
+  poster: optional(string())
+});
+
+export const personProfileSchema: Schema<PersonProfile> = object({
+  id: string(),
+  tmdbId: optional(number()),
+  name: string(),
+  biography: string(),
+  wikiUrl: optional(string()),
+  profileImage: optional(string()),
+  filmography: array(filmographyItemSchema),
+  sources: optional(array(string()))
+});
+
+const seasonSummarySchema: Schema<SeasonSummary> = object({
+  seasonNumber: number(),
+  name: string(),
+  synopsis: string(),
+  airDate: optional(string()),
+  episodeCount: number(),
+  poster: optional(string())
+});
+
+// Defaults mirror the server's `hydrateSeries`.
+export const seriesSchema: Schema<Series> = object({
+  id: string(),
+  tmdbId: optional(number()),
+  title: string(),
+  language: string('Hindi'),
+  synopsis: string(),
+  creators: array(string()),
+  networks: array(string()),
+  genres: array(string()),
+  firstAirDate: optional(string()),
+  lastAirDate: optional(string()),
+  status: optional(string()),
+  seasonCount: number(),
+  episodeCount: optional(number()),
+  poster: string(),
+  backdrop: optional(string()),
+  trailerUrl: optional(string()),
+  rating: optional(number()),
+  seasons: array(seasonSummarySchema),
+  cast: array(castMemberSchema),
+  ott: optional(array(ottOfferSchema)),
+  ottLastVerifiedAt: optional(string()),
+  sources: optional(array(string()))
+});
+
+const episodeSchema: Schema<Episode> = object({
+  episodeNumber: number(),
+  title: string(),
+  synopsis: string(),
+  airDate: optional(string()),
+  runtimeMinutes: optional(number()),
+  still: optional(string())
+});
+
+export const seasonSchema: Schema<Season> = object({
+  seriesId: string(),
+  seriesTmdbId: optional(number()),
+  seriesTitle: string(),
+  language: string('Hindi'),
+  seasonNumber: number(),
+  name: string(),
+  synopsis: string(),
+  airDate: optional(string()),
+  episodeCount: number(),
+  poster: string(),
+  backdrop: optional(string()),
+  episodes: array(episodeSchema),
+  cast: array(castMemberSchema),
+  seasonNumbers: array(number())
+});
+
+// --- Payloads ---
+
+const movieList = array(movieSchema);
+
+const genreCountSchema = object({ genre: string(), count: number() });
+const languageCountSchema = object({ language: string(), count: number() });
+
+export const homePayloadSchema: Schema<HomePayload> = (value, path, issues) => {
+  const out = object({
+    generatedAt: string(),
+    sections: record(movieList),
+    categories: optional(object({ genres: optional(array(genreCountSchema)), languages: optional(array(languageCountSchema)) }))
+  })(value, path, issues);
+  // The home page always renders these two shelves.
+  return { ...out, sections: { ...out.sections, new: out.sections.new || [], upcoming: out.sections.upcoming || [] } };
+};
+
+const paged = {
+  page: number(1),
+  pageSize: number(),
+  total: number(),
+  hasMore: boolean()
+};
+
+export const browsePayloadSchema: Schema<BrowsePayload> = object({
+  ...paged,
+  generatedAt: optional(string()),
+  movies: movieList,
+  filters: optional(
+    object({ lang: optional(nullable(string())), genre: optional(nullable(string())), includeDubs: optional(boolean()) })
+  )
+});
+
+const providerFacetSchema: Schema<ProviderFacet> = object({
+  provider: string(),
+  count: number(),
+  logo: optional(string()),
+  lastVerifiedAt: optional(string())
+});
+
+export const streamingPayloadSchema: Schema<StreamingPayload> = object({
+  ...paged,
+  generatedAt: string(),
+  filters: object({
+    provider: nullable(string()),
+    lang: nullable(string()),
+    genre: nullable(string()),
+    region: nullable(string())
+  }),
+  providers: array(providerFacetSchema),
+  lastVerifiedAt: optional(nullable(string())),
+  movies: movieList,
+  series: array(seriesSchema)
+});
+
+export const searchPayloadSchema: Schema<SearchPayload> = object({
+  movies: movieList,
+  persons: array(personProfileSchema),
+  series: array(seriesSchema),
+  source: optional(oneOf(['local', 'providers'] as const, 'local')),
+  didYouMean: optional(string())
+});
@@ -6,7 +6,8 @@ export interface Song {
   singers: string[];
   youtubeUrl?: string;
   platform?: 'YouTube' | 'Spotify' | 'JioSaavn' | 'Gaana' | 'Apple Music' | string;
-  duration?: string;
+  duration?: string; // "m:ss", from the album tracklist
+  fieldSources?: Record<string, string>; // provider per field for reconciled tracklists
 }
 
 export interface OttOffer {
@@ -34,6 +35,17 @@ export interface ReviewItem {
   excerpt: string;
 }
 
+// A dubbed or simultaneous language release of a film. The original language comes first with
+// `original: true`; `ottProviders` (when known) names which of the movie's offers carry that audio.
+export interface MovieVersion {
+  language: Language;
+  title: string;
+  releaseDate?: string;
+  original: boolean;
+  ottProviders?: string[];
+  source?: string;
+}
+
 export interface CastMember {
   personId?: string;
   name: string;
@@ -44,12 +56,47 @@ export interface CastMember {
   profileImage?: string;
 }
 
+export interface CrewCredit {
+  personId?: string;
+  name: string;
+  department: string; // 'Directing' | 'Writing' | 'Music' | 'Camera' | 'Editing' | 'Production' | 'Choreography' | 'Action'
+  job: string; // e.g. 'Music Director', 'Lyricist', 'Cinematographer'
+  tmdbId?: number;
+  profileImage?: string;
+}
+
+export interface StudioRef {
+  slug: string; // `/studio/:slug`
+  name: string;
+  logo?: string;
+}
+
+export interface CollectionMovieStub {
+  id: string;
+  title: string;
+  releaseDate?: string;
+  poster?: string;
+}
+
+export interface CollectionRef {
+  slug: string; // `/collection/:slug`
+  name: string;
+  kind: 'collection' | 'universe'; // TMDB franchise | admin-curated universe
+  position: number; // 1-based, release order
+  total: number;
+  chronoOrder?: number; // admin-set place in story order
+  source?: string; // 'tmdb' | 'admin'
+  prev?: CollectionMovieStub;
+  next?: CollectionMovieStub;
+}
+
 export interface Movie {
   id: string;
   title: string;
   language: Language;
   synopsis: string;
   cast: CastMember[];
+  crew?: CrewCredit[];
   director: string;
   writers?: string[];
   genres: string[];
@@ -64,6 +111,9 @@ export interface Movie {
   trailerUrl?: string;
   ott?: OttOffer[];
   ottLastVerifiedAt?: string; // ISO time; derived from cached OTT offers
+  versions?: MovieVersion[]; // empty when the film has no known dubbed releases
+  studios?: StudioRef[]; // production houses, in credit order
+  collections?: CollectionRef[]; // franchises / universes listing at least one other title
   songs?: Song[];
   ratings?: RatingSource[];
   reviews?: ReviewItem[];
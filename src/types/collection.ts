@@ -0,0 +1,22 @@
+import type { Movie } from '../types';
+
+export interface Collection {
+  id: string; // 'tmdb-collection:<id>' | 'universe:<slug>'
+  tmdbId?: number;
+  slug: string;
+  name: string;
+  kind: 'collection' | 'universe';
+  overview: string;
+  poster?: string;
+  backdrop?: string;
+  movies: Movie[]; // release order
+  chronological: string[]; // movie ids in story order (release order where none is set)
+  hasChronology: boolean; // an admin set a story order for at least one title
+}
+
+export interface CollectionSummary {
+  slug: string;
+  name: string;
+  kind: 'collection' | 'universe';
+  movieCount: number;
+}
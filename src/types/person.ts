@@ -3,6 +3,8 @@ export interface FilmographyItem {
   title: string;
   mediaType?: string;
   character?: string;
+  department?: string; // 'Acting' for cast credits, else the crew department ('Music', 'Camera', ...)
+  job?: string; // 'Actor' or a crew job such as 'Music Director'
   releaseDate?: string | null;
   poster?: string;
 }
@@ -0,0 +1,61 @@
+import type { CastMember, Language, OttOffer } from '../types';
+
+export interface SeasonSummary {
+  seasonNumber: number; // 0 is TMDB's "Specials"
+  name: string;
+  synopsis: string;
+  airDate?: string;
+  episodeCount: number;
+  poster?: string;
+}
+
+export interface Series {
+  id: string; // 'tmdb-tv:<id>'
+  tmdbId?: number;
+  title: string;
+  language: Language;
+  synopsis: string;
+  creators: string[];
+  networks: string[];
+  genres: string[];
+  firstAirDate?: string;
+  lastAirDate?: string;
+  status?: string; // TMDB status, e.g. 'Returning Series' or 'Ended'
+  seasonCount: number;
+  episodeCount?: number;
+  poster: string;
+  backdrop?: string;
+  trailerUrl?: string;
+  rating?: number;
+  seasons: SeasonSummary[];
+  cast: CastMember[]; // aggregated across the stored seasons
+  ott?: OttOffer[];
+  ottLastVerifiedAt?: string;
+  sources?: string[];
+}
+
+export interface Episode {
+  episodeNumber: number;
+  title: string;
+  synopsis: string;
+  airDate?: string;
+  runtimeMinutes?: number;
+  still?: string;
+}
+
+export interface Season {
+  seriesId: string;
+  seriesTmdbId?: number;
+  seriesTitle: string;
+  language: Language;
+  seasonNumber: number;
+  name: string;
+  synopsis: string;
+  airDate?: string;
+  episodeCount: number;
+  poster: string;
+  backdrop?: string;
+  episodes: Episode[];
+  cast: CastMember[];
+  seasonNumbers: number[]; // every stored season of the series, for prev/next links
+}
@@ -0,0 +1,14 @@
+import type { Language, Movie } from '../types';
+
+export interface Studio {
+  id: string; // 'tmdb-company:<id>'
+  tmdbId?: number;
+  slug: string;
+  name: string;
+  logo?: string;
+  originCountry?: string;
+  movieCount: number;
+  languages: { language: Language; count: number }[]; // most titles first
+  upcoming: Movie[]; // soonest first
+  filmography: Movie[]; // released titles, newest first
+}
@@ -11,3 +11,19 @@ export function personPathFromTmdbId(id: number | string): string {
   return `/person/${encodeURIComponent(String(id))}`;
 }
 
+
+export function seriesPathFromSeriesId(id: string): string {
+  return `/series/${encodeURIComponent(tmdbNumericFromCompoundId(id))}`;
+}
+
+export function studioPathFromSlug(slug: string): string {
+  return `/studio/${encodeURIComponent(slug)}`;
+}
+
+export function collectionPathFromSlug(slug: string): string {
+  return `/collection/${encodeURIComponent(slug)}`;
+}
+
+export function seasonPathFromSeriesId(id: string, seasonNumber: number): string {
+  return `${seriesPathFromSeriesId(id)}/season/${seasonNumber}`;
+}